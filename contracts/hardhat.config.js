@@ -12,6 +12,11 @@ export default {
     },
   },
   networks: {
+    localhost: {
+      type: "http",
+      url: "http://127.0.0.1:8545",
+      chainId: 31337,
+    },
     sepolia: {
       type: "http",
       url: process.env.SEPOLIA_RPC_URL || "https://rpc.sepolia.org",
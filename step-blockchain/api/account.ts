@@ -0,0 +1,556 @@
+/**
+ * Account API
+ *
+ * Read-only wallet endpoints backing the mobile Balance screen.
+ *
+ * Endpoints:
+ * - GET /account/:address - Balance, nonce and recent rewards
+ * - GET /account/:address/rewards?limit={limit}&cursor={cursor} - Paginated reward history
+ * - GET /account/:address/stats - Reward totals per level and per triangle
+ * - GET /account/:address/transfers?direction={in|out|all} - Paginated transfer history
+ *
+ * Data sources:
+ * - accounts: Balance (micro-STEP integer string) and nonce
+ * - triangle_events: 'click' events are the reward history
+ *   (served by the account + timestamp index)
+ * - transfers: Signed transfer ledger (from/to + createdAt indexes)
+ *
+ * Why cursor pagination:
+ * - triangle_events is append-only and grows without bound
+ * - Offset pagination skips/duplicates rows while new proofs arrive
+ * - Cursor (timestamp, _id) is stable and index-friendly
+ */
+
+import { Router, Request, Response } from 'express';
+import { Account, Triangle, TriangleEvent, Transfer, canonicalAddress, type ITriangleEvent } from '../core/state/schemas.js';
+import { formatStepAmount } from '../core/state/amounts.js';
+import { decodeTriangleId } from '../core/mesh/addressing.js';
+
+const router = Router();
+
+/**
+ * Error codes for structured error responses.
+ */
+const ErrorCode = {
+  INVALID_ADDRESS: 'INVALID_ADDRESS',
+  ACCOUNT_NOT_FOUND: 'ACCOUNT_NOT_FOUND',
+  INVALID_CURSOR: 'INVALID_CURSOR',
+  INVALID_PARAMS: 'INVALID_PARAMS',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+} as const;
+
+/**
+ * Number of recent rewards embedded in GET /account/:address.
+ */
+const RECENT_REWARDS_LIMIT = 10;
+
+/**
+ * Page size bounds for GET /account/:address/rewards.
+ */
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Reward history entry (matches mobile BalanceScreen Transaction shape).
+ */
+interface RewardEntry {
+  id: string;
+  timestamp: string; // ISO 8601
+  triangleId: string;
+  reward: string; // Decimal string
+  clickNumber?: number;
+  type: 'mine';
+}
+
+/**
+ * Validate Ethereum-style address (same rule as Account schema).
+ *
+ * @param address - Candidate address
+ * @returns True if 0x-prefixed 40-hex-char address
+ */
+function isValidAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+}
+
+/**
+ * Encode pagination cursor from the last returned event.
+ *
+ * Format: base64url(JSON { t: ISO timestamp, id: event _id })
+ *
+ * @param timestamp - Event timestamp
+ * @param id - Event _id (tie-breaker for identical timestamps)
+ * @returns Opaque cursor string
+ */
+function encodeCursor(timestamp: Date, id: string): string {
+  return Buffer.from(JSON.stringify({ t: timestamp.toISOString(), id })).toString('base64url');
+}
+
+/**
+ * Decode pagination cursor.
+ *
+ * @param cursor - Opaque cursor from a previous response
+ * @returns Decoded position, or null if malformed
+ */
+function decodeCursor(cursor: string): { timestamp: Date; id: string } | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    const timestamp = new Date(parsed.t);
+
+    if (typeof parsed.id !== 'string' || isNaN(timestamp.getTime())) {
+      return null;
+    }
+
+    return { timestamp, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a click event to a reward history entry.
+ *
+ * @param event - Lean TriangleEvent document
+ * @returns RewardEntry
+ */
+function toRewardEntry(event: Pick<ITriangleEvent, '_id' | 'timestamp' | 'triangleId' | 'payload'>): RewardEntry {
+  return {
+    id: event._id,
+    timestamp: new Date(event.timestamp).toISOString(),
+    triangleId: event.triangleId,
+    reward: event.payload?.reward || '0',
+    clickNumber: event.payload?.clickNumber,
+    type: 'mine',
+  };
+}
+
+/**
+ * Resolve triangle level for stats grouping.
+ *
+ * Prefers the stored Triangle document; falls back to decoding the ID.
+ *
+ * @param triangleId - Encoded triangle ID
+ * @param storedLevels - Levels loaded from the triangles collection
+ * @returns Level (1-21) or null if unknown
+ */
+function resolveLevel(triangleId: string, storedLevels: Map<string, number>): number | null {
+  const stored = storedLevels.get(triangleId);
+  if (stored !== undefined) {
+    return stored;
+  }
+
+  try {
+    return decodeTriangleId(triangleId).level;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /account/:address
+ *
+ * Get balance and recent rewards for a wallet.
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   address: "0x...",
+ *   balance: "2.500000",
+ *   balanceUnits: "2500000",
+ *   nonce: 0,
+ *   totalProofs: 5,
+ *   lastProofAt: "2025-10-03T16:50:00.123Z",
+ *   transactions: [{ id, timestamp, triangleId, reward, clickNumber, type: "mine" }],
+ *   timestamp: "2025-10-03T16:50:00.123Z"
+ * }
+ *
+ * Error responses:
+ * - 404 ACCOUNT_NOT_FOUND: No proof or transfer has touched the address yet
+ *   (read-only: looking an address up never creates its account)
+ */
+router.get('/:address', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const address = canonicalAddress(req.params.address);
+
+  if (!isValidAddress(address)) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_ADDRESS,
+      message: 'Address must be 42-char hex string starting with 0x',
+      timestamp,
+    });
+  }
+
+  try {
+    const account = await Account.findById(address).lean();
+
+    if (!account) {
+      return res.status(404).json({
+        ok: false,
+        code: ErrorCode.ACCOUNT_NOT_FOUND,
+        message: `Account not found: ${address}`,
+        timestamp,
+      });
+    }
+
+    const [recent, totalProofs] = await Promise.all([
+      TriangleEvent.find({ account: address, eventType: 'click' })
+        .sort({ timestamp: -1, _id: -1 })
+        .limit(RECENT_REWARDS_LIMIT)
+        .lean(),
+      TriangleEvent.countDocuments({ account: address, eventType: 'click' }),
+    ]);
+
+    return res.json({
+      ok: true,
+      address,
+      balance: formatStepAmount(account.balance),
+      balanceUnits: account.balance,
+      nonce: account.nonce,
+      totalProofs,
+      lastProofAt: recent.length > 0 ? new Date(recent[0].timestamp).toISOString() : undefined,
+      transactions: recent.map(toRewardEntry),
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error loading account ${address}:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * GET /account/:address/rewards
+ *
+ * Cursor-paginated reward history (newest first).
+ *
+ * Query params:
+ * - limit: Page size (default 20, max 100)
+ * - cursor: nextCursor from a previous page (omit for first page)
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   address: "0x...",
+ *   rewards: [{ id, timestamp, triangleId, reward, clickNumber, type }],
+ *   nextCursor: "eyJ0Ijoi..." | null,
+ *   timestamp: "..."
+ * }
+ */
+router.get('/:address/rewards', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const address = canonicalAddress(req.params.address);
+  const { limit, cursor } = req.query;
+
+  if (!isValidAddress(address)) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_ADDRESS,
+      message: 'Address must be 42-char hex string starting with 0x',
+      timestamp,
+    });
+  }
+
+  const pageSize = limit ? parseInt(limit as string, 10) : DEFAULT_PAGE_SIZE;
+  if (isNaN(pageSize) || pageSize < 1) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_PARAMS,
+      message: 'limit must be a positive integer',
+      timestamp,
+    });
+  }
+
+  const filter: Record<string, any> = { account: address, eventType: 'click' };
+
+  if (cursor) {
+    const position = decodeCursor(cursor as string);
+    if (!position) {
+      return res.status(400).json({
+        ok: false,
+        code: ErrorCode.INVALID_CURSOR,
+        message: 'Malformed cursor',
+        timestamp,
+      });
+    }
+
+    // Strictly older than the cursor position; _id breaks timestamp ties
+    filter.$or = [
+      { timestamp: { $lt: position.timestamp } },
+      { timestamp: position.timestamp, _id: { $lt: position.id } },
+    ];
+  }
+
+  try {
+    const size = Math.min(pageSize, MAX_PAGE_SIZE);
+
+    // Fetch one extra row to know whether another page exists
+    const events = await TriangleEvent.find(filter)
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(size + 1)
+      .lean();
+
+    const page = events.slice(0, size);
+    const last = page[page.length - 1];
+    const nextCursor = events.length > size && last
+      ? encodeCursor(new Date(last.timestamp), last._id)
+      : null;
+
+    return res.json({
+      ok: true,
+      address,
+      rewards: page.map(toRewardEntry),
+      nextCursor,
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error loading rewards for ${address}:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * GET /account/:address/stats
+ *
+ * Reward totals grouped by triangle level and by triangle.
+ *
+ * Why micro-STEP sums:
+ * - Rewards are stored as decimal strings on each event
+ * - Summing integer units matches how balances are credited (reward * 1e6)
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   address: "0x...",
+ *   totalProofs: 12,
+ *   totalRewards: "3.250000",
+ *   byLevel: [{ level: 10, proofs: 7, rewards: "0.013671", triangles: 2 }],
+ *   byTriangle: [{ triangleId, level, proofs, rewards, firstProofAt, lastProofAt }],
+ *   timestamp: "..."
+ * }
+ */
+router.get('/:address/stats', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const address = canonicalAddress(req.params.address);
+
+  if (!isValidAddress(address)) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_ADDRESS,
+      message: 'Address must be 42-char hex string starting with 0x',
+      timestamp,
+    });
+  }
+
+  try {
+    const perTriangle: Array<{
+      _id: string;
+      proofs: number;
+      rewardUnits: number;
+      firstProofAt: Date;
+      lastProofAt: Date;
+    }> = await TriangleEvent.aggregate([
+      { $match: { account: address, eventType: 'click' } },
+      {
+        $group: {
+          _id: '$triangleId',
+          proofs: { $sum: 1 },
+          rewardUnits: {
+            $sum: {
+              $toLong: {
+                $round: [{ $multiply: [{ $toDouble: { $ifNull: ['$payload.reward', '0'] } }, 1e6] }, 0],
+              },
+            },
+          },
+          firstProofAt: { $min: '$timestamp' },
+          lastProofAt: { $max: '$timestamp' },
+        },
+      },
+      { $sort: { proofs: -1, _id: 1 } },
+    ]);
+
+    const stored = await Triangle.find({ _id: { $in: perTriangle.map(t => t._id) } })
+      .select('_id level')
+      .lean();
+    const storedLevels = new Map<string, number>(stored.map((t) => [t._id, t.level]));
+
+    const levelTotals = new Map<number, { proofs: number; rewardUnits: bigint; triangles: number }>();
+    let totalProofs = 0;
+    let totalUnits = 0n;
+
+    const byTriangle = perTriangle.map((row) => {
+      const level = resolveLevel(row._id, storedLevels);
+      const units = BigInt(row.rewardUnits);
+
+      totalProofs += row.proofs;
+      totalUnits += units;
+
+      if (level !== null) {
+        const bucket = levelTotals.get(level) || { proofs: 0, rewardUnits: 0n, triangles: 0 };
+        bucket.proofs += row.proofs;
+        bucket.rewardUnits += units;
+        bucket.triangles += 1;
+        levelTotals.set(level, bucket);
+      }
+
+      return {
+        triangleId: row._id,
+        level,
+        proofs: row.proofs,
+        rewards: formatStepAmount(units),
+        firstProofAt: new Date(row.firstProofAt).toISOString(),
+        lastProofAt: new Date(row.lastProofAt).toISOString(),
+      };
+    });
+
+    const byLevel = Array.from(levelTotals.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([level, bucket]) => ({
+        level,
+        proofs: bucket.proofs,
+        rewards: formatStepAmount(bucket.rewardUnits),
+        triangles: bucket.triangles,
+      }));
+
+    return res.json({
+      ok: true,
+      address,
+      totalProofs,
+      totalRewards: formatStepAmount(totalUnits),
+      byLevel,
+      byTriangle,
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error computing stats for ${address}:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * GET /account/:address/transfers
+ *
+ * Cursor-paginated transfer history (newest first).
+ *
+ * Query params:
+ * - direction: "in" | "out" | "all" (default "all")
+ * - limit: Page size (default 20, max 100)
+ * - cursor: nextCursor from a previous page (omit for first page)
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   address: "0x...",
+ *   transfers: [{ id, from, to, amount, nonce, direction, createdAt }],
+ *   nextCursor: "eyJ0Ijoi..." | null,
+ *   timestamp: "..."
+ * }
+ */
+router.get('/:address/transfers', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const address = canonicalAddress(req.params.address);
+  const { limit, cursor } = req.query;
+  const direction = (req.query.direction as string) || 'all';
+
+  if (!isValidAddress(address)) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_ADDRESS,
+      message: 'Address must be 42-char hex string starting with 0x',
+      timestamp,
+    });
+  }
+
+  const pageSize = limit ? parseInt(limit as string, 10) : DEFAULT_PAGE_SIZE;
+  if (isNaN(pageSize) || pageSize < 1 || !['in', 'out', 'all'].includes(direction)) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_PARAMS,
+      message: 'limit must be a positive integer and direction one of in, out, all',
+      timestamp,
+    });
+  }
+
+  const filter: Record<string, any> = direction === 'in'
+    ? { to: address }
+    : direction === 'out'
+      ? { from: address }
+      : { $or: [{ from: address }, { to: address }] };
+
+  if (cursor) {
+    const position = decodeCursor(cursor as string);
+    if (!position) {
+      return res.status(400).json({
+        ok: false,
+        code: ErrorCode.INVALID_CURSOR,
+        message: 'Malformed cursor',
+        timestamp,
+      });
+    }
+
+    filter.$and = [{
+      $or: [
+        { createdAt: { $lt: position.timestamp } },
+        { createdAt: position.timestamp, _id: { $lt: position.id } },
+      ],
+    }];
+  }
+
+  try {
+    const size = Math.min(pageSize, MAX_PAGE_SIZE);
+
+    const transfers = await Transfer.find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(size + 1)
+      .lean();
+
+    const page = transfers.slice(0, size);
+    const last = page[page.length - 1];
+    const nextCursor = transfers.length > size && last
+      ? encodeCursor(new Date(last.createdAt), last._id)
+      : null;
+
+    return res.json({
+      ok: true,
+      address,
+      transfers: page.map((t) => ({
+        id: t._id,
+        from: t.from,
+        to: t.to,
+        amount: formatStepAmount(t.amount),
+        nonce: t.nonce,
+        direction: t.from === address ? 'out' : 'in',
+        createdAt: new Date(t.createdAt).toISOString(),
+      })),
+      nextCursor,
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error loading transfers for ${address}:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,336 @@
+/**
+ * Admin API
+ *
+ * Operator endpoints for reviewing suspected sybil clusters
+ * (see core/validator/sybil.ts).
+ *
+ * Authentication:
+ * - Authorization: Bearer <ADMIN_API_TOKEN>
+ * - Without ADMIN_API_TOKEN every endpoint answers 503 (admin API disabled)
+ *
+ * Endpoints:
+ * - GET /admin/sybil/clusters?status={status}&limit={limit} - Detection status, counts and clusters
+ * - GET /admin/sybil/clusters/:id - One cluster with its links
+ * - POST /admin/sybil/clusters/:id/status - Confirm, dismiss or reopen a cluster
+ * - POST /admin/sybil/detect - Run detection now
+ * - GET /admin/sybil/accounts/:address - Clusters and reward throttle of an account
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { SybilCluster } from '../core/state/schemas.js';
+import { getRewardThrottle, runSybilDetection, sybilDetectionStatus } from '../core/validator/sybil.js';
+
+const router = Router();
+
+/**
+ * Error codes for structured error responses.
+ */
+const ErrorCode = {
+  ADMIN_DISABLED: 'ADMIN_DISABLED',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  INVALID_PARAMS: 'INVALID_PARAMS',
+  CLUSTER_NOT_FOUND: 'CLUSTER_NOT_FOUND',
+  DETECTION_RUNNING: 'DETECTION_RUNNING',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+} as const;
+
+/**
+ * Valid cluster status values.
+ */
+const STATUSES = ['suspected', 'confirmed', 'dismissed'];
+
+/**
+ * Page size bounds for GET /admin/sybil/clusters.
+ */
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Hash a token so comparison runs in constant time regardless of length.
+ */
+function tokenDigest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/**
+ * Middleware: require the admin bearer token.
+ */
+function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+  const timestamp = new Date().toISOString();
+  const expected = process.env.ADMIN_API_TOKEN;
+
+  if (!expected) {
+    return res.status(503).json({
+      ok: false,
+      code: ErrorCode.ADMIN_DISABLED,
+      message: 'Admin API disabled (ADMIN_API_TOKEN not set)',
+      timestamp,
+    });
+  }
+
+  const header = req.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  if (!token || !timingSafeEqual(tokenDigest(token), tokenDigest(expected))) {
+    return res.status(401).json({
+      ok: false,
+      code: ErrorCode.UNAUTHORIZED,
+      message: 'Missing or invalid admin token',
+      timestamp,
+    });
+  }
+
+  return next();
+}
+
+router.use(requireAdminToken);
+
+/**
+ * Convert a cluster document to API shape.
+ *
+ * @param cluster - Lean SybilCluster document
+ * @param withLinks - Include the pairwise links
+ * @returns Cluster with ISO dates
+ */
+function toClusterResponse(cluster: any, withLinks: boolean) {
+  const iso = (d: Date | null) => (d ? new Date(d).toISOString() : null);
+  return {
+    id: cluster._id,
+    status: cluster.status,
+    accounts: cluster.accounts,
+    score: cluster.score,
+    linkCount: cluster.links.length,
+    links: withLinks ? cluster.links : undefined,
+    firstDetectedAt: iso(cluster.firstDetectedAt),
+    lastDetectedAt: iso(cluster.lastDetectedAt),
+    reviewedAt: iso(cluster.reviewedAt),
+    reviewedBy: cluster.reviewedBy,
+    note: cluster.note,
+  };
+}
+
+/**
+ * Respond 500 and log the error.
+ */
+function internalError(res: Response, timestamp: string, context: string, error: unknown) {
+  console.error(`[${timestamp}] Error ${context}:`, error);
+
+  return res.status(500).json({
+    ok: false,
+    code: ErrorCode.INTERNAL_ERROR,
+    message: error instanceof Error ? error.message : 'Internal server error',
+    timestamp,
+  });
+}
+
+/**
+ * GET /admin/sybil/clusters
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   detection: { enabled, running, intervalMs, config, lastRunAt, lastReport, ... },
+ *   counts: { suspected: 3, confirmed: 1, dismissed: 2 },
+ *   clusters: [{ id, status, accounts, score, linkCount, firstDetectedAt, ... }],
+ *   timestamp: "..."
+ * }
+ */
+router.get('/sybil/clusters', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const status = req.query.status as string | undefined;
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_PAGE_SIZE;
+
+  if ((status && !STATUSES.includes(status)) || isNaN(limit) || limit < 1) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_PARAMS,
+      message: `status must be one of ${STATUSES.join(', ')}; limit must be a positive integer`,
+      timestamp,
+    });
+  }
+
+  try {
+    const [grouped, clusters] = await Promise.all([
+      SybilCluster.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+      SybilCluster.find(status ? { status } : {})
+        .sort({ lastDetectedAt: -1 })
+        .limit(Math.min(limit, MAX_PAGE_SIZE))
+        .lean(),
+    ]);
+
+    const counts: Record<string, number> = Object.fromEntries(STATUSES.map((s) => [s, 0]));
+    for (const row of grouped) {
+      counts[row._id] = row.count;
+    }
+
+    return res.json({
+      ok: true,
+      detection: sybilDetectionStatus(),
+      counts,
+      clusters: clusters.map((cluster) => toClusterResponse(cluster, false)),
+      timestamp,
+    });
+  } catch (error) {
+    return internalError(res, timestamp, 'loading sybil clusters', error);
+  }
+});
+
+/**
+ * GET /admin/sybil/clusters/:id
+ *
+ * Response (200): { ok: true, cluster: { ..., links: [{ accounts, score, signals }] }, timestamp }
+ */
+router.get('/sybil/clusters/:id', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const cluster = await SybilCluster.findById(req.params.id).lean();
+    if (!cluster) {
+      return res.status(404).json({
+        ok: false,
+        code: ErrorCode.CLUSTER_NOT_FOUND,
+        message: `Cluster ${req.params.id} not found`,
+        timestamp,
+      });
+    }
+
+    return res.json({ ok: true, cluster: toClusterResponse(cluster, true), timestamp });
+  } catch (error) {
+    return internalError(res, timestamp, 'loading sybil cluster', error);
+  }
+});
+
+/**
+ * POST /admin/sybil/clusters/:id/status
+ *
+ * Request body:
+ * {
+ *   status: "confirmed" | "dismissed" | "suspected",
+ *   note?: string,        // Review note
+ *   reviewedBy?: string   // Reviewer name (free text)
+ * }
+ *
+ * Confirmed clusters get SYBIL_THROTTLE_CONFIRMED, dismissed clusters are
+ * not throttled and not re-raised unless a new account joins.
+ *
+ * Response (200): { ok: true, cluster: { ... }, timestamp }
+ */
+router.post('/sybil/clusters/:id/status', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const { status, note, reviewedBy } = req.body ?? {};
+
+  if (
+    !STATUSES.includes(status) ||
+    (note !== undefined && typeof note !== 'string') ||
+    (reviewedBy !== undefined && typeof reviewedBy !== 'string')
+  ) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_PARAMS,
+      message: `status must be one of ${STATUSES.join(', ')}; note and reviewedBy must be strings`,
+      timestamp,
+    });
+  }
+
+  try {
+    const cluster = await SybilCluster.findByIdAndUpdate(
+      req.params.id,
+      {
+        $set: {
+          status,
+          reviewedAt: new Date(timestamp),
+          reviewedBy: reviewedBy ?? null,
+          ...(note !== undefined && { note }),
+        },
+      },
+      { new: true }
+    ).lean();
+
+    if (!cluster) {
+      return res.status(404).json({
+        ok: false,
+        code: ErrorCode.CLUSTER_NOT_FOUND,
+        message: `Cluster ${req.params.id} not found`,
+        timestamp,
+      });
+    }
+
+    console.log(`[${timestamp}] [sybil] Cluster ${cluster._id} marked ${status}${reviewedBy ? ` by ${reviewedBy}` : ''}`);
+
+    return res.json({ ok: true, cluster: toClusterResponse(cluster, true), timestamp });
+  } catch (error) {
+    return internalError(res, timestamp, 'updating sybil cluster', error);
+  }
+});
+
+/**
+ * POST /admin/sybil/detect
+ *
+ * Response (200): { ok: true, report: { scanned, linkedPairs, clusters, created, updated, skipped, ... }, timestamp }
+ * Response (409): a detection run is already in progress
+ */
+router.post('/sybil/detect', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const report = await runSybilDetection();
+    if (!report) {
+      return res.status(409).json({
+        ok: false,
+        code: ErrorCode.DETECTION_RUNNING,
+        message: 'Sybil detection is already running',
+        timestamp,
+      });
+    }
+
+    return res.json({ ok: true, report, timestamp });
+  } catch (error) {
+    return internalError(res, timestamp, 'running sybil detection', error);
+  }
+});
+
+/**
+ * GET /admin/sybil/accounts/:address
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   account: "0x...",
+ *   throttle: { clusterId, status, multiplier } | null,  // Applied to the next reward
+ *   clusters: [{ id, status, accounts, ... }],
+ *   timestamp: "..."
+ * }
+ */
+router.get('/sybil/accounts/:address', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const account = req.params.address.toLowerCase();
+
+  if (!/^0x[a-f0-9]{40}$/.test(account)) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_PARAMS,
+      message: 'address must be a 0x-prefixed 20-byte hex address',
+      timestamp,
+    });
+  }
+
+  try {
+    const [throttle, clusters] = await Promise.all([
+      getRewardThrottle(account),
+      SybilCluster.find({ accounts: account }).sort({ lastDetectedAt: -1 }).lean(),
+    ]);
+
+    return res.json({
+      ok: true,
+      account,
+      throttle,
+      clusters: clusters.map((cluster) => toClusterResponse(cluster, false)),
+      timestamp,
+    });
+  } catch (error) {
+    return internalError(res, timestamp, 'loading account clusters', error);
+  }
+});
+
+export default router;
@@ -0,0 +1,175 @@
+/**
+ * Anchors API
+ *
+ * On-chain anchoring status of sealed blocks (see core/chain/anchor-service.ts).
+ *
+ * Endpoints:
+ * - GET /anchors?status={status}&limit={limit} - Service status, counts and recent anchors
+ * - GET /anchors/:height - Anchor status for one block
+ */
+
+import { Router, Request, Response } from 'express';
+import { Anchor } from '../core/state/schemas.js';
+import { anchorServiceStatus } from '../core/chain/anchor-service.js';
+
+const router = Router();
+
+/**
+ * Error codes for structured error responses.
+ */
+const ErrorCode = {
+  INVALID_PARAMS: 'INVALID_PARAMS',
+  ANCHOR_NOT_FOUND: 'ANCHOR_NOT_FOUND',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+} as const;
+
+/**
+ * Valid status filter values.
+ */
+const STATUSES = ['queued', 'sent', 'confirmed', 'failed'];
+
+/**
+ * Page size bounds for GET /anchors.
+ */
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Convert an anchor document to API shape.
+ *
+ * @param anchor - Lean Anchor document
+ * @returns Anchor status with ISO dates
+ */
+function toAnchorResponse(anchor: any) {
+  const iso = (d: Date | null) => (d ? new Date(d).toISOString() : null);
+  return {
+    height: anchor._id,
+    contentHash: anchor.contentHash,
+    status: anchor.status,
+    attempts: anchor.attempts,
+    nextAttemptAt: anchor.status === 'queued' ? iso(anchor.nextAttemptAt) : null,
+    txHash: anchor.txHash,
+    sentAt: iso(anchor.sentAt),
+    confirmedAt: iso(anchor.confirmedAt),
+    chainBlockNumber: anchor.chainBlockNumber,
+    chainId: anchor.chainId,
+    contractAddress: anchor.contractAddress,
+    lastError: anchor.lastError,
+  };
+}
+
+/**
+ * GET /anchors
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   service: { enabled, running, contractAddress, operator, chainId, ... },
+ *   counts: { queued: 0, sent: 1, confirmed: 41, failed: 0 },
+ *   anchors: [{ height, contentHash, status, attempts, txHash, ... }],
+ *   timestamp: "..."
+ * }
+ */
+router.get('/', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const status = req.query.status as string | undefined;
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_PAGE_SIZE;
+
+  if ((status && !STATUSES.includes(status)) || isNaN(limit) || limit < 1) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_PARAMS,
+      message: `status must be one of ${STATUSES.join(', ')}; limit must be a positive integer`,
+      timestamp,
+    });
+  }
+
+  try {
+    const [grouped, anchors] = await Promise.all([
+      Anchor.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+      Anchor.find(status ? { status } : {})
+        .sort({ _id: -1 })
+        .limit(Math.min(limit, MAX_PAGE_SIZE))
+        .lean(),
+    ]);
+
+    const counts: Record<string, number> = Object.fromEntries(STATUSES.map((s) => [s, 0]));
+    for (const row of grouped) {
+      counts[row._id] = row.count;
+    }
+
+    return res.json({
+      ok: true,
+      service: anchorServiceStatus(),
+      counts,
+      anchors: anchors.map(toAnchorResponse),
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error loading anchors:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * GET /anchors/:height
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   anchor: { height, contentHash, status, attempts, txHash, chainBlockNumber, ... },
+ *   timestamp: "..."
+ * }
+ *
+ * Error responses:
+ * - 404 ANCHOR_NOT_FOUND: Block not sealed yet or not yet queued
+ */
+router.get('/:height', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const height = /^\d+$/.test(req.params.height) ? parseInt(req.params.height, 10) : NaN;
+
+  if (isNaN(height) || height < 1) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_PARAMS,
+      message: 'height must be a positive integer',
+      timestamp,
+    });
+  }
+
+  try {
+    const anchor = await Anchor.findById(height).lean();
+
+    if (!anchor) {
+      return res.status(404).json({
+        ok: false,
+        code: ErrorCode.ANCHOR_NOT_FOUND,
+        message: `No anchor for block ${height}`,
+        timestamp,
+      });
+    }
+
+    return res.json({
+      ok: true,
+      anchor: toAnchorResponse(anchor),
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error loading anchor ${height}:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+export default router;
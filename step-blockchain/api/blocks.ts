@@ -0,0 +1,258 @@
+/**
+ * Blocks API
+ *
+ * Read-only access to the sealed block chain for explorers and auditors.
+ *
+ * Endpoints:
+ * - GET /blocks/latest - Chain tip header
+ * - GET /blocks/:height - Block header by height
+ * - GET /blocks/:height/events?limit={limit}&offset={offset} - Events sealed in a block
+ *
+ * Auditing a block:
+ * 1. Recompute each event's leaf: hashLeaf(canonicalJson(event)) (core/chain/merkle.ts)
+ * 2. MerkleRoot(leaves) must equal header.eventsRoot
+ * 3. keccak256(canonicalJson(header)) must equal hash
+ * 4. signature must recover to header.producer
+ * 5. parentHash must equal hash of block height-1
+ * 6. stateRoot anchors account/triangle proofs from GET /state/proof/*
+ *
+ * Why offset pagination here (unlike /account):
+ * - Sealed blocks are immutable, so offsets are stable
+ */
+
+import { Router, Request, Response } from 'express';
+import { Block, TriangleEvent } from '../core/state/schemas.js';
+import { hashLeaf, toHex } from '../core/chain/merkle.js';
+import { eventLeafData } from '../core/chain/block-producer.js';
+
+const router = Router();
+
+/**
+ * Error codes for structured error responses.
+ */
+const ErrorCode = {
+  INVALID_PARAMS: 'INVALID_PARAMS',
+  BLOCK_NOT_FOUND: 'BLOCK_NOT_FOUND',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+} as const;
+
+/**
+ * Page size bounds for GET /blocks/:height/events.
+ */
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Convert a block document to API shape.
+ *
+ * @param block - Lean Block document
+ * @returns Block header with hash and signature
+ */
+function toBlockResponse(block: any) {
+  return {
+    height: block._id,
+    hash: block.hash,
+    parentHash: block.parentHash,
+    stateRoot: block.stateRoot,
+    eventsRoot: block.eventsRoot,
+    eventCount: block.eventCount,
+    timestamp: new Date(block.timestamp).toISOString(),
+    producer: block.producer,
+    signature: block.signature,
+  };
+}
+
+/**
+ * Parse a block height path parameter.
+ *
+ * @param value - Raw path parameter
+ * @returns Height (≥ 1) or null if invalid
+ */
+function parseHeight(value: string): number | null {
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+  const height = parseInt(value, 10);
+  return Number.isSafeInteger(height) && height >= 1 ? height : null;
+}
+
+/**
+ * GET /blocks/latest
+ *
+ * Get the chain tip.
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   block: { height, hash, parentHash, stateRoot, eventsRoot, eventCount, timestamp, producer, signature },
+ *   timestamp: "..."
+ * }
+ *
+ * Error responses:
+ * - 404 BLOCK_NOT_FOUND: No blocks sealed yet
+ */
+router.get('/latest', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const block = await Block.findOne().sort({ _id: -1 }).lean();
+
+    if (!block) {
+      return res.status(404).json({
+        ok: false,
+        code: ErrorCode.BLOCK_NOT_FOUND,
+        message: 'No blocks have been produced yet',
+        timestamp,
+      });
+    }
+
+    return res.json({
+      ok: true,
+      block: toBlockResponse(block),
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error loading latest block:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * GET /blocks/:height
+ *
+ * Get a block header by height.
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   block: { height, hash, parentHash, stateRoot, eventsRoot, eventCount, timestamp, producer, signature },
+ *   timestamp: "..."
+ * }
+ */
+router.get('/:height', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const height = parseHeight(req.params.height);
+
+  if (height === null) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_PARAMS,
+      message: 'height must be a positive integer',
+      timestamp,
+    });
+  }
+
+  try {
+    const block = await Block.findById(height).lean();
+
+    if (!block) {
+      return res.status(404).json({
+        ok: false,
+        code: ErrorCode.BLOCK_NOT_FOUND,
+        message: `Block not found: ${height}`,
+        timestamp,
+      });
+    }
+
+    return res.json({
+      ok: true,
+      block: toBlockResponse(block),
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error loading block ${height}:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * GET /blocks/:height/events
+ *
+ * Get events sealed in a block, in Merkle leaf order.
+ *
+ * Query params:
+ * - limit: Page size (default 100, max 1000)
+ * - offset: Leaf index to start from (default 0)
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   height: 42,
+ *   eventCount: 250,
+ *   offset: 0,
+ *   events: [{ index, leafHash, event: { _id, triangleId, eventType, timestamp, account, nonce, signature, payload } }],
+ *   timestamp: "..."
+ * }
+ */
+router.get('/:height/events', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const height = parseHeight(req.params.height);
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_PAGE_SIZE;
+  const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : 0;
+
+  if (height === null || isNaN(limit) || limit < 1 || isNaN(offset) || offset < 0) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_PARAMS,
+      message: 'height and limit must be positive integers; offset must be non-negative',
+      timestamp,
+    });
+  }
+
+  try {
+    const block = await Block.findById(height).lean();
+
+    if (!block) {
+      return res.status(404).json({
+        ok: false,
+        code: ErrorCode.BLOCK_NOT_FOUND,
+        message: `Block not found: ${height}`,
+        timestamp,
+      });
+    }
+
+    // Same order the producer used to build the Merkle tree
+    const events = await TriangleEvent.find({ blockHeight: height })
+      .sort({ timestamp: 1, _id: 1 })
+      .skip(offset)
+      .limit(Math.min(limit, MAX_PAGE_SIZE))
+      .select('-__v -blockHeight')
+      .lean();
+
+    return res.json({
+      ok: true,
+      height,
+      eventCount: block.eventCount,
+      offset,
+      events: events.map((event, i) => ({
+        index: offset + i,
+        leafHash: toHex(hashLeaf(eventLeafData(event))),
+        event,
+      })),
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error loading events for block ${height}:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+export default router;
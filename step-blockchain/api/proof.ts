@@ -15,34 +15,44 @@
  * 
  * Security model:
  * - Signature verification prevents impersonation
- * - Nonce uniqueness prevents replay attacks
+ * - Server-issued, single-use challenges prevent replay and precomputed proofs
  * - Transactions prevent double-spend under concurrency
  * - Geospatial checks prevent out-of-bounds mining
  * - Heuristics catch basic spoofing (teleportation, rapid-fire)
+ * - Rewards of suspected sybil clusters are throttled (core/validator/sybil.ts)
  */
 
 import express, { Router, Request, Response } from 'express';
-import { Triangle, TriangleEvent, Account, getOrCreateAccount, updateBalance } from '../core/state/schemas.js';
+import {
+  Triangle,
+  TriangleEvent,
+  Account,
+  canonicalAddress,
+  getOrCreateAccount,
+  isDuplicateKeyError,
+  updateBalance,
+  type ITriangle,
+} from '../core/state/schemas.js';
 import type { ProofPayload, ProofPayloadV2 } from '../core/validator/signature.js';
 import { verifySignature, isProofPayloadV2 } from '../core/validator/signature.js';
 import {
-  isPointInTriangle,
   validateGpsAccuracy,
-  validateSpeedGate,
-  validateMoratorium,
+  triangleAccuracyOverlap,
+  maxAccuracyForLevel,
   getConfig as getValidatorConfig,
 } from '../core/validator/geometry.js';
 import { 
   getChildrenIds, 
   decodeTriangleId, 
-  encodeTriangleId 
+  encodeTriangleId,
 } from '../core/mesh/addressing.js';
-import { triangleIdToPolygon, triangleIdToCentroid } from '../core/mesh/polygon.js';
 import {
   computeConfidence,
   shouldAccept,
   getRejectionReasons,
   getConfidenceLevel,
+  getRemediationHints,
+  type ConfidenceScores,
   type ValidationResults,
 } from '../core/validator/confidence.js';
 import {
@@ -54,10 +64,68 @@ import {
   verifyGnssRaw,
   type GnssResult,
 } from '../core/validator/gnss.js';
+import { checkSkyGeometry, gnssAlmanacStatus, type SkyCheckResult } from '../core/validator/gnss-almanac.js';
 import {
   verifyCellTower,
   type CellTowerResult,
 } from '../core/validator/cell-tower.js';
+import {
+  verifyWifi,
+  learnWifiAccessPoints,
+  type WifiResult,
+} from '../core/validator/wifi.js';
+import {
+  verifyWitnesses,
+  recordWitnessAttestations,
+  type WitnessResult,
+  type WitnessSubmission,
+} from '../core/validator/witness.js';
+import {
+  issueProofChallenge,
+  verifyChallengeRequest,
+  checkProofChallenge,
+  redeemProofChallenge,
+  isChallengeRequired,
+  isIssuedChallenge,
+  getChallengeConfig,
+  ChallengeError,
+} from '../core/validator/challenge.js';
+import {
+  checkProofAge,
+  batchEvaluationOrder,
+  isOfflineNonceAllowed,
+  getBatchConfig,
+} from '../core/validator/batch.js';
+import {
+  resolveConfidencePolicy,
+  confidencePolicyStatus,
+  type AppliedPolicy,
+} from '../core/validator/confidence-policy.js';
+import { buildProofEvidence } from '../core/validator/evidence.js';
+import { checkAccountMovement, serializeAccountProof, ProofConflictError } from '../core/validator/account-lock.js';
+import { assessAccountTrajectory, getTrajectoryConfig, type TrajectoryResult } from '../core/validator/trajectory.js';
+import { getRewardThrottle, type RewardThrottle } from '../core/validator/sybil.js';
+import {
+  checkSensorReplay,
+  recordSensorFingerprints,
+  getSensorReplayConfig,
+  type SensorReplayResult,
+} from '../core/validator/sensor-replay.js';
+import { runValidatorPlugins, validatorPluginStatus } from '../core/validator/plugins.js';
+import {
+  checkMineable,
+  activateIfDue,
+  stateAfterClick,
+  triangleLifecycleStatus,
+} from '../core/state/triangle-lifecycle.js';
+import {
+  verifyTriangleClaim,
+  materializeTriangle,
+  resolveTriangleAt,
+  buildTriangle,
+  MaterializeError,
+  type TriangleResolution,
+} from '../core/state/materialize.js';
 
 const router = Router();
 
@@ -78,9 +146,21 @@ const ErrorCode = {
   ATTESTATION_REQUIRED: 'ATTESTATION_REQUIRED',  // Phase 2.5: Missing attestation
   ATTESTATION_FAILED: 'ATTESTATION_FAILED',  // Phase 2.5: Attestation verification failed
   NONCE_REPLAY: 'NONCE_REPLAY',
+  INVALID_CHALLENGE: 'INVALID_CHALLENGE',  // Nonce not issued by /proof/challenge for this account
+  CHALLENGE_EXPIRED: 'CHALLENGE_EXPIRED',
+  CHALLENGE_USED: 'CHALLENGE_USED',
+  TOO_MANY_CHALLENGES: 'TOO_MANY_CHALLENGES',
   TOO_FAST: 'TOO_FAST',
   MORATORIUM: 'MORATORIUM',
+  TRIANGLE_PENDING: 'TRIANGLE_PENDING',  // Triangle still in its 168h moratorium
+  TRIANGLE_COOLDOWN: 'TRIANGLE_COOLDOWN',  // Inter-mine delay since the last click not elapsed
+  TRIANGLE_SUBDIVIDED: 'TRIANGLE_SUBDIVIDED',  // Mine a child triangle instead
+  TRIANGLE_EXHAUSTED: 'TRIANGLE_EXHAUSTED',
   TRIANGLE_NOT_FOUND: 'TRIANGLE_NOT_FOUND',
+  INVALID_TRIANGLE_ID: 'INVALID_TRIANGLE_ID',  // Bad format or checksum
+  TRIANGLE_NOT_OPEN: 'TRIANGLE_NOT_OPEN',  // Ancestor chain not subdivided yet
+  PROOF_TOO_OLD: 'PROOF_TOO_OLD',  // Batch item older than PROOF_BATCH_MAX_AGE_MS
+  PROOF_IN_FUTURE: 'PROOF_IN_FUTURE',  // Batch item timestamp ahead of server time
   INTERNAL_ERROR: 'INTERNAL_ERROR',
 } as const;
 
@@ -175,585 +255,1162 @@ function calculateReward(level: number): string {
 }
 
 /**
- * POST /proof/submit
- * 
- * Submit a location proof for validation and token reward.
- * 
+ * Map a challenge rejection to HTTP status and API error code.
+ *
+ * @param error - Challenge error from core/validator/challenge.ts
+ * @returns Status and error code
+ */
+function challengeErrorStatus(error: ChallengeError): { status: number; code: string } {
+  switch (error.code) {
+    case 'TOO_MANY_CHALLENGES':
+      return { status: 429, code: ErrorCode.TOO_MANY_CHALLENGES };
+    case 'CHALLENGE_USED':
+      return { status: 409, code: ErrorCode.CHALLENGE_USED };
+    case 'CHALLENGE_REQUEST_REPLAYED':
+      return { status: 409, code: ErrorCode.NONCE_REPLAY };
+    case 'CHALLENGE_EXPIRED':
+    case 'PROOF_TIME_OUTSIDE_CHALLENGE':
+      return { status: 422, code: ErrorCode.CHALLENGE_EXPIRED };
+    default:
+      return { status: 422, code: ErrorCode.INVALID_CHALLENGE };
+  }
+}
+
+/**
+ * POST /proof/challenge
+ *
+ * Issue a short-lived, single-use nonce for the next proof of an account.
+ *
+ * The nonce must be used as payload.nonce AND as the attestation nonce
+ * (mobile: generateAttestationToken(nonce)), so the attestation token is
+ * bound to a challenge the server issued moments ago.
+ *
+ * The request is signed by the account, so nobody else can exhaust its
+ * outstanding challenge limits. Signed message (EIP-191):
+ * STEP-CHALLENGE-v1|account:{lowercase account}|offline:{true|false}|ts:{timestamp}
+ *
  * Request body:
  * {
- *   payload: ProofPayload,  // See core/validator/signature.ts
- *   signature: string       // 65-byte hex signature
+ *   account: "0x...",
+ *   offline?: true,   // Long-lived challenge for a proof made without coverage (POST /proof/batch only)
+ *   timestamp: "2025-10-03T16:50:00.000Z",   // Within PROOF_CHALLENGE_REQUEST_MAX_AGE_MS of server time
+ *   signature: "0x..."   // 65-byte EIP-191 signature of the message above
  * }
- * 
+ *
  * Success response (200):
  * {
  *   ok: true,
- *   reward: "0.5",
- *   unit: "STEP",
- *   triangleId: "STEP-TRI-v1:...",
- *   level: 10,
- *   clicks: 5,
- *   balance: "2.5",
- *   processedAt: "2025-10-03T16:50:00.123Z"
- * }
- * 
- * Error response (4xx/5xx):
- * {
- *   ok: false,
- *   code: "ERROR_CODE",
- *   message: "Human-readable error message",
- *   timestamp: "2025-10-03T16:50:00.123Z"
+ *   nonce: "9f86d081...",           // 64 hex chars
+ *   account: "0x...",
+ *   issuedAt: "2025-10-03T16:50:00.000Z",
+ *   expiresAt: "2025-10-03T16:52:00.000Z",
+ *   ttlMs: 120000,                  // PROOF_OFFLINE_CHALLENGE_TTL_MS for offline challenges
+ *   offline: false,
+ *   timestamp: "2025-10-03T16:50:00.000Z"
  * }
+ *
+ * Errors: 400 INVALID_PAYLOAD, 401 BAD_SIGNATURE, 409 NONCE_REPLAY, 429 TOO_MANY_CHALLENGES
  */
-router.post('/submit', async (req: Request, res: Response) => {
+router.post('/challenge', async (req: Request, res: Response) => {
   const timestamp = new Date().toISOString();
-  
+
   try {
-    // ========================================================================
-    // Step 1: Validate request structure
-    // ========================================================================
-    
-    const { payload, signature } = req.body;
-    
-    if (!payload || !signature) {
-      return res.status(400).json({
-        ok: false,
-        code: ErrorCode.INVALID_PAYLOAD,
-        message: 'Missing payload or signature',
-        timestamp,
-      });
-    }
-    
-    // Validate payload fields (support v1 and v2)
-    const version = payload.version;
-    const account = payload.account;
-    const triangleId = payload.triangleId;
-    const proofTimestamp = payload.timestamp;
-    const nonce = payload.nonce;
-    
-    // Extract location (works for v1 and v2)
-    const { lat, lon, accuracy } = extractLocation(payload);
-    
+    const { account, offline = false, timestamp: requestedAt, signature } = req.body || {};
+
     if (
-      !version ||
-      !account ||
-      !triangleId ||
-      lat === undefined ||
-      lon === undefined ||
-      accuracy === undefined ||
-      !proofTimestamp ||
-      !nonce
+      typeof account !== 'string' ||
+      !/^0x[a-fA-F0-9]{40}$/.test(account) ||
+      typeof offline !== 'boolean' ||
+      typeof requestedAt !== 'string' ||
+      typeof signature !== 'string'
     ) {
       return res.status(400).json({
         ok: false,
         code: ErrorCode.INVALID_PAYLOAD,
-        message: 'Missing required payload fields',
+        message: 'account must be a 0x-prefixed 20-byte hex address; offline must be a boolean; timestamp and signature are required',
         timestamp,
       });
     }
-    
-    // Support both v1 and v2 payloads
-    if (version !== 'STEP-PROOF-v1' && version !== 'STEP-PROOF-v2') {
-      return res.status(400).json({
+
+    const verification = await verifyChallengeRequest({ account, offline, timestamp: requestedAt }, signature);
+    if (!verification.ok) {
+      console.warn(`[${timestamp}] Proof challenge request rejected for ${account}: ${verification.error}`);
+      return res.status(verification.stale ? 400 : 401).json({
         ok: false,
-        code: ErrorCode.INVALID_PAYLOAD,
-        message: `Unsupported proof version: ${version}`,
+        code: verification.stale ? ErrorCode.INVALID_PAYLOAD : ErrorCode.BAD_SIGNATURE,
+        message: verification.error,
         timestamp,
       });
     }
-    
-    // ========================================================================
-    // Step 2: Validate GPS accuracy
-    // ========================================================================
-    // Why before DB: Fail fast on obvious issues to reduce load
-    
-    if (!validateGpsAccuracy(accuracy)) {
-      const config = getValidatorConfig();
-      return res.status(422).json({
-        ok: false,
-        code: ErrorCode.LOW_GPS_ACCURACY,
-        message: `GPS accuracy ${accuracy}m exceeds maximum ${config.GPS_MAX_ACCURACY_M}m. Move outdoors for better signal.`,
-        timestamp,
-      });
+
+    const challenge = await issueProofChallenge(account, offline, new Date(requestedAt));
+    const config = getChallengeConfig();
+
+    console.log(`[${timestamp}] Proof ${offline ? 'offline ' : ''}challenge issued for ${challenge.account}`);
+
+    return res.status(200).json({
+      ok: true,
+      nonce: challenge._id,
+      account: challenge.account,
+      issuedAt: challenge.issuedAt.toISOString(),
+      expiresAt: challenge.expiresAt.toISOString(),
+      ttlMs: offline ? config.offlineTtlMs : config.ttlMs,
+      offline,
+      timestamp,
+    });
+
+  } catch (error) {
+    if (error instanceof ChallengeError) {
+      const { status, code } = challengeErrorStatus(error);
+      console.warn(`[${timestamp}] Proof challenge refused: ${error.message}`);
+      return res.status(status).json({ ok: false, code, message: error.message, timestamp });
     }
-    
-    // ========================================================================
-    // Step 3: Verify signature
-    // ========================================================================
-    // Why before DB: Prevent unauthorized submissions from hitting DB
-    
-    console.log(`[${timestamp}] Verifying signature for ${account}...`);
-    
-    const sigResult = await verifySignature(payload, signature, account);
-    
-    if (!sigResult.ok) {
-      console.warn(`[${timestamp}] Signature verification failed:`, sigResult.error);
-      return res.status(401).json({
-        ok: false,
-        code: ErrorCode.BAD_SIGNATURE,
-        message: sigResult.error || 'Signature verification failed',
-        timestamp,
-      });
+
+    console.error(`[${timestamp}] Error issuing proof challenge:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * One hard check of the proof pipeline, as reported by /proof/preflight.
+ */
+interface ProofCheck {
+  check: string;
+  ok: boolean;
+  code?: string;
+  message?: string;
+  details?: Record<string, unknown>;  // retryAt, ancestorId, reasons, ...
+}
+
+/**
+ * First failed check, as /proof/submit reports it.
+ */
+interface ProofRejection {
+  status: number;
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;  // Extra response fields
+}
+
+/**
+ * Proof as submitted (/proof/submit, /proof/preflight, each /proof/batch item).
+ *
+ * Comes straight from the request body; evaluateProof checks every field.
+ */
+interface ProofSubmission {
+  payload?: ProofPayload | ProofPayloadV2;
+  signature?: string;
+  witnesses?: WitnessSubmission[];
+}
+
+/**
+ * Validated proof context, handed from evaluateProof to the transaction.
+ */
+export interface EvaluatedProof {
+  payload: ProofPayload | ProofPayloadV2;
+  signature: string;
+  account: string;
+  nonce: string;
+  lat: number;
+  lon: number;
+  accuracy: number;
+  proofTimestamp: string;
+  challengeBound: boolean;  // Nonce is a server challenge to redeem (false: client nonce)
+  offline: boolean;  // Batch item: offline challenges accepted
+  triangleId?: string;  // Always set once the triangle check passed
+  triangle?: ITriangle;
+  resolution?: TriangleResolution;
+  maxAccuracy?: number;  // Accuracy limit at the triangle's level (meters)
+  speed?: number;  // m/s since the previous proof
+  attestationResult?: AttestationResult;
+  gnssResult?: GnssResult;
+  gnssSkyResult?: SkyCheckResult;
+  cellTowerResult?: CellTowerResult;
+  wifiResult?: WifiResult;
+  witnessResult?: WitnessResult;
+  trajectoryResult?: TrajectoryResult;
+  sensorReplayResult?: SensorReplayResult;
+  validationResults: ValidationResults;  // Scoring input (persisted as evidence for re-scoring)
+  confidenceResult: ConfidenceScores;
+  confidenceScore: number;
+  policy: AppliedPolicy;  // Confidence policy version and rules used for scoring
+}
+
+/**
+ * Result of running the proof pipeline.
+ */
+interface ProofEvaluation {
+  rejection: ProofRejection | null;
+  checks: ProofCheck[];
+  proof?: EvaluatedProof;  // Missing for malformed requests and (submit) early rejections
+}
+
+/**
+ * Run the /proof/submit validation pipeline (everything before the transaction).
+ * 
+ * Submit mode stops at the first failed check. Dry-run mode (/proof/preflight)
+ * keeps going so every check and component score is reported, and writes
+ * nothing: triangles are not materialized, App Attest keys are not stored
+ * or advanced, and the challenge is only checked, never redeemed.
+ * 
+ * Offline mode (/proof/batch items) adds the age window and accepts client
+ * nonces in place of server challenges (see core/validator/batch.ts).
+ * 
+ * @param body - Request body { payload, signature, witnesses? }
+ * @param timestamp - Request timestamp (log prefix)
+ * @param options - dryRun: evaluate only (preflight); offline: batch item
+ * @returns Rejection (first failure), checks and validated context
+ */
+async function evaluateProof(
+  body: ProofSubmission | undefined,
+  timestamp: string,
+  { dryRun = false, offline = false }: { dryRun?: boolean; offline?: boolean } = {}
+): Promise<ProofEvaluation> {
+  const evaluation: ProofEvaluation = { rejection: null, checks: [] };
+  
+  // Record a failed check; true when evaluation must stop (submit mode)
+  const fail = (
+    check: string,
+    status: number,
+    code: string,
+    message: string,
+    details?: Record<string, unknown>
+  ): boolean => {
+    evaluation.checks.push({ check, ok: false, code, message, details });
+    if (!evaluation.rejection) {
+      evaluation.rejection = { status, code, message, details };
     }
-    
+    return !dryRun;
+  };
+  const pass = (check: string) => {
+    evaluation.checks.push({ check, ok: true });
+  };
+  
+  // ========================================================================
+  // Step 1: Validate request structure
+  // ========================================================================
+  // Malformed requests stop evaluation in both modes
+  
+  const { payload, signature, witnesses } = body || {};
+  
+  if (!payload || !signature) {
+    fail('payload', 400, ErrorCode.INVALID_PAYLOAD, 'Missing payload or signature');
+    return evaluation;
+  }
+  
+  if (witnesses !== undefined && !Array.isArray(witnesses)) {
+    fail('payload', 400, ErrorCode.INVALID_PAYLOAD, 'witnesses must be an array of { attestation, signature }');
+    return evaluation;
+  }
+  
+  // Validate payload fields (support v1 and v2)
+  const version = payload.version;
+  // Ledger key: lowercase, the form the signed message commits to
+  const account = typeof payload.account === 'string' ? canonicalAddress(payload.account) : '';
+  const claimedTriangleId: string | undefined = payload.triangleId;  // Omitted in location-only mode
+  const proofTimestamp = payload.timestamp;
+  const nonce = payload.nonce;
+  
+  // Extract location (works for v1 and v2)
+  const { lat, lon, accuracy } = extractLocation(payload);
+  
+  if (
+    !version ||
+    !account ||
+    (claimedTriangleId !== undefined && (typeof claimedTriangleId !== 'string' || !claimedTriangleId)) ||
+    lat === undefined ||
+    lon === undefined ||
+    accuracy === undefined ||
+    !proofTimestamp ||
+    isNaN(Date.parse(proofTimestamp)) ||
+    !nonce
+  ) {
+    fail('payload', 400, ErrorCode.INVALID_PAYLOAD, 'Missing required payload fields');
+    return evaluation;
+  }
+  
+  // Support both v1 and v2 payloads
+  if (version !== 'STEP-PROOF-v1' && version !== 'STEP-PROOF-v2') {
+    fail('payload', 400, ErrorCode.INVALID_PAYLOAD, `Unsupported proof version: ${version}`);
+    return evaluation;
+  }
+  
+  pass('payload');
+  
+  // Offline batch items: bounded age instead of a live challenge window
+  if (offline) {
+    const ageResult = checkProofAge(proofTimestamp);
+    if (ageResult.ok) {
+      pass('age');
+    } else if (fail('age', 422, ErrorCode[ageResult.code!], ageResult.error!)) {
+      return evaluation;
+    }
+  }
+  
+  // Basic validation results (always present); failed checks clear their flag below
+  const validationResults: ValidationResults = {
+    signatureValid: true,
+    gpsAccuracyOk: true,
+    speedGateOk: true,
+    moratoriumOk: true,
+    attestationValid: false,  // Will check below
+    gnssRawOk: false,  // Phase 2.5 Week 2
+    cellTowerOk: false,  // Phase 2.5 Week 3
+    wifiOk: false,  // Phase 2.5 Week 3 (optional)
+    witnessValid: false,  // Phase 3
+  };
+  
+  // ========================================================================
+  // Step 2: Validate GPS accuracy
+  // ========================================================================
+  // Why before DB: Fail fast on obvious issues to reduce load
+  
+  if (validateGpsAccuracy(accuracy)) {
+    pass('gpsAccuracy');
+  } else {
+    const config = getValidatorConfig();
+    validationResults.gpsAccuracyOk = false;
+    if (fail(
+      'gpsAccuracy',
+      422,
+      ErrorCode.LOW_GPS_ACCURACY,
+      `GPS accuracy ${accuracy}m exceeds maximum ${config.GPS_MAX_ACCURACY_M}m. Move outdoors for better signal.`
+    )) {
+      return evaluation;
+    }
+  }
+  
+  // ========================================================================
+  // Step 3: Verify signature
+  // ========================================================================
+  // Why before DB: Prevent unauthorized submissions from hitting DB
+  
+  console.log(`[${timestamp}] Verifying signature for ${account}...`);
+  
+  const sigResult = await verifySignature(payload, signature, account);
+  
+  if (sigResult.ok) {
     console.log(`[${timestamp}] Signature valid for ${account}`);
-    
-    // ========================================================================
-    // Step 4: Check nonce replay (pre-check)
-    // ========================================================================
-    // Why: Fast rejection before expensive DB operations
-    // Note: Final check happens inside transaction with unique index
-    
-    const existingNonce = await TriangleEvent.findOne({
-      account,
-      nonce,
-    }).lean();
-    
-    if (existingNonce) {
-      console.warn(`[${timestamp}] Nonce replay detected: ${account} / ${nonce}`);
-      return res.status(409).json({
-        ok: false,
-        code: ErrorCode.NONCE_REPLAY,
-        message: 'Nonce already used. Each proof must have unique nonce.',
-        timestamp,
-      });
+    pass('signature');
+  } else {
+    console.warn(`[${timestamp}] Signature verification failed:`, sigResult.error);
+    validationResults.signatureValid = false;
+    if (fail('signature', 401, ErrorCode.BAD_SIGNATURE, sigResult.error || 'Signature verification failed')) {
+      return evaluation;
     }
-    
-    // ========================================================================
-    // Step 5: Fetch triangle (for now, create mock if not exists)
-    // ========================================================================
-    // TODO Phase 2: Replace with real mesh lookup after mesh is populated
-    
-    let triangle = await Triangle.findById(triangleId);
-    
-    if (!triangle) {
-      // For MVP: Create mock triangle
-      // In production: This would be an error (triangle must pre-exist in mesh)
-      console.log(`[${timestamp}] Triangle not found, creating mock: ${triangleId}`);
-      
-      // Extract level from triangle ID (simplified)
-      // Real format: STEP-TRI-v1:L{level}:...
-      const levelMatch = triangleId.match(/L(\d+)/);
-      const level = levelMatch ? parseInt(levelMatch[1], 10) : 10;
-      
-      triangle = new Triangle({
-        _id: triangleId,
-        face: 0,
-        level,
-        pathEncoded: '0',
-        parentId: null,
-        childrenIds: [],
-        state: 'active',
-        clicks: 0,
-        moratoriumStartAt: new Date(),
-        lastClickAt: null,
-        centroid: {
-          type: 'Point',
-          coordinates: [lon, lat],
-        },
-        polygon: {
-          type: 'Polygon',
-          coordinates: [
-            [
-              [lon - 0.01, lat - 0.01],
-              [lon + 0.01, lat - 0.01],
-              [lon, lat + 0.01],
-              [lon - 0.01, lat - 0.01],
-            ],
-          ],
-        },
-      });
-      
-      await triangle.save();
+  }
+  
+  // ========================================================================
+  // Step 4: Check nonce replay (pre-check)
+  // ========================================================================
+  // Why: Fast rejection before expensive DB operations
+  // Note: Final check happens inside transaction with unique index
+  
+  const existingNonce = await TriangleEvent.findOne({
+    account,
+    nonce,
+  }).lean();
+  
+  if (existingNonce) {
+    console.warn(`[${timestamp}] Nonce replay detected: ${account} / ${nonce}`);
+    if (fail('nonce', 409, ErrorCode.NONCE_REPLAY, 'Nonce already used. Each proof must have unique nonce.')) {
+      return evaluation;
     }
-    
-    // ========================================================================
-    // Step 6: Validate geometry (point-in-triangle)
-    // ========================================================================
-    
-    const inTriangle = isPointInTriangle(lat, lon, triangle.polygon);
-    
-    if (!inTriangle) {
-      console.warn(`[${timestamp}] Out of bounds: ${lat},${lon} not in ${triangleId}`);
-      return res.status(422).json({
-        ok: false,
-        code: ErrorCode.OUT_OF_BOUNDS,
-        message: 'Location is outside triangle boundary',
-        timestamp,
-      });
+  } else {
+    pass('nonce');
+  }
+  
+  // Server challenge pre-check (redeemed inside the transaction in Step 10; never in dry runs)
+  // Offline batch items carry offline challenges; client nonces only when
+  // PROOF_BATCH_OFFLINE_NONCES=true (they skip the challenge entirely)
+  let challengeBound = isChallengeRequired();
+  if (challengeBound && offline && isOfflineNonceAllowed()) {
+    challengeBound = await isIssuedChallenge(nonce);
+  }
+  
+  if (challengeBound) {
+    try {
+      await checkProofChallenge(nonce, account, proofTimestamp, offline);
+      pass('challenge');
+    } catch (error) {
+      if (!(error instanceof ChallengeError)) {
+        throw error;
+      }
+      const { status, code } = challengeErrorStatus(error);
+      console.warn(`[${timestamp}] Proof challenge rejected for ${account}: ${error.message}`);
+      if (fail('challenge', status, code, error.message)) {
+        return evaluation;
+      }
     }
+  }
+  
+  // ========================================================================
+  // Step 5: Resolve triangle (claimed ID or location-only)
+  // ========================================================================
+  // Claimed: the ID must decode and be the triangle the location resolves to
+  // at its level (pure computation, before DB), then it is loaded or
+  // materialized (new triangles require a fully subdivided ancestor chain).
+  // Location-only: the server walks the stored hierarchy to the deepest
+  // non-subdivided triangle containing the point. See core/state/materialize.ts
+  // Dry runs build new triangles in memory without saving them.
+  
+  let triangleId: string | undefined;
+  let triangle: ITriangle | undefined;
+  let resolution: TriangleResolution | undefined;
+  
+  try {
+    if (claimedTriangleId !== undefined) {
+      const claimedId = verifyTriangleClaim(claimedTriangleId, lat, lon);
+      triangle = await materializeTriangle(claimedId, !dryRun);
+      resolution = {
+        mode: 'claimed',
+        triangleId: claimedTriangleId,
+        level: claimedId.level,
+        subdividedAncestors: claimedId.level - 1,
+        reason: 'Triangle named in the signed payload',
+      };
+    } else {
+      ({ triangle, resolution } = await resolveTriangleAt(lat, lon, !dryRun));
+      console.log(`[${timestamp}] Location-only proof resolved to ${resolution.triangleId} (${resolution.reason})`);
+    }
+    triangleId = triangle._id;
+    pass('triangle');
+  } catch (error) {
+    if (!(error instanceof MaterializeError)) {
+      throw error;
+    }
+    console.warn(`[${timestamp}] Triangle rejected: ${claimedTriangleId ?? `location ${lat},${lon}`} (${error.message})`);
     
-    // ========================================================================
-    // Step 7: Load previous proof for heuristics
-    // ========================================================================
-    
-    const previousProof = await TriangleEvent.findOne({
-      account,
-      eventType: 'click',
-    })
-      .sort({ timestamp: -1 })
-      .lean();
+    const stop = error.code === 'ANCESTOR_NOT_SUBDIVIDED'
+      ? fail('triangle', 422, ErrorCode.TRIANGLE_NOT_OPEN, error.message, { ancestorId: error.ancestorId })
+      : fail(
+        'triangle',
+        error.code === 'INVALID_TRIANGLE_ID' ? 400 : 422,
+        error.code === 'INVALID_TRIANGLE_ID' ? ErrorCode.INVALID_TRIANGLE_ID : ErrorCode.OUT_OF_BOUNDS,
+        error.message
+      );
+    if (stop) {
+      return evaluation;
+    }
+  }
+  
+  // Accuracy against the resolved triangle: the limit shrinks with the
+  // triangle (maxAccuracyForLevel), and the share of the accuracy disc
+  // inside it scales the gpsAccuracy score (core/validator/geometry.ts)
+  
+  let maxAccuracy: number | undefined;
+  
+  if (triangle) {
+    maxAccuracy = maxAccuracyForLevel(triangle.level);
+    validationResults.triangleOverlap =
+      Math.round(triangleAccuracyOverlap(lat, lon, accuracy, triangle.polygon) * 1000) / 1000;
     
-    // ========================================================================
-    // Step 8: Validate heuristics (speed gate, moratorium)
-    // ========================================================================
+    if (accuracy <= maxAccuracy) {
+      pass('levelAccuracy');
+    } else {
+      validationResults.gpsAccuracyOk = false;
+      if (fail(
+        'levelAccuracy',
+        422,
+        ErrorCode.LOW_GPS_ACCURACY,
+        `GPS accuracy ${accuracy}m exceeds maximum ${maxAccuracy}m for level ${triangle.level} triangles. Wait for a better fix.`,
+        { level: triangle.level, maxAccuracy }
+      )) {
+        return evaluation;
+      }
+    }
+  }
+  
+  // ========================================================================
+  // Step 6: Triangle lifecycle (moratorium, inter-mine delay, terminal states)
+  // ========================================================================
+  // See core/state/triangle-lifecycle.ts and STEP_TOKENOMICS.md §3-4
+  // Skipped (dry run only) when no triangle resolved
+  
+  if (triangle) {
+    const mineCheck = checkMineable(triangle);
     
-    if (previousProof) {
-      // Speed gate check
-      const speedResult = validateSpeedGate(
-        {
-          lat: previousProof.payload.lat || 0,
-          lon: previousProof.payload.lon || 0,
-          timestamp: previousProof.timestamp.toISOString(),
-        },
-        {
-          lat,
-          lon,
-          timestamp: proofTimestamp,
-        }
-      );
-      
-      if (!speedResult.ok) {
-        console.warn(`[${timestamp}] Speed gate failed:`, speedResult.error);
-        return res.status(422).json({
-          ok: false,
-          code: ErrorCode.TOO_FAST,
-          message: speedResult.error,
-          timestamp,
-        });
+    if (mineCheck.ok) {
+      pass('lifecycle');
+    } else {
+      console.warn(`[${timestamp}] Triangle not mineable: ${triangleId} (${mineCheck.code})`);
+      if (fail('lifecycle', 422, ErrorCode[mineCheck.code!], mineCheck.error!, { retryAt: mineCheck.retryAt })) {
+        return evaluation;
       }
-      
-      // Moratorium check
-      const moratoriumResult = validateMoratorium(
-        previousProof.timestamp.toISOString(),
-        proofTimestamp
-      );
-      
-      if (!moratoriumResult.ok) {
-        console.warn(`[${timestamp}] Moratorium failed:`, moratoriumResult.error);
-        return res.status(422).json({
-          ok: false,
-          code: ErrorCode.MORATORIUM,
-          message: moratoriumResult.error,
-          timestamp,
-        });
+    }
+  }
+  
+  // ========================================================================
+  // Step 7: Load neighbouring proofs for heuristics
+  // ========================================================================
+  // The account's clicks just before and just after this proof's timestamp:
+  // offline batch items can arrive after proofs made later in time
+  
+  const here = { lat, lon, timestamp: proofTimestamp };
+  const movement = await checkAccountMovement(account, here);
+  
+  // ========================================================================
+  // Step 8: Validate heuristics (speed gate, moratorium)
+  // ========================================================================
+  // Checked on each leg: previous → this proof, this proof → next.
+  // Re-checked inside the transaction (core/validator/account-lock.ts):
+  // a concurrent proof of the same account may commit in between.
+  
+  const { speed, speedError, moratoriumError } = movement;
+  
+  if (movement.legs > 0) {
+    // Speed gate check
+    if (!speedError) {
+      pass('speedGate');
+    } else {
+      console.warn(`[${timestamp}] Speed gate failed:`, speedError);
+      validationResults.speedGateOk = false;
+      if (fail('speedGate', 422, ErrorCode.TOO_FAST, speedError)) {
+        return evaluation;
       }
     }
     
-    // ========================================================================
-    // Step 9: Phase 2.5 - Confidence Scoring (Anti-Spoofing)
-    // ========================================================================
-    // Why: Replace binary accept/reject with nuanced 0-100 confidence score.
-    // Combines multiple signals: signature, attestation, GPS, GNSS, cell, etc.
-    // Transparent: Users see their confidence score and rejection reasons.
-    
-    let attestationResult: AttestationResult | undefined;
-    let gnssResult: GnssResult | undefined;
-    let cellTowerResult: CellTowerResult | undefined;
-    let confidenceScore = 0;
-    let validationResults: ValidationResults;
-    
-    // Basic validation results (always present)
-    validationResults = {
-      signatureValid: true,  // Already verified in Step 3
-      gpsAccuracyOk: true,  // Already verified in Step 2
-      speedGateOk: true,  // Already verified in Step 8
-      moratoriumOk: true,  // Already verified in Step 8
-      attestationValid: false,  // Will check below
-      gnssRawOk: false,  // Phase 2.5 Week 2
-      cellTowerOk: false,  // Phase 2.5 Week 3
-      wifiOk: false,  // Phase 2.5 Week 3 (optional)
-      witnessValid: false,  // Phase 3
-    };
-    
-    // Check attestation (Phase 2.5 Week 1)
-    if (isProofPayloadV2(payload) && payload.attestation) {
-      const platform = detectPlatform(payload);
-      
-      // Skip attestation verification if platform is unknown (v2 payload but no device.os)
-      if (platform === 'unknown') {
-        console.warn(`[${timestamp}] Unknown platform, skipping attestation for ${account}`);
-      } else {
-        const expectedId = platform === 'android'
-          ? process.env.ANDROID_PACKAGE_NAME || 'com.stepblockchain.app'
-          : process.env.IOS_BUNDLE_ID || 'com.stepblockchain.app';
-        
-        try {
-          attestationResult = await verifyAttestation(
-            payload.attestation,
-            platform,
-            expectedId
-          );
-          validationResults.attestationValid = attestationResult.passed;
-          
-          console.log(`[${timestamp}] Attestation verified:`, {
-            platform,
-            passed: attestationResult.passed,
-            score: attestationResult.score,
-          });
-        } catch (error) {
-          console.warn(`[${timestamp}] Attestation verification error:`, error);
-          attestationResult = {
-            score: 0,
-            passed: false,
-            platform,
-            error: error instanceof Error ? error.message : 'Unknown error',
-            verifiedAt: new Date().toISOString(),
-          };
-        }
+    // Moratorium check
+    if (!moratoriumError) {
+      pass('moratorium');
+    } else {
+      console.warn(`[${timestamp}] Moratorium failed:`, moratoriumError);
+      validationResults.moratoriumOk = false;
+      if (fail('moratorium', 422, ErrorCode.MORATORIUM, moratoriumError)) {
+        return evaluation;
       }
-    } else if (isAttestationRequired()) {
-      // Attestation required but missing
-      console.warn(`[${timestamp}] Attestation required but missing for ${account}`);
-      return res.status(422).json({
-        ok: false,
-        code: ErrorCode.ATTESTATION_REQUIRED,
-        message: 'Hardware attestation is required. Please update your app.',
-        timestamp,
-      });
     }
+  }
+  
+  // ========================================================================
+  // Step 9: Phase 2.5 - Confidence Scoring (Anti-Spoofing)
+  // ========================================================================
+  // Why: Replace binary accept/reject with nuanced 0-100 confidence score.
+  // Combines multiple signals: signature, attestation, GPS, GNSS, cell, etc.
+  // Transparent: Users see their confidence score and rejection reasons.
+  
+  let attestationResult: AttestationResult | undefined;
+  let gnssResult: GnssResult | undefined;
+  let gnssSkyResult: SkyCheckResult | undefined;
+  let cellTowerResult: CellTowerResult | undefined;
+  let wifiResult: WifiResult | undefined;
+  let witnessResult: WitnessResult | undefined;
+  let trajectoryResult: TrajectoryResult | undefined;
+  let sensorReplayResult: SensorReplayResult | undefined;
+  
+  // Check attestation (Phase 2.5 Week 1)
+  if (isProofPayloadV2(payload) && payload.attestation) {
+    const platform = detectPlatform(payload);
     
-    // Check GNSS raw data (Phase 2.5 Week 2 - Android only)
-    if (isProofPayloadV2(payload) && payload.gnss) {
+    // Skip attestation verification if platform is unknown (v2 payload but no device.os)
+    if (platform === 'unknown') {
+      console.warn(`[${timestamp}] Unknown platform, skipping attestation for ${account}`);
+    } else {
+      const expectedId = platform === 'android'
+        ? process.env.ANDROID_PACKAGE_NAME || 'com.stepblockchain.app'
+        : process.env.IOS_BUNDLE_ID || 'com.stepblockchain.app';
+      
       try {
-        gnssResult = verifyGnssRaw(payload.gnss);
-        validationResults.gnssRawOk = gnssResult.passed;
-        validationResults.gnssRawScore = gnssResult.score;
+        attestationResult = await verifyAttestation(
+          payload.attestation,
+          platform,
+          expectedId,
+          nonce,
+          account,
+          dryRun
+        );
+        validationResults.attestationValid = attestationResult.passed;
         
-        console.log(`[${timestamp}] GNSS verified:`, {
-          satellites: gnssResult.satelliteCount,
-          constellations: gnssResult.constellations,
-          score: gnssResult.score,
-          passed: gnssResult.passed,
+        console.log(`[${timestamp}] Attestation verified:`, {
+          platform,
+          passed: attestationResult.passed,
+          score: attestationResult.score,
         });
-        
-        if (gnssResult.issues.length > 0) {
-          console.warn(`[${timestamp}] GNSS issues detected:`, gnssResult.issues);
-        }
       } catch (error) {
-        console.warn(`[${timestamp}] GNSS verification error:`, error);
-        // Non-critical - continue without GNSS score
+        console.warn(`[${timestamp}] Attestation verification error:`, error);
+        attestationResult = {
+          score: 0,
+          passed: false,
+          platform,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          verifiedAt: new Date().toISOString(),
+        };
       }
     }
-    
-    // Check cell tower (Phase 2.5 Week 3 - Android & iOS)
-    if (isProofPayloadV2(payload) && payload.cell) {
-      try {
-        cellTowerResult = await verifyCellTower(payload.cell, lat, lon);
-        validationResults.cellTowerOk = cellTowerResult.passed;
-        validationResults.cellTowerScore = cellTowerResult.score;
-        
-        console.log(`[${timestamp}] Cell tower verified:`, {
-          distance: cellTowerResult.distanceKm,
-          score: cellTowerResult.score,
-          passed: cellTowerResult.passed,
-        });
-        
-        if (cellTowerResult.issues.length > 0) {
-          console.warn(`[${timestamp}] Cell tower issues:`, cellTowerResult.issues);
+  } else if (isAttestationRequired()) {
+    // Attestation required but missing
+    console.warn(`[${timestamp}] Attestation required but missing for ${account}`);
+    if (fail('attestation', 422, ErrorCode.ATTESTATION_REQUIRED, 'Hardware attestation is required. Please update your app.')) {
+      return evaluation;
+    }
+  }
+  
+  // Check GNSS raw data (Phase 2.5 Week 2 - Android only)
+  if (isProofPayloadV2(payload) && payload.gnss) {
+    try {
+      gnssResult = verifyGnssRaw(payload.gnss);
+      validationResults.gnssRawOk = gnssResult.passed;
+      validationResults.gnssRawScore = gnssResult.score;
+      
+      console.log(`[${timestamp}] GNSS verified:`, {
+        satellites: gnssResult.satelliteCount,
+        constellations: gnssResult.constellations,
+        score: gnssResult.score,
+        passed: gnssResult.passed,
+      });
+      
+      if (gnssResult.issues.length > 0) {
+        console.warn(`[${timestamp}] GNSS issues detected:`, gnssResult.issues);
+      }
+      
+      // Compare reported satellites with the almanac sky (core/validator/gnss-almanac.ts)
+      gnssSkyResult = checkSkyGeometry(payload.gnss.satellites ?? [], lat, lon, proofTimestamp);
+      if (gnssSkyResult.checked) {
+        validationResults.gnssSkyOk = gnssSkyResult.passed;
+        
+        if (!gnssSkyResult.passed) {
+          console.warn(`[${timestamp}] GNSS sky geometry mismatch:`, gnssSkyResult.mismatches);
         }
-      } catch (error) {
-        console.warn(`[${timestamp}] Cell tower verification error:`, error);
-        // Non-critical - continue without cell tower score
       }
+    } catch (error) {
+      console.warn(`[${timestamp}] GNSS verification error:`, error);
+      // Non-critical - continue without GNSS score
     }
+  }
+  
+  // Check cell tower (Phase 2.5 Week 3 - Android & iOS)
+  if (isProofPayloadV2(payload) && payload.cell) {
+    try {
+      cellTowerResult = await verifyCellTower(payload.cell, lat, lon);
+      validationResults.cellTowerOk = cellTowerResult.passed;
+      validationResults.cellTowerScore = cellTowerResult.score;
+      
+      console.log(`[${timestamp}] Cell tower verified:`, {
+        distance: cellTowerResult.distanceKm,
+        score: cellTowerResult.score,
+        passed: cellTowerResult.passed,
+      });
+      
+      if (cellTowerResult.issues.length > 0) {
+        console.warn(`[${timestamp}] Cell tower issues:`, cellTowerResult.issues);
+      }
+    } catch (error) {
+      console.warn(`[${timestamp}] Cell tower verification error:`, error);
+      // Non-critical - continue without cell tower score
+    }
+  }
+  
+  // Check GNSS / cell snapshots against recently accepted proofs (core/validator/sensor-replay.ts)
+  if (isProofPayloadV2(payload) && (payload.gnss || payload.cell)) {
+    try {
+      const replay = await checkSensorReplay(payload, { account, lat, lon, provedAt: proofTimestamp });
+      sensorReplayResult = replay;
+      
+      for (const kind of ['gnss', 'cell'] as const) {
+        const result = replay[kind];
+        if (result?.replayed) {
+          validationResults.sensorReplay = {
+            ...validationResults.sensorReplay,
+            [kind]: { matches: result.matchCount, otherAccounts: result.otherAccounts },
+          };
+          console.warn(`[${timestamp}] ${kind.toUpperCase()} snapshot replayed (${result.matchCount} matches):`, result.matches);
+        }
+      }
+    } catch (error) {
+      console.warn(`[${timestamp}] Sensor replay check error:`, error);
+      // Non-critical - continue without replay penalty
+    }
+  }
+  
+  // Check Wi-Fi access points (Phase 2.5 Week 3 - optional, indoor)
+  if (isProofPayloadV2(payload) && payload.wifi && payload.wifi.length > 0) {
+    try {
+      wifiResult = await verifyWifi(payload.wifi, lat, lon);
+      validationResults.wifiOk = wifiResult.passed;
+      validationResults.wifiScore = wifiResult.score;
+      
+      console.log(`[${timestamp}] Wi-Fi verified:`, {
+        reported: wifiResult.reportedCount,
+        known: wifiResult.knownCount,
+        distance: wifiResult.distance,
+        score: wifiResult.score,
+        passed: wifiResult.passed,
+      });
+      
+      if (wifiResult.issues.length > 0) {
+        console.warn(`[${timestamp}] Wi-Fi issues:`, wifiResult.issues);
+      }
+    } catch (error) {
+      console.warn(`[${timestamp}] Wi-Fi verification error:`, error);
+      // Non-critical - continue without Wi-Fi score
+    }
+  }
+  
+  // Check witness co-attestations (Phase 3 - optional; needs the resolved triangle)
+  if (witnesses && witnesses.length > 0 && triangleId) {
+    try {
+      witnessResult = await verifyWitnesses(witnesses, {
+        account,
+        nonce,
+        triangleId,
+        lat,
+        lon,
+        timestamp: proofTimestamp,
+      });
+      validationResults.witnessValid = witnessResult.passed;
+      validationResults.witnessScore = witnessResult.score;
+      
+      console.log(`[${timestamp}] Witnesses verified:`, {
+        accepted: witnessResult.accepted.length,
+        rejected: witnessResult.rejected.length,
+        score: witnessResult.score,
+        passed: witnessResult.passed,
+      });
+      
+      if (witnessResult.rejected.length > 0) {
+        console.warn(`[${timestamp}] Witness rejections:`, witnessResult.rejected);
+      }
+    } catch (error) {
+      console.warn(`[${timestamp}] Witness verification error:`, error);
+      // Non-critical - continue without witness score
+    }
+  }
+  
+  // Check the account's proof history for anomalies (core/validator/trajectory.ts)
+  try {
+    trajectoryResult = await assessAccountTrajectory(account, { lat, lon, accuracy, timestamp: proofTimestamp });
+    validationResults.trajectoryRisk = trajectoryResult.riskScore;
     
-    // Compute confidence score
-    const confidenceResult = computeConfidence(validationResults);
-    confidenceScore = confidenceResult.total;
-    
-    console.log(`[${timestamp}] Confidence score: ${confidenceScore}/100`, {
-      level: getConfidenceLevel(confidenceScore),
-      scores: confidenceResult,
-    });
-    
-    // Check acceptance threshold
-    const accepted = shouldAccept(confidenceResult);
+    if (trajectoryResult.flags.length > 0) {
+      console.warn(`[${timestamp}] Trajectory anomalies (risk ${trajectoryResult.riskScore}):`, trajectoryResult.flags);
+    }
+  } catch (error) {
+    console.warn(`[${timestamp}] Trajectory analysis error:`, error);
+    // Non-critical - continue without trajectory penalty
+  }
+  
+  // Run registered validator plugins (core/validator/plugins.ts)
+  // Each has its own timeout; failures only cost that plugin's points
+  const pluginOutcomes = await runValidatorPlugins({
+    payload,
+    account,
+    lat,
+    lon,
+    accuracy,
+    timestamp: proofTimestamp,
+    triangleId,
+    level: triangle?.level,
+    dryRun,
+  });
+  if (Object.keys(pluginOutcomes).length > 0) {
+    validationResults.plugins = pluginOutcomes;
+  }
+  
+  // Confidence policy for this level / face path / region (core/validator/confidence-policy.ts)
+  const policy = resolveConfidencePolicy({
+    lat,
+    lon,
+    triangle: triangleId ? decodeTriangleId(triangleId) : undefined,
+  });
+  
+  // Compute confidence score
+  const confidenceResult = computeConfidence(validationResults, policy.config);
+  const confidenceScore = confidenceResult.total;
+  
+  console.log(`[${timestamp}] Confidence score: ${confidenceScore}/100`, {
+    level: getConfidenceLevel(confidenceScore),
+    scores: confidenceResult,
+    policy: { version: policy.version, rules: policy.rules },
+  });
+  
+  evaluation.proof = {
+    payload,
+    signature,
+    account,
+    nonce,
+    lat,
+    lon,
+    accuracy,
+    proofTimestamp,
+    challengeBound,
+    offline,
+    triangleId,
+    triangle,
+    resolution,
+    maxAccuracy,
+    speed,
+    attestationResult,
+    gnssResult,
+    gnssSkyResult,
+    cellTowerResult,
+    wifiResult,
+    witnessResult,
+    trajectoryResult,
+    sensorReplayResult,
+    validationResults,
+    confidenceResult,
+    confidenceScore,
+    policy,
+  };
+  
+  // Check acceptance threshold
+  if (shouldAccept(confidenceResult, policy.config)) {
+    pass('confidence');
+  } else {
+    const reasons = getRejectionReasons(confidenceResult, policy.config, validationResults);
+    console.warn(`[${timestamp}] Proof rejected (confidence ${confidenceScore}/100):`, reasons);
     
-    if (!accepted) {
-      const reasons = getRejectionReasons(confidenceResult);
-      console.warn(`[${timestamp}] Proof rejected (confidence ${confidenceScore}/100):`, reasons);
-      
-      return res.status(422).json({
-        ok: false,
-        code: ErrorCode.LOW_CONFIDENCE,
-        message: `Confidence score too low (${confidenceScore}/100). Reasons: ${reasons.join('; ')}`,
+    fail(
+      'confidence',
+      422,
+      ErrorCode.LOW_CONFIDENCE,
+      `Confidence score too low (${confidenceScore}/100). Reasons: ${reasons.join('; ')}`,
+      {
         confidence: confidenceScore,
         confidenceLevel: getConfidenceLevel(confidenceScore),
         reasons,
-        timestamp,
+        policyVersion: policy.version,
+      }
+    );
+  }
+  
+  return evaluation;
+}
+
+/**
+ * Commit an accepted proof: redeem the challenge, record the click, advance
+ * the triangle lifecycle (subdividing if due) and credit the reward, all in
+ * one transaction.
+ * 
+ * Exported for scripts/proof-concurrency.ts, which races real commits.
+ * 
+ * @param proof - Context from evaluateProof (no rejection)
+ * @param timestamp - Request timestamp (log prefix)
+ * @returns Reward and the account's new balance (decimal strings), the
+ *          sybil throttle applied to the reward if any, and the triangle's
+ *          click count after this click
+ * @throws ChallengeError if the challenge was redeemed concurrently
+ * @throws ProofConflictError if a concurrent proof of the account committed
+ *         first, or a concurrent click left the triangle not mineable
+ */
+export async function commitProof(
+  proof: EvaluatedProof,
+  timestamp: string
+): Promise<{ reward: string; balance: string; throttle: RewardThrottle | null; clicks: number }> {
+  const {
+    payload,
+    signature,
+    account,
+    nonce,
+    lat,
+    lon,
+    accuracy,
+    proofTimestamp,
+    challengeBound,
+    offline,
+    wifiResult,
+    witnessResult,
+    confidenceScore,
+    policy,
+  } = proof;
+  const triangle = proof.triangle!;  // Set whenever the triangle check passed
+  const triangleId = triangle._id;
+  
+  // ========================================================================
+  // Step 10: Calculate reward
+  // ========================================================================
+  
+  const baseReward = calculateReward(triangle.level);
+  
+  // Accounts in a suspected / confirmed sybil cluster earn a fraction
+  // (the click still counts towards the triangle)
+  const throttle = await getRewardThrottle(account);
+  const reward = throttle ? (parseFloat(baseReward) * throttle.multiplier).toFixed(6) : baseReward;
+  
+  if (throttle) {
+    console.warn(`[${timestamp}] Reward throttled for ${account}: ×${throttle.multiplier} (${throttle.status} cluster ${throttle.clusterId})`);
+  }
+  
+  // ========================================================================
+  // Step 10: Atomic transaction - update state and award tokens
+  // ========================================================================
+  // Why transaction: Ensures nonce uniqueness, balance update, and
+  // triangle state mutation happen atomically. Prevents partial updates
+  // under concurrent submissions.
+  // Proofs of one account are serialized (serializeAccountProof): a
+  // concurrent proof forces a retry, which re-runs the speed gate.
+  
+  console.log(`[${timestamp}] Starting transaction for ${account}...`);
+  
+  const session = await Triangle.startSession();
+  let clicks = triangle.clicks;
+  
+  try {
+    await session.withTransaction(async () => {
+      // Take the account's proof slot, then re-check movement on this snapshot
+      const { speed } = await serializeAccountProof(account, { lat, lon, timestamp: proofTimestamp }, session);
+      
+      // Redeem the server challenge exactly once (concurrent duplicates abort here)
+      if (challengeBound) {
+        await redeemProofChallenge(nonce, account, proofTimestamp, session, offline);
+      }
+      
+      // Re-read the triangle on this transaction's snapshot and re-check its
+      // lifecycle: another account may have clicked it since evaluateProof.
+      // Concurrent clicks write the same document, so the loser aborts with a
+      // write conflict and withTransaction retries it against the new state.
+      const clickedAt = new Date();
+      const current = await Triangle.findById(triangleId).session(session);
+      if (!current) {
+        throw new Error(`Triangle ${triangleId} not found`);
+      }
+      activateIfDue(current, clickedAt);
+      const mineCheck = checkMineable(current, clickedAt);
+      if (!mineCheck.ok) {
+        throw new ProofConflictError(mineCheck.code!, mineCheck.error!, mineCheck.retryAt);
+      }
+      
+      // Create event record (unique index enforces nonce uniqueness)
+      const eventId = `proof-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+      
+      const event = new TriangleEvent({
+        _id: eventId,
+        triangleId,
+        eventType: 'click',
+        timestamp: new Date(proofTimestamp),
+        account,
+        nonce,
+        signature,
+        payload: {
+          minerAddress: account,
+          reward,
+          clickNumber: current.clicks + 1,
+          lat,
+          lon,
+          accuracy,
+          speed,
+          confidence: confidenceScore,
+          policyVersion: policy.version,  // Confidence policy applied (core/validator/confidence-policy.ts)
+          policyRules: policy.rules,
+          sybil: throttle ? { ...throttle, baseReward } : undefined,
+          evidence: buildProofEvidence({
+            payload,
+            validation: proof.validationResults,
+            scores: proof.confidenceResult,
+            policy,
+            resolution: proof.resolution,
+            attestation: proof.attestationResult,
+            gnss: proof.gnssResult,
+            gnssSky: proof.gnssSkyResult,
+            cell: proof.cellTowerResult,
+            wifi: wifiResult,
+            witness: witnessResult,
+            trajectory: proof.trajectoryResult,
+            sensorReplay: proof.sensorReplayResult,
+          }),
+        },
       });
-    }
-    
-    console.log(`[${timestamp}] Proof accepted (confidence ${confidenceScore}/100)`);
-    
-    // ========================================================================
-    // Step 10: Calculate reward
-    // ========================================================================
-    
-    const reward = calculateReward(triangle.level);
-    
-    // ========================================================================
-    // Step 10: Atomic transaction - update state and award tokens
-    // ========================================================================
-    // Why transaction: Ensures nonce uniqueness, balance update, and
-    // triangle state mutation happen atomically. Prevents partial updates
-    // under concurrent submissions.
-    
-    console.log(`[${timestamp}] Starting transaction for ${account}...`);
-    
-    const session = await Triangle.startSession();
-    
-    try {
-      await session.withTransaction(async () => {
-        // Create event record (unique index enforces nonce uniqueness)
-        const eventId = `proof-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-        
-        const event = new TriangleEvent({
-          _id: eventId,
-          triangleId,
-          eventType: 'click',
-          timestamp: new Date(proofTimestamp),
-          account,
-          nonce,
-          signature,
-          payload: {
-            minerAddress: account,
-            reward,
-            clickNumber: triangle.clicks + 1,
-            lat,
-            lon,
-            accuracy,
-            speed: previousProof ? validateSpeedGate(
-              {
-                lat: previousProof.payload.lat || 0,
-                lon: previousProof.payload.lon || 0,
-                timestamp: previousProof.timestamp.toISOString(),
-              },
-              { lat, lon, timestamp: proofTimestamp }
-            ).speed : undefined,
-          },
-        });
-        
-        await event.save({ session });
-        
-        // Increment triangle clicks
-        triangle.clicks += 1;
-        triangle.lastClickAt = new Date();
-        await triangle.save({ session });
-        
-        // ====================================================================
-        // Subdivision Logic: Trigger when clicks reach 11
-        // ====================================================================
-        // Why: At 11 clicks, triangle has been sufficiently mined
-        // Action: Subdivide into 4 children, mark parent as subdivided
-        // Implementation: Uses Phase 1 mesh utilities for deterministic
-        // subdivision based on geodesic midpoints on sphere
+      
+      await event.save({ session });
+      
+      // Keep the GNSS / cell snapshot for replay detection of later proofs
+      if (isProofPayloadV2(payload)) {
+        await recordSensorFingerprints(payload, eventId, { account, lat, lon, provedAt: proofTimestamp }, session);
+      }
+      
+      // Record witness edges (feeds ring detection; unique index blocks reuse)
+      if (witnessResult && witnessResult.accepted.length > 0) {
+        await recordWitnessAttestations(
+          witnessResult.accepted,
+          { account, nonce, triangleId, lat, lon, timestamp: proofTimestamp },
+          session
+        );
+      }
+      
+      // Count the click and advance lifecycle state
+      // pending (moratorium elapsed) → active → partially_mined → exhausted (level 21)
+      current.clicks += 1;
+      current.lastClickAt = clickedAt;
+      const nextState = stateAfterClick(current);
+      current.state = nextState === 'subdivided' ? 'partially_mined' : nextState;
+      clicks = current.clicks;
+      await current.save({ session });
+      
+      if (nextState === 'exhausted') {
+        console.log(`[${timestamp}] Triangle exhausted: ${triangleId} (${current.clicks} clicks)`);
+      }
+      
+      // ====================================================================
+      // Subdivision Logic: Trigger when clicks reach 11 (levels 1-20)
+      // ====================================================================
+      // Why: At 11 clicks, triangle has been sufficiently mined
+      // Action: Subdivide into 4 children, mark parent as subdivided
+      // Implementation: Uses Phase 1 mesh utilities for deterministic
+      // subdivision based on geodesic midpoints on sphere
+      // Level 21 never subdivides; it keeps accepting clicks 12-28
+      
+      if (nextState === 'subdivided') {
+        console.log(`[${timestamp}] Subdivision triggered for ${triangleId}`);
         
-        if (triangle.clicks === 11) {
-          console.log(`[${timestamp}] Subdivision triggered for ${triangleId}`);
+        try {
+          // Decode parent triangle ID to get face, level, path
+          const parentId = decodeTriangleId(triangleId);
+          
+          // Get 4 child triangle IDs (adds one path digit to each)
+          const childIds = getChildrenIds(parentId);
+          const childTriangleIds = childIds.map(id => encodeTriangleId(id));
           
-          try {
-            // Decode parent triangle ID to get face, level, path
-            const parentId = decodeTriangleId(triangleId);
+          // Check if children already exist (from previous partial subdivision)
+          const existingChildren = await Triangle.find({ _id: { $in: childTriangleIds } }).session(session);
+          
+          if (existingChildren.length > 0) {
+            console.warn(`[${timestamp}] Subdivision already partially complete: ${existingChildren.length}/4 children exist`);
+            // Update parent state to subdivided and set children IDs
+            current.state = 'subdivided';
+            current.childrenIds = childTriangleIds;
+            await current.save({ session });
+            console.log(`[${timestamp}] Parent state updated to subdivided (children already exist)`);
+          } else {
+            // Create child triangle documents (geometry derived from ID, pending until moratorium ends)
+            const subdividedAt = current.lastClickAt ?? new Date();
+            const childTriangles = childIds.map((childId) => buildTriangle(childId, subdividedAt));
+            
+            // Save all 4 child triangles
+            await Triangle.insertMany(childTriangles, { session });
             
-            // Get 4 child triangle IDs (adds one path digit to each)
-            const childIds = getChildrenIds(parentId);
-            const childTriangleIds = childIds.map(id => encodeTriangleId(id));
+            // Update parent triangle: mark as subdivided
+            current.state = 'subdivided';
+            current.childrenIds = childTriangles.map(t => t._id);
+            await current.save({ session });
             
-            // Check if children already exist (from previous partial subdivision)
-            const existingChildren = await Triangle.find({ _id: { $in: childTriangleIds } }).session(session);
+            // Create subdivision event for audit trail
+            // NOTE: Use system account and event ID as nonce to satisfy unique constraint
+            // The database has a unique index on (account, nonce) which doesn't allow
+            // multiple null values. Using 'system' account and unique event ID as nonce.
+            const subdivisionEventId = `subdivision-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+            const subdivisionEvent = new TriangleEvent({
+              _id: subdivisionEventId,
+              triangleId,
+              eventType: 'subdivide',
+              timestamp: new Date(),
+              account: 'system',  // System account for subdivision events
+              nonce: subdivisionEventId,  // Use event ID as nonce (guaranteed unique)
+              signature: null,
+              payload: {
+                parentId: triangleId,
+                childrenIds: current.childrenIds,
+                level: parentId.level,
+                newLevel: parentId.level + 1,
+              },
+            });
+            await subdivisionEvent.save({ session });
             
-            if (existingChildren.length > 0) {
-              console.warn(`[${timestamp}] Subdivision already partially complete: ${existingChildren.length}/4 children exist`);
-              // Update parent state to subdivided and set children IDs
-              triangle.state = 'subdivided';
-              triangle.childrenIds = childTriangleIds;
-              await triangle.save({ session });
-              console.log(`[${timestamp}] Parent state updated to subdivided (children already exist)`);
-            } else {
-              // Create child triangle documents
-              const childTriangles = childIds.map((childId) => {
-                // Compute polygon and centroid using Phase 1 utilities
-                const polygon = triangleIdToPolygon(childId);
-                const centroid = triangleIdToCentroid(childId);
-                
-                // Encode child ID to STEP-TRI-v1 string format
-                const childTriangleId = encodeTriangleId(childId);
-                
-                return new Triangle({
-                  _id: childTriangleId,
-                  face: childId.face,
-                  level: childId.level,
-                  pathEncoded: childId.path.join(''),
-                  parentId: triangleId,
-                  childrenIds: [],
-                  state: 'active',
-                  clicks: 0,
-                  moratoriumStartAt: new Date(),
-                  lastClickAt: null,
-                  centroid,
-                  polygon,
-                });
-              });
-              
-              // Save all 4 child triangles
-              await Triangle.insertMany(childTriangles, { session });
-              
-              // Update parent triangle: mark as subdivided
-              triangle.state = 'subdivided';
-              triangle.childrenIds = childTriangles.map(t => t._id);
-              await triangle.save({ session });
-              
-              // Create subdivision event for audit trail
-              // NOTE: Use system account and event ID as nonce to satisfy unique constraint
-              // The database has a unique index on (account, nonce) which doesn't allow
-              // multiple null values. Using 'system' account and unique event ID as nonce.
-              const subdivisionEventId = `subdivision-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-              const subdivisionEvent = new TriangleEvent({
-                _id: subdivisionEventId,
-                triangleId,
-                eventType: 'subdivide',
-                timestamp: new Date(),
-                account: 'system',  // System account for subdivision events
-                nonce: subdivisionEventId,  // Use event ID as nonce (guaranteed unique)
-                signature: null,
-                payload: {
-                  parentId: triangleId,
-                  childrenIds: triangle.childrenIds,
-                  level: parentId.level,
-                  newLevel: parentId.level + 1,
-                },
-              });
-              await subdivisionEvent.save({ session });
-              
-              console.log(`[${timestamp}] Subdivision complete: ${triangleId} → 4 children at level ${parentId.level + 1}`);
-            }
-          } catch (subdivisionError) {
-            console.error(`[${timestamp}] Subdivision failed:`, subdivisionError);
-            throw subdivisionError; // Rollback transaction on subdivision failure
+            console.log(`[${timestamp}] Subdivision complete: ${triangleId} → 4 children at level ${parentId.level + 1}`);
           }
+        } catch (subdivisionError) {
+          console.error(`[${timestamp}] Subdivision failed:`, subdivisionError);
+          throw subdivisionError; // Rollback transaction on subdivision failure
         }
-        
-        // Update account balance
-        // Convert reward string to bigint (assuming 6 decimals)
-        const rewardFloat = parseFloat(reward);
-        const rewardBigInt = BigInt(Math.round(rewardFloat * 1e6)); // 6 decimals precision
-        
-        await updateBalance(account, rewardBigInt);
-        
-        console.log(`[${timestamp}] Transaction complete: ${account} +${reward} STEP`);
-      });
-    } finally {
-      await session.endSession();
+      }
+      
+      // Update account balance
+      // Convert reward string to bigint (assuming 6 decimals)
+      const rewardFloat = parseFloat(reward);
+      const rewardBigInt = BigInt(Math.round(rewardFloat * 1e6)); // 6 decimals precision
+      
+      // Same session: the account document is already written by serializeAccountProof
+      await updateBalance(account, rewardBigInt, session);
+      
+      console.log(`[${timestamp}] Transaction complete: ${account} +${reward} STEP`);
+    });
+  } finally {
+    await session.endSession();
+  }
+  
+  // Teach the Wi-Fi registry from this accepted proof (best effort)
+  if (wifiResult && isProofPayloadV2(payload) && payload.wifi) {
+    learnWifiAccessPoints(payload.wifi, lat, lon, accuracy, confidenceScore, wifiResult)
+      .catch((error) => console.warn(`[${timestamp}] Wi-Fi registry learning failed:`, error));
+  }
+  
+  // ========================================================================
+  // Step 11: Load updated balance and return success
+  // ========================================================================
+  
+  const accountDoc = await getOrCreateAccount(account);
+  const balance = (BigInt(accountDoc.balance) / BigInt(1e6)).toString(); // Convert back to decimal
+  
+  return { reward, balance, throttle, clicks };
+}
+
+/**
+ * POST /proof/submit
+ * 
+ * Submit a location proof for validation and token reward.
+ * 
+ * Request body:
+ * {
+ *   payload: ProofPayload,  // See core/validator/signature.ts; payload.nonce from POST /proof/challenge
+ *                           // Omit payload.triangleId to let the server pick the triangle (location-only)
+ *   signature: string,      // 65-byte hex signature
+ *   witnesses?: [{ attestation, signature }]  // Optional, see core/validator/witness.ts
+ * }
+ * 
+ * Success response (200):
+ * {
+ *   ok: true,
+ *   reward: "0.5",
+ *   unit: "STEP",
+ *   triangleId: "STEP-TRI-v1:...",  // Credited triangle
+ *   level: 10,
+ *   resolution: { mode: "location", triangleId, level, subdividedAncestors: 9, reason: "..." },
+ *   clicks: 5,
+ *   balance: "2.5",
+ *   policy: { version: "2025-10-01.1", rules: ["deep-levels"] },  // Confidence policy applied
+ *   throttle: { clusterId, status: "suspected", multiplier: 0.5 },  // Only when the reward was throttled
+ *   processedAt: "2025-10-03T16:50:00.123Z"
+ * }
+ * 
+ * Error response (4xx/5xx):
+ * {
+ *   ok: false,
+ *   code: "ERROR_CODE",
+ *   message: "Human-readable error message",
+ *   timestamp: "2025-10-03T16:50:00.123Z"
+ * }
+ */
+router.post('/submit', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  
+  try {
+    // ========================================================================
+    // Steps 1-9: Validation pipeline (shared with /proof/preflight)
+    // ========================================================================
+    
+    const evaluation = await evaluateProof(req.body, timestamp);
+    
+    if (evaluation.rejection) {
+      const { status, code, message, details } = evaluation.rejection;
+      return res.status(status).json({ ok: false, code, message, ...details, timestamp });
     }
     
+    const { account, resolution, witnessResult, confidenceResult, confidenceScore, policy } = evaluation.proof!;
+    const triangle = evaluation.proof!.triangle!;  // Set whenever the triangle check passed
+    const triangleId = triangle._id;
+    
+    console.log(`[${timestamp}] Proof accepted (confidence ${confidenceScore}/100)`);
+    
     // ========================================================================
-    // Step 11: Load updated balance and return success
+    // Steps 10-11: Atomic transaction, updated balance
     // ========================================================================
     
-    const accountDoc = await getOrCreateAccount(account);
-    const balance = (BigInt(accountDoc.balance) / BigInt(1e6)).toString(); // Convert back to decimal
+    const { reward, balance, throttle, clicks } = await commitProof(evaluation.proof!, timestamp);
     
     console.log(`[${timestamp}] Proof validated: ${triangleId} by ${account}`);
     
@@ -764,15 +1421,33 @@ router.post('/submit', async (req: Request, res: Response) => {
       unit: 'STEP',
       triangleId,
       level: triangle.level,
-      clicks: triangle.clicks,
+      resolution,  // Which triangle was credited and why (claimed or location-only)
+      clicks,
       balance,
       confidence: confidenceScore,  // Phase 2.5: Confidence score (0-100)
       confidenceLevel: getConfidenceLevel(confidenceScore),  // Phase 2.5: UI display label
       scores: confidenceResult,  // Phase 2.5: Component scores for debugging
+      policy: { version: policy.version, rules: policy.rules },  // Confidence policy applied
+      throttle: throttle ?? undefined,  // Sybil cluster reward throttle (core/validator/sybil.ts)
+      witnesses: witnessResult ? {  // Phase 3: Witness co-attestation outcome
+        accepted: witnessResult.accepted.map((w) => w.attestation.witness.toLowerCase()),
+        rejected: witnessResult.rejected,
+      } : undefined,
       processedAt: timestamp,
     });
     
   } catch (error) {
+    if (error instanceof ChallengeError) {
+      const { status, code } = challengeErrorStatus(error);
+      console.warn(`[${timestamp}] Proof challenge redemption failed: ${error.message}`);
+      return res.status(status).json({ ok: false, code, message: error.message, timestamp });
+    }
+    
+    if (error instanceof ProofConflictError) {
+      console.warn(`[${timestamp}] Proof lost race to a concurrent proof (${error.code}): ${error.message}`);
+      return res.status(422).json({ ok: false, code: ErrorCode[error.code], message: error.message, retryAt: error.retryAt, timestamp });
+    }
+    
     console.error(`[${timestamp}] Error processing proof:`, error);
     
     return res.status(500).json({
@@ -784,6 +1459,305 @@ router.post('/submit', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /proof/batch
+ * 
+ * Submit proofs collected offline (no coverage), oldest first.
+ * 
+ * Each item is a full /proof/submit body. Items are evaluated in
+ * payload.timestamp order and each accepted item is committed before the
+ * next is evaluated, so the speed gate and moratorium compare queued proofs
+ * with each other. Items must be younger than PROOF_BATCH_MAX_AGE_MS and
+ * may carry a client nonce instead of a server challenge
+ * (core/validator/batch.ts). One rejected item does not affect the others.
+ * 
+ * Request body:
+ * {
+ *   proofs: [{ payload, signature, witnesses? }, ...]  // Max PROOF_BATCH_MAX_ITEMS
+ * }
+ * 
+ * Success response (200, also when items were rejected):
+ * {
+ *   ok: true,
+ *   accepted: 2,
+ *   rejected: 1,
+ *   results: [  // Request order
+ *     { index: 0, ok: true, nonce, triangleId, level, clicks, reward: "0.5", balance: "3.0", confidence: 85 },
+ *     { index: 1, ok: false, nonce, code: "TOO_FAST", message: "...", retryable: false },
+ *     ...
+ *   ],
+ *   timestamp: "2025-10-03T16:50:00.123Z"
+ * }
+ * 
+ * Errors: 400 INVALID_PAYLOAD (not an array, empty or too many items), 500 INTERNAL_ERROR
+ */
+router.post('/batch', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  
+  try {
+    const { proofs } = (req.body || {}) as { proofs?: Array<ProofSubmission | null> };
+    const { maxItems } = getBatchConfig();
+    
+    if (!Array.isArray(proofs) || proofs.length === 0 || proofs.length > maxItems) {
+      return res.status(400).json({
+        ok: false,
+        code: ErrorCode.INVALID_PAYLOAD,
+        message: `proofs must be an array of 1-${maxItems} { payload, signature } items`,
+        timestamp,
+      });
+    }
+    
+    console.log(`[${timestamp}] Proof batch received: ${proofs.length} items`);
+    
+    const results: Array<Record<string, unknown>> = new Array(proofs.length);
+    const order = batchEvaluationOrder(proofs.map((item) => item?.payload?.timestamp));
+    
+    for (const index of order) {
+      const nonce = proofs[index]?.payload?.nonce;
+      
+      try {
+        const evaluation = await evaluateProof(proofs[index] ?? undefined, timestamp, { offline: true });
+        
+        if (evaluation.rejection) {
+          const { code, message, details } = evaluation.rejection;
+          // Time-locked triangles (retryAt) may accept the same proof later, within the age window
+          results[index] = { index, ok: false, nonce, code, message, ...details, retryable: details?.retryAt !== undefined };
+          continue;
+        }
+        
+        const proof = evaluation.proof!;
+        const { reward, balance, throttle, clicks } = await commitProof(proof, timestamp);
+        
+        results[index] = {
+          index,
+          ok: true,
+          nonce,
+          triangleId: proof.triangleId,
+          level: proof.triangle!.level,
+          clicks,
+          reward,
+          balance,
+          confidence: proof.confidenceScore,
+          policyVersion: proof.policy.version,
+          throttle: throttle ?? undefined,
+        };
+      } catch (error) {
+        if (error instanceof ChallengeError) {
+          const { code } = challengeErrorStatus(error);
+          results[index] = { index, ok: false, nonce, code, message: error.message, retryable: false };
+        } else if (error instanceof ProofConflictError) {
+          results[index] = {
+            index,
+            ok: false,
+            nonce,
+            code: ErrorCode[error.code],
+            message: error.message,
+            retryAt: error.retryAt,
+            retryable: error.retryAt !== undefined,
+          };
+        } else if (isDuplicateKeyError(error)) {
+          // Nonce recorded concurrently (unique index on account + nonce)
+          results[index] = { index, ok: false, nonce, code: ErrorCode.NONCE_REPLAY, message: 'Nonce already used', retryable: false };
+        } else {
+          console.error(`[${timestamp}] Error processing batch item ${index}:`, error);
+          results[index] = {
+            index,
+            ok: false,
+            nonce,
+            code: ErrorCode.INTERNAL_ERROR,
+            message: error instanceof Error ? error.message : 'Internal server error',
+            retryable: true,
+          };
+        }
+      }
+    }
+    
+    const accepted = results.filter((r) => r.ok).length;
+    console.log(`[${timestamp}] Proof batch done: ${accepted} accepted, ${results.length - accepted} rejected`);
+    
+    return res.status(200).json({
+      ok: true,
+      accepted,
+      rejected: results.length - accepted,
+      results,
+      timestamp,
+    });
+    
+  } catch (error) {
+    console.error(`[${timestamp}] Error processing proof batch:`, error);
+    
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * What to do about a failed hard check (by error code).
+ */
+const CHECK_HINTS: Record<string, string> = {
+  [ErrorCode.LOW_GPS_ACCURACY]: 'Wait for a GPS fix within maxAccuracy (50m, less for deep-level triangles; move outdoors)',
+  [ErrorCode.BAD_SIGNATURE]: 'Sign the exact payload you submit with the key of payload.account',
+  [ErrorCode.NONCE_REPLAY]: 'Request a new challenge; every proof needs a fresh nonce',
+  [ErrorCode.INVALID_CHALLENGE]: 'Use a nonce from POST /proof/challenge issued to this account',
+  [ErrorCode.CHALLENGE_EXPIRED]: 'Request a new challenge and submit within its validity window',
+  [ErrorCode.CHALLENGE_USED]: 'Request a new challenge',
+  [ErrorCode.INVALID_TRIANGLE_ID]: 'Omit triangleId to let the server pick the triangle at your location',
+  [ErrorCode.OUT_OF_BOUNDS]: 'Omit triangleId to let the server pick the triangle at your location',
+  [ErrorCode.TRIANGLE_NOT_OPEN]: 'Mine the open ancestor (ancestorId) or omit triangleId',
+  [ErrorCode.TRIANGLE_PENDING]: 'Triangle is in its moratorium; retry after retryAt',
+  [ErrorCode.TRIANGLE_COOLDOWN]: 'Next click on this triangle is locked; retry after retryAt',
+  [ErrorCode.TRIANGLE_SUBDIVIDED]: 'Omit triangleId to mine the child triangle at your location',
+  [ErrorCode.TRIANGLE_EXHAUSTED]: 'Move to a neighbouring triangle',
+  [ErrorCode.TOO_FAST]: 'Your previous proof is too far away for the time elapsed; wait before submitting',
+  [ErrorCode.MORATORIUM]: 'Wait at least 10 seconds after your previous proof',
+  [ErrorCode.ATTESTATION_REQUIRED]: 'Update the app; proofs must carry a hardware attestation',
+};
+
+/**
+ * POST /proof/preflight
+ * 
+ * Dry-run a proof: the full /proof/submit pipeline (signature, accuracy,
+ * challenge, triangle, lifecycle, speed gate, moratorium, attestation,
+ * GNSS, cell, Wi-Fi, witnesses, confidence) without writing anything.
+ * The nonce/challenge stays unused, so the same signed proof can be
+ * submitted afterwards.
+ * 
+ * Request body: same as /proof/submit
+ * 
+ * Success response (200, also when the proof would be rejected):
+ * {
+ *   ok: true,
+ *   wouldAccept: false,
+ *   rejection: { status: 422, code: "LOW_CONFIDENCE", message: "..." },  // What /submit would return
+ *   checks: [{ check: "signature", ok: true }, { check: "lifecycle", ok: false, code, message, details }],
+ *   confidence: 65,
+ *   confidenceLevel: "Suspicious",
+ *   scores: { signature: 20, attestation: 0, ..., total: 65 },
+ *   policy: { version: "2025-10-01.1", rules: ["deep-levels"], acceptanceThreshold: 80, requireAttestation: true },
+ *   reasons: ["Device attestation failed - ...", "Overall confidence: 65/70 (threshold: 70)"],
+ *   hints: {
+ *     checks: [{ check: "lifecycle", code: "TRIANGLE_COOLDOWN", hint: "...", retryAt: "..." }],
+ *     components: [{ component: "attestation", missingPoints: 25, hint: "..." }]
+ *   },
+ *   signals: { position: { accuracy, maxAccuracy, overlap }, attestation: { passed, score, error }, gnss: { ... }, cell, ..., plugins },
+ *   triangleId: "STEP-TRI-v1:...",
+ *   resolution: { mode, triangleId, level, subdividedAncestors, reason },
+ *   timestamp: "2025-10-03T16:50:00.123Z"
+ * }
+ * 
+ * Errors: 400 INVALID_PAYLOAD (malformed request), 500 INTERNAL_ERROR
+ */
+router.post('/preflight', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  
+  try {
+    const evaluation = await evaluateProof(req.body, timestamp, { dryRun: true });
+    const { rejection, checks, proof } = evaluation;
+    
+    if (!proof) {
+      // Malformed request: nothing could be evaluated
+      return res.status(rejection!.status).json({
+        ok: false,
+        code: rejection!.code,
+        message: rejection!.message,
+        timestamp,
+      });
+    }
+    
+    const scores = proof.confidenceResult;
+    
+    console.log(`[${timestamp}] Proof preflight for ${proof.account}: ${rejection ? `would reject (${rejection.code})` : 'would accept'}`);
+    
+    return res.status(200).json({
+      ok: true,
+      wouldAccept: rejection === null,
+      rejection: rejection ? { status: rejection.status, code: rejection.code, message: rejection.message } : null,
+      checks,
+      confidence: proof.confidenceScore,
+      confidenceLevel: getConfidenceLevel(proof.confidenceScore),
+      scores,
+      policy: {
+        version: proof.policy.version,
+        rules: proof.policy.rules,
+        acceptanceThreshold: proof.policy.config.acceptanceThreshold,
+        requireAttestation: proof.policy.config.requireAttestation,
+      },
+      reasons: getRejectionReasons(scores, proof.policy.config, proof.validationResults),
+      hints: {
+        checks: checks
+          .filter((c) => !c.ok && c.code && CHECK_HINTS[c.code])
+          .map((c) => ({ check: c.check, code: c.code, hint: CHECK_HINTS[c.code!], ...c.details })),
+        components: getRemediationHints(scores, proof.policy.config),
+      },
+      signals: {
+        position: {
+          accuracy: proof.accuracy,
+          maxAccuracy: proof.maxAccuracy,
+          overlap: proof.validationResults.triangleOverlap,
+        },
+        attestation: proof.attestationResult && {
+          passed: proof.attestationResult.passed,
+          score: proof.attestationResult.score,
+          error: proof.attestationResult.error,
+        },
+        gnss: proof.gnssResult && {
+          passed: proof.gnssResult.passed,
+          score: proof.gnssResult.score,
+          issues: proof.gnssResult.issues,
+          sky: proof.gnssSkyResult && {
+            checked: proof.gnssSkyResult.checked,
+            passed: proof.gnssSkyResult.passed,
+            compared: proof.gnssSkyResult.compared,
+            mismatches: proof.gnssSkyResult.mismatches,
+          },
+        },
+        cell: proof.cellTowerResult && {
+          passed: proof.cellTowerResult.passed,
+          score: proof.cellTowerResult.score,
+          distanceKm: proof.cellTowerResult.distanceKm,
+          issues: proof.cellTowerResult.issues,
+        },
+        wifi: proof.wifiResult && {
+          passed: proof.wifiResult.passed,
+          score: proof.wifiResult.score,
+          issues: proof.wifiResult.issues,
+        },
+        witnesses: proof.witnessResult && {
+          passed: proof.witnessResult.passed,
+          score: proof.witnessResult.score,
+          rejected: proof.witnessResult.rejected,
+        },
+        trajectory: proof.trajectoryResult && {
+          riskScore: proof.trajectoryResult.riskScore,
+          flags: proof.trajectoryResult.flags,
+        },
+        sensorReplay: proof.sensorReplayResult && {
+          gnss: proof.sensorReplayResult.gnss,
+          cell: proof.sensorReplayResult.cell,
+        },
+        plugins: proof.validationResults.plugins,
+      },
+      triangleId: proof.triangleId,
+      resolution: proof.resolution,
+      timestamp,
+    });
+    
+  } catch (error) {
+    console.error(`[${timestamp}] Error running proof preflight:`, error);
+    
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
 /**
  * GET /proof/config
  * 
@@ -793,12 +1767,30 @@ router.post('/submit', async (req: Request, res: Response) => {
  * {
  *   GPS_MAX_ACCURACY_M: 50,
  *   PROOF_SPEED_LIMIT_MPS: 15,
- *   PROOF_MORATORIUM_MS: 10000
+ *   PROOF_MORATORIUM_MS: 10000,
+ *   GPS_ACCURACY_SIDE_RATIO: 0.25,
+ *   GPS_ACCURACY_FLOOR_M: 5,
+ *   triangleLifecycle: { moratoriumMs, delayBaseMs, delayCapMs, ... },
+ *   batch: { maxItems, maxAgeMs, futureSkewMs, offlineNonces },
+ *   trajectory: { historySize, minProofs, nearLimitRatio, ..., weights },
+ *   sensorReplay: { windowMs, minSimilarity, cn0Tolerance, angleTolerance, rsrpTolerance, ... },
+ *   gnssAlmanac: { enabled, dir, files, entries: { gps, galileo }, loadedAt, errors, config },
+ *   validatorPlugins: { defaultTimeoutMs, plugins: [{ name, maxWeight, requiredFields, timeoutMs }], loadErrors },
+ *   confidencePolicy: { version, file, rules, watching, loadedAt, lastLoadError }
  * }
  */
 router.get('/config', (req: Request, res: Response) => {
   const config = getValidatorConfig();
-  res.json(config);
+  res.json({
+    ...config,
+    triangleLifecycle: triangleLifecycleStatus(),
+    batch: getBatchConfig(),
+    trajectory: getTrajectoryConfig(),
+    sensorReplay: getSensorReplayConfig(),
+    gnssAlmanac: gnssAlmanacStatus(),
+    validatorPlugins: validatorPluginStatus(),
+    confidencePolicy: confidencePolicyStatus(),
+  });
 });
 
 export default router;
@@ -24,6 +24,18 @@ import { join } from 'path';
 import { connectToDb, dbHealth, closeDb } from '../core/db.js';
 import meshRouter from './mesh.js';
 import proofRouter from './proof.js';
+import accountRouter from './account.js';
+import transferRouter from './transfer.js';
+import blocksRouter from './blocks.js';
+import stateRouter from './state.js';
+import anchorsRouter from './anchors.js';
+import adminRouter from './admin.js';
+import { startBlockProducer, stopBlockProducer } from '../core/chain/block-producer.js';
+import { startAnchorService, stopAnchorService } from '../core/chain/anchor-service.js';
+import { startTriangleLifecycle, stopTriangleLifecycle } from '../core/state/triangle-lifecycle.js';
+import { startConfidencePolicyReload, stopConfidencePolicyReload } from '../core/validator/confidence-policy.js';
+import { loadValidatorPlugins } from '../core/validator/plugins.js';
+import { startSybilDetection, stopSybilDetection } from '../core/validator/sybil.js';
 
 // Read version from package.json (CommonJS-compatible path)
 // When compiled, this runs from dist/api/, so need to go up 2 levels: ../../package.json
@@ -124,6 +136,37 @@ app.get('/', (req, res) => {
         submit: 'POST /proof/submit',
         status: 'GET /proof/status/:proofId',
       },
+      account: {
+        balance: 'GET /account/:address',
+        rewards: 'GET /account/:address/rewards?limit={limit}&cursor={cursor}',
+        stats: 'GET /account/:address/stats',
+        transfers: 'GET /account/:address/transfers?direction={in|out|all}&limit={limit}&cursor={cursor}',
+      },
+      transfer: {
+        submit: 'POST /transfer/submit',
+        get: 'GET /transfer/:id',
+      },
+      blocks: {
+        latest: 'GET /blocks/latest',
+        byHeight: 'GET /blocks/:height',
+        events: 'GET /blocks/:height/events?limit={limit}&offset={offset}',
+      },
+      state: {
+        root: 'GET /state/root?height={height}',
+        accountProof: 'GET /state/proof/account/:address?height={height}',
+        triangleProof: 'GET /state/proof/triangle/:triangleId?height={height}',
+      },
+      anchors: {
+        list: 'GET /anchors?status={queued|sent|confirmed|failed}&limit={limit}',
+        byHeight: 'GET /anchors/:height',
+      },
+      admin: {
+        sybilClusters: 'GET /admin/sybil/clusters?status={suspected|confirmed|dismissed}&limit={limit}',
+        sybilCluster: 'GET /admin/sybil/clusters/:id',
+        sybilClusterStatus: 'POST /admin/sybil/clusters/:id/status',
+        sybilDetect: 'POST /admin/sybil/detect',
+        sybilAccount: 'GET /admin/sybil/accounts/:address',
+      },
     },
   });
 });
@@ -155,15 +198,69 @@ function requireDbReady(req: express.Request, res: express.Response, next: expre
   return next();
 }
 
+/**
+ * Validator plugin loading state
+ * Proofs scored before VALIDATOR_PLUGINS finished loading would miss plugin weight
+ */
+let pluginsReady = false;
+
+/**
+ * Middleware: Guard plugin-scored routes until VALIDATOR_PLUGINS are loaded
+ */
+function requirePluginsReady(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!pluginsReady) {
+    return res.status(503).json({
+      ok: false,
+      error: {
+        code: 'SERVICE_UNAVAILABLE',
+        message: 'Validator plugins not loaded',
+        hint: 'Retry shortly; backend is loading VALIDATOR_PLUGINS',
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+  return next();
+}
+
 /**
  * Mount mesh API router (with DB readiness guard)
  */
 app.use('/mesh', requireDbReady, meshRouter);
 
 /**
- * Mount proof validation API router (with DB readiness guard)
+ * Mount proof validation API router (with DB and plugin readiness guards)
+ */
+app.use('/proof', requireDbReady, requirePluginsReady, proofRouter);
+
+/**
+ * Mount account API router (with DB readiness guard)
+ */
+app.use('/account', requireDbReady, accountRouter);
+
+/**
+ * Mount transfer API router (with DB readiness guard)
+ */
+app.use('/transfer', requireDbReady, transferRouter);
+
+/**
+ * Mount blocks API router (with DB readiness guard)
+ */
+app.use('/blocks', requireDbReady, blocksRouter);
+
+/**
+ * Mount state root / proof API router (with DB readiness guard)
  */
-app.use('/proof', requireDbReady, proofRouter);
+app.use('/state', requireDbReady, stateRouter);
+
+/**
+ * Mount anchors API router (with DB readiness guard)
+ */
+app.use('/anchors', requireDbReady, anchorsRouter);
+
+/**
+ * Mount admin API router (with DB readiness guard; bearer token checked by the router)
+ */
+app.use('/admin', requireDbReady, adminRouter);
 
 /**
  * 404 handler
@@ -195,6 +292,17 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
   });
 });
 
+// Confidence policy file is independent of the DB (reloaded on change)
+startConfidencePolicyReload();
+
+// Validator plugins named in VALIDATOR_PLUGINS (a module that fails to load is logged and skipped)
+// /proof answers 503 until loading has finished
+loadValidatorPlugins()
+  .catch((error) => console.error(`[${new Date().toISOString()}] [api] Validator plugins not loaded:`, error))
+  .finally(() => {
+    pluginsReady = true;
+  });
+
 /**
  * Initialize DB in background (non-blocking)
  * 
@@ -227,6 +335,19 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
     console.warn(`[${new Date().toISOString()}] [api] Proceeding without DB ready. Reason: ${lastDbError}`);
     console.warn(`[${new Date().toISOString()}] [api] Mesh endpoints will return 503 until DB connects`);
   }
+
+  // Block producer needs the DB (sealing runs in a transaction)
+  if (dbReady) {
+    try {
+      startBlockProducer();
+    } catch (error: any) {
+      console.error(`[${new Date().toISOString()}] [api] Block producer not started: ${error?.message || error}`);
+    }
+
+    startAnchorService();
+    startTriangleLifecycle();
+    startSybilDetection();
+  }
 })();
 
 /**
@@ -258,12 +379,22 @@ Press Ctrl+C to stop.
 // Process hooks for graceful shutdown
 process.on('SIGTERM', async () => {
   console.log(`[${new Date().toISOString()}] [api] SIGTERM received; shutting down`);
+  stopBlockProducer();
+  stopAnchorService();
+  stopTriangleLifecycle();
+  stopSybilDetection();
+  stopConfidencePolicyReload();
   try { await closeDb(); } catch {}
   server.close(() => process.exit(0));
 });
 
 process.on('SIGINT', async () => {
   console.log(`[${new Date().toISOString()}] [api] SIGINT received; shutting down`);
+  stopBlockProducer();
+  stopAnchorService();
+  stopTriangleLifecycle();
+  stopSybilDetection();
+  stopConfidencePolicyReload();
   try { await closeDb(); } catch {}
   server.close(() => process.exit(0));
 });
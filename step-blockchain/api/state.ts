@@ -0,0 +1,288 @@
+/**
+ * State API
+ *
+ * World-state root and Merkle inclusion proofs for light clients.
+ *
+ * Endpoints:
+ * - GET /state/root?height={height} - State root and sub-tree roots of a block
+ * - GET /state/proof/account/:address?height={height} - Inclusion proof for an account
+ * - GET /state/proof/triangle/:triangleId?height={height} - Inclusion proof for a triangle
+ *
+ * Trust model:
+ * - Every root served is the stateRoot of a sealed block (blockHeight);
+ *   height defaults to the latest block, older heights are served for the
+ *   last STATE_SNAPSHOT_HISTORY blocks sealed by this server
+ * - Proofs are checked with verifyStateProof() (core/chain/state-proof.ts),
+ *   passing the stateRoot of the block header the client trusts
+ * - Proven values are the state at that block, so they can lag the live
+ *   balance returned by /account
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  getSealedSnapshot,
+  sealedSnapshotHeights,
+  proveAccount,
+  proveTriangle,
+  type StateSnapshot,
+} from '../core/chain/state-root.js';
+import { canonicalAddress } from '../core/state/schemas.js';
+
+const router = Router();
+
+/**
+ * Error codes for structured error responses.
+ */
+const ErrorCode = {
+  INVALID_ADDRESS: 'INVALID_ADDRESS',
+  INVALID_TRIANGLE_ID: 'INVALID_TRIANGLE_ID',
+  INVALID_PARAMS: 'INVALID_PARAMS',
+  NOT_IN_STATE: 'NOT_IN_STATE',
+  SNAPSHOT_UNAVAILABLE: 'SNAPSHOT_UNAVAILABLE',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+} as const;
+
+/**
+ * Root summary shared by all responses.
+ *
+ * @param snapshot - State snapshot
+ * @returns Roots, counts and snapshot metadata
+ */
+function toRootResponse(snapshot: StateSnapshot) {
+  return {
+    stateRoot: snapshot.stateRoot,
+    accountsRoot: snapshot.accountsRoot,
+    trianglesRoot: snapshot.trianglesRoot,
+    validatorSetRoot: snapshot.validatorSetRoot,
+    accountCount: snapshot.accountCount,
+    triangleCount: snapshot.triangleCount,
+    blockHeight: snapshot.blockHeight,
+    computedAt: snapshot.computedAt,
+  };
+}
+
+/**
+ * Resolve the sealed snapshot selected by ?height= (default: latest).
+ *
+ * Sends the 400 / 404 response itself when there is none.
+ *
+ * @returns Snapshot, or null if a response was sent
+ */
+function sealedSnapshotFor(req: Request, res: Response, timestamp: string): StateSnapshot | null {
+  const { height } = req.query;
+  let blockHeight: number | undefined;
+
+  if (height !== undefined) {
+    blockHeight = Number(height);
+    if (!Number.isInteger(blockHeight) || blockHeight < 1) {
+      res.status(400).json({
+        ok: false,
+        code: ErrorCode.INVALID_PARAMS,
+        message: 'height must be a positive integer',
+        timestamp,
+      });
+      return null;
+    }
+  }
+
+  const snapshot = getSealedSnapshot(blockHeight);
+  if (!snapshot) {
+    res.status(404).json({
+      ok: false,
+      code: ErrorCode.SNAPSHOT_UNAVAILABLE,
+      message: blockHeight === undefined
+        ? 'No block sealed since the server started; retry after the next block'
+        : `State of block ${blockHeight} is not available`,
+      availableHeights: sealedSnapshotHeights(),
+      timestamp,
+    });
+    return null;
+  }
+
+  return snapshot;
+}
+
+/**
+ * GET /state/root
+ *
+ * Query params:
+ * - height: Block height (default: latest sealed block)
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   stateRoot: "0x...",
+ *   accountsRoot: "0x...",
+ *   trianglesRoot: "0x...",
+ *   validatorSetRoot: "0x00...",
+ *   accountCount: 12,
+ *   triangleCount: 340,
+ *   blockHeight: 42,
+ *   computedAt: "...",
+ *   timestamp: "..."
+ * }
+ *
+ * Error responses:
+ * - 400 INVALID_PARAMS: height is not a positive integer
+ * - 404 SNAPSHOT_UNAVAILABLE: No such block in the retained history
+ *   (response lists availableHeights)
+ */
+router.get('/root', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const snapshot = sealedSnapshotFor(req, res, timestamp);
+    if (!snapshot) {
+      return;
+    }
+
+    return res.json({
+      ok: true,
+      ...toRootResponse(snapshot),
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error computing state root:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * GET /state/proof/account/:address
+ *
+ * Query params:
+ * - height: Block height (default: latest sealed block)
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   root: { stateRoot, accountsRoot, ..., blockHeight, computedAt },
+ *   proof: {
+ *     kind: "account",
+ *     leaf: { address, balance, nonce },
+ *     leafHash: "0x...",
+ *     subTreeRoot: "0x...",
+ *     subTreeProof: [{ position: "left" | "right", hash: "0x..." }],
+ *     stateRoot: "0x...",
+ *     stateProof: [{ position, hash }]
+ *   },
+ *   timestamp: "..."
+ * }
+ *
+ * Error responses:
+ * - 404 NOT_IN_STATE: Account did not exist when the block was sealed
+ * - 400 INVALID_PARAMS / 404 SNAPSHOT_UNAVAILABLE: As for /state/root
+ */
+router.get('/proof/account/:address', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const address = canonicalAddress(req.params.address);
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_ADDRESS,
+      message: 'Address must be 42-char hex string starting with 0x',
+      timestamp,
+    });
+  }
+
+  try {
+    const snapshot = sealedSnapshotFor(req, res, timestamp);
+    if (!snapshot) {
+      return;
+    }
+
+    const proof = proveAccount(snapshot, address);
+
+    if (!proof) {
+      return res.status(404).json({
+        ok: false,
+        code: ErrorCode.NOT_IN_STATE,
+        message: `Account not in state of block ${snapshot.blockHeight}: ${address}`,
+        timestamp,
+      });
+    }
+
+    return res.json({
+      ok: true,
+      root: toRootResponse(snapshot),
+      proof,
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error building account proof for ${address}:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * GET /state/proof/triangle/:triangleId
+ *
+ * Same response shape as the account proof, with
+ * leaf: { id, clicks, state, childrenIds }.
+ *
+ * Error responses:
+ * - 404 NOT_IN_STATE: Triangle was not materialized when the block was sealed
+ * - 400 INVALID_PARAMS / 404 SNAPSHOT_UNAVAILABLE: As for /state/root
+ */
+router.get('/proof/triangle/:triangleId', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const { triangleId } = req.params;
+
+  if (!triangleId.startsWith('STEP-TRI-v1:')) {
+    return res.status(400).json({
+      ok: false,
+      code: ErrorCode.INVALID_TRIANGLE_ID,
+      message: 'Triangle ID must be in STEP-TRI-v1 format',
+      timestamp,
+    });
+  }
+
+  try {
+    const snapshot = sealedSnapshotFor(req, res, timestamp);
+    if (!snapshot) {
+      return;
+    }
+
+    const proof = proveTriangle(snapshot, triangleId);
+
+    if (!proof) {
+      return res.status(404).json({
+        ok: false,
+        code: ErrorCode.NOT_IN_STATE,
+        message: `Triangle not in state of block ${snapshot.blockHeight}: ${triangleId}`,
+        timestamp,
+      });
+    }
+
+    return res.json({
+      ok: true,
+      root: toRootResponse(snapshot),
+      proof,
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error building triangle proof for ${triangleId}:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+export default router;
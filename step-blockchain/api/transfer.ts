@@ -0,0 +1,309 @@
+/**
+ * Transfer API
+ *
+ * Signed account-to-account STEP transfers.
+ *
+ * Endpoints:
+ * - POST /transfer/submit - Submit a signed transfer
+ * - GET /transfer/:id - Look up a transfer by ID
+ *
+ * Security model:
+ * - EIP-191 signature by sender prevents impersonation
+ * - Strictly increasing sender nonce (Account.nonce) prevents replay
+ * - Unique (from, nonce) ledger index backs up the nonce check
+ * - Debit, credit, nonce bump and ledger insert run in one transaction,
+ *   so concurrent transfers cannot overdraw an account
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  Account,
+  Transfer,
+  canonicalAddress,
+  getOrCreateAccount,
+  isDuplicateKeyError,
+  updateBalance,
+  type ITransfer,
+} from '../core/state/schemas.js';
+import { formatStepAmount } from '../core/state/amounts.js';
+import {
+  validateTransferPayload,
+  verifyTransferSignature,
+  computeTransferId,
+  type TransferPayload,
+} from '../core/validator/transfer.js';
+
+const router = Router();
+
+/**
+ * Error codes for structured error responses.
+ */
+const ErrorCode = {
+  INVALID_PAYLOAD: 'INVALID_PAYLOAD',
+  BAD_SIGNATURE: 'BAD_SIGNATURE',
+  NONCE_TOO_LOW: 'NONCE_TOO_LOW',
+  INSUFFICIENT_BALANCE: 'INSUFFICIENT_BALANCE',
+  TRANSFER_NOT_FOUND: 'TRANSFER_NOT_FOUND',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+} as const;
+
+/**
+ * Business rule failure raised inside the transaction.
+ *
+ * Why: Throwing aborts withTransaction (rolls back partial writes) while
+ * still letting the handler map the failure to a 4xx response.
+ */
+class TransferRejection extends Error {
+  constructor(
+    public code: keyof typeof ErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TransferRejection';
+  }
+}
+
+/**
+ * Convert a ledger document to API shape.
+ *
+ * @param transfer - Lean Transfer document
+ * @returns Transfer with formatted amount and ISO dates
+ */
+function toTransferResponse(transfer: Pick<ITransfer, '_id' | 'from' | 'to' | 'amount' | 'nonce' | 'timestamp' | 'createdAt'>) {
+  return {
+    id: transfer._id,
+    from: transfer.from,
+    to: transfer.to,
+    amount: formatStepAmount(transfer.amount),
+    amountUnits: transfer.amount,
+    nonce: transfer.nonce,
+    signedAt: new Date(transfer.timestamp).toISOString(),
+    createdAt: new Date(transfer.createdAt).toISOString(),
+  };
+}
+
+/**
+ * POST /transfer/submit
+ *
+ * Submit a signed STEP transfer.
+ *
+ * Request body:
+ * {
+ *   payload: {
+ *     version: "STEP-TRANSFER-v1",
+ *     from: "0x...",
+ *     to: "0x...",
+ *     amount: "1.5",
+ *     nonce: 1,
+ *     timestamp: "2025-10-03T16:50:00.123Z"
+ *   },
+ *   signature: "0x..."
+ * }
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   transferId: "0x...",
+ *   from: { address, balance, nonce },
+ *   to: { address, balance },
+ *   amount: "1.500000",
+ *   timestamp: "..."
+ * }
+ *
+ * Error responses:
+ * - 400 INVALID_PAYLOAD: Malformed payload, bad amount, expired timestamp
+ * - 401 BAD_SIGNATURE: Signature not produced by payload.from
+ * - 409 NONCE_TOO_LOW: Nonce not greater than account nonce
+ * - 422 INSUFFICIENT_BALANCE: Sender balance below amount
+ */
+router.post('/submit', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const { payload, signature } = req.body as { payload: TransferPayload; signature: string };
+
+    if (!payload || typeof signature !== 'string') {
+      return res.status(400).json({
+        ok: false,
+        code: ErrorCode.INVALID_PAYLOAD,
+        message: 'Missing payload or signature',
+        timestamp,
+      });
+    }
+
+    const validation = validateTransferPayload(payload);
+    if (!validation.ok || validation.amountUnits === undefined) {
+      return res.status(400).json({
+        ok: false,
+        code: ErrorCode.INVALID_PAYLOAD,
+        message: validation.error,
+        timestamp,
+      });
+    }
+
+    const sigResult = await verifyTransferSignature(payload, signature);
+    if (!sigResult.ok) {
+      console.warn(`[${timestamp}] Transfer signature verification failed: ${sigResult.error}`);
+      return res.status(401).json({
+        ok: false,
+        code: ErrorCode.BAD_SIGNATURE,
+        message: sigResult.error,
+        timestamp,
+      });
+    }
+
+    const amountUnits = validation.amountUnits;
+    const transferId = computeTransferId(payload);
+    const { nonce } = payload;
+    // Ledger keys use the lowercase form the signature commits to
+    const from = canonicalAddress(payload.from);
+    const to = canonicalAddress(payload.to);
+
+    console.log(`[${timestamp}] Transfer ${transferId}: ${from} → ${to} ${formatStepAmount(amountUnits)} STEP (nonce ${nonce})`);
+
+    const session = await Account.startSession();
+
+    try {
+      await session.withTransaction(async () => {
+        const sender = await getOrCreateAccount(from, session);
+
+        if (nonce <= sender.nonce) {
+          throw new TransferRejection(
+            'NONCE_TOO_LOW',
+            `Nonce ${nonce} must be greater than account nonce ${sender.nonce}`
+          );
+        }
+
+        if (BigInt(sender.balance) < amountUnits) {
+          throw new TransferRejection(
+            'INSUFFICIENT_BALANCE',
+            `Balance ${formatStepAmount(sender.balance)} is less than ${formatStepAmount(amountUnits)}`
+          );
+        }
+
+        const debited = await updateBalance(from, -amountUnits, session);
+        debited.nonce = nonce;
+        await debited.save({ session });
+
+        await updateBalance(to, amountUnits, session);
+
+        // Unique (from, nonce) index rejects a concurrent duplicate
+        await Transfer.create(
+          [
+            {
+              _id: transferId,
+              from,
+              to,
+              amount: amountUnits.toString(),
+              nonce,
+              signature,
+              timestamp: new Date(payload.timestamp),
+            },
+          ],
+          { session }
+        );
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    const [sender, recipient] = await Promise.all([
+      getOrCreateAccount(from),
+      getOrCreateAccount(to),
+    ]);
+
+    console.log(`[${timestamp}] Transfer complete: ${transferId}`);
+
+    return res.status(200).json({
+      ok: true,
+      transferId,
+      from: {
+        address: from,
+        balance: formatStepAmount(sender.balance),
+        nonce: sender.nonce,
+      },
+      to: {
+        address: to,
+        balance: formatStepAmount(recipient.balance),
+      },
+      amount: formatStepAmount(amountUnits),
+      timestamp,
+    });
+  } catch (error) {
+    if (error instanceof TransferRejection) {
+      const status = error.code === 'NONCE_TOO_LOW' ? 409 : 422;
+      return res.status(status).json({
+        ok: false,
+        code: ErrorCode[error.code],
+        message: error.message,
+        timestamp,
+      });
+    }
+
+    // Duplicate (from, nonce) or transfer ID from a concurrent submission
+    if (isDuplicateKeyError(error)) {
+      return res.status(409).json({
+        ok: false,
+        code: ErrorCode.NONCE_TOO_LOW,
+        message: 'Nonce already used',
+        timestamp,
+      });
+    }
+
+    console.error(`[${timestamp}] Error processing transfer:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+/**
+ * GET /transfer/:id
+ *
+ * Look up a transfer by ID.
+ *
+ * Response (200):
+ * {
+ *   ok: true,
+ *   transfer: { id, from, to, amount, amountUnits, nonce, signedAt, createdAt },
+ *   timestamp: "..."
+ * }
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  const timestamp = new Date().toISOString();
+  const { id } = req.params;
+
+  try {
+    const transfer = await Transfer.findById(id).lean();
+
+    if (!transfer) {
+      return res.status(404).json({
+        ok: false,
+        code: ErrorCode.TRANSFER_NOT_FOUND,
+        message: `Transfer not found: ${id}`,
+        timestamp,
+      });
+    }
+
+    return res.json({
+      ok: true,
+      transfer: toTransferResponse(transfer),
+      timestamp,
+    });
+  } catch (error) {
+    console.error(`[${timestamp}] Error loading transfer ${id}:`, error);
+
+    return res.status(500).json({
+      ok: false,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,382 @@
+/**
+ * Anchor Service
+ *
+ * Periodically commits sealed block hashes to the BlockmassAnchor contract
+ * (contracts/contracts/BlockmassAnchor.sol) over JSON-RPC.
+ *
+ * Why anchor block hashes:
+ * - Each block hash commits to parentHash, stateRoot and eventsRoot,
+ *   so one bytes32 on Ethereum pins the whole chain up to that block
+ * - Rewriting backend history would require a hash that was never anchored
+ *
+ * Lifecycle per block (Anchor document, _id = block height):
+ *   queued → sent → confirmed
+ *      ↑       │
+ *      └───────┘ send error / revert / not mined in time (with backoff)
+ *   queued → failed after ANCHOR_MAX_ATTEMPTS
+ *
+ * Why anchorBatch (even for one hash):
+ * - anchor() reverts on already-anchored hashes; anchorBatch() skips them,
+ *   so re-sending after a lost receipt is idempotent
+ *
+ * Local testing (Hardhat):
+ *   cd contracts && npx hardhat node
+ *   npm run deploy:localhost   (prints contract address)
+ *   ANCHOR_ENABLED=true ANCHOR_RPC_URL=http://127.0.0.1:8545 \
+ *   ANCHOR_CONTRACT_ADDRESS=0x... ANCHOR_PRIVATE_KEY=<hardhat account #0 key>
+ *
+ * Configuration via environment:
+ * - ANCHOR_ENABLED: Start with the API server (default: false)
+ * - ANCHOR_RPC_URL: JSON-RPC endpoint (default: http://127.0.0.1:8545)
+ * - ANCHOR_CONTRACT_ADDRESS: Deployed BlockmassAnchor address (required)
+ * - ANCHOR_PRIVATE_KEY: Operator key paying gas (required)
+ * - ANCHOR_INTERVAL_MS: Time between ticks (default: 60000)
+ * - ANCHOR_BATCH_SIZE: Max block hashes per transaction (default: 50)
+ * - ANCHOR_CONFIRMATIONS: Blocks required before 'confirmed' (default: 1)
+ * - ANCHOR_MAX_ATTEMPTS: Send attempts before 'failed' (default: 5)
+ * - ANCHOR_RETRY_BASE_MS: Backoff base, doubled per attempt (default: 30000)
+ * - ANCHOR_TX_TIMEOUT_MS: Requeue if not mined within this time (default: 600000)
+ */
+
+import { Anchor, Block, type IAnchor } from '../state/schemas.js';
+import { fromHex } from './merkle.js';
+import {
+  EthRpcClient,
+  addressFromPrivateKey,
+  encodeBytes32ArrayCall,
+  signLegacyTx,
+} from './eth-rpc.js';
+
+// Configuration with defaults
+const ANCHOR_ENABLED = process.env.ANCHOR_ENABLED === 'true';
+const ANCHOR_RPC_URL = process.env.ANCHOR_RPC_URL || 'http://127.0.0.1:8545';
+const ANCHOR_CONTRACT_ADDRESS = process.env.ANCHOR_CONTRACT_ADDRESS || '';
+const ANCHOR_INTERVAL_MS = parseInt(process.env.ANCHOR_INTERVAL_MS || '60000', 10);
+const ANCHOR_BATCH_SIZE = parseInt(process.env.ANCHOR_BATCH_SIZE || '50', 10);
+const ANCHOR_CONFIRMATIONS = parseInt(process.env.ANCHOR_CONFIRMATIONS || '1', 10);
+const ANCHOR_MAX_ATTEMPTS = parseInt(process.env.ANCHOR_MAX_ATTEMPTS || '5', 10);
+const ANCHOR_RETRY_BASE_MS = parseInt(process.env.ANCHOR_RETRY_BASE_MS || '30000', 10);
+const ANCHOR_TX_TIMEOUT_MS = parseInt(process.env.ANCHOR_TX_TIMEOUT_MS || '600000', 10);
+
+/**
+ * Contract method used for all submissions.
+ */
+const ANCHOR_METHOD = 'anchorBatch(bytes32[])';
+
+// Module-level state (singleton scheduler, like block-producer.ts)
+let rpc: EthRpcClient | null = null;
+let operatorKey: Uint8Array | null = null;
+let operatorAddress: string | null = null;
+let chainId: bigint | null = null;
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+let lastTickAt: string | null = null;
+let lastTickError: string | null = null;
+
+/**
+ * Lazily initialize RPC client and operator key from environment.
+ *
+ * @throws Error if contract address or key is missing
+ */
+async function init(): Promise<{ client: EthRpcClient; key: Uint8Array; from: string; chain: bigint }> {
+  if (rpc && operatorKey && operatorAddress && chainId !== null) {
+    return { client: rpc, key: operatorKey, from: operatorAddress, chain: chainId };
+  }
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(ANCHOR_CONTRACT_ADDRESS)) {
+    throw new Error('ANCHOR_CONTRACT_ADDRESS must be set to the deployed BlockmassAnchor address');
+  }
+
+  const privateKey = process.env.ANCHOR_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error('ANCHOR_PRIVATE_KEY is required to anchor');
+  }
+
+  rpc = new EthRpcClient(ANCHOR_RPC_URL);
+  operatorKey = fromHex(privateKey);
+  operatorAddress = addressFromPrivateKey(operatorKey);
+  chainId = await rpc.chainId();
+
+  return { client: rpc, key: operatorKey, from: operatorAddress, chain: chainId };
+}
+
+/**
+ * Backoff delay before attempt number `attempts + 1`.
+ *
+ * @param attempts - Attempts already made (≥ 1)
+ * @returns Delay in ms (base * 2^(attempts-1))
+ */
+function backoffMs(attempts: number): number {
+  return ANCHOR_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * Requeue anchors with backoff, or mark failed once attempts are exhausted.
+ *
+ * @param anchors - Anchors to retry (attempts already counted)
+ * @param error - Reason recorded in lastError
+ */
+async function retryOrFail(anchors: IAnchor[], error: string): Promise<void> {
+  const now = Date.now();
+
+  for (const anchor of anchors) {
+    const exhausted = anchor.attempts >= ANCHOR_MAX_ATTEMPTS;
+
+    await Anchor.updateOne(
+      { _id: anchor._id },
+      {
+        $set: {
+          status: exhausted ? 'failed' : 'queued',
+          nextAttemptAt: new Date(now + backoffMs(anchor.attempts)),
+          lastError: error,
+        },
+      }
+    );
+
+    if (exhausted) {
+      console.error(`[${new Date(now).toISOString()}] [anchor] Block ${anchor._id} failed after ${anchor.attempts} attempts: ${error}`);
+    }
+  }
+}
+
+/**
+ * Queue every sealed block that has no Anchor record yet.
+ *
+ * @returns Number of newly queued blocks
+ */
+export async function enqueueNewBlocks(): Promise<number> {
+  const last = await Anchor.findOne().sort({ _id: -1 }).select('_id').lean();
+
+  const blocks = await Block.find({ _id: { $gt: last ? last._id : 0 } })
+    .sort({ _id: 1 })
+    .select('_id hash')
+    .lean();
+
+  if (blocks.length === 0) {
+    return 0;
+  }
+
+  const now = new Date();
+
+  try {
+    await Anchor.insertMany(
+      blocks.map((block) => ({
+        _id: block._id,
+        contentHash: block.hash,
+        status: 'queued',
+        attempts: 0,
+        nextAttemptAt: now,
+      })),
+      { ordered: false }
+    );
+  } catch (error: any) {
+    // Duplicate keys mean another tick queued them first
+    if (error?.code !== 11000 && !error?.writeErrors) {
+      throw error;
+    }
+  }
+
+  return blocks.length;
+}
+
+/**
+ * Check receipts of sent anchors and confirm, retry or fail them.
+ *
+ * @returns Number of anchors confirmed in this pass
+ */
+export async function confirmSentAnchors(): Promise<number> {
+  const { client } = await init();
+  const sent = await Anchor.find({ status: 'sent' }).sort({ _id: 1 });
+
+  if (sent.length === 0) {
+    return 0;
+  }
+
+  // One receipt lookup per transaction (anchors share txHash within a batch)
+  const byTx = new Map<string, IAnchor[]>();
+  for (const anchor of sent) {
+    const group = byTx.get(anchor.txHash!) || [];
+    group.push(anchor);
+    byTx.set(anchor.txHash!, group);
+  }
+
+  const head = await client.blockNumber();
+  let confirmed = 0;
+
+  for (const [txHash, anchors] of byTx) {
+    const receipt = await client.getReceipt(txHash);
+
+    if (!receipt) {
+      const sentAt = anchors[0].sentAt?.getTime() || 0;
+      if (Date.now() - sentAt > ANCHOR_TX_TIMEOUT_MS) {
+        await retryOrFail(anchors, `Transaction ${txHash} not mined within ${ANCHOR_TX_TIMEOUT_MS}ms`);
+      }
+      continue;
+    }
+
+    if (!receipt.status) {
+      await retryOrFail(anchors, `Transaction ${txHash} reverted`);
+      continue;
+    }
+
+    if (head - receipt.blockNumber + 1 < ANCHOR_CONFIRMATIONS) {
+      continue;
+    }
+
+    await Anchor.updateMany(
+      { _id: { $in: anchors.map((a) => a._id) }, status: 'sent', txHash },
+      {
+        $set: {
+          status: 'confirmed',
+          confirmedAt: new Date(),
+          chainBlockNumber: receipt.blockNumber,
+          lastError: null,
+        },
+      }
+    );
+
+    confirmed += anchors.length;
+    console.log(`[${new Date().toISOString()}] [anchor] Confirmed blocks ${anchors.map((a) => a._id).join(', ')} in tx ${txHash}`);
+  }
+
+  return confirmed;
+}
+
+/**
+ * Send due queued anchors in one anchorBatch transaction.
+ *
+ * @returns Transaction hash, or null if nothing was due
+ */
+export async function sendQueuedAnchors(): Promise<string | null> {
+  const { client, key, from, chain } = await init();
+
+  const due = await Anchor.find({ status: 'queued', nextAttemptAt: { $lte: new Date() } })
+    .sort({ _id: 1 })
+    .limit(ANCHOR_BATCH_SIZE);
+
+  if (due.length === 0) {
+    return null;
+  }
+
+  const ids = due.map((a) => a._id);
+  await Anchor.updateMany({ _id: { $in: ids } }, { $inc: { attempts: 1 } });
+  due.forEach((a) => { a.attempts += 1; });
+
+  try {
+    const data = encodeBytes32ArrayCall(ANCHOR_METHOD, due.map((a) => a.contentHash));
+    const [nonce, gasPrice, gasEstimate] = await Promise.all([
+      client.pendingNonce(from),
+      client.gasPrice(),
+      client.estimateGas({ from, to: ANCHOR_CONTRACT_ADDRESS, data }),
+    ]);
+
+    const rawTx = await signLegacyTx(
+      {
+        nonce,
+        gasPrice,
+        gasLimit: (gasEstimate * 12n) / 10n, // 20% headroom
+        to: ANCHOR_CONTRACT_ADDRESS,
+        value: 0n,
+        data,
+        chainId: chain,
+      },
+      key
+    );
+
+    const txHash = await client.sendRawTransaction(rawTx);
+
+    await Anchor.updateMany(
+      { _id: { $in: ids } },
+      {
+        $set: {
+          status: 'sent',
+          txHash,
+          sentAt: new Date(),
+          chainId: Number(chain),
+          contractAddress: ANCHOR_CONTRACT_ADDRESS,
+          lastError: null,
+        },
+      }
+    );
+
+    console.log(`[${new Date().toISOString()}] [anchor] Sent blocks ${ids[0]}-${ids[ids.length - 1]} in tx ${txHash}`);
+    return txHash;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await retryOrFail(due, message);
+    throw error;
+  }
+}
+
+/**
+ * Run one anchoring pass: enqueue, confirm, send.
+ *
+ * Confirm runs before send so a block is never re-sent while its previous
+ * transaction could still be mined.
+ */
+export async function runAnchorTick(): Promise<void> {
+  await enqueueNewBlocks();
+  await confirmSentAnchors();
+  await sendQueuedAnchors();
+}
+
+/**
+ * Start periodic anchoring (no-op unless ANCHOR_ENABLED=true).
+ */
+export function startAnchorService(): void {
+  if (!ANCHOR_ENABLED || timer) {
+    return;
+  }
+
+  console.log(`[${new Date().toISOString()}] [anchor] Anchoring to ${ANCHOR_CONTRACT_ADDRESS} via ${ANCHOR_RPC_URL} every ${ANCHOR_INTERVAL_MS}ms`);
+
+  timer = setInterval(async () => {
+    if (ticking) {
+      return;
+    }
+
+    ticking = true;
+    try {
+      await runAnchorTick();
+      lastTickAt = new Date().toISOString();
+      lastTickError = null;
+    } catch (error) {
+      lastTickError = error instanceof Error ? error.message : String(error);
+      console.error(`[${new Date().toISOString()}] [anchor] Tick failed:`, lastTickError);
+    } finally {
+      ticking = false;
+    }
+  }, ANCHOR_INTERVAL_MS);
+}
+
+/**
+ * Stop periodic anchoring (graceful shutdown).
+ */
+export function stopAnchorService(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+/**
+ * Get anchor service status for the anchors API.
+ *
+ * @returns Scheduler state and configuration (no secrets)
+ */
+export function anchorServiceStatus() {
+  return {
+    enabled: ANCHOR_ENABLED,
+    running: timer !== null,
+    rpcUrl: ANCHOR_RPC_URL,
+    contractAddress: ANCHOR_CONTRACT_ADDRESS || null,
+    operator: operatorAddress,
+    chainId: chainId !== null ? Number(chainId) : null,
+    intervalMs: ANCHOR_INTERVAL_MS,
+    batchSize: ANCHOR_BATCH_SIZE,
+    confirmations: ANCHOR_CONFIRMATIONS,
+    maxAttempts: ANCHOR_MAX_ATTEMPTS,
+    lastTickAt,
+    lastTickError,
+  };
+}
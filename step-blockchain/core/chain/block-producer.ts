@@ -0,0 +1,335 @@
+/**
+ * Block Producer
+ *
+ * Periodically seals new triangle events into hash-chained, signed blocks.
+ *
+ * Phase 2 MVP: Single producer
+ * - The API server is the only block producer (centralized validator)
+ * - Blocks give explorers and auditors an ordered, tamper-evident history
+ * - Phase 4 replaces this with round-robin proposers and BFT finality
+ *
+ * Sealing (one MongoDB transaction):
+ * 1. Load chain tip (highest Block)
+ * 2. Load unsealed 'click' and 'subdivide' events, ordered by (timestamp, _id)
+ * 3. eventsRoot = MerkleRoot(hashLeaf(canonicalJson(event)))
+ * 4. stateRoot = world-state root: the previous block's state patched with
+ *    the accounts and triangles changed since, read in the same transaction
+ * 5. hash = keccak256(canonicalJson(header)); signature = sign(hash)
+ * 6. Insert Block and stamp events with blockHeight
+ *
+ * Why a transaction:
+ * - Block header and event stamping must commit together, otherwise an
+ *   event could be sealed twice or claimed by a block that never committed
+ * - Block _id (height) is unique, so a concurrent producer aborts cleanly
+ *
+ * Configuration via environment:
+ * - BLOCK_PRODUCER_ENABLED: Start the scheduler with the API server (default: true)
+ * - BLOCK_INTERVAL_MS: Time between seal attempts (default: 600000 = 10 minutes)
+ * - BLOCK_MAX_EVENTS: Maximum events per block (default: 5000)
+ * - BLOCK_PRODUCER_PRIVATE_KEY: 0x-prefixed secp256k1 key (required in production)
+ */
+
+import * as secp from '@noble/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { Block, TriangleEvent, type IBlock } from '../state/schemas.js';
+import { canonicalJson, hashLeaf, merkleRoot, toHex, fromHex, ZERO_HASH } from './merkle.js';
+import {
+  prepareStateSnapshot,
+  advanceStateSnapshot,
+  commitStateSnapshot,
+  type StateSnapshot,
+} from './state-root.js';
+import { recoverAddressFromSig } from '../validator/signature.js';
+
+// Configuration with defaults
+const BLOCK_PRODUCER_ENABLED = process.env.BLOCK_PRODUCER_ENABLED !== 'false';
+const BLOCK_INTERVAL_MS = parseInt(process.env.BLOCK_INTERVAL_MS || '600000', 10);
+const BLOCK_MAX_EVENTS = parseInt(process.env.BLOCK_MAX_EVENTS || '5000', 10);
+
+/**
+ * Event types sealed into blocks (state-changing events).
+ */
+const SEALED_EVENT_TYPES = ['click', 'subdivide'];
+
+/**
+ * Block header fields covered by the block hash.
+ */
+export interface BlockHeader {
+  height: number;
+  parentHash: string;
+  stateRoot: string;
+  eventsRoot: string;
+  eventCount: number;
+  timestamp: string; // ISO 8601 UTC with milliseconds
+  producer: string;
+}
+
+// Module-level state (singleton scheduler, like core/db.ts)
+let producerKey: Uint8Array | null = null;
+let producerAddress: string | null = null;
+let timer: NodeJS.Timeout | null = null;
+let sealing = false;
+let lastSealAt: string | null = null;
+let lastSealError: string | null = null;
+
+/**
+ * Load or generate the producer signing key.
+ *
+ * Development without BLOCK_PRODUCER_PRIVATE_KEY uses an ephemeral key,
+ * so block signatures change identity on every restart.
+ *
+ * @returns Private key bytes and derived address
+ */
+function getProducerKey(): { key: Uint8Array; address: string } {
+  if (producerKey && producerAddress) {
+    return { key: producerKey, address: producerAddress };
+  }
+
+  const configured = process.env.BLOCK_PRODUCER_PRIVATE_KEY;
+
+  if (configured) {
+    producerKey = fromHex(configured);
+  } else if ((process.env.NODE_ENV || 'development') === 'production') {
+    throw new Error('BLOCK_PRODUCER_PRIVATE_KEY is required in production');
+  } else {
+    producerKey = secp.utils.randomPrivateKey();
+    console.warn(`[${new Date().toISOString()}] [blocks] BLOCK_PRODUCER_PRIVATE_KEY not set; using ephemeral key`);
+  }
+
+  const publicKey = secp.getPublicKey(producerKey, false);
+  producerAddress = toHex(keccak_256(publicKey.slice(1)).slice(-20));
+
+  return { key: producerKey, address: producerAddress };
+}
+
+/**
+ * Serialize an event into its Merkle leaf form.
+ *
+ * blockHeight is excluded: it is assigned by sealing and is not part of
+ * the event's own content.
+ *
+ * @param event - Lean TriangleEvent document
+ * @returns Canonical JSON string
+ */
+export function eventLeafData(event: any): string {
+  return canonicalJson({
+    id: event._id,
+    triangleId: event.triangleId,
+    eventType: event.eventType,
+    timestamp: new Date(event.timestamp).toISOString(),
+    account: event.account,
+    nonce: event.nonce,
+    signature: event.signature,
+    payload: event.payload,
+  });
+}
+
+/**
+ * Compute eventsRoot for an ordered list of events.
+ *
+ * @param events - Lean TriangleEvent documents in block order
+ * @returns 0x-prefixed Merkle root
+ */
+export function computeEventsRoot(events: any[]): string {
+  return merkleRoot(events.map((event) => hashLeaf(eventLeafData(event))));
+}
+
+/**
+ * Compute block hash from header.
+ *
+ * @param header - Block header
+ * @returns 0x-prefixed keccak256 hash
+ */
+export function computeBlockHash(header: BlockHeader): string {
+  return toHex(keccak_256(new TextEncoder().encode(canonicalJson(header))));
+}
+
+/**
+ * Extract hashed header fields from a stored block.
+ *
+ * @param block - Block document (lean or hydrated)
+ * @returns Block header
+ */
+export function toBlockHeader(block: Pick<IBlock, '_id' | 'parentHash' | 'stateRoot' | 'eventsRoot' | 'eventCount' | 'timestamp' | 'producer'>): BlockHeader {
+  return {
+    height: block._id,
+    parentHash: block.parentHash,
+    stateRoot: block.stateRoot,
+    eventsRoot: block.eventsRoot,
+    eventCount: block.eventCount,
+    timestamp: new Date(block.timestamp).toISOString(),
+    producer: block.producer,
+  };
+}
+
+/**
+ * Verify a stored block's hash and producer signature.
+ *
+ * @param block - Block document
+ * @returns True if hash matches header and signature recovers to producer
+ */
+export async function verifyBlockSignature(block: IBlock): Promise<boolean> {
+  const hash = computeBlockHash(toBlockHeader(block));
+  if (hash !== block.hash) {
+    return false;
+  }
+
+  try {
+    const recovered = await recoverAddressFromSig(fromHex(hash), block.signature);
+    return recovered === block.producer.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Seal all unsealed events (up to BLOCK_MAX_EVENTS) into a new block.
+ *
+ * @returns Sealed block, or null if there were no new events
+ */
+export async function sealBlock(): Promise<IBlock | null> {
+  const { key, address } = getProducerKey();
+  const session = await Block.startSession();
+  let sealed: IBlock | null = null;
+  let snapshot: StateSnapshot | null = null;
+
+  // Full state read happens once per process, outside the transaction
+  await prepareStateSnapshot();
+
+  try {
+    await session.withTransaction(async () => {
+      sealed = null; // withTransaction may retry the callback
+      snapshot = null;
+
+      const tip = await Block.findOne().sort({ _id: -1 }).session(session).lean();
+
+      const events = await TriangleEvent.find({
+        blockHeight: null,
+        eventType: { $in: SEALED_EVENT_TYPES },
+      })
+        .sort({ timestamp: 1, _id: 1 })
+        .limit(BLOCK_MAX_EVENTS)
+        .session(session)
+        .lean();
+
+      if (events.length === 0) {
+        return;
+      }
+
+      const height = tip ? tip._id + 1 : 1;
+      snapshot = await advanceStateSnapshot(session, height);
+
+      const header: BlockHeader = {
+        height,
+        parentHash: tip ? tip.hash : ZERO_HASH,
+        stateRoot: snapshot.stateRoot,
+        eventsRoot: computeEventsRoot(events),
+        eventCount: events.length,
+        timestamp: new Date().toISOString(),
+        producer: address,
+      };
+
+      const hash = computeBlockHash(header);
+      const sig = await secp.signAsync(fromHex(hash), key);
+      const signature = toHex(sig.toCompactRawBytes()) + (27 + sig.recovery).toString(16);
+
+      const [block] = await Block.create(
+        [
+          {
+            _id: header.height,
+            hash,
+            parentHash: header.parentHash,
+            stateRoot: header.stateRoot,
+            eventsRoot: header.eventsRoot,
+            eventCount: header.eventCount,
+            timestamp: new Date(header.timestamp),
+            producer: header.producer,
+            signature,
+          },
+        ],
+        { session }
+      );
+
+      await TriangleEvent.updateMany(
+        { _id: { $in: events.map((e) => e._id) } },
+        { $set: { blockHeight: header.height } },
+        { session }
+      );
+
+      sealed = block;
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  // Serve proofs against the root just committed in the header
+  if (sealed && snapshot) {
+    commitStateSnapshot(snapshot);
+  }
+
+  return sealed;
+}
+
+/**
+ * Start periodic block production.
+ *
+ * Safe to call more than once; only one timer runs.
+ * Skips a tick if the previous seal is still in progress.
+ */
+export function startBlockProducer(): void {
+  if (!BLOCK_PRODUCER_ENABLED || timer) {
+    return;
+  }
+
+  const { address } = getProducerKey();
+  console.log(`[${new Date().toISOString()}] [blocks] Producer ${address} sealing every ${BLOCK_INTERVAL_MS}ms`);
+
+  timer = setInterval(async () => {
+    if (sealing) {
+      return;
+    }
+
+    sealing = true;
+    try {
+      const block = await sealBlock();
+      lastSealAt = new Date().toISOString();
+      lastSealError = null;
+
+      if (block) {
+        console.log(`[${lastSealAt}] [blocks] Sealed block ${block._id} (${block.eventCount} events) ${block.hash}`);
+      }
+    } catch (error) {
+      lastSealError = error instanceof Error ? error.message : String(error);
+      console.error(`[${new Date().toISOString()}] [blocks] Seal failed:`, lastSealError);
+    } finally {
+      sealing = false;
+    }
+  }, BLOCK_INTERVAL_MS);
+}
+
+/**
+ * Stop periodic block production (graceful shutdown).
+ */
+export function stopBlockProducer(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+/**
+ * Get producer status for health/debug endpoints.
+ *
+ * @returns Scheduler state and configuration
+ */
+export function blockProducerStatus() {
+  return {
+    enabled: BLOCK_PRODUCER_ENABLED,
+    running: timer !== null,
+    producer: producerAddress,
+    intervalMs: BLOCK_INTERVAL_MS,
+    maxEvents: BLOCK_MAX_EVENTS,
+    lastSealAt,
+    lastSealError,
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * Minimal Ethereum JSON-RPC Client
+ *
+ * Just enough of the Ethereum wire format to call BlockmassAnchor from the
+ * backend without pulling in ethers/web3.
+ *
+ * Supports:
+ * - JSON-RPC calls over HTTP (eth_chainId, eth_getTransactionCount, ...)
+ * - Legacy (type 0) transactions with EIP-155 replay protection
+ * - RLP encoding and local secp256k1 signing
+ *
+ * Why legacy transactions:
+ * - Accepted by every client we target (Hardhat node, Sepolia)
+ * - One gasPrice field instead of EIP-1559 fee market estimation
+ */
+
+import * as secp from '@noble/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { toHex, fromHex } from './merkle.js';
+
+/**
+ * Unsigned legacy transaction fields.
+ */
+export interface LegacyTx {
+  nonce: bigint;
+  gasPrice: bigint;
+  gasLimit: bigint;
+  to: string; // 0x-prefixed contract address
+  value: bigint;
+  data: string; // 0x-prefixed calldata
+  chainId: bigint;
+}
+
+/**
+ * Transaction receipt fields used by the anchor service.
+ */
+export interface TxReceipt {
+  status: boolean; // true = success (0x1)
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Error returned by the JSON-RPC endpoint (as opposed to transport failure).
+ */
+export class RpcError extends Error {
+  constructor(
+    public code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+// ============================================================================
+// RLP ENCODING
+// ============================================================================
+
+/**
+ * Minimal big-endian bytes of an unsigned integer (0 → empty).
+ */
+function bigintToBytes(value: bigint): Uint8Array {
+  if (value === 0n) {
+    return new Uint8Array(0);
+  }
+  let hex = value.toString(16);
+  if (hex.length % 2 === 1) {
+    hex = '0' + hex;
+  }
+  return fromHex(hex);
+}
+
+/**
+ * Concatenate byte arrays.
+ */
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * RLP length prefix for strings (0x80) or lists (0xc0).
+ */
+function rlpLength(length: number, offset: number): Uint8Array {
+  if (length < 56) {
+    return new Uint8Array([offset + length]);
+  }
+  const lengthBytes = bigintToBytes(BigInt(length));
+  return concatBytes(new Uint8Array([offset + 55 + lengthBytes.length]), lengthBytes);
+}
+
+/**
+ * RLP-encode bytes or a (nested) list of bytes.
+ *
+ * @param input - Byte string or list
+ * @returns Encoded bytes
+ */
+export function rlpEncode(input: Uint8Array | Uint8Array[]): Uint8Array {
+  if (Array.isArray(input)) {
+    const payload = concatBytes(...input.map((item) => rlpEncode(item)));
+    return concatBytes(rlpLength(payload.length, 0xc0), payload);
+  }
+
+  if (input.length === 1 && input[0] < 0x80) {
+    return input;
+  }
+
+  return concatBytes(rlpLength(input.length, 0x80), input);
+}
+
+// ============================================================================
+// TRANSACTIONS
+// ============================================================================
+
+/**
+ * Derive the Ethereum address of a private key.
+ *
+ * @param privateKey - 32-byte secp256k1 private key
+ * @returns 0x-prefixed lowercase address
+ */
+export function addressFromPrivateKey(privateKey: Uint8Array): string {
+  const publicKey = secp.getPublicKey(privateKey, false);
+  return toHex(keccak_256(publicKey.slice(1)).slice(-20));
+}
+
+/**
+ * Sign a legacy transaction with EIP-155 replay protection.
+ *
+ * Signing hash: keccak256(rlp([nonce, gasPrice, gasLimit, to, value, data, chainId, 0, 0]))
+ * Raw tx: rlp([nonce, gasPrice, gasLimit, to, value, data, v, r, s]),
+ * v = chainId * 2 + 35 + recovery
+ *
+ * @param tx - Unsigned transaction
+ * @param privateKey - Sender private key
+ * @returns 0x-prefixed raw transaction for eth_sendRawTransaction
+ */
+export async function signLegacyTx(tx: LegacyTx, privateKey: Uint8Array): Promise<string> {
+  const fields = [
+    bigintToBytes(tx.nonce),
+    bigintToBytes(tx.gasPrice),
+    bigintToBytes(tx.gasLimit),
+    fromHex(tx.to),
+    bigintToBytes(tx.value),
+    fromHex(tx.data),
+  ];
+
+  const signingHash = keccak_256(
+    rlpEncode([...fields, bigintToBytes(tx.chainId), new Uint8Array(0), new Uint8Array(0)])
+  );
+
+  const sig = await secp.signAsync(signingHash, privateKey);
+  const v = tx.chainId * 2n + 35n + BigInt(sig.recovery);
+
+  return toHex(rlpEncode([...fields, bigintToBytes(v), bigintToBytes(sig.r), bigintToBytes(sig.s)]));
+}
+
+/**
+ * ABI-encode a call to a function taking a single bytes32[] argument.
+ *
+ * Layout: selector(4) | offset(32) = 0x20 | length(32) | items(32 each)
+ *
+ * @param signature - Function signature, e.g. "anchorBatch(bytes32[])"
+ * @param items - 0x-prefixed 32-byte values
+ * @returns 0x-prefixed calldata
+ */
+export function encodeBytes32ArrayCall(signature: string, items: string[]): string {
+  const selector = toHex(keccak_256(new TextEncoder().encode(signature)).slice(0, 4)).slice(2);
+  const word = (value: bigint) => value.toString(16).padStart(64, '0');
+
+  const encodedItems = items.map((item) => {
+    const hex = item.startsWith('0x') ? item.slice(2) : item;
+    if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+      throw new Error(`Invalid bytes32 value: ${item}`);
+    }
+    return hex.toLowerCase();
+  });
+
+  return '0x' + selector + word(32n) + word(BigInt(items.length)) + encodedItems.join('');
+}
+
+// ============================================================================
+// JSON-RPC
+// ============================================================================
+
+/**
+ * JSON-RPC client bound to one endpoint.
+ */
+export class EthRpcClient {
+  private requestId = 0;
+
+  constructor(
+    private url: string,
+    private timeoutMs: number = 10000
+  ) {}
+
+  /**
+   * Perform a JSON-RPC call.
+   *
+   * @param method - RPC method name
+   * @param params - Positional params
+   * @returns Result field
+   * @throws RpcError on JSON-RPC error, Error on transport failure
+   */
+  async call<T = any>(method: string, params: unknown[] = []): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`RPC HTTP ${response.status} for ${method}`);
+      }
+
+      const body: any = await response.json();
+
+      if (body.error) {
+        throw new RpcError(body.error.code, body.error.message || `RPC error in ${method}`);
+      }
+
+      return body.result as T;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async chainId(): Promise<bigint> {
+    return BigInt(await this.call<string>('eth_chainId'));
+  }
+
+  async blockNumber(): Promise<number> {
+    return Number(BigInt(await this.call<string>('eth_blockNumber')));
+  }
+
+  async gasPrice(): Promise<bigint> {
+    return BigInt(await this.call<string>('eth_gasPrice'));
+  }
+
+  async pendingNonce(address: string): Promise<bigint> {
+    return BigInt(await this.call<string>('eth_getTransactionCount', [address, 'pending']));
+  }
+
+  async estimateGas(tx: { from: string; to: string; data: string }): Promise<bigint> {
+    return BigInt(await this.call<string>('eth_estimateGas', [tx]));
+  }
+
+  async sendRawTransaction(rawTx: string): Promise<string> {
+    return this.call<string>('eth_sendRawTransaction', [rawTx]);
+  }
+
+  /**
+   * Get a transaction receipt.
+   *
+   * @param txHash - Transaction hash
+   * @returns Receipt, or null while pending
+   */
+  async getReceipt(txHash: string): Promise<TxReceipt | null> {
+    const receipt = await this.call<any>('eth_getTransactionReceipt', [txHash]);
+    if (!receipt || !receipt.blockNumber) {
+      return null;
+    }
+    return {
+      status: receipt.status === '0x1',
+      blockNumber: Number(BigInt(receipt.blockNumber)),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Merkle Tree Utilities
+ *
+ * Binary keccak256 Merkle trees used for block and state commitments.
+ *
+ * Construction:
+ * - Leaf hash: keccak256(0x00 || data)
+ * - Node hash: keccak256(0x01 || left || right)
+ * - Odd node at a level is promoted unchanged to the next level
+ * - Empty tree root: 32 zero bytes
+ *
+ * Why domain separation (0x00 / 0x01 prefixes):
+ * - Prevents an internal node from being passed off as a leaf
+ *   (second-preimage attack on naive Merkle trees)
+ *
+ * Why promote instead of duplicating the odd node:
+ * - Duplication lets two different leaf lists share one root
+ *   (Bitcoin CVE-2012-2459)
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+
+/**
+ * 32 zero bytes, 0x-prefixed (root of an empty tree, parent of first block).
+ */
+export const ZERO_HASH = '0x' + '00'.repeat(32);
+
+/**
+ * Convert bytes to 0x-prefixed lowercase hex.
+ *
+ * @param bytes - Input bytes
+ * @returns Hex string
+ */
+export function toHex(bytes: Uint8Array): string {
+  return '0x' + Buffer.from(bytes).toString('hex');
+}
+
+/**
+ * Convert 0x-prefixed (or bare) hex to bytes.
+ *
+ * @param hex - Hex string
+ * @returns Bytes
+ */
+export function fromHex(hex: string): Uint8Array {
+  const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+    throw new Error(`Invalid hex string: ${hex}`);
+  }
+  return new Uint8Array(Buffer.from(clean, 'hex'));
+}
+
+/**
+ * Deterministic JSON serialization (sorted keys, no whitespace).
+ *
+ * Rules:
+ * - Object keys sorted lexicographically at every depth
+ * - undefined values omitted (same as JSON.stringify)
+ * - Dates serialized as ISO 8601 strings
+ *
+ * @param value - Value to serialize
+ * @returns Canonical JSON string
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return '[' + value.map((v) => (v === undefined ? 'null' : canonicalJson(v))).join(',') + ']';
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+
+  return '{' + entries.join(',') + '}';
+}
+
+/**
+ * Hash a leaf (domain-separated).
+ *
+ * @param data - Leaf bytes or UTF-8 string
+ * @returns Leaf hash (32 bytes)
+ */
+export function hashLeaf(data: Uint8Array | string): Uint8Array {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const prefixed = new Uint8Array(bytes.length + 1);
+  prefixed[0] = 0x00;
+  prefixed.set(bytes, 1);
+  return keccak_256(prefixed);
+}
+
+/**
+ * Hash two child nodes (domain-separated).
+ *
+ * @param left - Left child hash
+ * @param right - Right child hash
+ * @returns Parent hash (32 bytes)
+ */
+export function hashNode(left: Uint8Array, right: Uint8Array): Uint8Array {
+  const combined = new Uint8Array(1 + left.length + right.length);
+  combined[0] = 0x01;
+  combined.set(left, 1);
+  combined.set(right, 1 + left.length);
+  return keccak_256(combined);
+}
+
+/**
+ * Compute Merkle root from leaf hashes.
+ *
+ * @param leafHashes - Leaf hashes (from hashLeaf), in tree order
+ * @returns Root hash as 0x-prefixed hex (ZERO_HASH if empty)
+ */
+export function merkleRoot(leafHashes: Uint8Array[]): string {
+  if (leafHashes.length === 0) {
+    return ZERO_HASH;
+  }
+
+  let level = leafHashes;
+
+  while (level.length > 1) {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    level = next;
+  }
+
+  return toHex(level[0]);
+}
+
+/**
+ * One step of a Merkle inclusion proof.
+ *
+ * position: Which side the sibling sits on when hashing upward.
+ */
+export interface MerkleProofStep {
+  position: 'left' | 'right';
+  hash: string; // 0x-prefixed sibling hash
+}
+
+/**
+ * Build an inclusion proof for the leaf at index.
+ *
+ * Levels where the node is the promoted odd node contribute no step.
+ *
+ * @param leafHashes - Leaf hashes (from hashLeaf), in tree order
+ * @param index - Index of the leaf to prove
+ * @returns Sibling path from leaf to root
+ */
+export function merkleProof(leafHashes: Uint8Array[], index: number): MerkleProofStep[] {
+  if (index < 0 || index >= leafHashes.length) {
+    throw new Error(`Leaf index ${index} out of range (0-${leafHashes.length - 1})`);
+  }
+
+  const proof: MerkleProofStep[] = [];
+  let level = leafHashes;
+  let position = index;
+
+  while (level.length > 1) {
+    const isRight = position % 2 === 1;
+    const siblingIndex = isRight ? position - 1 : position + 1;
+
+    if (siblingIndex < level.length) {
+      proof.push({
+        position: isRight ? 'left' : 'right',
+        hash: toHex(level[siblingIndex]),
+      });
+    }
+
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    level = next;
+    position = Math.floor(position / 2);
+  }
+
+  return proof;
+}
+
+/**
+ * Verify a Merkle inclusion proof.
+ *
+ * @param leafHash - Hash of the leaf (from hashLeaf), bytes or 0x hex
+ * @param proof - Sibling path from merkleProof
+ * @param root - Expected 0x-prefixed root
+ * @returns True if the path hashes up to root
+ */
+export function verifyMerkleProof(
+  leafHash: Uint8Array | string,
+  proof: MerkleProofStep[],
+  root: string
+): boolean {
+  try {
+    let node = typeof leafHash === 'string' ? fromHex(leafHash) : leafHash;
+
+    for (const step of proof) {
+      const sibling = fromHex(step.hash);
+      node = step.position === 'left' ? hashNode(sibling, node) : hashNode(node, sibling);
+    }
+
+    return toHex(node) === root.toLowerCase();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * State Proof Verification
+ *
+ * Leaf encoding and stand-alone verifier for account/triangle inclusion
+ * proofs produced by GET /state/proof/*.
+ *
+ * Why a separate module:
+ * - Light clients verify balances and click counts without trusting the API
+ * - Depends only on core/chain/merkle.ts (@noble/hashes), no database code,
+ *   so it can be copied into the mobile app or an explorer as-is
+ *
+ * Verification steps:
+ * 1. Re-encode leaf → leafHash (must match the claimed leafHash)
+ * 2. leafHash + subTreeProof → subTreeRoot (AccountsRoot or TrianglesRoot)
+ * 3. hashLeaf(subTreeRoot) + stateProof → stateRoot
+ * 4. stateProof path must place the sub-tree at its fixed position
+ *    (accounts = 0, triangles = 1), so an account leaf cannot be
+ *    presented as a triangle or vice versa
+ * 5. Optionally, stateRoot must equal a trusted root (e.g. a block header)
+ */
+
+import {
+  canonicalJson,
+  hashLeaf,
+  fromHex,
+  toHex,
+  verifyMerkleProof,
+  type MerkleProofStep,
+} from './merkle.js';
+
+/**
+ * Account leaf content.
+ */
+export interface AccountLeaf {
+  address: string;
+  balance: string; // micro-STEP integer string
+  nonce: number;
+}
+
+/**
+ * Triangle leaf content.
+ */
+export interface TriangleLeaf {
+  id: string;
+  clicks: number;
+  state: string;
+  childrenIds: string[];
+}
+
+/**
+ * Position of each sub-tree in the top-level state tree.
+ */
+export const STATE_TREE_ORDER = ['accounts', 'triangles', 'validatorSet'] as const;
+
+/**
+ * Inclusion proof of a single account or triangle against a state root.
+ */
+export interface StateProof<T> {
+  kind: 'account' | 'triangle';
+  leaf: T;
+  leafHash: string;
+  subTreeRoot: string;
+  subTreeProof: MerkleProofStep[];
+  stateRoot: string;
+  stateProof: MerkleProofStep[];
+}
+
+/**
+ * Serialize account state into its leaf form.
+ *
+ * @param leaf - Account leaf content
+ * @returns Canonical JSON string
+ */
+export function accountLeafData(leaf: AccountLeaf): string {
+  return canonicalJson({ address: leaf.address, balance: leaf.balance, nonce: leaf.nonce });
+}
+
+/**
+ * Serialize triangle state into its leaf form.
+ *
+ * @param leaf - Triangle leaf content
+ * @returns Canonical JSON string
+ */
+export function triangleLeafData(leaf: TriangleLeaf): string {
+  return canonicalJson({
+    id: leaf.id,
+    clicks: leaf.clicks,
+    state: leaf.state,
+    childrenIds: leaf.childrenIds,
+  });
+}
+
+/**
+ * Sibling positions expected on the path of leaf `index` in a tree of `size` leaves.
+ *
+ * Mirrors merkleProof(): levels where the node is promoted contribute no step.
+ */
+function expectedPositions(index: number, size: number): Array<'left' | 'right'> {
+  const positions: Array<'left' | 'right'> = [];
+  let position = index;
+  let width = size;
+
+  while (width > 1) {
+    const isRight = position % 2 === 1;
+    if (isRight || position + 1 < width) {
+      positions.push(isRight ? 'left' : 'right');
+    }
+    position = Math.floor(position / 2);
+    width = Math.ceil(width / 2);
+  }
+
+  return positions;
+}
+
+/**
+ * Verify an account or triangle inclusion proof.
+ *
+ * @param proof - Proof as returned by the API
+ * @param trustedStateRoot - Root from a trusted source (optional)
+ * @returns ok, or the first failed check
+ */
+export function verifyStateProof(
+  proof: StateProof<AccountLeaf> | StateProof<TriangleLeaf>,
+  trustedStateRoot?: string
+): { ok: boolean; error?: string } {
+  const leafData = proof.kind === 'account'
+    ? accountLeafData(proof.leaf as AccountLeaf)
+    : triangleLeafData(proof.leaf as TriangleLeaf);
+
+  const leafHash = toHex(hashLeaf(leafData));
+  if (leafHash !== proof.leafHash.toLowerCase()) {
+    return { ok: false, error: 'Leaf content does not match leafHash' };
+  }
+
+  if (!verifyMerkleProof(leafHash, proof.subTreeProof, proof.subTreeRoot)) {
+    return { ok: false, error: 'Leaf is not included in sub-tree root' };
+  }
+
+  const subTreeIndex = STATE_TREE_ORDER.indexOf(proof.kind === 'account' ? 'accounts' : 'triangles');
+  const expected = expectedPositions(subTreeIndex, STATE_TREE_ORDER.length);
+  const actual = proof.stateProof.map((step) => step.position);
+  if (expected.length !== actual.length || expected.some((p, i) => p !== actual[i])) {
+    return { ok: false, error: `Sub-tree root is not at the ${proof.kind} position` };
+  }
+
+  if (!verifyMerkleProof(hashLeaf(fromHex(proof.subTreeRoot)), proof.stateProof, proof.stateRoot)) {
+    return { ok: false, error: 'Sub-tree root is not included in state root' };
+  }
+
+  if (trustedStateRoot && trustedStateRoot.toLowerCase() !== proof.stateRoot.toLowerCase()) {
+    return { ok: false, error: 'State root does not match trusted root' };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,417 @@
+/**
+ * World-State Root
+ *
+ * Deterministic commitment to account and triangle state
+ * (BLOCKCHAIN_PROTOCOL.md §4.3).
+ *
+ * Structure:
+ *   StateRoot = MerkleRoot([AccountsRoot, TrianglesRoot, ValidatorSetRoot])
+ *
+ *   AccountsRoot  = MerkleRoot(leaf(canonicalJson({ address, balance, nonce })))
+ *   TrianglesRoot = MerkleRoot(leaf(canonicalJson({ id, clicks, state, childrenIds })))
+ *   ValidatorSetRoot = ZERO_HASH until Phase 4 (single producer, no validator set)
+ *
+ * Leaves are ordered by document _id (byte-wise string order), so the
+ * same state always produces the same root regardless of insertion order.
+ *
+ * Sub-roots enter the top-level tree as leaves: hashLeaf(rootBytes).
+ *
+ * Why incremental snapshots:
+ * - Reading whole collections on every block does not scale; after one
+ *   full read per process, each seal re-reads only accounts and triangles
+ *   whose updatedAt moved since the previous read (updatedAt indexes) and
+ *   patches the previous trees in memory
+ * - Accounts and triangles are never deleted, so changed and new documents
+ *   are the whole difference between two snapshots
+ *
+ * Why sealed snapshots only:
+ * - Proofs are only useful against a root a client can trust, i.e. the
+ *   stateRoot of a signed block header; the last STATE_SNAPSHOT_HISTORY
+ *   sealed snapshots are kept in memory and served by height
+ *
+ * Configuration via environment:
+ * - STATE_SNAPSHOT_HISTORY: Sealed snapshots kept for proofs (default: 6)
+ */
+
+import type { ClientSession } from 'mongoose';
+import { Account, Triangle } from '../state/schemas.js';
+import {
+  hashLeaf,
+  merkleRoot,
+  merkleProof,
+  fromHex,
+  toHex,
+  ZERO_HASH,
+  type MerkleProofStep,
+} from './merkle.js';
+import {
+  accountLeafData,
+  triangleLeafData,
+  STATE_TREE_ORDER,
+  type AccountLeaf,
+  type TriangleLeaf,
+  type StateProof,
+} from './state-proof.js';
+
+// Configuration with defaults
+const STATE_SNAPSHOT_HISTORY = parseInt(process.env.STATE_SNAPSHOT_HISTORY || '6', 10);
+
+/**
+ * Documents changed this long before the previous read started are read again.
+ *
+ * Why: updatedAt is set when a write is prepared, not when its transaction
+ * commits, so a proof transaction can commit after the previous read with
+ * an older updatedAt. Re-reading an unchanged document is harmless.
+ */
+const CHANGE_OVERLAP_MS = 5 * 60 * 1000;
+
+/**
+ * One committed sub-tree (accounts or triangles).
+ */
+interface SubTree<T> {
+  ids: string[];
+  leaves: T[];
+  leafHashes: Uint8Array[];
+  index: Map<string, number>;
+  root: string;
+}
+
+/**
+ * Complete state commitment at a point in time.
+ */
+export interface StateSnapshot {
+  stateRoot: string;
+  accountsRoot: string;
+  trianglesRoot: string;
+  validatorSetRoot: string;
+  accountCount: number;
+  triangleCount: number;
+  computedAt: string; // ISO 8601
+  blockHeight: number | null; // Set when built while sealing a block
+  readStartedAt: number; // ms; changes since (minus overlap) feed the next snapshot
+  accounts: SubTree<AccountLeaf>;
+  triangles: SubTree<TriangleLeaf>;
+}
+
+/**
+ * Byte-wise string comparison (matches MongoDB default _id ordering).
+ */
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Build a sub-tree from leaves already ordered by ID.
+ */
+function buildSubTree<T>(
+  leaves: T[],
+  idOf: (leaf: T) => string,
+  leafData: (leaf: T) => string
+): SubTree<T> {
+  const ids = leaves.map(idOf);
+  const leafHashes = leaves.map((leaf) => hashLeaf(leafData(leaf)));
+  return {
+    ids,
+    leaves,
+    leafHashes,
+    index: new Map(ids.map((id, i) => [id, i])),
+    root: merkleRoot(leafHashes),
+  };
+}
+
+/**
+ * Patch a sub-tree with changed and new leaves.
+ *
+ * Returns a new sub-tree; the base stays valid for proofs against its root.
+ */
+function applyChanges<T>(
+  base: SubTree<T>,
+  changed: T[],
+  idOf: (leaf: T) => string,
+  leafData: (leaf: T) => string
+): SubTree<T> {
+  const leaves = [...base.leaves];
+  const leafHashes = [...base.leafHashes];
+  const added: T[] = [];
+
+  for (const leaf of changed) {
+    const i = base.index.get(idOf(leaf));
+    if (i === undefined) {
+      added.push(leaf);
+    } else {
+      leaves[i] = leaf;
+      leafHashes[i] = hashLeaf(leafData(leaf));
+    }
+  }
+
+  if (added.length === 0) {
+    return { ids: base.ids, leaves, leafHashes, index: base.index, root: merkleRoot(leafHashes) };
+  }
+
+  // Merge new IDs into the sorted order
+  added.sort((a, b) => compareIds(idOf(a), idOf(b)));
+  const mergedLeaves: T[] = [];
+  const mergedHashes: Uint8Array[] = [];
+  let i = 0;
+  for (const leaf of added) {
+    const id = idOf(leaf);
+    while (i < base.ids.length && base.ids[i] < id) {
+      mergedLeaves.push(leaves[i]);
+      mergedHashes.push(leafHashes[i]);
+      i++;
+    }
+    mergedLeaves.push(leaf);
+    mergedHashes.push(hashLeaf(leafData(leaf)));
+  }
+  mergedLeaves.push(...leaves.slice(i));
+  mergedHashes.push(...leafHashes.slice(i));
+
+  const ids = mergedLeaves.map(idOf);
+  return {
+    ids,
+    leaves: mergedLeaves,
+    leafHashes: mergedHashes,
+    index: new Map(ids.map((id, j) => [id, j])),
+    root: merkleRoot(mergedHashes),
+  };
+}
+
+/**
+ * Leaf hashes of the top-level state tree, in STATE_TREE_ORDER.
+ */
+function topLevelLeaves(snapshot: Pick<StateSnapshot, 'accountsRoot' | 'trianglesRoot' | 'validatorSetRoot'>): Uint8Array[] {
+  return [snapshot.accountsRoot, snapshot.trianglesRoot, snapshot.validatorSetRoot].map((root) =>
+    hashLeaf(fromHex(root))
+  );
+}
+
+/**
+ * Read account leaves (ordered by address).
+ */
+async function loadAccountLeaves(filter: Record<string, unknown>, session?: ClientSession): Promise<AccountLeaf[]> {
+  const accounts = await Account.find(filter).select('_id balance nonce').session(session || null).lean();
+  return accounts
+    .map((a) => ({ address: a._id, balance: a.balance, nonce: a.nonce }))
+    .sort((a, b) => compareIds(a.address, b.address));
+}
+
+/**
+ * Read triangle leaves (ordered by ID).
+ */
+async function loadTriangleLeaves(filter: Record<string, unknown>, session?: ClientSession): Promise<TriangleLeaf[]> {
+  const triangles = await Triangle.find(filter).select('_id clicks state childrenIds').session(session || null).lean();
+  return triangles
+    .map((t) => ({ id: t._id, clicks: t.clicks, state: t.state, childrenIds: t.childrenIds || [] }))
+    .sort((a, b) => compareIds(a.id, b.id));
+}
+
+/**
+ * Assemble a snapshot from its sub-trees.
+ */
+function toSnapshot(
+  accountTree: SubTree<AccountLeaf>,
+  triangleTree: SubTree<TriangleLeaf>,
+  blockHeight: number | null,
+  readStartedAt: number
+): StateSnapshot {
+  const roots = {
+    accountsRoot: accountTree.root,
+    trianglesRoot: triangleTree.root,
+    validatorSetRoot: ZERO_HASH,
+  };
+
+  return {
+    stateRoot: merkleRoot(topLevelLeaves(roots)),
+    ...roots,
+    accountCount: accountTree.ids.length,
+    triangleCount: triangleTree.ids.length,
+    computedAt: new Date().toISOString(),
+    blockHeight,
+    readStartedAt,
+    accounts: accountTree,
+    triangles: triangleTree,
+  };
+}
+
+/**
+ * Build a state snapshot from the whole database.
+ *
+ * Reads both collections; used once per process as the base for
+ * incremental snapshots (prepareStateSnapshot).
+ *
+ * @param session - Optional Mongo session (read inside a transaction)
+ * @param blockHeight - Block being sealed, if any
+ * @returns Fresh snapshot
+ */
+export async function buildStateSnapshot(
+  session?: ClientSession,
+  blockHeight: number | null = null
+): Promise<StateSnapshot> {
+  const readStartedAt = Date.now();
+
+  // Sequential: a transaction session does not allow parallel operations
+  const accounts = await loadAccountLeaves({}, session);
+  const triangles = await loadTriangleLeaves({}, session);
+
+  return toSnapshot(
+    buildSubTree(accounts, (leaf) => leaf.address, accountLeafData),
+    buildSubTree(triangles, (leaf) => leaf.id, triangleLeafData),
+    blockHeight,
+    readStartedAt
+  );
+}
+
+// Module-level snapshot state
+let baseSnapshot: StateSnapshot | null = null;  // Latest snapshot; next one patches it
+const sealedSnapshots = new Map<number, StateSnapshot>();  // By block height, oldest first
+
+/**
+ * Make sure a base snapshot exists (full read on the first seal of a process).
+ *
+ * Call outside the seal transaction so its full read does not run inside it.
+ */
+export async function prepareStateSnapshot(): Promise<void> {
+  if (!baseSnapshot) {
+    baseSnapshot = await buildStateSnapshot();
+  }
+}
+
+/**
+ * Snapshot of the current state for a block being sealed.
+ *
+ * Patches the base snapshot with the accounts and triangles changed since
+ * it was read. Does not replace the base; commitStateSnapshot does once
+ * the block committed.
+ *
+ * @param session - Seal transaction session
+ * @param blockHeight - Block being sealed
+ * @returns Snapshot whose stateRoot goes into the block header
+ */
+export async function advanceStateSnapshot(
+  session: ClientSession,
+  blockHeight: number
+): Promise<StateSnapshot> {
+  const base = baseSnapshot;
+  if (!base) {
+    return buildStateSnapshot(session, blockHeight);
+  }
+
+  const readStartedAt = Date.now();
+  const changedSince = { updatedAt: { $gte: new Date(base.readStartedAt - CHANGE_OVERLAP_MS) } };
+
+  // Sequential: a transaction session does not allow parallel operations
+  const accounts = await loadAccountLeaves(changedSince, session);
+  const triangles = await loadTriangleLeaves(changedSince, session);
+
+  return toSnapshot(
+    applyChanges(base.accounts, accounts, (leaf) => leaf.address, accountLeafData),
+    applyChanges(base.triangles, triangles, (leaf) => leaf.id, triangleLeafData),
+    blockHeight,
+    readStartedAt
+  );
+}
+
+/**
+ * Keep the snapshot of a committed block (called after the block commits).
+ *
+ * It becomes the base of the next seal and is served for proofs until
+ * STATE_SNAPSHOT_HISTORY newer blocks are sealed.
+ *
+ * @param snapshot - Snapshot committed in a block header
+ */
+export function commitStateSnapshot(snapshot: StateSnapshot): void {
+  baseSnapshot = snapshot;
+
+  if (snapshot.blockHeight !== null) {
+    sealedSnapshots.set(snapshot.blockHeight, snapshot);
+  }
+  while (sealedSnapshots.size > Math.max(STATE_SNAPSHOT_HISTORY, 1)) {
+    sealedSnapshots.delete(sealedSnapshots.keys().next().value!);
+  }
+}
+
+/**
+ * Get the snapshot sealed in a block.
+ *
+ * @param height - Block height (default: latest sealed block)
+ * @returns Snapshot, or null if no such block was sealed by this process
+ *          or it is older than STATE_SNAPSHOT_HISTORY blocks
+ */
+export function getSealedSnapshot(height?: number): StateSnapshot | null {
+  if (height === undefined) {
+    const heights = [...sealedSnapshots.keys()];
+    return heights.length > 0 ? sealedSnapshots.get(heights[heights.length - 1])! : null;
+  }
+  return sealedSnapshots.get(height) ?? null;
+}
+
+/**
+ * Heights whose snapshots can be served, oldest first.
+ */
+export function sealedSnapshotHeights(): number[] {
+  return [...sealedSnapshots.keys()];
+}
+
+/**
+ * Build the top-level proof for a sub-tree root.
+ */
+function stateProofFor(snapshot: StateSnapshot, subTree: 'accounts' | 'triangles'): MerkleProofStep[] {
+  return merkleProof(topLevelLeaves(snapshot), STATE_TREE_ORDER.indexOf(subTree));
+}
+
+/**
+ * Build an account inclusion proof.
+ *
+ * The leaf is the account state as committed in the snapshot's block,
+ * which may lag the live balance by up to one block interval.
+ *
+ * @param snapshot - State snapshot
+ * @param address - Account address (as stored)
+ * @returns Proof, or null if the account is not in the snapshot
+ */
+export function proveAccount(
+  snapshot: StateSnapshot,
+  address: string
+): StateProof<AccountLeaf> | null {
+  const index = snapshot.accounts.index.get(address);
+  if (index === undefined) {
+    return null;
+  }
+
+  return {
+    kind: 'account',
+    leaf: snapshot.accounts.leaves[index],
+    leafHash: toHex(snapshot.accounts.leafHashes[index]),
+    subTreeRoot: snapshot.accountsRoot,
+    subTreeProof: merkleProof(snapshot.accounts.leafHashes, index),
+    stateRoot: snapshot.stateRoot,
+    stateProof: stateProofFor(snapshot, 'accounts'),
+  };
+}
+
+/**
+ * Build a triangle inclusion proof.
+ *
+ * @param snapshot - State snapshot
+ * @param triangleId - Triangle ID
+ * @returns Proof, or null if the triangle is not in the snapshot
+ */
+export function proveTriangle(
+  snapshot: StateSnapshot,
+  triangleId: string
+): StateProof<TriangleLeaf> | null {
+  const index = snapshot.triangles.index.get(triangleId);
+  if (index === undefined) {
+    return null;
+  }
+
+  return {
+    kind: 'triangle',
+    leaf: snapshot.triangles.leaves[index],
+    leafHash: toHex(snapshot.triangles.leafHashes[index]),
+    subTreeRoot: snapshot.trianglesRoot,
+    subTreeProof: merkleProof(snapshot.triangles.leafHashes, index),
+    stateRoot: snapshot.stateRoot,
+    stateProof: stateProofFor(snapshot, 'triangles'),
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * STEP Amount Helpers
+ *
+ * Converts between on-ledger integer balances and decimal display strings.
+ *
+ * Ledger precision:
+ * - Account balances are stored as integer strings in micro-STEP (6 decimals)
+ * - Example: "1500000" = 1.5 STEP
+ * - Matches the reward crediting in api/proof.ts (reward * 1e6)
+ *
+ * Why BigInt:
+ * - Floating-point arithmetic loses precision on large balances
+ * - Balances must round-trip exactly between API and database
+ */
+
+/**
+ * Number of decimal places in ledger balances.
+ */
+export const STEP_DECIMALS = 6;
+
+/**
+ * Ledger units per 1 STEP (10^STEP_DECIMALS).
+ */
+export const STEP_UNIT = 10n ** BigInt(STEP_DECIMALS);
+
+/**
+ * Format integer ledger units as a decimal STEP string.
+ *
+ * Examples:
+ * - "1500000" → "1.500000"
+ * - "1" → "0.000001"
+ * - "0" → "0.000000"
+ *
+ * @param units - Balance in micro-STEP (bigint or integer string)
+ * @returns Decimal string with exactly STEP_DECIMALS fraction digits
+ */
+export function formatStepAmount(units: bigint | string): string {
+  const value = typeof units === 'bigint' ? units : BigInt(units);
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+
+  const whole = abs / STEP_UNIT;
+  const fraction = (abs % STEP_UNIT).toString().padStart(STEP_DECIMALS, '0');
+
+  return `${negative ? '-' : ''}${whole.toString()}.${fraction}`;
+}
+
+/**
+ * Parse a decimal STEP string into integer ledger units.
+ *
+ * Rejects negative values, exponents and more than STEP_DECIMALS fraction
+ * digits so that parsed amounts are always exact.
+ *
+ * Examples:
+ * - "1.5" → 1500000n
+ * - "0.000001" → 1n
+ *
+ * @param decimal - Decimal string (e.g. "12.345")
+ * @returns Amount in micro-STEP
+ * @throws Error if the string is not a valid non-negative STEP amount
+ */
+export function parseStepAmount(decimal: string): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(decimal.trim());
+
+  if (!match) {
+    throw new Error(`Invalid STEP amount: "${decimal}"`);
+  }
+
+  const [, whole, fraction = ''] = match;
+
+  if (fraction.length > STEP_DECIMALS) {
+    throw new Error(
+      `Invalid STEP amount: "${decimal}" has more than ${STEP_DECIMALS} decimal places`
+    );
+  }
+
+  return BigInt(whole) * STEP_UNIT + BigInt(fraction.padEnd(STEP_DECIMALS, '0'));
+}
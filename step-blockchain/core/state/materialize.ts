@@ -0,0 +1,272 @@
+/**
+ * Triangle Materialization
+ *
+ * Creates Triangle documents on demand from their STEP-TRI-v1 ID.
+ *
+ * Why sparse materialization:
+ * - 2.8 trillion potential triangles; only mined ones are stored
+ * - Geometry is derived from the ID (deterministic), never from the client
+ *
+ * Rules for a proof's triangle:
+ * 1. ID must decode (prefix, checksum, face, level, path digits)
+ * 2. pointToTriangle(lat, lon, level) must resolve to the claimed ID
+ * 3. A triangle not yet stored is only created when every ancestor is
+ *    subdivided (a level-1 face has no ancestors); it starts pending with
+ *    the moratorium running from its parent's subdivision
+ *
+ * Location-only proofs (no triangleId) skip 1-2: resolveTriangleAt walks
+ * the stored hierarchy down to the deepest non-subdivided triangle
+ * containing the point.
+ */
+
+import {
+  decodeTriangleId,
+  encodeTriangleId,
+  getParentId,
+  pathToBigInt,
+  triangleIdEquals,
+  type TriangleId,
+} from '../mesh/addressing.js';
+import { triangleIdToPolygon, triangleIdToCentroid } from '../mesh/polygon.js';
+import { pointToTriangle } from '../mesh/lookup.js';
+import { Triangle, isDuplicateKeyError, type ITriangle } from './schemas.js';
+import { MAX_LEVEL } from './triangle-lifecycle.js';
+
+/**
+ * Reason a triangle claim or materialization was rejected.
+ */
+export type MaterializeErrorCode =
+  | 'INVALID_TRIANGLE_ID'
+  | 'LOCATION_MISMATCH'
+  | 'ANCESTOR_NOT_SUBDIVIDED';
+
+/**
+ * Triangle claim rejected.
+ */
+export class MaterializeError extends Error {
+  constructor(
+    public code: MaterializeErrorCode,
+    message: string,
+    public ancestorId?: string // Deepest ancestor still open for mining (ANCESTOR_NOT_SUBDIVIDED)
+  ) {
+    super(message);
+    this.name = 'MaterializeError';
+  }
+}
+
+/**
+ * How the credited triangle of a proof was chosen.
+ */
+export interface TriangleResolution {
+  mode: 'claimed' | 'location'; // triangleId in the signed payload, or resolved from lat/lon
+  triangleId: string;
+  level: number;
+  subdividedAncestors: number; // Ancestors already subdivided (level - 1 for a valid triangle)
+  reason: string;
+}
+
+/**
+ * Decode a claimed triangle ID and check the location resolves to it.
+ *
+ * @param triangleId - Claimed STEP-TRI-v1 ID
+ * @param lat - Proof latitude
+ * @param lon - Proof longitude
+ * @returns Decoded triangle ID
+ * @throws MaterializeError INVALID_TRIANGLE_ID or LOCATION_MISMATCH
+ */
+export function verifyTriangleClaim(triangleId: string, lat: number, lon: number): TriangleId {
+  let id: TriangleId;
+  try {
+    id = decodeTriangleId(triangleId);
+  } catch (error) {
+    throw new MaterializeError(
+      'INVALID_TRIANGLE_ID',
+      `Invalid triangle ID: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  let resolved: TriangleId | null;
+  try {
+    resolved = pointToTriangle(lat, lon, id.level);
+  } catch (error) {
+    throw new MaterializeError(
+      'LOCATION_MISMATCH',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  if (!resolved || !triangleIdEquals(resolved, id)) {
+    throw new MaterializeError(
+      'LOCATION_MISMATCH',
+      `Location resolves to ${resolved ? encodeTriangleId(resolved) : 'no triangle'} at level ${id.level}, not the claimed triangle`
+    );
+  }
+
+  return id;
+}
+
+/**
+ * Build a new Triangle document with geometry derived from its ID.
+ *
+ * Used for on-demand materialization and for subdivision children.
+ *
+ * @param id - Triangle ID
+ * @param moratoriumStartAt - Moratorium start (creation or parent subdivision)
+ * @returns Unsaved pending Triangle document
+ */
+export function buildTriangle(id: TriangleId, moratoriumStartAt: Date): ITriangle {
+  return new Triangle({
+    _id: encodeTriangleId(id),
+    face: id.face,
+    level: id.level,
+    pathEncoded: pathToBigInt(id.path).toString(),
+    parentId: id.level > 1 ? encodeTriangleId(getParentId(id)) : null,
+    childrenIds: [],
+    state: 'pending',
+    clicks: 0,
+    moratoriumStartAt,
+    lastClickAt: null,
+    centroid: triangleIdToCentroid(id),
+    polygon: triangleIdToPolygon(id),
+  });
+}
+
+/**
+ * Load a triangle, materializing it if it is not stored yet.
+ *
+ * Stored triangles are returned as-is: they were written by seeding or
+ * by subdivision, both of which the server controls.
+ *
+ * @param id - Decoded triangle ID (from verifyTriangleClaim)
+ * @param persist - Save a newly built triangle (false for dry runs)
+ * @returns Triangle document
+ * @throws MaterializeError ANCESTOR_NOT_SUBDIVIDED if the mesh has not reached this triangle
+ */
+export async function materializeTriangle(id: TriangleId, persist: boolean = true): Promise<ITriangle> {
+  const encoded = encodeTriangleId(id);
+
+  const existing = await Triangle.findById(encoded);
+  if (existing) {
+    return existing;
+  }
+
+  // Ancestor chain, top (level 1) to bottom (parent)
+  const ancestorIds: string[] = [];
+  for (let current = id; current.level > 1; ) {
+    current = getParentId(current);
+    ancestorIds.unshift(encodeTriangleId(current));
+  }
+
+  let moratoriumStartAt = new Date();
+
+  if (ancestorIds.length > 0) {
+    const ancestors = await Triangle.find({ _id: { $in: ancestorIds } })
+      .select('_id state lastClickAt')
+      .lean();
+    const byId = new Map(ancestors.map((a) => [a._id, a]));
+
+    for (const ancestorId of ancestorIds) {
+      const ancestor = byId.get(ancestorId);
+      if (!ancestor || ancestor.state !== 'subdivided') {
+        throw new MaterializeError(
+          'ANCESTOR_NOT_SUBDIVIDED',
+          `Triangle is not open yet: ancestor ${ancestorId} is ${ancestor ? ancestor.state : 'not materialized'}`,
+          ancestor ? ancestorId : undefined
+        );
+      }
+    }
+
+    // Siblings created by the subdivision started their moratorium at the parent's last click
+    const parent = byId.get(ancestorIds[ancestorIds.length - 1]);
+    if (parent?.lastClickAt) {
+      moratoriumStartAt = new Date(parent.lastClickAt);
+    }
+  }
+
+  if (!persist) {
+    return buildTriangle(id, moratoriumStartAt);
+  }
+
+  try {
+    const triangle = buildTriangle(id, moratoriumStartAt);
+    await triangle.save();
+    console.log(`[${new Date().toISOString()}] Materialized triangle ${encoded} (level ${id.level})`);
+    return triangle;
+  } catch (error) {
+    // Concurrent materialization of the same triangle
+    if (isDuplicateKeyError(error)) {
+      const raced = await Triangle.findById(encoded);
+      if (raced) {
+        return raced;
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find the triangle a location-only proof mines.
+ *
+ * Walks the stored hierarchy from the level-1 face containing the point
+ * down its pointToTriangle chain and stops at the first triangle that is
+ * not subdivided (materializing it if needed). Level 21 never subdivides,
+ * so the walk always ends.
+ *
+ * @param lat - Proof latitude
+ * @param lon - Proof longitude
+ * @param persist - Save a newly materialized triangle (false for dry runs)
+ * @returns Credited triangle and how it was chosen
+ * @throws MaterializeError LOCATION_MISMATCH if the point resolves to no triangle
+ */
+export async function resolveTriangleAt(
+  lat: number,
+  lon: number,
+  persist: boolean = true
+): Promise<{ triangle: ITriangle; id: TriangleId; resolution: TriangleResolution }> {
+  let deepest: TriangleId | null;
+  try {
+    deepest = pointToTriangle(lat, lon, MAX_LEVEL);
+  } catch (error) {
+    throw new MaterializeError('LOCATION_MISMATCH', error instanceof Error ? error.message : String(error));
+  }
+  if (!deepest) {
+    throw new MaterializeError('LOCATION_MISMATCH', 'Location does not resolve to any triangle');
+  }
+
+  // Containing triangle at every level (pointToTriangle descends the same path)
+  const chain: TriangleId[] = [];
+  for (let level = 1; level <= deepest.level; level++) {
+    chain.push({ face: deepest.face, level, path: deepest.path.slice(0, level - 1) });
+  }
+  const encoded = chain.map((id) => encodeTriangleId(id));
+
+  const stored = await Triangle.find({ _id: { $in: encoded } }).select('_id state').lean();
+  const states = new Map(stored.map((t) => [t._id, t.state]));
+
+  let depth = 0;
+  while (depth < chain.length - 1 && states.get(encoded[depth]) === 'subdivided') {
+    depth++;
+  }
+
+  const id = chain[depth];
+  const triangle = await materializeTriangle(id, persist);
+  const existed = states.has(encoded[depth]);
+
+  const reason = id.level === MAX_LEVEL
+    ? `Finest (level ${MAX_LEVEL}) triangle containing the location`
+    : depth === 0
+      ? `Level-1 face containing the location (not subdivided yet)`
+      : `Deepest non-subdivided triangle containing the location (levels 1-${depth} subdivided)`;
+
+  return {
+    triangle,
+    id,
+    resolution: {
+      mode: 'location',
+      triangleId: encoded[depth],
+      level: id.level,
+      subdividedAncestors: depth,
+      reason: existed ? reason : `${reason}; materialized for this proof`,
+    },
+  };
+}
@@ -5,6 +5,16 @@
  * 1. triangles - Triangle state (sparse materialization)
  * 2. triangle_events - Append-only audit log
  * 3. accounts - Wallet balances (Phase 2)
+ * 4. transfers - Signed transfer ledger
+ * 5. blocks - Sealed, hash-chained batches of triangle events
+ * 6. anchors - On-chain anchoring status of block hashes
+ * 7. witness_attestations - Peer co-attestations of location proofs
+ * 8. wifi_registry - Known Wi-Fi access point locations
+ * 9. cell_towers - Cell tower locations (imported + cached remote lookups)
+ * 10. app_attest_keys - Attested iOS device keys and assertion counters
+ * 11. proof_challenges - Server-issued, single-use proof nonces
+ * 12. sybil_clusters - Suspected account farms (core/validator/sybil.ts)
+ * 13. sensor_fingerprints - Recent GNSS / cell readings for replay detection
  * 
  * Why sparse materialization:
  * - 2.8 trillion potential triangles
@@ -18,15 +28,17 @@
  * - TTL index for moratorium expiration
  */
 
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, ClientSession, mongo } from 'mongoose';
+import type { ProofEvidence } from '../validator/evidence.js';
 
 /**
  * Triangle document in MongoDB.
  * 
- * Lifecycle:
- * 1. Created when first miner attempts (moratoriumStartAt set)
- * 2. State: pending → active → partially_mined → exhausted
- * 3. On 11th click (if level < 21): subdivide into 4 children
+ * Lifecycle (core/state/triangle-lifecycle.ts):
+ * 1. Created pending (moratoriumStartAt set); active after the 168h moratorium
+ * 2. First click: active → partially_mined (inter-mine delay between clicks)
+ * 3. On 11th click (if level < 21): subdivide into 4 pending children
+ * 4. Level 21: exhausted after the 28th click
  * 
  * Storage estimate:
  * - If 1% of triangles are ever mined: 28 billion documents
@@ -47,7 +59,7 @@ export interface ITriangle extends Document {
   // Mining state
   state: 'pending' | 'active' | 'partially_mined' | 'exhausted' | 'subdivided';
   clicks: number; // 0-28 (number of successful mines)
-  moratoriumStartAt: Date; // When triangle became mineable (+ 168h)
+  moratoriumStartAt: Date; // Moratorium start; mineable at this + 168h
   lastClickAt: Date | null; // Last successful mine timestamp
 
   // Geometry (GeoJSON for 2dsphere indexing)
@@ -161,6 +173,7 @@ const triangleSchema = new Schema<ITriangle>(
  * 3. Find active triangles at level (state + level)
  * 4. Find triangles ready to mine (moratoriumStartAt + state)
  * 5. Find children of parent (parentId)
+ * 6. Triangles changed since the last block (updatedAt)
  */
 
 // 2dsphere index for geospatial queries
@@ -171,6 +184,7 @@ triangleSchema.index({ polygon: '2dsphere' });
 triangleSchema.index({ level: 1, state: 1 });
 triangleSchema.index({ face: 1, level: 1 });
 triangleSchema.index({ parentId: 1 });
+triangleSchema.index({ updatedAt: 1 }); // Changed triangles per block (core/chain/state-root.ts)
 
 // Partial index for active triangles (most common query)
 triangleSchema.index(
@@ -204,7 +218,7 @@ export const Triangle = mongoose.model<ITriangle>('Triangle', triangleSchema);
  * 
  * Storage estimate:
  * - 7.7 trillion STEP tokens = 7.7 trillion click events (worst case)
- * - Average event size: ~300 bytes
+ * - Average event size: ~300 bytes (clicks with validation evidence: a few KB)
  * - Total storage: ~2.3 PB (requires archiving strategy)
  */
 export interface ITriangleEvent extends Document {
@@ -218,6 +232,9 @@ export interface ITriangleEvent extends Document {
   nonce?: string; // Client-provided nonce (for 'click' events)
   signature?: string; // Proof signature (for 'click' events)
 
+  // Chain inclusion (set by block producer when sealed)
+  blockHeight?: number;
+
   // Event-specific payload
   payload: {
     // For 'click' events
@@ -228,6 +245,11 @@ export interface ITriangleEvent extends Document {
     lon?: number; // GPS longitude
     accuracy?: number; // GPS accuracy in meters
     speed?: number; // Speed in m/s (computed from prev event)
+    confidence?: number; // Confidence score at acceptance
+    policyVersion?: string; // Confidence policy version applied
+    policyRules?: string[]; // Policy rule IDs that matched
+    evidence?: ProofEvidence; // Full validation evidence (core/validator/evidence.ts)
+    sybil?: { clusterId: string; status: string; multiplier: number; baseReward: string }; // Reward throttle applied
 
     // For 'subdivide' events
     childrenIds?: string[]; // Array of 4 child IDs
@@ -282,6 +304,10 @@ const triangleEventSchema = new Schema<ITriangleEvent>(
       type: String,
       required: false, // Only required for 'click' events
     },
+    blockHeight: {
+      type: Number,
+      required: false, // Unset until sealed into a block
+    },
     payload: {
       type: Schema.Types.Mixed,
       required: true,
@@ -322,6 +348,9 @@ triangleEventSchema.index(
 // Index for finding last proof by account (for speed/moratorium checks)
 triangleEventSchema.index({ account: 1, timestamp: -1 });
 
+// Index for block contents and for finding unsealed events (blockHeight missing)
+triangleEventSchema.index({ blockHeight: 1, timestamp: 1, _id: 1 });
+
 /**
  * Triangle event model.
  */
@@ -348,6 +377,7 @@ export interface IAccount extends Document {
   _id: string; // Wallet address (0x... format, 42 chars)
   balance: string; // Token balance in wei (as string)
   nonce: number; // Transaction counter (prevents replay attacks)
+  proofSeq: number; // Accepted-proof counter; bumped first in every proof transaction (core/validator/account-lock.ts)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -360,6 +390,7 @@ const accountSchema = new Schema<IAccount>(
     _id: {
       type: String,
       required: true,
+      lowercase: true,  // Canonical form (signed messages use lowercase addresses)
       // Validate Ethereum-style address format
       validate: {
         validator: (v: string) => /^0x[a-fA-F0-9]{40}$/.test(v),
@@ -382,6 +413,12 @@ const accountSchema = new Schema<IAccount>(
       default: 0,
       min: 0,
     },
+    proofSeq: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
   },
   {
     timestamps: true,
@@ -393,6 +430,7 @@ const accountSchema = new Schema<IAccount>(
  * Indexes for account queries.
  */
 accountSchema.index({ balance: -1 }); // For leaderboards
+accountSchema.index({ updatedAt: 1 }); // Changed accounts per block (core/chain/state-root.ts)
 
 /**
  * Account model.
@@ -400,109 +438,1097 @@ accountSchema.index({ balance: -1 }); // For leaderboards
 export const Account = mongoose.model<IAccount>('Account', accountSchema);
 
 // ============================================================================
-// UTILITY FUNCTIONS
+// TRANSFERS (Token Ledger)
 // ============================================================================
 
 /**
- * Create or update a triangle document.
- * 
- * Sparse materialization: only create if doesn't exist.
- * 
- * @param triangleId - Encoded triangle ID
- * @param update - Fields to update
- * @returns Triangle document
+ * Transfer document in MongoDB.
+ *
+ * Append-only ledger of signed account-to-account STEP transfers.
+ * Written in the same transaction as the sender debit / recipient credit.
+ *
+ * Amount precision:
+ * - Stored in micro-STEP (6 decimals) as integer string, like Account.balance
  */
-export async function upsertTriangle(
-  triangleId: string,
-  update: Partial<ITriangle>
-): Promise<ITriangle> {
-  const triangle = await Triangle.findByIdAndUpdate(
-    triangleId,
-    { $set: update },
-    { upsert: true, new: true, setDefaultsOnInsert: true }
-  );
+export interface ITransfer extends Document {
+  _id: string; // Transfer ID (0x keccak256 of signed message)
+  from: string; // Sender address
+  to: string; // Recipient address
+  amount: string; // Amount in micro-STEP (integer string)
+  nonce: number; // Sender nonce consumed by this transfer
+  signature: string; // EIP-191 signature over STEP-TRANSFER-v1 message
+  timestamp: Date; // Client-signed timestamp
+  createdAt: Date; // Server acceptance time
+}
 
-  if (!triangle) {
-    throw new Error(`Failed to upsert triangle: ${triangleId}`);
+/**
+ * Transfer schema.
+ */
+const transferSchema = new Schema<ITransfer>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    from: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    to: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    amount: {
+      type: String,
+      required: true,
+      validate: {
+        validator: (v: string) => /^\d+$/.test(v),
+        message: 'Amount must be numeric string',
+      },
+    },
+    nonce: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    signature: {
+      type: String,
+      required: true,
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'transfers',
+    timestamps: { createdAt: true, updatedAt: false }, // Ledger entries are immutable
   }
+);
 
-  return triangle;
-}
+/**
+ * Indexes for transfer queries.
+ *
+ * Query patterns:
+ * 1. Prevent nonce replay (from + nonce) - UNIQUE INDEX
+ * 2. Outgoing history for account (from + createdAt)
+ * 3. Incoming history for account (to + createdAt)
+ */
+transferSchema.index({ from: 1, nonce: 1 }, { unique: true, name: 'from_nonce_unique' });
+transferSchema.index({ from: 1, createdAt: -1 });
+transferSchema.index({ to: 1, createdAt: -1 });
 
 /**
- * Log a triangle event (append-only).
- * 
- * @param triangleId - Encoded triangle ID
- * @param eventType - Event type
- * @param payload - Event-specific data
- * @returns Event document
+ * Transfer model.
  */
-export async function logTriangleEvent(
-  triangleId: string,
-  eventType: ITriangleEvent['eventType'],
-  payload: ITriangleEvent['payload']
-): Promise<ITriangleEvent> {
-  // Generate UUID v4
-  const eventId = generateUUID();
+export const Transfer = mongoose.model<ITransfer>('Transfer', transferSchema);
 
-  const event = await TriangleEvent.create({
-    _id: eventId,
-    triangleId,
-    eventType,
-    timestamp: new Date(), // ISO 8601 UTC with ms
-    payload,
-  });
+// ============================================================================
+// BLOCKS (Chain)
+// ============================================================================
 
-  return event;
+/**
+ * Block document in MongoDB.
+ *
+ * Header of a sealed batch of triangle events (see BLOCKCHAIN_PROTOCOL.md §2.3).
+ * The body is the set of TriangleEvent documents whose blockHeight equals
+ * this block's height, ordered by (timestamp, _id).
+ *
+ * Tamper evidence:
+ * - hash = keccak256 of the canonical header (see core/chain/block-producer.ts)
+ * - parentHash links each block to its predecessor
+ * - stateRoot commits to all account and triangle state at seal time
+ * - eventsRoot commits to every event in the body
+ * - signature is the producer's secp256k1 signature over hash
+ */
+export interface IBlock extends Document {
+  _id: number; // Block height (1 = first block)
+  hash: string; // 0x keccak256 of canonical header
+  parentHash: string; // Hash of block height-1 (zero hash for height 1)
+  stateRoot: string; // World-state root after this block (core/chain/state-root.ts)
+  eventsRoot: string; // Merkle root of event leaf hashes
+  eventCount: number; // Number of events in the body
+  timestamp: Date; // Seal time
+  producer: string; // Producer address (0x...)
+  signature: string; // 65-byte signature over hash (r || s || v)
 }
 
 /**
- * Generate UUID v4 (simple implementation).
- * 
- * For production, use a proper UUID library.
- * 
- * @returns UUID v4 string
+ * Block schema.
  */
-function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
-    const v = c === 'x' ? r : (r & 0x3) | 0x8;
-    return v.toString(16);
-  });
-}
+const blockSchema = new Schema<IBlock>(
+  {
+    _id: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    hash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    parentHash: {
+      type: String,
+      required: true,
+    },
+    stateRoot: {
+      type: String,
+      required: true,
+    },
+    eventsRoot: {
+      type: String,
+      required: true,
+    },
+    eventCount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+    },
+    producer: {
+      type: String,
+      required: true,
+    },
+    signature: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    collection: 'blocks',
+    timestamps: false, // Header timestamp is part of the hash
+  }
+);
 
 /**
- * Get or create an account.
- * 
- * @param address - Wallet address
- * @returns Account document
+ * Block model.
+ *
+ * Why height as _id: Unique primary key prevents two producers from
+ * sealing competing blocks at the same height.
  */
-export async function getOrCreateAccount(address: string): Promise<IAccount> {
-  let account = await Account.findById(address);
+export const Block = mongoose.model<IBlock>('Block', blockSchema);
 
-  if (!account) {
-    account = await Account.create({
-      _id: address,
-      balance: '0',
-      nonce: 0,
-    });
+// ============================================================================
+// ANCHORS (On-chain commitments)
+// ============================================================================
+
+/**
+ * Anchor status lifecycle:
+ * - queued: Waiting to be sent (new, or retry after backoff)
+ * - sent: Transaction broadcast, waiting for receipt
+ * - confirmed: Receipt succeeded with enough confirmations
+ * - failed: Gave up after ANCHOR_MAX_ATTEMPTS
+ */
+export type AnchorStatus = 'queued' | 'sent' | 'confirmed' | 'failed';
+
+/**
+ * Anchor document in MongoDB.
+ *
+ * One per block: tracks submission of the block hash to BlockmassAnchor.
+ */
+export interface IAnchor extends Document {
+  _id: number; // Block height
+  contentHash: string; // Block hash (bytes32) submitted to the contract
+  status: AnchorStatus;
+  attempts: number; // Send attempts so far
+  nextAttemptAt: Date; // Earliest time for next send (retry backoff)
+  txHash: string | null; // Latest broadcast transaction
+  sentAt: Date | null;
+  confirmedAt: Date | null;
+  chainBlockNumber: number | null; // Ethereum block containing the anchor tx
+  chainId: number | null;
+  contractAddress: string | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Anchor schema.
+ */
+const anchorSchema = new Schema<IAnchor>(
+  {
+    _id: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    contentHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'sent', 'confirmed', 'failed'],
+      default: 'queued',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      required: true,
+    },
+    txHash: {
+      type: String,
+      default: null,
+    },
+    sentAt: {
+      type: Date,
+      default: null,
+    },
+    confirmedAt: {
+      type: Date,
+      default: null,
+    },
+    chainBlockNumber: {
+      type: Number,
+      default: null,
+    },
+    chainId: {
+      type: Number,
+      default: null,
+    },
+    contractAddress: {
+      type: String,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'anchors',
   }
+);
 
-  return account;
+/**
+ * Indexes for anchor queries.
+ *
+ * Query patterns:
+ * 1. Next queued anchors to send (status + nextAttemptAt)
+ * 2. Sent anchors awaiting receipts (status + txHash)
+ */
+anchorSchema.index({ status: 1, nextAttemptAt: 1 });
+anchorSchema.index({ status: 1, txHash: 1 });
+
+/**
+ * Anchor model.
+ */
+export const Anchor = mongoose.model<IAnchor>('Anchor', anchorSchema);
+
+// ============================================================================
+// WITNESS ATTESTATIONS (Peer co-attestation)
+// ============================================================================
+
+/**
+ * Witness attestation document in MongoDB.
+ *
+ * One per accepted attestation: witness vouched for prover's proof.
+ * Stored edges (witness → prover) are walked for ring detection.
+ */
+export interface IWitnessAttestation extends Document {
+  _id: string; // EIP-191 hash of the attestation message
+  witness: string; // Witness address (lowercase)
+  prover: string; // Prover address (lowercase)
+  proofNonce: string; // Nonce of the witnessed proof
+  triangleId: string; // Witness's triangle
+  proofTriangleId: string; // Prover's triangle
+  lat: number;
+  lon: number;
+  accuracy: number;
+  timestamp: Date; // Witness-signed time
+  signature: string;
+  createdAt: Date;
 }
 
 /**
- * Update account balance (atomic operation).
+ * Witness attestation schema.
+ */
+const witnessAttestationSchema = new Schema<IWitnessAttestation>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    witness: {
+      type: String,
+      required: true,
+    },
+    prover: {
+      type: String,
+      required: true,
+    },
+    proofNonce: {
+      type: String,
+      required: true,
+    },
+    triangleId: {
+      type: String,
+      required: true,
+    },
+    proofTriangleId: {
+      type: String,
+      required: true,
+    },
+    lat: {
+      type: Number,
+      required: true,
+    },
+    lon: {
+      type: Number,
+      required: true,
+    },
+    accuracy: {
+      type: Number,
+      required: true,
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+    },
+    signature: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'witness_attestations',
+  }
+);
+
+/**
+ * Indexes for witness queries.
+ *
+ * Query patterns:
+ * 1. Ring detection: recent edges from a set of witnesses (witness + createdAt)
+ * 2. Attestations received by a prover (prover + createdAt)
+ * 3. Reuse protection: one attestation per witness per proof
+ */
+witnessAttestationSchema.index({ witness: 1, createdAt: -1 });
+witnessAttestationSchema.index({ prover: 1, createdAt: -1 });
+witnessAttestationSchema.index(
+  { witness: 1, prover: 1, proofNonce: 1 },
+  { unique: true, name: 'witness_proof_unique' }
+);
+
+/**
+ * WitnessAttestation model.
+ */
+export const WitnessAttestation = mongoose.model<IWitnessAttestation>(
+  'WitnessAttestation',
+  witnessAttestationSchema
+);
+
+// ============================================================================
+// WI-FI REGISTRY (BSSID locations)
+// ============================================================================
+
+/**
+ * Wi-Fi registry entry in MongoDB.
+ *
+ * Known position of one access point, seeded from CSV imports and
+ * refined by high-confidence accepted proofs.
+ */
+export interface IWifiRegistryEntry extends Document {
+  _id: string; // Normalized BSSID (aa:bb:cc:dd:ee:ff)
+  ssid: string | null;
+  lat: number;
+  lon: number;
+  accuracy: number; // Position uncertainty in meters
+  observations: number; // Samples folded into lat/lon
+  source: 'import' | 'learned';
+  lastSeenAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Wi-Fi registry schema.
+ */
+const wifiRegistrySchema = new Schema<IWifiRegistryEntry>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      validate: {
+        validator: (v: string) => /^([0-9a-f]{2}:){5}[0-9a-f]{2}$/.test(v),
+        message: 'BSSID must be normalized (aa:bb:cc:dd:ee:ff)',
+      },
+    },
+    ssid: {
+      type: String,
+      default: null,
+    },
+    lat: {
+      type: Number,
+      required: true,
+      min: -90,
+      max: 90,
+    },
+    lon: {
+      type: Number,
+      required: true,
+      min: -180,
+      max: 180,
+    },
+    accuracy: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    observations: {
+      type: Number,
+      default: 1,
+      min: 0,
+    },
+    source: {
+      type: String,
+      enum: ['import', 'learned'],
+      required: true,
+    },
+    lastSeenAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'wifi_registry',
+  }
+);
+
+/**
+ * Wi-Fi registry model.
+ *
+ * Lookups are by BSSID (primary key) only.
+ */
+export const WifiRegistryEntry = mongoose.model<IWifiRegistryEntry>(
+  'WifiRegistryEntry',
+  wifiRegistrySchema
+);
+
+// ============================================================================
+// CELL TOWERS (Offline registry + remote lookup cache)
+// ============================================================================
+
+/**
+ * Cell tower document in MongoDB.
+ *
+ * - source=import: OpenCellID CSV dump rows, never expire
+ * - source=remote: results of a remote resolver, expire at expiresAt (TTL)
+ */
+export interface ICellTower extends Document {
+  _id: string; // "{mcc}-{mnc}-{tac}-{cellId}"
+  radio: string | null; // GSM, UMTS, LTE, NR, CDMA
+  mcc: number;
+  mnc: number;
+  tac: number; // LAC/TAC (OpenCellID "area")
+  cellId: number;
+  lat: number;
+  lon: number;
+  range: number; // Coverage radius estimate in meters
+  samples: number;
+  source: 'import' | 'remote';
+  expiresAt: Date | null; // Remote cache expiry (null = permanent)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Cell tower schema.
+ */
+const cellTowerSchema = new Schema<ICellTower>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    radio: {
+      type: String,
+      default: null,
+    },
+    mcc: {
+      type: Number,
+      required: true,
+    },
+    mnc: {
+      type: Number,
+      required: true,
+    },
+    tac: {
+      type: Number,
+      required: true,
+    },
+    cellId: {
+      type: Number,
+      required: true,
+    },
+    lat: {
+      type: Number,
+      required: true,
+      min: -90,
+      max: 90,
+    },
+    lon: {
+      type: Number,
+      required: true,
+      min: -180,
+      max: 180,
+    },
+    range: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    samples: {
+      type: Number,
+      default: 0,
+    },
+    source: {
+      type: String,
+      enum: ['import', 'remote'],
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'cell_towers',
+  }
+);
+
+/**
+ * Indexes for cell tower queries.
+ *
+ * Query patterns:
+ * 1. Lookup by composite key (primary key)
+ * 2. Expire cached remote results (TTL on expiresAt; null never expires)
+ */
+cellTowerSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Cell tower model.
+ */
+export const CellTower = mongoose.model<ICellTower>('CellTower', cellTowerSchema);
+
+// ============================================================================
+// APP ATTEST KEYS (iOS device keys)
+// ============================================================================
+
+/**
+ * App Attest key document in MongoDB.
+ *
+ * Stored once the attestation object for a key verifies; later proofs
+ * from that device send cheaper assertions signed by the key.
+ */
+export interface IAppAttestKey extends Document {
+  _id: string; // Key identifier (base64 SHA-256 of the public key)
+  publicKey: string; // PEM (SPKI) P-256 public key from the credential certificate
+  counter: number; // Last accepted sign counter (must strictly increase)
+  appId: string; // TEAMID.bundleId the key was attested for
+  environment: 'production' | 'development';
+  receipt: string | null; // Base64 App Attest receipt (for fraud metric refresh)
+  account: string; // Account that submitted the attestation
+  lastAssertionAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * App Attest key schema.
+ */
+const appAttestKeySchema = new Schema<IAppAttestKey>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    publicKey: {
+      type: String,
+      required: true,
+    },
+    counter: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    appId: {
+      type: String,
+      required: true,
+    },
+    environment: {
+      type: String,
+      enum: ['production', 'development'],
+      required: true,
+    },
+    receipt: {
+      type: String,
+      default: null,
+    },
+    account: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    lastAssertionAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'app_attest_keys',
+  }
+);
+
+/**
+ * App Attest key model.
+ */
+export const AppAttestKey = mongoose.model<IAppAttestKey>('AppAttestKey', appAttestKeySchema);
+
+// ============================================================================
+// PROOF CHALLENGES (Server-issued nonces)
+// ============================================================================
+
+/**
+ * Proof challenge document in MongoDB.
+ *
+ * Short-lived nonce issued to one account by POST /proof/challenge and
+ * redeemed exactly once by /proof/submit.
+ */
+export interface IProofChallenge extends Document {
+  _id: string; // Nonce (hex)
+  account: string; // Account the challenge was issued to (lowercase)
+  offline: boolean; // Long-lived, accepted only in offline batches
+  requestedAt?: Date; // Timestamp of the signed request (one challenge per signed request)
+  issuedAt: Date;
+  expiresAt: Date;
+  redeemedAt: Date | null;
+}
+
+/**
+ * Proof challenge schema.
+ */
+const proofChallengeSchema = new Schema<IProofChallenge>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    account: {
+      type: String,
+      required: true,
+    },
+    offline: {
+      type: Boolean,
+      default: false,
+    },
+    requestedAt: {
+      type: Date,
+    },
+    issuedAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    redeemedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    collection: 'proof_challenges',
+  }
+);
+
+/**
+ * Indexes for challenge queries.
+ *
+ * Query patterns:
+ * 1. Outstanding challenges per account (account + expiresAt)
+ * 2. Signed request replay: one challenge per (account, requestedAt)
+ * 3. Cleanup: TTL removes challenges 25h after expiry. Offline proofs made
+ *    just before expiry can arrive up to PROOF_BATCH_MAX_AGE_MS (12h) later
+ *    and must still find their challenge; late live submissions get
+ *    CHALLENGE_EXPIRED rather than unknown
+ */
+proofChallengeSchema.index({ account: 1, expiresAt: -1 });
+proofChallengeSchema.index(
+  { account: 1, requestedAt: 1 },
+  { unique: true, partialFilterExpression: { requestedAt: { $type: 'date' } } }
+);
+proofChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 25 * 60 * 60 });
+
+/**
+ * Proof challenge model.
+ */
+export const ProofChallenge = mongoose.model<IProofChallenge>('ProofChallenge', proofChallengeSchema);
+
+// ============================================================================
+// SYBIL CLUSTERS (Suspected account farms)
+// ============================================================================
+
+/**
+ * Signal that links two accounts of a sybil cluster.
+ */
+export type SybilSignal = 'attestation_key' | 'wifi' | 'colocation' | 'cell' | 'device';
+
+/**
+ * Sybil cluster document in MongoDB.
+ *
+ * Group of accounts the periodic detection linked through shared devices
+ * and co-located proofs. Rewards of every account in a suspected or
+ * confirmed cluster are throttled; admins confirm or dismiss clusters.
+ */
+export interface ISybilCluster extends Document {
+  _id: string; // Cluster ID (sybil-<ms>-<random>)
+  accounts: string[]; // Member accounts (lowercase)
+  links: Array<{
+    accounts: [string, string]; // Linked pair (sorted)
+    score: number; // Weighted evidence
+    signals: Partial<Record<SybilSignal, number>>; // Shared occurrences per signal
+  }>;
+  score: number; // Strongest link
+  status: 'suspected' | 'confirmed' | 'dismissed';
+  firstDetectedAt: Date;
+  lastDetectedAt: Date;
+  reviewedAt: Date | null;
+  reviewedBy: string | null;
+  note: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Sybil cluster schema.
+ */
+const sybilClusterSchema = new Schema<ISybilCluster>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    accounts: {
+      type: [String],
+      required: true,
+    },
+    links: {
+      type: Schema.Types.Mixed, // Array of links (markModified after changes)
+      default: [],
+    },
+    score: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    status: {
+      type: String,
+      enum: ['suspected', 'confirmed', 'dismissed'],
+      default: 'suspected',
+    },
+    firstDetectedAt: {
+      type: Date,
+      required: true,
+    },
+    lastDetectedAt: {
+      type: Date,
+      required: true,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+    reviewedBy: {
+      type: String,
+      default: null,
+    },
+    note: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'sybil_clusters',
+  }
+);
+
+/**
+ * Indexes for cluster queries.
+ *
+ * Query patterns:
+ * 1. Reward throttle: clusters containing an account (accounts multikey + status)
+ * 2. Admin review: clusters by status, most recently detected first
+ */
+sybilClusterSchema.index({ accounts: 1, status: 1 });
+sybilClusterSchema.index({ status: 1, lastDetectedAt: -1 });
+
+/**
+ * Sybil cluster model.
+ */
+export const SybilCluster = mongoose.model<ISybilCluster>('SybilCluster', sybilClusterSchema);
+
+// ============================================================================
+// SENSOR FINGERPRINTS (Replay detection)
+// ============================================================================
+
+/**
+ * One reading of a sensor snapshot (a satellite or a cell).
+ */
+export interface ISensorReading {
+  id: string; // "GPS:12" (constellation:svid) or "serving" / neighbor cellId
+  cn0?: number; // Satellite C/N0 (dB-Hz)
+  az?: number; // Satellite azimuth (degrees)
+  el?: number; // Satellite elevation (degrees)
+  rsrp?: number; // Cell RSRP (dBm)
+}
+
+/**
+ * Sensor fingerprint document in MongoDB.
+ *
+ * GNSS or cell snapshot of an accepted proof, kept for SENSOR_REPLAY_WINDOW_MS
+ * so later proofs reusing the same capture can be detected
+ * (core/validator/sensor-replay.ts).
+ */
+export interface ISensorFingerprint extends Document {
+  _id: string; // <eventId>:<kind>
+  eventId: string; // Click event the snapshot was submitted with
+  account: string;
+  kind: 'gnss' | 'cell';
+  tokens: string[]; // Coarse lookup keys (candidate search)
+  readings: ISensorReading[];
+  lat?: number; // Proof location (same-account exemption)
+  lon?: number;
+  provedAt: Date; // Proof timestamp
+  expiresAt: Date; // TTL
+}
+
+/**
+ * Sensor fingerprint schema.
+ */
+const sensorFingerprintSchema = new Schema<ISensorFingerprint>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    account: {
+      type: String,
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: ['gnss', 'cell'],
+      required: true,
+    },
+    tokens: {
+      type: [String],
+      required: true,
+    },
+    readings: {
+      type: Schema.Types.Mixed, // Array of ISensorReading
+      required: true,
+    },
+    lat: {
+      type: Number,
+    },
+    lon: {
+      type: Number,
+    },
+    provedAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'sensor_fingerprints',
+  }
+);
+
+/**
+ * Indexes for fingerprint queries.
+ *
+ * Query patterns:
+ * 1. Replay candidates: kind + any shared token within the time window
+ * 2. Cleanup: TTL removes fingerprints once they leave the window
+ */
+sensorFingerprintSchema.index({ kind: 1, tokens: 1, provedAt: -1 });
+sensorFingerprintSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Sensor fingerprint model.
+ */
+export const SensorFingerprint = mongoose.model<ISensorFingerprint>('SensorFingerprint', sensorFingerprintSchema);
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Whether a write failed on a unique index (duplicate key, code 11000).
+ * 
+ * @param error - Caught error
+ * @returns True for MongoDB duplicate key errors
+ */
+export function isDuplicateKeyError(error: unknown): error is mongo.MongoServerError {
+  return error instanceof mongo.MongoServerError && error.code === 11000;
+}
+
+/**
+ * Create or update a triangle document.
+ * 
+ * Sparse materialization: only create if doesn't exist.
+ * 
+ * @param triangleId - Encoded triangle ID
+ * @param update - Fields to update
+ * @returns Triangle document
+ */
+export async function upsertTriangle(
+  triangleId: string,
+  update: Partial<ITriangle>
+): Promise<ITriangle> {
+  const triangle = await Triangle.findByIdAndUpdate(
+    triangleId,
+    { $set: update },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  if (!triangle) {
+    throw new Error(`Failed to upsert triangle: ${triangleId}`);
+  }
+
+  return triangle;
+}
+
+/**
+ * Log a triangle event (append-only).
+ * 
+ * @param triangleId - Encoded triangle ID
+ * @param eventType - Event type
+ * @param payload - Event-specific data
+ * @returns Event document
+ */
+export async function logTriangleEvent(
+  triangleId: string,
+  eventType: ITriangleEvent['eventType'],
+  payload: ITriangleEvent['payload']
+): Promise<ITriangleEvent> {
+  // Generate UUID v4
+  const eventId = generateUUID();
+
+  const event = await TriangleEvent.create({
+    _id: eventId,
+    triangleId,
+    eventType,
+    timestamp: new Date(), // ISO 8601 UTC with ms
+    payload,
+  });
+
+  return event;
+}
+
+/**
+ * Generate UUID v4 (simple implementation).
+ * 
+ * For production, use a proper UUID library.
+ * 
+ * @returns UUID v4 string
+ */
+function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+/**
+ * Canonical ledger form of a wallet address.
+ * 
+ * Why: Signed messages (proofs, transfers) commit to the lowercase address,
+ * so the mixed-case / checksummed spellings of one wallet must map to one
+ * account document.
+ * 
+ * @param address - Wallet address in any case
+ * @returns Lowercase address
+ */
+export function canonicalAddress(address: string): string {
+  return address.toLowerCase();
+}
+
+/**
+ * Get or create an account.
+ * 
+ * @param address - Wallet address (any case; stored lowercase)
+ * @param session - Optional Mongo session (for use inside transactions)
+ * @returns Account document
+ */
+export async function getOrCreateAccount(
+  address: string,
+  session?: ClientSession
+): Promise<IAccount> {
+  address = canonicalAddress(address);
+  let account = await Account.findById(address).session(session || null);
+
+  if (!account) {
+    [account] = await Account.create(
+      [
+        {
+          _id: address,
+          balance: '0',
+          nonce: 0,
+        },
+      ],
+      { session }
+    );
+  }
+
+  return account;
+}
+
+/**
+ * Update account balance (atomic operation).
+ * 
+ * Pass a session to make the update part of a multi-document transaction
+ * (e.g. debit + credit of a transfer).
  * 
- * @param address - Wallet address
+ * @param address - Wallet address (any case; stored lowercase)
  * @param amount - Amount to add (can be negative for deductions)
+ * @param session - Optional Mongo session (for use inside transactions)
  * @returns Updated account
  */
 export async function updateBalance(
   address: string,
-  amount: bigint
+  amount: bigint,
+  session?: ClientSession
 ): Promise<IAccount> {
-  const account = await getOrCreateAccount(address);
+  const account = await getOrCreateAccount(address, session);
 
   // Convert string balance to BigInt
   const currentBalance = BigInt(account.balance);
@@ -516,7 +1542,7 @@ export async function updateBalance(
 
   // Update balance
   account.balance = newBalance.toString();
-  await account.save();
+  await account.save({ session });
 
   return account;
 }
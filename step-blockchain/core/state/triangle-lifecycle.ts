@@ -0,0 +1,299 @@
+/**
+ * Triangle Lifecycle
+ *
+ * State machine and time-locks for triangle mining (STEP_TOKENOMICS.md §3-4).
+ *
+ * States:
+ *   pending ──(moratorium elapsed)──> active ──(1st click)──> partially_mined
+ *   partially_mined ──(11th click, level < 21)──> subdivided (4 pending children)
+ *   partially_mined ──(28th click, level 21)──> exhausted
+ *
+ * Time-locks:
+ * - Moratorium: a triangle becomes mineable TRIANGLE_MORATORIUM_MS after
+ *   moratoriumStartAt (creation / subdivision of its parent)
+ * - Inter-mine delay: click N may only land Delay(N) after the previous
+ *   click, Delay(N) = 10ms × 2^(N-1) for N ∈ [2..21], fixed cap for N ≥ 22
+ *
+ * Scheduled job:
+ * - pending → active is purely time-based, so a periodic sweep promotes
+ *   triangles whose moratorium elapsed (proofs also promote lazily)
+ *
+ * Configuration via environment:
+ * - TRIANGLE_MORATORIUM_MS: Moratorium after creation (default: 604800000 = 168h)
+ * - TRIANGLE_DELAY_BASE_MS: Inter-mine delay base (default: 10)
+ * - TRIANGLE_DELAY_CAP_MS: Inter-mine delay for clicks 22-28 (default: 10480000)
+ * - TRIANGLE_LIFECYCLE_ENABLED: Start the sweep with the API server (default: true)
+ * - TRIANGLE_LIFECYCLE_INTERVAL_MS: Time between sweeps (default: 60000)
+ */
+
+import { Triangle, type ITriangle } from './schemas.js';
+
+// Configuration with defaults
+const TRIANGLE_MORATORIUM_MS = parseInt(process.env.TRIANGLE_MORATORIUM_MS || '604800000', 10);
+const TRIANGLE_DELAY_BASE_MS = parseInt(process.env.TRIANGLE_DELAY_BASE_MS || '10', 10);
+const TRIANGLE_DELAY_CAP_MS = parseInt(process.env.TRIANGLE_DELAY_CAP_MS || '10480000', 10);
+const TRIANGLE_LIFECYCLE_ENABLED = process.env.TRIANGLE_LIFECYCLE_ENABLED !== 'false';
+const TRIANGLE_LIFECYCLE_INTERVAL_MS = parseInt(process.env.TRIANGLE_LIFECYCLE_INTERVAL_MS || '60000', 10);
+
+/**
+ * Clicks that trigger subdivision (levels 1-20).
+ */
+export const SUBDIVIDE_AT_CLICKS = 11;
+
+/**
+ * Clicks after which a triangle is permanently exhausted.
+ */
+export const MAX_CLICKS = 28;
+
+/**
+ * Finest mesh level; these triangles never subdivide.
+ */
+export const MAX_LEVEL = 21;
+
+/**
+ * Triangle mining state.
+ */
+export type TriangleState = ITriangle['state'];
+
+/**
+ * Reason a triangle cannot be mined right now.
+ */
+export type MineBlockReason =
+  | 'TRIANGLE_PENDING'
+  | 'TRIANGLE_COOLDOWN'
+  | 'TRIANGLE_SUBDIVIDED'
+  | 'TRIANGLE_EXHAUSTED';
+
+/**
+ * Result of checking whether a triangle accepts a click.
+ */
+export interface MineCheck {
+  ok: boolean;
+  code?: MineBlockReason;
+  error?: string;
+  retryAt?: string; // ISO 8601 UTC, when the triangle opens (pending/cooldown)
+}
+
+/**
+ * Fields of a triangle the lifecycle rules read.
+ */
+export type LifecycleTriangle = Pick<ITriangle, 'state' | 'level' | 'clicks' | 'moratoriumStartAt' | 'lastClickAt'>;
+
+// Module-level state (singleton scheduler, like core/chain/block-producer.ts)
+let timer: NodeJS.Timeout | null = null;
+let sweeping = false;
+let lastSweepAt: string | null = null;
+let lastSweepError: string | null = null;
+let lastActivated = 0;
+
+/**
+ * Inter-mine delay before click N.
+ *
+ * Examples (default base/cap):
+ * - Click 1: 0 (first miner)
+ * - Click 10: 5.12s
+ * - Click 21: ~2.9h
+ * - Click 22-28: 10,480s
+ *
+ * @param clickNumber - Click about to be made (1-28)
+ * @returns Delay after the previous click in milliseconds
+ */
+export function interMineDelayMs(clickNumber: number): number {
+  if (clickNumber <= 1) {
+    return 0;
+  }
+  if (clickNumber >= 22) {
+    return TRIANGLE_DELAY_CAP_MS;
+  }
+  return Math.min(TRIANGLE_DELAY_BASE_MS * Math.pow(2, clickNumber - 1), TRIANGLE_DELAY_CAP_MS);
+}
+
+/**
+ * When the moratorium of a triangle ends.
+ *
+ * @param triangle - Triangle
+ * @returns First instant the triangle is mineable
+ */
+export function mineableAt(triangle: LifecycleTriangle): Date {
+  return new Date(new Date(triangle.moratoriumStartAt).getTime() + TRIANGLE_MORATORIUM_MS);
+}
+
+/**
+ * When the next click on a triangle is allowed by the delay schedule.
+ *
+ * @param triangle - Triangle
+ * @returns Earliest time of the next click, or null if no delay applies
+ */
+export function nextClickAt(triangle: LifecycleTriangle): Date | null {
+  if (!triangle.lastClickAt || triangle.clicks === 0) {
+    return null;
+  }
+  return new Date(new Date(triangle.lastClickAt).getTime() + interMineDelayMs(triangle.clicks + 1));
+}
+
+/**
+ * Check whether a triangle accepts a click at a given time.
+ *
+ * A pending triangle whose moratorium has elapsed is accepted (the sweep
+ * may not have promoted it yet); call activateIfDue before the click.
+ *
+ * @param triangle - Triangle
+ * @param at - Time of the click (server time)
+ * @returns Check result with reason and retry time when blocked
+ */
+export function checkMineable(triangle: LifecycleTriangle, at: Date = new Date()): MineCheck {
+  if (triangle.state === 'subdivided') {
+    return {
+      ok: false,
+      code: 'TRIANGLE_SUBDIVIDED',
+      error: 'Triangle has subdivided; mine one of its child triangles',
+    };
+  }
+
+  if (triangle.state === 'exhausted' || triangle.clicks >= MAX_CLICKS) {
+    return {
+      ok: false,
+      code: 'TRIANGLE_EXHAUSTED',
+      error: 'Triangle is exhausted; no further mining possible',
+    };
+  }
+
+  if (triangle.state === 'pending') {
+    const opensAt = mineableAt(triangle);
+    if (at < opensAt) {
+      return {
+        ok: false,
+        code: 'TRIANGLE_PENDING',
+        error: `Triangle is in its moratorium until ${opensAt.toISOString()}`,
+        retryAt: opensAt.toISOString(),
+      };
+    }
+  }
+
+  const next = nextClickAt(triangle);
+  if (next && at < next) {
+    return {
+      ok: false,
+      code: 'TRIANGLE_COOLDOWN',
+      error: `Click ${triangle.clicks + 1} on this triangle is locked until ${next.toISOString()}`,
+      retryAt: next.toISOString(),
+    };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Promote a pending triangle whose moratorium elapsed (in memory).
+ *
+ * @param triangle - Triangle document (caller saves)
+ * @param at - Current time
+ * @returns True if the state changed
+ */
+export function activateIfDue(triangle: LifecycleTriangle, at: Date = new Date()): boolean {
+  if (triangle.state === 'pending' && at >= mineableAt(triangle)) {
+    triangle.state = 'active';
+    return true;
+  }
+  return false;
+}
+
+/**
+ * State a triangle moves to after a click was counted.
+ *
+ * @param triangle - Triangle with clicks already incremented
+ * @returns 'subdivided' when the caller must create children, otherwise the new state
+ */
+export function stateAfterClick(triangle: LifecycleTriangle): TriangleState {
+  if (triangle.level < MAX_LEVEL && triangle.clicks >= SUBDIVIDE_AT_CLICKS) {
+    return 'subdivided';
+  }
+  if (triangle.clicks >= MAX_CLICKS) {
+    return 'exhausted';
+  }
+  return 'partially_mined';
+}
+
+/**
+ * Promote all pending triangles whose moratorium elapsed.
+ *
+ * @param at - Current time
+ * @returns Number of triangles activated
+ */
+export async function activateDueTriangles(at: Date = new Date()): Promise<number> {
+  const result = await Triangle.updateMany(
+    {
+      state: 'pending',
+      moratoriumStartAt: { $lte: new Date(at.getTime() - TRIANGLE_MORATORIUM_MS) },
+    },
+    { $set: { state: 'active' } }
+  );
+  return result.modifiedCount;
+}
+
+/**
+ * Start the periodic lifecycle sweep.
+ *
+ * Safe to call more than once; only one timer runs.
+ * Skips a tick if the previous sweep is still in progress.
+ */
+export function startTriangleLifecycle(): void {
+  if (!TRIANGLE_LIFECYCLE_ENABLED || timer) {
+    return;
+  }
+
+  console.log(`[${new Date().toISOString()}] [lifecycle] Activating due triangles every ${TRIANGLE_LIFECYCLE_INTERVAL_MS}ms`);
+
+  timer = setInterval(async () => {
+    if (sweeping) {
+      return;
+    }
+
+    sweeping = true;
+    try {
+      lastActivated = await activateDueTriangles();
+      lastSweepAt = new Date().toISOString();
+      lastSweepError = null;
+
+      if (lastActivated > 0) {
+        console.log(`[${lastSweepAt}] [lifecycle] Activated ${lastActivated} triangles`);
+      }
+    } catch (error) {
+      lastSweepError = error instanceof Error ? error.message : String(error);
+      console.error(`[${new Date().toISOString()}] [lifecycle] Sweep failed:`, lastSweepError);
+    } finally {
+      sweeping = false;
+    }
+  }, TRIANGLE_LIFECYCLE_INTERVAL_MS);
+}
+
+/**
+ * Stop the periodic lifecycle sweep (graceful shutdown).
+ */
+export function stopTriangleLifecycle(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+/**
+ * Get lifecycle configuration and scheduler status.
+ *
+ * @returns Scheduler state and configuration
+ */
+export function triangleLifecycleStatus() {
+  return {
+    enabled: TRIANGLE_LIFECYCLE_ENABLED,
+    running: timer !== null,
+    intervalMs: TRIANGLE_LIFECYCLE_INTERVAL_MS,
+    moratoriumMs: TRIANGLE_MORATORIUM_MS,
+    delayBaseMs: TRIANGLE_DELAY_BASE_MS,
+    delayCapMs: TRIANGLE_DELAY_CAP_MS,
+    subdivideAtClicks: SUBDIVIDE_AT_CLICKS,
+    maxClicks: MAX_CLICKS,
+    lastSweepAt,
+    lastSweepError,
+    lastActivated,
+  };
+}
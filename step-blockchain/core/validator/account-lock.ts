@@ -0,0 +1,189 @@
+/**
+ * Per-Account Proof Serialization
+ *
+ * Closes the speed-gate race in /proof/submit and /proof/batch.
+ *
+ * The race:
+ * - evaluateProof reads the account's neighbouring proofs and runs the speed
+ *   gate and moratorium before the transaction starts
+ * - Two proofs from one account in different cities, submitted at the same
+ *   moment, both see the same previous proof, both pass and both are
+ *   rewarded ("teleport")
+ *
+ * The fix (optimistic version check, works across API instances):
+ * - The first write of every proof transaction bumps Account.proofSeq
+ * - Two transactions writing the same Account document conflict: MongoDB
+ *   aborts one with a WriteConflict (TransientTransactionError) and
+ *   withTransaction retries it on a fresh snapshot
+ * - After the bump the neighbouring proofs are re-read and the speed gate
+ *   and moratorium re-checked inside the transaction, so the retried
+ *   transaction sees the proof that won and is rejected
+ *
+ * Nothing to expire or clean up (unlike a lease): a crashed instance simply
+ * never commits its transaction.
+ *
+ * Check with a replica set: npm run check:proof-concurrency
+ */
+
+import type { ClientSession } from 'mongoose';
+import { Account, TriangleEvent } from '../state/schemas.js';
+import { validateSpeedGate, validateMoratorium } from './geometry.js';
+import type { MineBlockReason } from '../state/triangle-lifecycle.js';
+
+/**
+ * Position and time of a proof.
+ */
+export interface MovementPoint {
+  lat: number;
+  lon: number;
+  timestamp: string;  // ISO 8601
+}
+
+/**
+ * Speed gate and moratorium outcome against the account's other proofs.
+ */
+export interface MovementCheck {
+  legs: number;  // 0 for the account's first proof
+  speed?: number;  // m/s since the previous proof
+  speedError?: string;
+  moratoriumError?: string;
+}
+
+/**
+ * Reason a proof lost the race against a concurrent proof of the same
+ * account (speed / moratorium) or of the same triangle (lifecycle).
+ */
+export type ProofConflictCode = 'TOO_FAST' | 'MORATORIUM' | MineBlockReason;
+
+/**
+ * Proof rejected inside the transaction (a concurrent proof committed first).
+ */
+export class ProofConflictError extends Error {
+  constructor(
+    public code: ProofConflictCode,
+    message: string,
+    public retryAt?: string  // ISO 8601 UTC, when a time-locked triangle opens
+  ) {
+    super(message);
+    this.name = 'ProofConflictError';
+  }
+}
+
+/**
+ * Check a proof against the account's neighbouring clicks.
+ *
+ * Uses the clicks just before and just after the proof's timestamp (offline
+ * batch items can arrive after proofs made later in time) and checks the
+ * speed gate and moratorium on each leg.
+ *
+ * @param account - Account address
+ * @param here - The proof being checked
+ * @param session - Transaction session (reads then see the transaction snapshot)
+ * @returns Movement check (first error per gate)
+ */
+export async function checkAccountMovement(
+  account: string,
+  here: MovementPoint,
+  session?: ClientSession
+): Promise<MovementCheck> {
+  const provedAt = new Date(here.timestamp);
+
+  // Sequential: operations in one transaction must not run in parallel
+  const previousProof = await TriangleEvent.findOne({ account, eventType: 'click', timestamp: { $lte: provedAt } })
+    .sort({ timestamp: -1 })
+    .session(session ?? null)
+    .lean();
+  const nextProof = await TriangleEvent.findOne({ account, eventType: 'click', timestamp: { $gt: provedAt } })
+    .sort({ timestamp: 1 })
+    .session(session ?? null)
+    .lean();
+
+  const legs: Array<[MovementPoint, MovementPoint]> = [];
+  if (previousProof) {
+    legs.push([
+      {
+        lat: previousProof.payload.lat || 0,
+        lon: previousProof.payload.lon || 0,
+        timestamp: previousProof.timestamp.toISOString(),
+      },
+      here,
+    ]);
+  }
+  if (nextProof) {
+    legs.push([
+      here,
+      {
+        lat: nextProof.payload.lat || 0,
+        lon: nextProof.payload.lon || 0,
+        timestamp: nextProof.timestamp.toISOString(),
+      },
+    ]);
+  }
+
+  const check: MovementCheck = { legs: legs.length };
+
+  for (const [from, to] of legs) {
+    const speedResult = validateSpeedGate(from, to);
+    if (to === here) {
+      check.speed = speedResult.speed;
+    }
+    if (!speedResult.ok && !check.speedError) {
+      check.speedError = speedResult.error;
+    }
+
+    const moratoriumResult = validateMoratorium(from.timestamp, to.timestamp);
+    if (!moratoriumResult.ok && !check.moratoriumError) {
+      check.moratoriumError = moratoriumResult.error;
+    }
+  }
+
+  return check;
+}
+
+/**
+ * Take the account's proof slot for this transaction.
+ *
+ * Must be the first write of the proof transaction. Creates the account
+ * if it does not exist yet (first proof).
+ *
+ * @param account - Account address
+ * @param session - Proof transaction session
+ */
+export async function lockAccountForProof(account: string, session: ClientSession): Promise<void> {
+  await Account.updateOne(
+    { _id: account },
+    { $inc: { proofSeq: 1 }, $setOnInsert: { balance: '0', nonce: 0 } },
+    { session, upsert: true }
+  );
+}
+
+/**
+ * Serialize a proof against concurrent proofs of the same account.
+ *
+ * Call inside the proof transaction before recording the click: takes the
+ * account slot, then re-runs the speed gate and moratorium on the
+ * transaction snapshot.
+ *
+ * @param account - Account address
+ * @param here - The proof being committed
+ * @param session - Proof transaction session
+ * @returns Movement check on the transaction snapshot (speed to store)
+ * @throws ProofConflictError if a concurrently committed proof makes this one invalid
+ */
+export async function serializeAccountProof(
+  account: string,
+  here: MovementPoint,
+  session: ClientSession
+): Promise<MovementCheck> {
+  await lockAccountForProof(account, session);
+
+  const check = await checkAccountMovement(account, here, session);
+  if (check.speedError) {
+    throw new ProofConflictError('TOO_FAST', check.speedError);
+  }
+  if (check.moratoriumError) {
+    throw new ProofConflictError('MORATORIUM', check.moratoriumError);
+  }
+
+  return check;
+}
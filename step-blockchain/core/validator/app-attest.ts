@@ -0,0 +1,544 @@
+/**
+ * Apple App Attest Verification
+ *
+ * Verifies iOS App Attest attestations (first use of a device key) and
+ * assertions (every later proof signed by that key).
+ *
+ * Token format (ProofPayloadV2.attestation on iOS):
+ *   base64(JSON { keyId, attestation }) - first proof from a new key
+ *   base64(JSON { keyId, assertion })   - later proofs
+ * keyId, attestation and assertion are base64 as returned by DCAppAttestService.
+ *
+ * clientDataHash = SHA-256(proof nonce), so an attestation/assertion only
+ * counts for the proof it was generated for.
+ *
+ * Attestation checks (Apple "Validating Apps That Connect to Your Server"):
+ * 1. x5c chain: credential cert → intermediate → configured App Attest root
+ * 2. nonce = SHA-256(authData || clientDataHash) equals the credential
+ *    certificate extension 1.2.840.113635.100.8.2
+ * 3. SHA-256(credential public key) equals keyId and credentialId
+ * 4. rpIdHash equals SHA-256(TEAMID.bundleId)
+ * 5. counter is 0; aaguid is appattest (production) or appattestdevelop
+ * Then the public key is stored (app_attest_keys) with counter 0.
+ *
+ * Assertion checks:
+ * 1. ECDSA signature over SHA-256(authenticatorData || clientDataHash)
+ *    verifies with the stored public key
+ * 2. rpIdHash equals SHA-256(TEAMID.bundleId)
+ * 3. counter strictly greater than the stored counter (atomic update)
+ *
+ * Configuration via environment:
+ * - APPLE_TEAM_ID (required)
+ * - APP_ATTEST_ROOT_CA (PEM contents or path to Apple_App_Attestation_Root_CA.pem)
+ * - APP_ATTEST_ALLOW_DEVELOPMENT (default: true outside production)
+ */
+
+import { createHash, verify as cryptoVerify, X509Certificate } from 'crypto';
+import { readFileSync } from 'fs';
+import { decodeCbor } from './cbor.js';
+import { AppAttestKey, isDuplicateKeyError } from '../state/schemas.js';
+
+/**
+ * OID 1.2.840.113635.100.8.2 (DER-encoded body) - App Attest nonce extension.
+ */
+const NONCE_EXTENSION_OID = Buffer.from('2a864886f763640802', 'hex');
+
+/**
+ * AAGUIDs identifying the App Attest environment.
+ */
+const AAGUID_PRODUCTION = Buffer.concat([Buffer.from('appattest'), Buffer.alloc(7)]);
+const AAGUID_DEVELOPMENT = Buffer.from('appattestdevelop');
+
+/**
+ * Reason an attestation or assertion was rejected.
+ */
+export type AppAttestErrorCode =
+  | 'NOT_CONFIGURED'
+  | 'MALFORMED'
+  | 'BAD_CERTIFICATE_CHAIN'
+  | 'NONCE_MISMATCH'
+  | 'KEY_ID_MISMATCH'
+  | 'APP_ID_MISMATCH'
+  | 'BAD_ENVIRONMENT'
+  | 'BAD_COUNTER'
+  | 'BAD_SIGNATURE'
+  | 'KEY_ALREADY_ATTESTED'
+  | 'UNKNOWN_KEY'
+  | 'ACCOUNT_MISMATCH';
+
+/**
+ * App Attest verification failure.
+ */
+export class AppAttestError extends Error {
+  constructor(
+    public code: AppAttestErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AppAttestError';
+  }
+}
+
+/**
+ * Decoded iOS attestation token.
+ */
+export interface AppAttestToken {
+  keyId: string;
+  attestation?: string;
+  assertion?: string;
+}
+
+/**
+ * Result of a verified attestation object.
+ */
+export interface VerifiedAttestation {
+  publicKey: string; // PEM (SPKI)
+  counter: number;
+  environment: 'production' | 'development';
+  receipt: string | null;
+}
+
+/**
+ * Outcome of verifyAppAttestToken().
+ */
+export interface AppAttestOutcome {
+  mode: 'attestation' | 'assertion';
+  keyId: string;
+  counter: number;
+  environment: 'production' | 'development';
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const sha256 = (...parts: Buffer[]) => createHash('sha256').update(Buffer.concat(parts)).digest();
+
+/**
+ * App ID as used for rpIdHash: TEAMID.bundleId.
+ *
+ * @param teamId - Apple developer team ID
+ * @param bundleId - App bundle ID
+ * @returns App ID
+ */
+export function appIdFor(teamId: string, bundleId: string): string {
+  return `${teamId}.${bundleId}`;
+}
+
+/**
+ * clientDataHash bound to a proof.
+ *
+ * @param proofNonce - Nonce of the submitted proof
+ * @returns SHA-256(proof nonce)
+ */
+export function clientDataHashFor(proofNonce: string): Buffer {
+  return sha256(Buffer.from(proofNonce, 'utf-8'));
+}
+
+/**
+ * Load the App Attest root certificate from APP_ATTEST_ROOT_CA.
+ *
+ * @returns Root certificate, or null when not configured
+ */
+export function loadAppAttestRootCa(): X509Certificate | null {
+  const value = process.env.APP_ATTEST_ROOT_CA;
+  if (!value) {
+    return null;
+  }
+  const pem = value.includes('BEGIN CERTIFICATE') ? value.replace(/\\n/g, '\n') : readFileSync(value, 'utf8');
+  return new X509Certificate(pem);
+}
+
+/**
+ * Parse the iOS attestation token (base64 JSON, or raw JSON).
+ *
+ * @param token - ProofPayloadV2.attestation
+ * @returns Decoded token
+ */
+export function parseAppAttestToken(token: string): AppAttestToken {
+  let parsed: any;
+  try {
+    const text = token.trim().startsWith('{') ? token : Buffer.from(token, 'base64').toString('utf-8');
+    parsed = JSON.parse(text);
+  } catch {
+    throw new AppAttestError('MALFORMED', 'iOS attestation token is not base64 JSON');
+  }
+
+  if (typeof parsed?.keyId !== 'string' || (!parsed.attestation === !parsed.assertion)) {
+    throw new AppAttestError('MALFORMED', 'Token must contain keyId and exactly one of attestation/assertion');
+  }
+
+  return { keyId: parsed.keyId, attestation: parsed.attestation, assertion: parsed.assertion };
+}
+
+/**
+ * Read one DER TLV.
+ */
+function readTlv(buffer: Buffer, offset: number): { tag: number; start: number; end: number } {
+  if (offset + 2 > buffer.length) {
+    throw new AppAttestError('MALFORMED', 'DER: truncated');
+  }
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    if (bytes === 0 || bytes > 4 || start + bytes > buffer.length) {
+      throw new AppAttestError('MALFORMED', 'DER: bad length');
+    }
+    length = 0;
+    for (let i = 0; i < bytes; i++) {
+      length = length * 256 + buffer[start + i];
+    }
+    start += bytes;
+  }
+  if (start + length > buffer.length) {
+    throw new AppAttestError('MALFORMED', 'DER: truncated value');
+  }
+  return { tag, start, end: start + length };
+}
+
+/**
+ * Children of a constructed DER value.
+ */
+function derChildren(buffer: Buffer, start: number, end: number) {
+  const children: Array<{ tag: number; start: number; end: number }> = [];
+  let cursor = start;
+  while (cursor < end) {
+    const tlv = readTlv(buffer, cursor);
+    children.push(tlv);
+    cursor = tlv.end;
+  }
+  return children;
+}
+
+/**
+ * Extract the App Attest nonce from the credential certificate.
+ *
+ * Extension value: SEQUENCE { [1] EXPLICIT OCTET STRING nonce }
+ *
+ * @param certDer - Credential certificate (DER)
+ * @returns 32-byte nonce
+ */
+export function extractCertificateNonce(certDer: Buffer): Buffer {
+  const cert = readTlv(certDer, 0);
+  const tbs = derChildren(certDer, cert.start, cert.end)[0];
+  const extensionsWrapper = derChildren(certDer, tbs.start, tbs.end).find((c) => c.tag === 0xa3);
+
+  if (!extensionsWrapper) {
+    throw new AppAttestError('NONCE_MISMATCH', 'Credential certificate has no extensions');
+  }
+
+  const extensions = readTlv(certDer, extensionsWrapper.start);
+
+  for (const extension of derChildren(certDer, extensions.start, extensions.end)) {
+    const [oid, ...rest] = derChildren(certDer, extension.start, extension.end);
+    if (!certDer.subarray(oid.start, oid.end).equals(NONCE_EXTENSION_OID)) {
+      continue;
+    }
+
+    const value = rest[rest.length - 1]; // Skip optional "critical" BOOLEAN
+    const sequence = readTlv(certDer, value.start);
+    const tagged = derChildren(certDer, sequence.start, sequence.end).find((c) => c.tag === 0xa1);
+    if (!tagged) {
+      break;
+    }
+    const octets = readTlv(certDer, tagged.start);
+    return Buffer.from(certDer.subarray(octets.start, octets.end));
+  }
+
+  throw new AppAttestError('NONCE_MISMATCH', 'Credential certificate has no App Attest nonce extension');
+}
+
+/**
+ * Uncompressed EC point (0x04 || X || Y) of a certificate public key.
+ */
+function uncompressedPoint(cert: X509Certificate): Buffer {
+  const jwk = cert.publicKey.export({ format: 'jwk' });
+  if (jwk.crv !== 'P-256' || !jwk.x || !jwk.y) {
+    throw new AppAttestError('BAD_CERTIFICATE_CHAIN', 'Credential key is not P-256');
+  }
+  return Buffer.concat([Buffer.from([0x04]), Buffer.from(jwk.x, 'base64url'), Buffer.from(jwk.y, 'base64url')]);
+}
+
+/**
+ * Check a certificate is within its validity period.
+ */
+function isCertificateCurrent(cert: X509Certificate, now: number): boolean {
+  return new Date(cert.validFrom).getTime() <= now && now <= new Date(cert.validTo).getTime();
+}
+
+// ============================================================================
+// VERIFICATION (pure)
+// ============================================================================
+
+/**
+ * Verify an App Attest attestation object
+ *
+ * @param attestation - Base64 CBOR attestation object
+ * @param keyId - Base64 key identifier
+ * @param clientDataHash - SHA-256 of the client data (see clientDataHashFor)
+ * @param appId - TEAMID.bundleId
+ * @param rootCa - Trusted App Attest root certificate
+ * @param allowDevelopment - Accept development-environment keys
+ * @param now - Verification time (ms)
+ * @returns Verified public key, counter and environment
+ * @throws AppAttestError on any failed check
+ */
+export function verifyAttestationObject(
+  attestation: string,
+  keyId: string,
+  clientDataHash: Buffer,
+  appId: string,
+  rootCa: X509Certificate,
+  allowDevelopment: boolean,
+  now: number = Date.now()
+): VerifiedAttestation {
+  let object: any;
+  try {
+    object = decodeCbor(Buffer.from(attestation, 'base64'));
+  } catch (error) {
+    throw new AppAttestError('MALFORMED', `Attestation object: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const x5c: Buffer[] | undefined = object?.attStmt?.x5c;
+  const authData: Buffer | undefined = object?.authData;
+
+  if (object?.fmt !== 'apple-appattest' || !Array.isArray(x5c) || x5c.length < 2 || !Buffer.isBuffer(authData)) {
+    throw new AppAttestError('MALFORMED', 'Not an apple-appattest attestation object');
+  }
+
+  // 1. Certificate chain
+  let leaf: X509Certificate;
+  let intermediate: X509Certificate;
+  try {
+    leaf = new X509Certificate(x5c[0]);
+    intermediate = new X509Certificate(x5c[1]);
+  } catch {
+    throw new AppAttestError('BAD_CERTIFICATE_CHAIN', 'Unparseable x5c certificate');
+  }
+
+  if (
+    !leaf.verify(intermediate.publicKey) ||
+    !intermediate.verify(rootCa.publicKey) ||
+    !leaf.checkIssued(intermediate) ||
+    !intermediate.checkIssued(rootCa) ||
+    !isCertificateCurrent(leaf, now) ||
+    !isCertificateCurrent(intermediate, now)
+  ) {
+    throw new AppAttestError('BAD_CERTIFICATE_CHAIN', 'x5c chain does not verify against the App Attest root');
+  }
+
+  // 2. Nonce
+  const nonce = sha256(authData, clientDataHash);
+  if (!extractCertificateNonce(Buffer.from(leaf.raw)).equals(nonce)) {
+    throw new AppAttestError('NONCE_MISMATCH', 'Attestation nonce does not match this proof');
+  }
+
+  // 3. Key identifier
+  const keyIdBytes = Buffer.from(keyId, 'base64');
+  if (!sha256(uncompressedPoint(leaf)).equals(keyIdBytes)) {
+    throw new AppAttestError('KEY_ID_MISMATCH', 'keyId does not match the credential public key');
+  }
+
+  if (authData.length < 55) {
+    throw new AppAttestError('MALFORMED', 'authData too short');
+  }
+
+  // 4. App ID
+  if (!authData.subarray(0, 32).equals(sha256(Buffer.from(appId)))) {
+    throw new AppAttestError('APP_ID_MISMATCH', `Attestation is not for ${appId}`);
+  }
+
+  // 5. Counter, environment, credential ID
+  const counter = authData.readUInt32BE(33);
+  if (counter !== 0) {
+    throw new AppAttestError('BAD_COUNTER', `Attestation counter must be 0, got ${counter}`);
+  }
+
+  const aaguid = authData.subarray(37, 53);
+  let environment: 'production' | 'development';
+  if (aaguid.equals(AAGUID_PRODUCTION)) {
+    environment = 'production';
+  } else if (aaguid.equals(AAGUID_DEVELOPMENT) && allowDevelopment) {
+    environment = 'development';
+  } else {
+    throw new AppAttestError('BAD_ENVIRONMENT', 'Unexpected App Attest environment (aaguid)');
+  }
+
+  const credentialIdLength = authData.readUInt16BE(53);
+  const credentialId = authData.subarray(55, 55 + credentialIdLength);
+  if (!credentialId.equals(keyIdBytes)) {
+    throw new AppAttestError('KEY_ID_MISMATCH', 'credentialId does not match keyId');
+  }
+
+  return {
+    publicKey: leaf.publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+    counter,
+    environment,
+    receipt: Buffer.isBuffer(object.attStmt.receipt) ? object.attStmt.receipt.toString('base64') : null,
+  };
+}
+
+/**
+ * Verify an App Attest assertion
+ *
+ * @param assertion - Base64 CBOR assertion { signature, authenticatorData }
+ * @param clientDataHash - SHA-256 of the client data (see clientDataHashFor)
+ * @param appId - TEAMID.bundleId
+ * @param publicKey - Stored PEM public key of the device key
+ * @param previousCounter - Last accepted counter for the key
+ * @returns New counter
+ * @throws AppAttestError on any failed check
+ */
+export function verifyAssertionObject(
+  assertion: string,
+  clientDataHash: Buffer,
+  appId: string,
+  publicKey: string,
+  previousCounter: number
+): number {
+  let object: any;
+  try {
+    object = decodeCbor(Buffer.from(assertion, 'base64'));
+  } catch (error) {
+    throw new AppAttestError('MALFORMED', `Assertion object: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const signature: Buffer | undefined = object?.signature;
+  const authenticatorData: Buffer | undefined = object?.authenticatorData;
+
+  if (!Buffer.isBuffer(signature) || !Buffer.isBuffer(authenticatorData) || authenticatorData.length < 37) {
+    throw new AppAttestError('MALFORMED', 'Assertion must contain signature and authenticatorData');
+  }
+
+  const nonce = sha256(authenticatorData, clientDataHash);
+  let valid = false;
+  try {
+    valid = cryptoVerify('sha256', nonce, publicKey, signature);
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new AppAttestError('BAD_SIGNATURE', 'Assertion signature does not verify for this proof');
+  }
+
+  if (!authenticatorData.subarray(0, 32).equals(sha256(Buffer.from(appId)))) {
+    throw new AppAttestError('APP_ID_MISMATCH', `Assertion is not for ${appId}`);
+  }
+
+  const counter = authenticatorData.readUInt32BE(33);
+  if (counter <= previousCounter) {
+    throw new AppAttestError(
+      'BAD_COUNTER',
+      `Assertion counter ${counter} not greater than ${previousCounter} (replayed or cloned key)`
+    );
+  }
+
+  return counter;
+}
+
+// ============================================================================
+// VERIFICATION (with key storage)
+// ============================================================================
+
+/**
+ * Verify an iOS attestation token for a proof and update key storage
+ *
+ * - attestation: verify, then store the device key (counter 0)
+ * - assertion: verify against the stored key of the same account, then
+ *   atomically advance counter
+ * - dry run (/proof/preflight): same checks, nothing stored or advanced
+ *
+ * @param token - ProofPayloadV2.attestation
+ * @param bundleId - Expected bundle ID (IOS_BUNDLE_ID)
+ * @param proofNonce - Nonce of the submitted proof
+ * @param account - Submitting account
+ * @param dryRun - Verify only; leave key storage untouched
+ * @returns Outcome (mode, keyId, counter, environment)
+ * @throws AppAttestError when the token must not be trusted
+ */
+export async function verifyAppAttestToken(
+  token: string,
+  bundleId: string,
+  proofNonce: string,
+  account: string,
+  dryRun: boolean = false
+): Promise<AppAttestOutcome> {
+  const teamId = process.env.APPLE_TEAM_ID;
+  if (!teamId) {
+    throw new AppAttestError('NOT_CONFIGURED', 'APPLE_TEAM_ID is not configured');
+  }
+
+  const appId = appIdFor(teamId, bundleId);
+  const clientDataHash = clientDataHashFor(proofNonce);
+  const { keyId, attestation, assertion } = parseAppAttestToken(token);
+
+  if (attestation) {
+    const rootCa = loadAppAttestRootCa();
+    if (!rootCa) {
+      throw new AppAttestError('NOT_CONFIGURED', 'APP_ATTEST_ROOT_CA is not configured');
+    }
+
+    const allowDevelopment = process.env.APP_ATTEST_ALLOW_DEVELOPMENT
+      ? process.env.APP_ATTEST_ALLOW_DEVELOPMENT === 'true'
+      : process.env.NODE_ENV !== 'production';
+
+    const verified = verifyAttestationObject(attestation, keyId, clientDataHash, appId, rootCa, allowDevelopment);
+
+    if (dryRun) {
+      if (await AppAttestKey.exists({ _id: keyId })) {
+        throw new AppAttestError('KEY_ALREADY_ATTESTED', 'Key already attested; send an assertion instead');
+      }
+      return { mode: 'attestation', keyId, counter: verified.counter, environment: verified.environment };
+    }
+
+    try {
+      await AppAttestKey.create({
+        _id: keyId,
+        publicKey: verified.publicKey,
+        counter: verified.counter,
+        appId,
+        environment: verified.environment,
+        receipt: verified.receipt,
+        account,
+      });
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        throw new AppAttestError('KEY_ALREADY_ATTESTED', 'Key already attested; send an assertion instead');
+      }
+      throw error;
+    }
+
+    return { mode: 'attestation', keyId, counter: verified.counter, environment: verified.environment };
+  }
+
+  const stored = await AppAttestKey.findById(keyId).lean();
+  if (!stored) {
+    throw new AppAttestError('UNKNOWN_KEY', 'Unknown App Attest key; send an attestation first');
+  }
+  if (stored.appId !== appId) {
+    throw new AppAttestError('APP_ID_MISMATCH', `Key was attested for ${stored.appId}`);
+  }
+  // A device key vouches only for the account that attested it
+  if (stored.account.toLowerCase() !== account.toLowerCase()) {
+    throw new AppAttestError('ACCOUNT_MISMATCH', 'Key was attested by a different account');
+  }
+
+  const counter = verifyAssertionObject(assertion!, clientDataHash, appId, stored.publicKey, stored.counter);
+
+  if (dryRun) {
+    return { mode: 'assertion', keyId, counter, environment: stored.environment };
+  }
+
+  // Conditional update: a concurrent assertion with the same/higher counter wins
+  const updated = await AppAttestKey.updateOne(
+    { _id: keyId, counter: { $lt: counter } },
+    { $set: { counter, lastAssertionAt: new Date() } }
+  );
+  if (updated.modifiedCount !== 1) {
+    throw new AppAttestError('BAD_COUNTER', 'Assertion counter already used (replay)');
+  }
+
+  return { mode: 'assertion', keyId, counter, environment: stored.environment };
+}
@@ -15,6 +15,9 @@
  * Attack Prevention: Blocks 80%+ of emulator/rooted attacks
  */
 
+import { verifyPlayIntegrityToken, PlayIntegrityError } from './play-integrity.js';
+import { verifyAppAttestToken, AppAttestError } from './app-attest.js';
+
 /**
  * Attestation verification result
  * Contains the score (0 or 25) and detailed verdict information
@@ -33,6 +36,11 @@ export interface AttestationResult {
  * Reference: https://developer.android.com/google/play/integrity/verdict
  */
 export interface AndroidVerdict {
+  requestDetails: {
+    requestPackageName: string;
+    nonce: string;               // Bound to the proof nonce
+    timestampMillis: string;
+  };
   deviceIntegrity: {
     deviceRecognitionVerdict: string[];  // MEETS_DEVICE_INTEGRITY, MEETS_BASIC_INTEGRITY, etc.
   };
@@ -51,14 +59,17 @@ export interface AndroidVerdict {
 }
 
 /**
- * iOS DeviceCheck/App Attest verdict
+ * iOS App Attest verdict
  * Reference: https://developer.apple.com/documentation/devicecheck
  */
 export interface iOSVerdict {
   authentic: boolean;       // Device is authentic Apple hardware
   keyId?: string;          // App Attest key identifier
-  timestamp: number;       // Unix timestamp of attestation
+  timestamp: number;       // Unix timestamp of verification
   riskMetric?: string;     // Optional risk assessment
+  mode?: 'attestation' | 'assertion';  // Key enrollment or later signed proof
+  counter?: number;        // Accepted sign counter
+  environment?: 'production' | 'development';
 }
 
 /**
@@ -68,13 +79,18 @@ export interface iOSVerdict {
  * Play Integrity API provides hardware-backed verification that the app is running
  * on a genuine, unmodified Android device with Google Play Services.
  * 
- * @param attestationToken - JWT token from Play Integrity API
+ * The token is decrypted and its signature verified locally with the Play
+ * Console keys (see play-integrity.ts) before any verdict is trusted.
+ * 
+ * @param attestationToken - Integrity token from Play Integrity API (JWE or JWS)
  * @param expectedPackageName - Expected app package name (e.g. 'com.stepblockchain.app')
+ * @param expectedNonce - Proof nonce the token must be bound to
  * @returns AttestationResult with score 0 or 25
  */
 export async function verifyAndroidAttestation(
   attestationToken: string,
-  expectedPackageName: string
+  expectedPackageName: string,
+  expectedNonce?: string
 ): Promise<AttestationResult> {
   const result: AttestationResult = {
     score: 0,
@@ -84,16 +100,21 @@ export async function verifyAndroidAttestation(
   };
 
   try {
-    // Decode JWT token (3 parts: header.payload.signature)
-    const parts = attestationToken.split('.');
-    if (parts.length !== 3) {
-      result.error = 'Invalid JWT format';
-      return result;
+    // Decrypt + verify signature, package, nonce binding and freshness
+    let payload: any;
+    try {
+      payload = verifyPlayIntegrityToken(attestationToken, {
+        expectedPackageName,
+        expectedNonce,
+      });
+    } catch (error) {
+      if (error instanceof PlayIntegrityError) {
+        result.error = `Play Integrity token rejected (${error.code}): ${error.message}`;
+        return result;
+      }
+      throw error;
     }
 
-    // Parse payload (base64url encoded)
-    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8'));
-
     // Validate required fields exist
     if (!payload.deviceIntegrity || !payload.appIntegrity) {
       result.error = 'Missing required fields in attestation payload';
@@ -152,19 +173,27 @@ export async function verifyAndroidAttestation(
 }
 
 /**
- * Verify iOS DeviceCheck/App Attest attestation
+ * Verify iOS App Attest attestation or assertion
  * 
  * Why: iOS devices are less vulnerable to rooting/jailbreaking than Android,
- * but DeviceCheck provides additional assurance that the app is running on
- * genuine Apple hardware and not a simulator or modified device.
+ * but App Attest proves the request comes from our genuine app on genuine
+ * Apple hardware. The first proof from a device key carries the attestation
+ * object (certificate chain to Apple's root); later proofs carry assertions
+ * signed by the stored key (see app-attest.ts).
  * 
- * @param attestationToken - Base64-encoded attestation from DeviceCheck/App Attest
+ * @param attestationToken - Base64 JSON { keyId, attestation | assertion }
  * @param expectedBundleId - Expected app bundle ID (e.g. 'com.stepblockchain.app')
+ * @param expectedNonce - Proof nonce (clientDataHash = SHA-256(nonce))
+ * @param account - Submitting account (recorded with new keys)
+ * @param dryRun - Verify without storing keys or advancing counters (preflight)
  * @returns AttestationResult with score 0 or 25
  */
 export async function verifyiOSAttestation(
   attestationToken: string,
-  expectedBundleId: string
+  expectedBundleId: string,
+  expectedNonce?: string,
+  account: string = '',
+  dryRun: boolean = false
 ): Promise<AttestationResult> {
   const result: AttestationResult = {
     score: 0,
@@ -173,44 +202,22 @@ export async function verifyiOSAttestation(
     verifiedAt: new Date().toISOString(),
   };
 
-  try {
-    // Decode base64 attestation token
-    const decoded = Buffer.from(attestationToken, 'base64').toString('utf-8');
-    const payload = JSON.parse(decoded);
-
-    // Validate required fields
-    if (!payload.authentic || typeof payload.authentic !== 'boolean') {
-      result.error = 'Missing or invalid authentic field';
-      return result;
-    }
-
-    // Store verdict for debugging/logging
-    result.verdict = payload as iOSVerdict;
-
-    // Check 1: Device Authenticity (CRITICAL)
-    // authentic = true means genuine Apple hardware
-    if (!payload.authentic) {
-      result.error = 'Device authenticity check failed (jailbroken/simulator)';
-      return result;
-    }
-
-    // Check 2: Timestamp validation (prevent replay attacks)
-    // Token must be recent (within last 5 minutes)
-    const now = Date.now();
-    const tokenAge = now - payload.timestamp;
-    const MAX_AGE_MS = 5 * 60 * 1000; // 5 minutes
-
-    if (tokenAge > MAX_AGE_MS) {
-      result.error = 'Attestation token expired (replay attack protection)';
-      return result;
-    }
+  if (!expectedNonce) {
+    result.error = 'App Attest requires the proof nonce (clientDataHash)';
+    return result;
+  }
 
-    // Check 3: Risk metric (if available)
-    // Some implementations include a risk score
-    if (payload.riskMetric && payload.riskMetric !== 'LOW') {
-      result.error = `High risk device detected: ${payload.riskMetric}`;
-      return result;
-    }
+  try {
+    const outcome = await verifyAppAttestToken(attestationToken, expectedBundleId, expectedNonce, account, dryRun);
+
+    result.verdict = {
+      authentic: true,
+      keyId: outcome.keyId,
+      timestamp: Date.now(),
+      mode: outcome.mode,
+      counter: outcome.counter,
+      environment: outcome.environment,
+    };
 
     // All checks passed - award full 25 points
     result.score = 25;
@@ -218,6 +225,10 @@ export async function verifyiOSAttestation(
 
     return result;
   } catch (error: any) {
+    if (error instanceof AppAttestError) {
+      result.error = `App Attest rejected (${error.code}): ${error.message}`;
+      return result;
+    }
     result.error = `iOS attestation verification failed: ${error.message}`;
     return result;
   }
@@ -233,12 +244,18 @@ export async function verifyiOSAttestation(
  * @param attestationToken - Platform-specific attestation token
  * @param platform - 'android' or 'ios'
  * @param expectedIdentifier - Package name (Android) or Bundle ID (iOS)
+ * @param expectedNonce - Proof nonce the attestation must be bound to
+ * @param account - Submitting account (iOS: recorded with new App Attest keys)
+ * @param dryRun - iOS: verify without touching App Attest key storage (preflight)
  * @returns AttestationResult with score 0 or 25
  */
 export async function verifyAttestation(
   attestationToken: string,
   platform: 'android' | 'ios',
-  expectedIdentifier: string
+  expectedIdentifier: string,
+  expectedNonce?: string,
+  account?: string,
+  dryRun: boolean = false
 ): Promise<AttestationResult> {
   // Validate inputs
   if (!attestationToken || attestationToken.trim().length === 0) {
@@ -253,9 +270,9 @@ export async function verifyAttestation(
 
   // Route to platform-specific verifier
   if (platform === 'android') {
-    return verifyAndroidAttestation(attestationToken, expectedIdentifier);
+    return verifyAndroidAttestation(attestationToken, expectedIdentifier, expectedNonce);
   } else if (platform === 'ios') {
-    return verifyiOSAttestation(attestationToken, expectedIdentifier);
+    return verifyiOSAttestation(attestationToken, expectedIdentifier, expectedNonce, account, dryRun);
   } else {
     return {
       score: 0,
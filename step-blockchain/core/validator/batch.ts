@@ -0,0 +1,114 @@
+/**
+ * Offline Proof Batches
+ *
+ * Rules for proofs collected without coverage and submitted later in one
+ * request (POST /proof/batch).
+ *
+ * Why batches:
+ * - Miners outside coverage cannot reach /proof/submit; their proofs are
+ *   queued on the device and flushed once the network returns
+ * - Items are evaluated oldest first, so the speed gate and moratorium
+ *   compare queued proofs with each other (each accepted item is stored
+ *   before the next is evaluated)
+ *
+ * Nonces:
+ * - An offline device cannot fetch a challenge when it proves; it uses
+ *   offline challenges fetched beforehand (see core/validator/challenge.ts),
+ *   so the server still vouches that no proof predates its challenge
+ * - Client nonces skip the challenge and its attestation binding, so they
+ *   are accepted only with PROOF_BATCH_OFFLINE_NONCES=true (migration of
+ *   old clients); nonce uniqueness still holds via the TriangleEvent index
+ * - The age window bounds how long a proof can be held back
+ *
+ * Configuration via environment:
+ * - PROOF_BATCH_MAX_ITEMS: Proofs per request (default: 50)
+ * - PROOF_BATCH_MAX_AGE_MS: Oldest accepted proof (default: 43200000 = 12h)
+ * - PROOF_BATCH_FUTURE_SKEW_MS: Tolerance for device clocks ahead of the server (default: 30000)
+ * - PROOF_BATCH_OFFLINE_NONCES: Accept client nonces in batches (default: false)
+ */
+
+const PROOF_BATCH_MAX_ITEMS = parseInt(process.env.PROOF_BATCH_MAX_ITEMS || '50', 10);
+const PROOF_BATCH_MAX_AGE_MS = parseInt(process.env.PROOF_BATCH_MAX_AGE_MS || '43200000', 10);
+const PROOF_BATCH_FUTURE_SKEW_MS = parseInt(process.env.PROOF_BATCH_FUTURE_SKEW_MS || '30000', 10);
+
+/**
+ * Reason a batch item is outside the age window.
+ */
+export type ProofAgeErrorCode = 'PROOF_TOO_OLD' | 'PROOF_IN_FUTURE';
+
+/**
+ * Whether batch items may carry client nonces instead of server challenges.
+ *
+ * @returns True only with PROOF_BATCH_OFFLINE_NONCES=true
+ */
+export function isOfflineNonceAllowed(): boolean {
+  return process.env.PROOF_BATCH_OFFLINE_NONCES === 'true';
+}
+
+/**
+ * Check a batch item's timestamp against the age window.
+ *
+ * @param proofTimestamp - payload.timestamp (ISO 8601)
+ * @param now - Server time
+ * @returns Check result with reason when outside the window
+ */
+export function checkProofAge(
+  proofTimestamp: string,
+  now: Date = new Date()
+): { ok: boolean; code?: ProofAgeErrorCode; error?: string } {
+  const provedAt = new Date(proofTimestamp).getTime();
+  const ageMs = now.getTime() - provedAt;
+
+  if (ageMs > PROOF_BATCH_MAX_AGE_MS) {
+    return {
+      ok: false,
+      code: 'PROOF_TOO_OLD',
+      error: `Proof is ${Math.round(ageMs / 3600000)}h old (max ${Math.round(PROOF_BATCH_MAX_AGE_MS / 3600000)}h)`,
+    };
+  }
+
+  if (ageMs < -PROOF_BATCH_FUTURE_SKEW_MS) {
+    return {
+      ok: false,
+      code: 'PROOF_IN_FUTURE',
+      error: `Proof timestamp is ${Math.round(-ageMs / 1000)}s in the future; check the device clock`,
+    };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Order batch items for evaluation: oldest proof first.
+ *
+ * Stable for equal timestamps; items without a parseable timestamp go
+ * last (they are rejected as malformed).
+ *
+ * @param timestamps - payload.timestamp of each item, in request order
+ * @returns Request indices in evaluation order
+ */
+export function batchEvaluationOrder(timestamps: Array<string | undefined>): number[] {
+  const times = timestamps.map((t) => (typeof t === 'string' ? Date.parse(t) : NaN));
+
+  return times
+    .map((_, index) => index)
+    .sort((a, b) => {
+      const ta = isNaN(times[a]) ? Infinity : times[a];
+      const tb = isNaN(times[b]) ? Infinity : times[b];
+      return ta === tb ? a - b : ta - tb;
+    });
+}
+
+/**
+ * Get current configuration values.
+ *
+ * @returns Batch configuration
+ */
+export function getBatchConfig() {
+  return {
+    maxItems: PROOF_BATCH_MAX_ITEMS,
+    maxAgeMs: PROOF_BATCH_MAX_AGE_MS,
+    futureSkewMs: PROOF_BATCH_FUTURE_SKEW_MS,
+    offlineNonces: isOfflineNonceAllowed(),
+  };
+}
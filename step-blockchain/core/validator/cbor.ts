@@ -0,0 +1,123 @@
+/**
+ * Minimal CBOR Decoder (RFC 8949)
+ *
+ * Just enough CBOR to read Apple App Attest attestation and assertion
+ * objects without an extra dependency.
+ *
+ * Supported:
+ * - Unsigned/negative integers (up to 2^53)
+ * - Byte strings (→ Buffer) and text strings
+ * - Arrays and maps (map keys become object keys)
+ * - Tags (tag number dropped, content returned)
+ * - false, true, null, undefined
+ *
+ * Not supported: indefinite lengths, floats, bignums.
+ */
+
+/**
+ * Decode one CBOR item that spans the whole buffer.
+ *
+ * @param data - CBOR bytes
+ * @returns Decoded value
+ * @throws Error on malformed or unsupported input
+ */
+export function decodeCbor(data: Uint8Array): any {
+  const buffer = Buffer.from(data);
+  const [value, offset] = decodeItem(buffer, 0, 0);
+  if (offset !== buffer.length) {
+    throw new Error(`CBOR: ${buffer.length - offset} trailing bytes`);
+  }
+  return value;
+}
+
+/**
+ * Maximum nesting depth (defends against hostile input).
+ */
+const MAX_DEPTH = 16;
+
+/**
+ * Read the argument of an item header.
+ */
+function readArgument(buffer: Buffer, offset: number, info: number): [number, number] {
+  if (info < 24) {
+    return [info, offset];
+  }
+  const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+  if (size === 0) {
+    throw new Error(`CBOR: unsupported additional info ${info}`);
+  }
+  if (offset + size > buffer.length) {
+    throw new Error('CBOR: truncated input');
+  }
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + buffer[offset + i];
+  }
+  if (!Number.isSafeInteger(value)) {
+    throw new Error('CBOR: integer too large');
+  }
+  return [value, offset + size];
+}
+
+/**
+ * Decode the item at offset.
+ */
+function decodeItem(buffer: Buffer, offset: number, depth: number): [any, number] {
+  if (depth > MAX_DEPTH) {
+    throw new Error('CBOR: nesting too deep');
+  }
+  if (offset >= buffer.length) {
+    throw new Error('CBOR: truncated input');
+  }
+
+  const initial = buffer[offset];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  const [arg, next] = readArgument(buffer, offset + 1, info);
+
+  switch (major) {
+    case 0:
+      return [arg, next];
+    case 1:
+      return [-1 - arg, next];
+    case 2:
+    case 3: {
+      if (next + arg > buffer.length) {
+        throw new Error('CBOR: truncated string');
+      }
+      const bytes = buffer.subarray(next, next + arg);
+      return [major === 2 ? Buffer.from(bytes) : bytes.toString('utf-8'), next + arg];
+    }
+    case 4: {
+      const items: any[] = [];
+      let cursor = next;
+      for (let i = 0; i < arg; i++) {
+        const [item, after] = decodeItem(buffer, cursor, depth + 1);
+        items.push(item);
+        cursor = after;
+      }
+      return [items, cursor];
+    }
+    case 5: {
+      const map: Record<string, any> = {};
+      let cursor = next;
+      for (let i = 0; i < arg; i++) {
+        const [key, afterKey] = decodeItem(buffer, cursor, depth + 1);
+        const [value, afterValue] = decodeItem(buffer, afterKey, depth + 1);
+        map[String(key)] = value;
+        cursor = afterValue;
+      }
+      return [map, cursor];
+    }
+    case 6:
+      return decodeItem(buffer, next, depth + 1);
+    case 7:
+      if (info === 20) return [false, next];
+      if (info === 21) return [true, next];
+      if (info === 22) return [null, next];
+      if (info === 23) return [undefined, next];
+      throw new Error(`CBOR: unsupported simple value ${info}`);
+    default:
+      throw new Error(`CBOR: unsupported major type ${major}`);
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * Cell Tower Registry
+ *
+ * Resolves cell tower locations for the cell tower validator without
+ * depending on the network.
+ *
+ * Lookup order:
+ * 1. cell_towers collection (OpenCellID CSV imports + cached remote results)
+ * 2. In-memory negative cache (recent remote misses)
+ * 3. Remote resolver (OpenCellID API when configured), result cached in
+ *    cell_towers with a TTL (expiresAt)
+ *
+ * Why a local registry:
+ * - Remote lookups on every proof slow down /proof/submit
+ * - Free API tiers are rate limited (OpenCellID: 1,000 requests/day)
+ * - Validators must work with no network access
+ *
+ * OpenCellID CSV format (cell_towers.csv / per-MCC dumps):
+ *   radio,mcc,net,area,cell,unit,lon,lat,range,samples,changeable,created,updated,averageSignal
+ *
+ * Configuration via environment:
+ * - OPENCELLID_API_KEY (optional; enables the remote resolver)
+ * - CELL_REMOTE_LOOKUP_ENABLED (default: true; false = registry only)
+ * - CELL_REMOTE_TIMEOUT_MS (default: 2000)
+ * - CELL_CACHE_TTL_MS (default: 604800000 = 7 days)
+ * - CELL_NEGATIVE_CACHE_TTL_MS (default: 3600000 = 1 hour)
+ *
+ * Phase: 2.5 Week 3
+ */
+
+import type { CellTowerData } from './signature.js';
+import { CellTower, type ICellTower } from '../state/schemas.js';
+
+const OPENCELLID_API_KEY = process.env.OPENCELLID_API_KEY || '';
+const CELL_REMOTE_LOOKUP_ENABLED = process.env.CELL_REMOTE_LOOKUP_ENABLED !== 'false';
+const CELL_REMOTE_TIMEOUT_MS = parseInt(process.env.CELL_REMOTE_TIMEOUT_MS || '2000', 10);
+const CELL_CACHE_TTL_MS = parseInt(process.env.CELL_CACHE_TTL_MS || '604800000', 10);
+const CELL_NEGATIVE_CACHE_TTL_MS = parseInt(process.env.CELL_NEGATIVE_CACHE_TTL_MS || '3600000', 10);
+
+/**
+ * Default coverage radius when the source gives none (meters).
+ */
+const DEFAULT_RANGE_M = 1000;
+
+/**
+ * Maximum remembered remote misses (oldest evicted first).
+ */
+const NEGATIVE_CACHE_MAX = 10000;
+
+/**
+ * Resolved cell location.
+ */
+export interface CellLocation {
+  lat: number;
+  lon: number;
+  accuracy: number;           // Coverage radius in meters
+  source: 'registry' | 'cache' | 'remote';
+}
+
+/**
+ * Remote resolver: returns a location or null when the cell is unknown.
+ * Throws on transport failure (not cached as a miss).
+ */
+export type RemoteCellResolver = (
+  cell: CellTowerData
+) => Promise<{ lat: number; lon: number; accuracy: number } | null>;
+
+/**
+ * Remote misses: key → expiry timestamp (ms).
+ */
+const negativeCache = new Map<string, number>();
+
+/**
+ * Registry key for a cell.
+ *
+ * @param cell - Cell identity
+ * @returns "{mcc}-{mnc}-{tac}-{cellId}"
+ */
+export function cellKey(cell: Pick<CellTowerData, 'mcc' | 'mnc' | 'tac' | 'cellId'>): string {
+  return `${cell.mcc}-${cell.mnc}-${cell.tac || 0}-${cell.cellId}`;
+}
+
+/**
+ * Create an OpenCellID API resolver.
+ *
+ * @param apiKey - OpenCellID API key
+ * @param timeoutMs - Request timeout
+ * @returns Remote resolver
+ */
+export function createOpenCellIdResolver(
+  apiKey: string,
+  timeoutMs: number = CELL_REMOTE_TIMEOUT_MS
+): RemoteCellResolver {
+  return async (cell) => {
+    const url =
+      `https://opencellid.org/cell/get?key=${encodeURIComponent(apiKey)}` +
+      `&mcc=${cell.mcc}&mnc=${cell.mnc}&lac=${cell.tac || 0}&cellid=${cell.cellId}&format=json`;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`OpenCellID HTTP ${response.status}`);
+      }
+
+      const data = (await response.json()) as any;
+
+      if (typeof data.lat === 'number' && typeof data.lon === 'number') {
+        return { lat: data.lat, lon: data.lon, accuracy: data.range || DEFAULT_RANGE_M };
+      }
+
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Default remote resolver from environment (null = offline mode).
+ */
+function defaultResolver(): RemoteCellResolver | null {
+  if (!CELL_REMOTE_LOOKUP_ENABLED || !OPENCELLID_API_KEY) {
+    return null;
+  }
+  return createOpenCellIdResolver(OPENCELLID_API_KEY);
+}
+
+/**
+ * Remember a remote miss.
+ */
+function rememberMiss(key: string): void {
+  if (negativeCache.size >= NEGATIVE_CACHE_MAX) {
+    // Map iterates in insertion order: drop the oldest entry
+    negativeCache.delete(negativeCache.keys().next().value!);
+  }
+  negativeCache.set(key, Date.now() + CELL_NEGATIVE_CACHE_TTL_MS);
+}
+
+/**
+ * Look up a cell tower location
+ *
+ * @param cell - Serving cell from the proof
+ * @param resolver - Remote resolver (default: OpenCellID from env; null = registry only)
+ * @returns Location, or null if unknown
+ */
+export async function lookupCellTower(
+  cell: CellTowerData,
+  resolver: RemoteCellResolver | null = defaultResolver()
+): Promise<CellLocation | null> {
+  const key = cellKey(cell);
+  const now = Date.now();
+
+  // 1. Registry (TTL deletion runs ~once a minute, so check expiry here too)
+  const entry = await CellTower.findById(key).lean<ICellTower>();
+  if (entry && (!entry.expiresAt || entry.expiresAt.getTime() > now)) {
+    return {
+      lat: entry.lat,
+      lon: entry.lon,
+      accuracy: entry.range,
+      source: entry.source === 'import' ? 'registry' : 'cache',
+    };
+  }
+
+  // 2. Recent remote miss
+  const missExpiry = negativeCache.get(key);
+  if (missExpiry !== undefined) {
+    if (missExpiry > now) {
+      return null;
+    }
+    negativeCache.delete(key);
+  }
+
+  if (!resolver) {
+    return null;
+  }
+
+  // 3. Remote resolver
+  let remote: Awaited<ReturnType<RemoteCellResolver>>;
+  try {
+    remote = await resolver(cell);
+  } catch (error) {
+    console.warn(`Remote cell lookup failed for ${key}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  if (!remote) {
+    rememberMiss(key);
+    return null;
+  }
+
+  try {
+    await CellTower.updateOne(
+      { _id: key, source: 'remote' },
+      {
+        $set: {
+          mcc: cell.mcc,
+          mnc: cell.mnc,
+          tac: cell.tac || 0,
+          cellId: cell.cellId,
+          lat: remote.lat,
+          lon: remote.lon,
+          range: remote.accuracy,
+          source: 'remote',
+          expiresAt: new Date(now + CELL_CACHE_TTL_MS),
+        },
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    // Duplicate key: an import landed concurrently; the registry wins next time
+    console.warn(`Caching remote cell ${key} failed:`, error instanceof Error ? error.message : error);
+  }
+
+  return { ...remote, source: 'remote' };
+}
+
+/**
+ * Import cell towers from OpenCellID CSV lines
+ *
+ * Accepts the dump with or without its header row. Imported rows
+ * overwrite cached remote results and never expire.
+ *
+ * @param lines - CSV lines (e.g. readline over a file stream)
+ * @param mccFilter - Only import these MCCs (empty = all)
+ * @returns Counts of imported and skipped rows
+ */
+export async function importCellTowersCsv(
+  lines: AsyncIterable<string> | Iterable<string>,
+  mccFilter: number[] = []
+): Promise<{ imported: number; skipped: number }> {
+  const batchSize = 1000;
+  let ops: any[] = [];
+  let imported = 0;
+  let skipped = 0;
+
+  const flush = async () => {
+    if (ops.length > 0) {
+      await CellTower.bulkWrite(ops, { ordered: false });
+      imported += ops.length;
+      ops = [];
+    }
+  };
+
+  for await (const raw of lines) {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('radio,')) {
+      continue;
+    }
+
+    const [radio, mccS, netS, areaS, cellS, , lonS, latS, rangeS, samplesS] = line.split(',');
+    const mcc = parseInt(mccS, 10);
+    const mnc = parseInt(netS, 10);
+    const tac = parseInt(areaS, 10);
+    const cellId = parseInt(cellS, 10);
+    const lat = parseFloat(latS);
+    const lon = parseFloat(lonS);
+    const range = parseInt(rangeS, 10);
+    const samples = parseInt(samplesS, 10);
+
+    if (
+      [mcc, mnc, tac, cellId].some((n) => isNaN(n) || n < 0) ||
+      isNaN(lat) || lat < -90 || lat > 90 ||
+      isNaN(lon) || lon < -180 || lon > 180
+    ) {
+      skipped++;
+      continue;
+    }
+
+    if (mccFilter.length > 0 && !mccFilter.includes(mcc)) {
+      skipped++;
+      continue;
+    }
+
+    ops.push({
+      updateOne: {
+        filter: { _id: cellKey({ mcc, mnc, tac, cellId }) },
+        update: {
+          $set: {
+            radio: radio || null,
+            mcc,
+            mnc,
+            tac,
+            cellId,
+            lat,
+            lon,
+            range: range > 0 ? range : DEFAULT_RANGE_M,
+            samples: isNaN(samples) ? 0 : samples,
+            source: 'import',
+            expiresAt: null,
+          },
+        },
+        upsert: true,
+      },
+    });
+
+    if (ops.length >= batchSize) {
+      await flush();
+    }
+  }
+
+  await flush();
+
+  return { imported, skipped };
+}
+
+/**
+ * Clear the in-memory negative cache.
+ */
+export function clearCellNegativeCache(): void {
+  negativeCache.clear();
+}
+
+/**
+ * Get current configuration values.
+ *
+ * @returns Registry configuration (API key redacted)
+ */
+export function getCellRegistryConfig() {
+  return {
+    remoteLookupEnabled: CELL_REMOTE_LOOKUP_ENABLED && !!OPENCELLID_API_KEY,
+    remoteTimeoutMs: CELL_REMOTE_TIMEOUT_MS,
+    cacheTtlMs: CELL_CACHE_TTL_MS,
+    negativeCacheTtlMs: CELL_NEGATIVE_CACHE_TTL_MS,
+    negativeCacheSize: negativeCache.size,
+  };
+}
@@ -15,10 +15,9 @@
  * - Multiple neighboring cells → harder to fake consistently
  * - Signal strength inconsistent with distance → suspicious
  * 
- * Data Sources:
- * - OpenCellID: https://opencellid.org (free tier: 1,000 requests/day)
- * - Mozilla Location Service: https://location.services.mozilla.com (free, no key)
- * - Google Geolocation API: https://developers.google.com/maps/documentation/geolocation
+ * Data Sources (see cell-registry.ts):
+ * - Local registry: OpenCellID CSV dumps imported into MongoDB (offline)
+ * - OpenCellID API: https://opencellid.org (optional, results cached with TTL)
  * 
  * Platform Support:
  * - Android: ✅ TelephonyManager API (all versions)
@@ -31,6 +30,7 @@
  */
 
 import type { CellTowerData } from './signature.js';
+import { lookupCellTower, type CellLocation, type RemoteCellResolver } from './cell-registry.js';
 
 /**
  * Cell tower verification result
@@ -39,11 +39,7 @@ import type { CellTowerData } from './signature.js';
 export interface CellTowerResult {
   score: number;              // 0-10 points
   passed: boolean;            // true if score >= threshold (typically 6+)
-  cellLocation?: {
-    lat: number;
-    lon: number;
-    accuracy: number;         // Location accuracy in meters
-  };
+  cellLocation?: CellLocation;  // Includes lookup source (registry/cache/remote)
   distance?: number;          // Distance between GPS and cell tower in meters
   distanceKm?: number;        // Distance in kilometers for readability
   issues: string[];           // List of detected issues
@@ -59,9 +55,7 @@ export interface CellTowerConfig {
   excellentDistanceKm: number;     // Excellent match distance (default: 10km)
   goodDistanceKm: number;          // Good match distance (default: 25km)
   minScore: number;                // Minimum score to pass (default: 6)
-  useOpenCellID: boolean;          // Use OpenCellID API (default: true)
-  useMozillaLs: boolean;           // Use Mozilla Location Service (default: true)
-  openCellIdApiKey?: string;       // OpenCellID API key
+  resolver?: RemoteCellResolver | null;  // Remote resolver override (null = registry only)
 }
 
 /**
@@ -77,9 +71,6 @@ export const DEFAULT_CELL_TOWER_CONFIG: CellTowerConfig = {
   excellentDistanceKm: 10,
   goodDistanceKm: 25,
   minScore: 6,
-  useOpenCellID: true,
-  useMozillaLs: true,
-  openCellIdApiKey: process.env.OPENCELLID_API_KEY,
 };
 
 /**
@@ -87,7 +78,7 @@ export const DEFAULT_CELL_TOWER_CONFIG: CellTowerConfig = {
  * 
  * Workflow:
  * 1. Extract cell tower info (MCC, MNC, CellID)
- * 2. Query cell tower database (OpenCellID or Mozilla)
+ * 2. Resolve cell tower location (local registry, then cached remote lookup)
  * 3. Calculate distance between GPS and cell tower
  * 4. Score based on distance (closer = better)
  * 5. Bonus points for multiple neighboring cells
@@ -123,22 +114,13 @@ export async function verifyCellTower(
     return result;
   }
 
-  // Query cell tower location from database
+  // Resolve cell tower location (registry first, remote resolver as fallback)
   try {
-    // Try Mozilla Location Service first (free, no API key)
-    if (config.useMozillaLs) {
-      const mozillaLocation = await queryMozillaLocationService(cellData);
-      if (mozillaLocation) {
-        result.cellLocation = mozillaLocation;
-      }
-    }
-
-    // Fallback to OpenCellID if Mozilla fails
-    if (!result.cellLocation && config.useOpenCellID && config.openCellIdApiKey) {
-      const openCellIdLocation = await queryOpenCellID(cellData, config.openCellIdApiKey);
-      if (openCellIdLocation) {
-        result.cellLocation = openCellIdLocation;
-      }
+    const location = config.resolver === undefined
+      ? await lookupCellTower(cellData)
+      : await lookupCellTower(cellData, config.resolver);
+    if (location) {
+      result.cellLocation = location;
     }
 
     // Check 3: Cell tower location found?
@@ -197,101 +179,6 @@ export async function verifyCellTower(
   return result;
 }
 
-/**
- * Query Mozilla Location Service for cell tower location
- * 
- * Free, no API key required, good coverage worldwide.
- * 
- * @param cellData - Cell tower data
- * @returns Cell location or null if not found
- */
-async function queryMozillaLocationService(
-  cellData: CellTowerData
-): Promise<{ lat: number; lon: number; accuracy: number } | null> {
-  const url = 'https://location.services.mozilla.com/v1/geolocate?key=test';
-  
-  const requestBody = {
-    cellTowers: [
-      {
-        mobileCountryCode: cellData.mcc,
-        mobileNetworkCode: cellData.mnc,
-        locationAreaCode: cellData.tac || 0,
-        cellId: cellData.cellId,
-        signalStrength: cellData.rsrp,
-      },
-    ],
-  };
-
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const data = await response.json() as any;
-    
-    if (data.location && data.location.lat && data.location.lng) {
-      return {
-        lat: data.location.lat,
-        lon: data.location.lng,
-        accuracy: data.accuracy || 1000,
-      };
-    }
-
-    return null;
-  } catch (error) {
-    console.warn('Mozilla Location Service query failed:', error);
-    return null;
-  }
-}
-
-/**
- * Query OpenCellID for cell tower location
- * 
- * Requires API key (free tier: 1,000 requests/day)
- * Sign up at: https://opencellid.org
- * 
- * @param cellData - Cell tower data
- * @param apiKey - OpenCellID API key
- * @returns Cell location or null if not found
- */
-async function queryOpenCellID(
-  cellData: CellTowerData,
-  apiKey: string
-): Promise<{ lat: number; lon: number; accuracy: number } | null> {
-  const url = `https://opencellid.org/cell/get?key=${apiKey}&mcc=${cellData.mcc}&mnc=${cellData.mnc}&lac=${cellData.tac || 0}&cellid=${cellData.cellId}&format=json`;
-
-  try {
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const data = await response.json() as any;
-    
-    if (data.lat && data.lon) {
-      return {
-        lat: data.lat,
-        lon: data.lon,
-        accuracy: data.range || 1000,
-      };
-    }
-
-    return null;
-  } catch (error) {
-    console.warn('OpenCellID query failed:', error);
-    return null;
-  }
-}
-
 /**
  * Calculate distance between two points using Haversine formula
  * 
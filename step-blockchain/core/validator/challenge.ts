@@ -0,0 +1,365 @@
+/**
+ * Proof Challenge Module
+ *
+ * Server-issued, short-lived, single-use nonces for location proofs.
+ *
+ * Why challenges:
+ * - Client-generated nonces only stop exact replays; a proof can be
+ *   precomputed or held back and submitted hours later
+ * - A server nonce proves the proof (and the attestation token bound to
+ *   the same nonce) was produced after the challenge was issued
+ *
+ * Flow:
+ * 1. POST /proof/challenge { account, timestamp, signature } → { nonce, expiresAt }
+ * 2. Client uses nonce as payload.nonce and as the attestation nonce
+ *    (Play Integrity request nonce / App Attest clientDataHash)
+ * 3. POST /proof/submit checks the challenge early (checkProofChallenge)
+ *    and redeems it inside the proof transaction (redeemProofChallenge)
+ *
+ * Signed requests:
+ * - The request is signed by the account (EIP-191 over
+ *   buildChallengeRequestMessage), so nobody else can use up an account's
+ *   outstanding challenge slots
+ * - The signed timestamp must be within PROOF_CHALLENGE_REQUEST_MAX_AGE_MS
+ *   of server time and issues at most one challenge per account
+ *
+ * Offline challenges:
+ * - Requested with { offline: true } while the device still has coverage,
+ *   kept on the device and used for proofs made without coverage
+ * - Valid for PROOF_OFFLINE_CHALLENGE_TTL_MS and accepted only in offline
+ *   batches (POST /proof/batch), never by /proof/submit
+ * - Still server-issued and single-use: a proof cannot predate its
+ *   challenge, and the attestation token is bound to it like a live one
+ * - Judged by proof time, not arrival time: the proof must be made inside
+ *   the challenge window; how late it may arrive is bounded by
+ *   PROOF_BATCH_MAX_AGE_MS (checkProofAge), not by the challenge expiry
+ *
+ * Configuration via environment:
+ * - PROOF_CHALLENGE_REQUIRED (default: true; false accepts client nonces)
+ * - PROOF_CHALLENGE_TTL_MS (default: 120000)
+ * - PROOF_CHALLENGE_MAX_OUTSTANDING (default: 5 per account)
+ * - PROOF_CHALLENGE_CLOCK_SKEW_MS (default: 30000)
+ * - PROOF_CHALLENGE_REQUEST_MAX_AGE_MS (default: 60000)
+ * - PROOF_OFFLINE_CHALLENGE_TTL_MS (default: 43200000 = 12h)
+ * - PROOF_OFFLINE_CHALLENGE_MAX_OUTSTANDING (default: 20 per account)
+ */
+
+import { randomBytes } from 'crypto';
+import type { ClientSession } from 'mongoose';
+import { ProofChallenge, isDuplicateKeyError, type IProofChallenge } from '../state/schemas.js';
+import { hashMessageEip191, recoverAddressFromSig } from './signature.js';
+
+const PROOF_CHALLENGE_TTL_MS = parseInt(process.env.PROOF_CHALLENGE_TTL_MS || '120000', 10);
+const PROOF_CHALLENGE_MAX_OUTSTANDING = parseInt(process.env.PROOF_CHALLENGE_MAX_OUTSTANDING || '5', 10);
+const PROOF_CHALLENGE_CLOCK_SKEW_MS = parseInt(process.env.PROOF_CHALLENGE_CLOCK_SKEW_MS || '30000', 10);
+const PROOF_CHALLENGE_REQUEST_MAX_AGE_MS = parseInt(process.env.PROOF_CHALLENGE_REQUEST_MAX_AGE_MS || '60000', 10);
+const PROOF_OFFLINE_CHALLENGE_TTL_MS = parseInt(process.env.PROOF_OFFLINE_CHALLENGE_TTL_MS || '43200000', 10);
+const PROOF_OFFLINE_CHALLENGE_MAX_OUTSTANDING = parseInt(process.env.PROOF_OFFLINE_CHALLENGE_MAX_OUTSTANDING || '20', 10);
+
+/**
+ * Reason a challenge could not be issued or redeemed.
+ */
+export type ChallengeErrorCode =
+  | 'TOO_MANY_CHALLENGES'
+  | 'CHALLENGE_REQUEST_REPLAYED'
+  | 'UNKNOWN_CHALLENGE'
+  | 'CHALLENGE_ACCOUNT_MISMATCH'
+  | 'CHALLENGE_USED'
+  | 'CHALLENGE_EXPIRED'
+  | 'CHALLENGE_OFFLINE_ONLY'
+  | 'PROOF_TIME_OUTSIDE_CHALLENGE';
+
+/**
+ * Challenge rejected (issue or redeem).
+ */
+export class ChallengeError extends Error {
+  constructor(
+    public code: ChallengeErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ChallengeError';
+  }
+}
+
+/**
+ * Whether /proof/submit requires a server-issued nonce.
+ *
+ * @returns True unless PROOF_CHALLENGE_REQUIRED=false
+ */
+export function isChallengeRequired(): boolean {
+  return process.env.PROOF_CHALLENGE_REQUIRED !== 'false';
+}
+
+/**
+ * Signed challenge request (POST /proof/challenge body).
+ */
+export interface ChallengeRequest {
+  account: string;
+  offline: boolean;
+  timestamp: string; // ISO 8601, signing time
+}
+
+/**
+ * Build canonical signable message for a challenge request.
+ *
+ * Message format (strict order, no whitespace):
+ * STEP-CHALLENGE-v1|account:{account}|offline:{true|false}|ts:{timestamp}
+ *
+ * The account is lowercased so checksummed and plain forms sign identically.
+ *
+ * @param request - Challenge request
+ * @returns Canonical message string
+ */
+export function buildChallengeRequestMessage(request: ChallengeRequest): string {
+  return [
+    'STEP-CHALLENGE-v1',
+    `account:${request.account.toLowerCase()}`,
+    `offline:${request.offline ? 'true' : 'false'}`,
+    `ts:${request.timestamp}`,
+  ].join('|');
+}
+
+/**
+ * Verify a challenge request was signed by request.account just now.
+ *
+ * Checks:
+ * - Timestamp is within PROOF_CHALLENGE_REQUEST_MAX_AGE_MS of now (both directions)
+ * - Signature recovers to request.account
+ *
+ * @param request - Challenge request
+ * @param signatureHex - 65-byte signature as hex string
+ * @param now - Current time in ms (injectable for testing)
+ * @returns Verification result; stale marks a timestamp outside the window
+ */
+export async function verifyChallengeRequest(
+  request: ChallengeRequest,
+  signatureHex: string,
+  now: number = Date.now()
+): Promise<{
+  ok: boolean;
+  stale?: boolean;
+  error?: string;
+}> {
+  const signedAt = new Date(request.timestamp).getTime();
+  if (isNaN(signedAt) || Math.abs(now - signedAt) > PROOF_CHALLENGE_REQUEST_MAX_AGE_MS) {
+    return {
+      ok: false,
+      stale: true,
+      error: `Request timestamp outside ${(PROOF_CHALLENGE_REQUEST_MAX_AGE_MS / 1000).toFixed(0)}s window`,
+    };
+  }
+
+  try {
+    const messageHash = hashMessageEip191(buildChallengeRequestMessage(request));
+    const recoveredAddress = await recoverAddressFromSig(messageHash, signatureHex);
+
+    if (recoveredAddress.toLowerCase() !== request.account.toLowerCase()) {
+      return {
+        ok: false,
+        error: `Address mismatch: expected ${request.account}, recovered ${recoveredAddress}`,
+      };
+    }
+
+    return { ok: true };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Issue a challenge for an account.
+ *
+ * Nonce: 32 random bytes as hex (valid Play Integrity nonce: URL-safe, ≥16 chars).
+ * Live and offline challenges have separate outstanding limits.
+ * Call only after verifyChallengeRequest accepted the signed request.
+ *
+ * @param account - Account address
+ * @param offline - Long-lived challenge for an offline batch
+ * @param requestedAt - Signed request timestamp (unique per account)
+ * @returns Issued challenge
+ * @throws ChallengeError TOO_MANY_CHALLENGES when the account has too many open challenges
+ * @throws ChallengeError CHALLENGE_REQUEST_REPLAYED when the signed request was already used
+ */
+export async function issueProofChallenge(
+  account: string,
+  offline: boolean,
+  requestedAt: Date
+): Promise<IProofChallenge> {
+  const now = new Date();
+  const normalized = account.toLowerCase();
+  const maxOutstanding = offline ? PROOF_OFFLINE_CHALLENGE_MAX_OUTSTANDING : PROOF_CHALLENGE_MAX_OUTSTANDING;
+
+  const outstanding = await ProofChallenge.countDocuments({
+    account: normalized,
+    offline: offline ? true : { $ne: true },
+    redeemedAt: null,
+    expiresAt: { $gt: now },
+  });
+
+  if (outstanding >= maxOutstanding) {
+    throw new ChallengeError(
+      'TOO_MANY_CHALLENGES',
+      `Account has ${outstanding} unused ${offline ? 'offline ' : ''}challenges (max ${maxOutstanding}); use or let them expire`
+    );
+  }
+
+  try {
+    return await ProofChallenge.create({
+      _id: randomBytes(32).toString('hex'),
+      account: normalized,
+      offline,
+      requestedAt,
+      issuedAt: now,
+      expiresAt: new Date(now.getTime() + (offline ? PROOF_OFFLINE_CHALLENGE_TTL_MS : PROOF_CHALLENGE_TTL_MS)),
+      redeemedAt: null,
+    });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ChallengeError('CHALLENGE_REQUEST_REPLAYED', 'Signed challenge request already used; sign a new one');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Explain why a challenge cannot be redeemed.
+ *
+ * Live challenges expire at expiresAt. Offline challenges only require the
+ * proof timestamp to be inside their window, so a proof made before expiry
+ * is still accepted when the device comes back online later.
+ *
+ * @returns ChallengeError, or null if the challenge is redeemable
+ */
+function diagnose(
+  challenge: IProofChallenge | null,
+  account: string,
+  proofTimestamp: string,
+  now: number,
+  offline: boolean
+): ChallengeError | null {
+  if (!challenge) {
+    return new ChallengeError('UNKNOWN_CHALLENGE', 'Nonce was not issued by /proof/challenge');
+  }
+  if (challenge.account !== account.toLowerCase()) {
+    return new ChallengeError('CHALLENGE_ACCOUNT_MISMATCH', 'Challenge was issued to a different account');
+  }
+  if (challenge.offline && !offline) {
+    return new ChallengeError('CHALLENGE_OFFLINE_ONLY', 'Offline challenges are only accepted in /proof/batch');
+  }
+  if (challenge.redeemedAt) {
+    return new ChallengeError('CHALLENGE_USED', 'Challenge already redeemed');
+  }
+  if (!challenge.offline && challenge.expiresAt.getTime() <= now) {
+    return new ChallengeError('CHALLENGE_EXPIRED', 'Challenge expired; request a new one');
+  }
+
+  const provedAt = new Date(proofTimestamp).getTime();
+  if (
+    isNaN(provedAt) ||
+    provedAt < challenge.issuedAt.getTime() - PROOF_CHALLENGE_CLOCK_SKEW_MS ||
+    provedAt > challenge.expiresAt.getTime() + PROOF_CHALLENGE_CLOCK_SKEW_MS
+  ) {
+    return new ChallengeError(
+      'PROOF_TIME_OUTSIDE_CHALLENGE',
+      'Proof timestamp is outside the challenge validity window'
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Check a challenge without redeeming it (fast rejection before heavy checks).
+ *
+ * @param nonce - payload.nonce
+ * @param account - payload.account
+ * @param proofTimestamp - payload.timestamp
+ * @param offline - Offline batch item (offline challenges accepted)
+ * @throws ChallengeError if the challenge cannot be redeemed
+ */
+export async function checkProofChallenge(
+  nonce: string,
+  account: string,
+  proofTimestamp: string,
+  offline = false
+): Promise<void> {
+  const challenge = await ProofChallenge.findById(nonce).lean<IProofChallenge>();
+  const error = diagnose(challenge, account, proofTimestamp, Date.now(), offline);
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Whether a nonce was issued by /proof/challenge (any account or state).
+ *
+ * Used by offline batches to tell server challenges from client nonces.
+ *
+ * @param nonce - payload.nonce
+ * @returns True if a challenge with this nonce exists
+ */
+export async function isIssuedChallenge(nonce: string): Promise<boolean> {
+  return (await ProofChallenge.exists({ _id: nonce })) !== null;
+}
+
+/**
+ * Redeem a challenge exactly once (call inside the proof transaction).
+ *
+ * The conditional update is the single point of truth: of two concurrent
+ * submissions with the same nonce only one matches redeemedAt: null.
+ *
+ * @param nonce - payload.nonce
+ * @param account - payload.account
+ * @param proofTimestamp - payload.timestamp
+ * @param session - Mongo session of the proof transaction
+ * @param offline - Offline batch item (offline challenges accepted)
+ * @throws ChallengeError if the challenge cannot be redeemed
+ */
+export async function redeemProofChallenge(
+  nonce: string,
+  account: string,
+  proofTimestamp: string,
+  session?: ClientSession,
+  offline = false
+): Promise<void> {
+  const now = new Date();
+
+  const challenge = await ProofChallenge.findById(nonce).session(session ?? null).lean<IProofChallenge>();
+  const error = diagnose(challenge, account, proofTimestamp, now.getTime(), offline);
+  if (error) {
+    throw error;
+  }
+
+  const result = await ProofChallenge.updateOne(
+    challenge!.offline
+      ? { _id: nonce, redeemedAt: null }
+      : { _id: nonce, redeemedAt: null, expiresAt: { $gt: now } },
+    { $set: { redeemedAt: now } },
+    { session }
+  );
+
+  if (result.modifiedCount !== 1) {
+    throw new ChallengeError('CHALLENGE_USED', 'Challenge already redeemed');
+  }
+}
+
+/**
+ * Get current configuration values.
+ *
+ * @returns Challenge configuration
+ */
+export function getChallengeConfig() {
+  return {
+    required: isChallengeRequired(),
+    ttlMs: PROOF_CHALLENGE_TTL_MS,
+    maxOutstanding: PROOF_CHALLENGE_MAX_OUTSTANDING,
+    clockSkewMs: PROOF_CHALLENGE_CLOCK_SKEW_MS,
+    requestMaxAgeMs: PROOF_CHALLENGE_REQUEST_MAX_AGE_MS,
+    offlineTtlMs: PROOF_OFFLINE_CHALLENGE_TTL_MS,
+    offlineMaxOutstanding: PROOF_OFFLINE_CHALLENGE_MAX_OUTSTANDING,
+  };
+}
@@ -0,0 +1,488 @@
+/**
+ * Confidence Policy Engine
+ *
+ * Varies confidence scoring by where and what is mined, on top of the
+ * global ConfidenceConfig (core/validator/confidence.ts).
+ *
+ * Why policies:
+ * - Deeper levels (smaller triangles) can demand higher confidence
+ * - Some countries can require attestation
+ * - Cell weight can be lowered where coverage is sparse
+ *
+ * Policy document (JSON file, CONFIDENCE_POLICY_FILE):
+ * {
+ *   "version": "2025-10-01.1",
+ *   "defaults": { "acceptanceThreshold": 70 },
+ *   "rules": [
+ *     { "id": "deep-levels", "match": { "minLevel": 15 }, "override": { "acceptanceThreshold": 80 } },
+ *     { "id": "face-10-sparse-cells", "match": { "face": 10, "pathPrefix": "2121" },
+ *       "override": { "weights": { "cellTower": 5 } } },
+ *     { "id": "hu-attestation", "match": { "region": { "type": "Polygon", "coordinates": [...] } },
+ *       "override": { "requireAttestation": true } }
+ *   ]
+ * }
+ *
+ * Resolution:
+ * - Base: getConfidenceConfig() (env), then document defaults
+ * - Every matching rule applies in document order (later rules win);
+ *   all conditions of a rule's match must hold
+ * - level/face/pathPrefix need the proof's triangle; region uses lat/lon
+ *   (GeoJSON [lon, lat] Polygon or MultiPolygon, holes supported, no
+ *   antimeridian crossing)
+ *
+ * Hot reload:
+ * - The file is re-read when its mtime changes (periodic check)
+ * - An invalid document is rejected and the previous version stays active
+ * - Every scoring decision records the version and rule IDs applied
+ *
+ * Configuration via environment:
+ * - CONFIDENCE_POLICY_FILE: Path to the policy document (default: none, env config only)
+ * - CONFIDENCE_POLICY_RELOAD_MS: Time between file checks (default: 30000)
+ */
+
+import { readFileSync, statSync } from 'fs';
+import type { TriangleId } from '../mesh/addressing.js';
+import { getConfidenceConfig, type ConfidenceConfig } from './confidence.js';
+
+// Configuration with defaults
+const CONFIDENCE_POLICY_FILE = process.env.CONFIDENCE_POLICY_FILE || '';
+const CONFIDENCE_POLICY_RELOAD_MS = parseInt(process.env.CONFIDENCE_POLICY_RELOAD_MS || '30000', 10);
+
+/**
+ * Version recorded when no policy document is loaded.
+ */
+export const ENV_POLICY_VERSION = 'env';
+
+/**
+ * Partial ConfidenceConfig applied by defaults or a rule.
+ */
+export interface ConfidencePolicyOverride {
+  weights?: Partial<ConfidenceConfig['weights']>;
+  acceptanceThreshold?: number;
+  requireAttestation?: boolean;
+}
+
+/**
+ * GeoJSON geometry accepted as a rule region ([lon, lat] positions).
+ */
+export type PolicyRegion =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+/**
+ * Conditions of a rule (all given conditions must hold).
+ */
+export interface ConfidencePolicyMatch {
+  minLevel?: number;
+  maxLevel?: number;
+  face?: number;          // 0-19
+  pathPrefix?: string;    // Path digits (0-3) from level 2 down; requires face
+  region?: PolicyRegion;
+}
+
+/**
+ * One policy rule.
+ */
+export interface ConfidencePolicyRule {
+  id: string;
+  description?: string;
+  match: ConfidencePolicyMatch;
+  override: ConfidencePolicyOverride;
+}
+
+/**
+ * Versioned policy document.
+ */
+export interface ConfidencePolicyDocument {
+  version: string;
+  defaults?: ConfidencePolicyOverride;
+  rules: ConfidencePolicyRule[];
+}
+
+/**
+ * What a policy is resolved for.
+ */
+export interface PolicyContext {
+  lat: number;
+  lon: number;
+  triangle?: TriangleId; // Unknown when the triangle could not be resolved (preflight)
+}
+
+/**
+ * Policy applied to one scoring decision.
+ */
+export interface AppliedPolicy {
+  version: string;
+  rules: string[];  // IDs of matching rules, in application order
+  config: ConfidenceConfig;
+}
+
+/**
+ * Policy document rejected on load.
+ */
+export class ConfidencePolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfidencePolicyError';
+  }
+}
+
+// Module-level state (singleton reloader, like core/chain/block-producer.ts)
+let activeDocument: ConfidencePolicyDocument | null = null;
+let loaded = false;
+let loadedAt: string | null = null;
+let loadedMtimeMs = 0;
+let lastLoadError: string | null = null;
+let timer: NodeJS.Timeout | null = null;
+
+const WEIGHT_KEYS: Array<keyof ConfidenceConfig['weights']> = [
+  'signature',
+  'gpsAccuracy',
+  'speedGate',
+  'moratorium',
+  'attestation',
+  'gnssRaw',
+  'cellTower',
+  'wifi',
+  'witness',
+  'trajectory',
+  'sensorReplay',
+];
+
+/**
+ * Validate an override (defaults or rule).
+ *
+ * @throws ConfidencePolicyError on invalid fields
+ */
+function validateOverride(override: any, where: string): void {
+  if (typeof override !== 'object' || override === null) {
+    throw new ConfidencePolicyError(`${where}: override must be an object`);
+  }
+  if (override.weights !== undefined) {
+    for (const [key, value] of Object.entries(override.weights)) {
+      if (!WEIGHT_KEYS.includes(key as keyof ConfidenceConfig['weights'])) {
+        throw new ConfidencePolicyError(`${where}: unknown weight "${key}"`);
+      }
+      if (typeof value !== 'number' || value < 0 || value > 100) {
+        throw new ConfidencePolicyError(`${where}: weight "${key}" must be a number 0-100`);
+      }
+    }
+  }
+  if (
+    override.acceptanceThreshold !== undefined &&
+    (typeof override.acceptanceThreshold !== 'number' || override.acceptanceThreshold < 0 || override.acceptanceThreshold > 110)
+  ) {
+    throw new ConfidencePolicyError(`${where}: acceptanceThreshold must be a number 0-110`);
+  }
+  if (override.requireAttestation !== undefined && typeof override.requireAttestation !== 'boolean') {
+    throw new ConfidencePolicyError(`${where}: requireAttestation must be a boolean`);
+  }
+}
+
+/**
+ * Validate a GeoJSON region.
+ *
+ * @throws ConfidencePolicyError on invalid geometry
+ */
+function validateRegion(region: any, where: string): void {
+  const isRing = (ring: any) =>
+    Array.isArray(ring) &&
+    ring.length >= 4 &&
+    ring.every((p: any) => Array.isArray(p) && p.length >= 2 && p.every((c: any) => typeof c === 'number'));
+  const isPolygon = (rings: any) => Array.isArray(rings) && rings.length > 0 && rings.every(isRing);
+
+  if (region?.type === 'Polygon' && isPolygon(region.coordinates)) {
+    return;
+  }
+  if (region?.type === 'MultiPolygon' && Array.isArray(region.coordinates) && region.coordinates.every(isPolygon)) {
+    return;
+  }
+  throw new ConfidencePolicyError(`${where}: region must be a GeoJSON Polygon or MultiPolygon`);
+}
+
+/**
+ * Validate a policy document.
+ *
+ * @param doc - Parsed JSON
+ * @returns The document, typed
+ * @throws ConfidencePolicyError describing the first problem found
+ */
+export function validatePolicyDocument(doc: any): ConfidencePolicyDocument {
+  if (typeof doc !== 'object' || doc === null) {
+    throw new ConfidencePolicyError('Policy document must be a JSON object');
+  }
+  if (typeof doc.version !== 'string' || doc.version.trim() === '' || doc.version === ENV_POLICY_VERSION) {
+    throw new ConfidencePolicyError(`version must be a non-empty string other than "${ENV_POLICY_VERSION}"`);
+  }
+  if (doc.defaults !== undefined) {
+    validateOverride(doc.defaults, 'defaults');
+  }
+  if (!Array.isArray(doc.rules)) {
+    throw new ConfidencePolicyError('rules must be an array');
+  }
+
+  const ids = new Set<string>();
+  for (const [i, rule] of doc.rules.entries()) {
+    const where = `rules[${i}]`;
+    if (typeof rule?.id !== 'string' || rule.id === '') {
+      throw new ConfidencePolicyError(`${where}: id is required`);
+    }
+    if (ids.has(rule.id)) {
+      throw new ConfidencePolicyError(`${where}: duplicate id "${rule.id}"`);
+    }
+    ids.add(rule.id);
+
+    const match = rule.match;
+    if (typeof match !== 'object' || match === null || Object.keys(match).length === 0) {
+      throw new ConfidencePolicyError(`${where}: match needs at least one condition`);
+    }
+    for (const key of ['minLevel', 'maxLevel'] as const) {
+      if (match[key] !== undefined && (!Number.isInteger(match[key]) || match[key] < 1 || match[key] > 21)) {
+        throw new ConfidencePolicyError(`${where}: ${key} must be an integer 1-21`);
+      }
+    }
+    if (match.face !== undefined && (!Number.isInteger(match.face) || match.face < 0 || match.face > 19)) {
+      throw new ConfidencePolicyError(`${where}: face must be an integer 0-19`);
+    }
+    if (match.pathPrefix !== undefined) {
+      if (typeof match.pathPrefix !== 'string' || !/^[0-3]{0,20}$/.test(match.pathPrefix)) {
+        throw new ConfidencePolicyError(`${where}: pathPrefix must be up to 20 digits 0-3`);
+      }
+      if (match.face === undefined) {
+        throw new ConfidencePolicyError(`${where}: pathPrefix requires face`);
+      }
+    }
+    if (match.region !== undefined) {
+      validateRegion(match.region, where);
+    }
+
+    validateOverride(rule.override, where);
+  }
+
+  return doc as ConfidencePolicyDocument;
+}
+
+/**
+ * Ray-casting point-in-ring test ([lon, lat] positions).
+ */
+function inRing(lon: number, lat: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Check whether a location lies in a region (outer ring minus holes).
+ *
+ * @param lat - Latitude
+ * @param lon - Longitude
+ * @param region - GeoJSON Polygon or MultiPolygon
+ * @returns True if inside
+ */
+export function isPointInRegion(lat: number, lon: number, region: PolicyRegion): boolean {
+  const polygons = region.type === 'Polygon' ? [region.coordinates] : region.coordinates;
+  return polygons.some(
+    ([outer, ...holes]) => inRing(lon, lat, outer) && !holes.some((hole) => inRing(lon, lat, hole))
+  );
+}
+
+/**
+ * Check whether a rule applies.
+ */
+function ruleMatches(match: ConfidencePolicyMatch, ctx: PolicyContext): boolean {
+  const { triangle } = ctx;
+
+  if (match.minLevel !== undefined || match.maxLevel !== undefined || match.face !== undefined) {
+    if (!triangle) {
+      return false;
+    }
+    if (match.minLevel !== undefined && triangle.level < match.minLevel) {
+      return false;
+    }
+    if (match.maxLevel !== undefined && triangle.level > match.maxLevel) {
+      return false;
+    }
+    if (match.face !== undefined && triangle.face !== match.face) {
+      return false;
+    }
+    if (match.pathPrefix !== undefined && !triangle.path.join('').startsWith(match.pathPrefix)) {
+      return false;
+    }
+  }
+
+  if (match.region !== undefined && !isPointInRegion(ctx.lat, ctx.lon, match.region)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply an override to a config (returns a new config).
+ */
+function applyOverride(config: ConfidenceConfig, override: ConfidencePolicyOverride): ConfidenceConfig {
+  return {
+    weights: { ...config.weights, ...override.weights },
+    acceptanceThreshold: override.acceptanceThreshold ?? config.acceptanceThreshold,
+    requireAttestation: override.requireAttestation ?? config.requireAttestation,
+  };
+}
+
+/**
+ * Read and validate a policy document file.
+ *
+ * @param file - Path to a JSON policy document
+ * @returns Validated document
+ * @throws ConfidencePolicyError (or a read/JSON error) if the file is unusable
+ */
+export function loadPolicyDocument(file: string): ConfidencePolicyDocument {
+  return validatePolicyDocument(JSON.parse(readFileSync(file, 'utf8')));
+}
+
+/**
+ * Load (or reload) the policy document from CONFIDENCE_POLICY_FILE.
+ *
+ * On failure the previously active document stays in force.
+ *
+ * @returns Load outcome with the active version
+ */
+export function reloadConfidencePolicy(): { ok: boolean; version: string; error?: string } {
+  loaded = true;
+
+  if (!CONFIDENCE_POLICY_FILE) {
+    return { ok: true, version: ENV_POLICY_VERSION };
+  }
+
+  try {
+    const mtimeMs = statSync(CONFIDENCE_POLICY_FILE).mtimeMs;
+    const document = loadPolicyDocument(CONFIDENCE_POLICY_FILE);
+
+    const previous = activeDocument?.version;
+    activeDocument = document;
+    loadedMtimeMs = mtimeMs;
+    loadedAt = new Date().toISOString();
+    lastLoadError = null;
+
+    if (previous !== document.version) {
+      console.log(`[${loadedAt}] [policy] Confidence policy ${document.version} active (${document.rules.length} rules)`);
+    }
+    return { ok: true, version: document.version };
+  } catch (error) {
+    lastLoadError = error instanceof Error ? error.message : String(error);
+    console.error(`[${new Date().toISOString()}] [policy] Policy load failed, keeping ${activeDocument?.version ?? ENV_POLICY_VERSION}:`, lastLoadError);
+    return { ok: false, version: activeDocument?.version ?? ENV_POLICY_VERSION, error: lastLoadError };
+  }
+}
+
+/**
+ * Resolve the confidence configuration for a proof.
+ *
+ * @param ctx - Proof location and (if known) triangle
+ * @returns Effective config, document version and matching rule IDs
+ */
+export function resolveConfidencePolicy(ctx: PolicyContext): AppliedPolicy {
+  if (!loaded) {
+    reloadConfidencePolicy();
+  }
+
+  return applyPolicyDocument(activeDocument, ctx);
+}
+
+/**
+ * Resolve the confidence configuration for a proof under a given document.
+ *
+ * Used directly by re-scoring (core/validator/evidence.ts) to evaluate a
+ * candidate policy without activating it.
+ *
+ * @param document - Policy document, or null for the env config only
+ * @param ctx - Proof location and (if known) triangle
+ * @returns Effective config, document version and matching rule IDs
+ */
+export function applyPolicyDocument(
+  document: ConfidencePolicyDocument | null,
+  ctx: PolicyContext
+): AppliedPolicy {
+  let config = getConfidenceConfig();
+  if (!document) {
+    return { version: ENV_POLICY_VERSION, rules: [], config };
+  }
+
+  if (document.defaults) {
+    config = applyOverride(config, document.defaults);
+  }
+
+  const rules: string[] = [];
+  for (const rule of document.rules) {
+    if (ruleMatches(rule.match, ctx)) {
+      config = applyOverride(config, rule.override);
+      rules.push(rule.id);
+    }
+  }
+
+  return { version: document.version, rules, config };
+}
+
+/**
+ * Start checking the policy file for changes.
+ *
+ * Safe to call more than once; only one timer runs. No-op without
+ * CONFIDENCE_POLICY_FILE.
+ */
+export function startConfidencePolicyReload(): void {
+  if (!CONFIDENCE_POLICY_FILE || timer) {
+    return;
+  }
+
+  if (!loaded) {
+    reloadConfidencePolicy();
+  }
+
+  console.log(`[${new Date().toISOString()}] [policy] Watching ${CONFIDENCE_POLICY_FILE} every ${CONFIDENCE_POLICY_RELOAD_MS}ms`);
+
+  timer = setInterval(() => {
+    try {
+      if (statSync(CONFIDENCE_POLICY_FILE).mtimeMs !== loadedMtimeMs) {
+        reloadConfidencePolicy();
+      }
+    } catch (error) {
+      lastLoadError = error instanceof Error ? error.message : String(error);
+    }
+  }, CONFIDENCE_POLICY_RELOAD_MS);
+}
+
+/**
+ * Stop checking the policy file (graceful shutdown).
+ */
+export function stopConfidencePolicyReload(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+/**
+ * Get policy source and reload status.
+ *
+ * @returns Active version and reloader state
+ */
+export function confidencePolicyStatus() {
+  if (!loaded) {
+    reloadConfidencePolicy();
+  }
+
+  return {
+    version: activeDocument?.version ?? ENV_POLICY_VERSION,
+    file: CONFIDENCE_POLICY_FILE || null,
+    rules: activeDocument?.rules.map((rule) => rule.id) ?? [],
+    watching: timer !== null,
+    reloadMs: CONFIDENCE_POLICY_RELOAD_MS,
+    loadedAt,
+    lastLoadError,
+  };
+}
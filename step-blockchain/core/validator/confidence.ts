@@ -12,6 +12,9 @@
  * - Cell tower match (10 points)
  * - Wi-Fi match (10 points, optional)
  * - Witness confirmation (+10 bonus, Phase 3)
+ * - Trajectory anomalies (up to -20 penalty, account history)
+ * - Sensor replay (-30 penalty, reused GNSS / cell snapshot)
+ * - Registered validator plugins (weight declared by each plugin, core/validator/plugins.ts)
  * 
  * Why confidence scoring:
  * - More nuanced fraud detection (not just pass/fail)
@@ -27,13 +30,15 @@
  * Implementation: Phase 2.5
  */
 
+import { listValidatorPlugins, type ValidatorPluginOutcome } from './plugins.js';
+
 /**
  * Individual component scores contributing to total confidence.
  * Each component represents an independent verification method.
  */
 export interface ConfidenceScores {
   signature: number;        // 0-20: EIP-191 signature verification
-  gpsAccuracy: number;      // 0-15: GPS accuracy ≤50m
+  gpsAccuracy: number;      // 0-15: GPS accuracy within the level limit, scaled by triangle overlap
   speedGate: number;        // 0-10: Realistic movement speed
   moratorium: number;       // 0-5: Time between proofs
   attestation: number;      // 0-25: Hardware attestation (Play Integrity/DeviceCheck)
@@ -41,6 +46,9 @@ export interface ConfidenceScores {
   cellTower: number;        // 0-10: Cell tower location match
   wifi: number;             // 0-10: Wi-Fi AP location match (optional)
   witness: number;          // 0-10: Peer attestation bonus (Phase 3)
+  trajectory: number;       // -20-0: Penalty for anomalous proof history (core/validator/trajectory.ts)
+  sensorReplay: number;     // -30-0: Penalty for reused sensor snapshots (core/validator/sensor-replay.ts)
+  plugins: Record<string, number>;  // Points per registered validator plugin (core/validator/plugins.ts)
   total: number;            // 0-110: Sum of all scores (witness can push >100)
 }
 
@@ -52,6 +60,7 @@ export interface ValidationResults {
   // Basic checks (Phase 2, already implemented)
   signatureValid: boolean;
   gpsAccuracyOk: boolean;
+  triangleOverlap?: number;  // 0-1, share of the accuracy disc inside the triangle (geometry.ts)
   speedGateOk: boolean;
   moratoriumOk: boolean;
   
@@ -61,6 +70,7 @@ export interface ValidationResults {
   // Optional checks (Phase 2.5+)
   gnssRawOk?: boolean;       // Android only
   gnssRawScore?: number;     // 0-15, detailed GNSS scoring
+  gnssSkyOk?: boolean;       // Satellites match the almanac sky (set only when checked)
   cellTowerOk?: boolean;
   cellTowerScore?: number;   // 0-10, detailed cell tower scoring
   wifiOk?: boolean;
@@ -68,6 +78,19 @@ export interface ValidationResults {
   
   // Phase 3
   witnessValid?: boolean;
+  witnessScore?: number;     // 0-10, scaled by number of valid witnesses
+  
+  // Account history
+  trajectoryRisk?: number;   // 0-100 trajectory risk score (penalty scales with it)
+  
+  // Near-duplicate snapshots of earlier proofs (set only for replayed kinds)
+  sensorReplay?: {
+    gnss?: { matches: number; otherAccounts: number };
+    cell?: { matches: number; otherAccounts: number };
+  };
+  
+  // Registered validator plugins, keyed by plugin name
+  plugins?: Record<string, ValidatorPluginOutcome>;
 }
 
 /**
@@ -86,6 +109,8 @@ export interface ConfidenceConfig {
     cellTower: number;       // Default: 10
     wifi: number;            // Default: 10
     witness: number;         // Default: 10
+    trajectory: number;      // Default: 20 (maximum penalty, at risk 100)
+    sensorReplay: number;    // Default: 30 (penalty for any replayed snapshot)
   };
   
   // Acceptance threshold (0-100)
@@ -108,6 +133,8 @@ export interface ConfidenceConfig {
  * - Speed Gate (10): Prevents teleportation
  * - Moratorium (5): Rate limiting
  * - Witness (10): Decentralized verification (Phase 3)
+ * - Sensor replay (30): Copied GNSS / cell data is deliberate fraud; the
+ *   penalty plus the voided GNSS / cell points sink a fully scored proof
  */
 export const DEFAULT_CONFIDENCE_CONFIG: ConfidenceConfig = {
   weights: {
@@ -120,6 +147,8 @@ export const DEFAULT_CONFIDENCE_CONFIG: ConfidenceConfig = {
     cellTower: 10,
     wifi: 10,
     witness: 10,
+    trajectory: 20,
+    sensorReplay: 30,
   },
   acceptanceThreshold: 70,
   requireAttestation: true,
@@ -130,6 +159,7 @@ export const DEFAULT_CONFIDENCE_CONFIG: ConfidenceConfig = {
  * 
  * Reads from process.env and falls back to DEFAULT_CONFIDENCE_CONFIG.
  * Allows runtime configuration without code changes.
+ * Per-level/region overrides are layered on top in confidence-policy.ts.
  * 
  * @returns ConfidenceConfig with env var overrides applied
  */
@@ -173,6 +203,9 @@ export function computeConfidence(
     cellTower: 0,
     wifi: 0,
     witness: 0,
+    trajectory: 0,
+    sensorReplay: 0,
+    plugins: {},
     total: 0,
   };
   
@@ -184,8 +217,11 @@ export function computeConfidence(
   
   // Score: GPS accuracy (15 points max)
   // Why: Filters low-quality location data, encourages outdoor mining
+  // Scaled by the share of the accuracy disc inside the triangle: a fix
+  // straddling an edge may as well be in the neighbour
   if (results.gpsAccuracyOk) {
-    scores.gpsAccuracy = conf.weights.gpsAccuracy;
+    const overlap = Math.min(Math.max(results.triangleOverlap ?? 1, 0), 1);
+    scores.gpsAccuracy = Math.round(conf.weights.gpsAccuracy * overlap);
   }
   
   // Score: Speed gate (10 points max)
@@ -218,6 +254,12 @@ export function computeConfidence(
     scores.gnssRaw = results.gnssRawOk ? conf.weights.gnssRaw : 0;
   }
   
+  // A snapshot naming satellites that are not in that sky at that place and
+  // time is a recording or a simulation, whatever its signal statistics
+  if (results.gnssSkyOk === false) {
+    scores.gnssRaw = 0;
+  }
+  
   // Score: Cell tower cross-check (0-10 points)
   // Why: Catches 40-60% of GPS spoofing by verifying cell location matches GPS
   if (results.cellTowerScore !== undefined) {
@@ -240,10 +282,44 @@ export function computeConfidence(
   
   // Score: Witness verification (+10 bonus, Phase 3)
   // Why: Decentralized peer attestation, adds trust layer
-  if (results.witnessValid) {
+  if (results.witnessScore !== undefined) {
+    // Partial bonus when fewer than the required witnesses co-signed
+    scores.witness = Math.min(results.witnessScore, conf.weights.witness);
+  } else if (results.witnessValid) {
     scores.witness = conf.weights.witness;
   }
   
+  // Penalty: Trajectory anomalies (0 to -20)
+  // Why: Catches spoofers that pass every per-proof check (near-limit
+  // cruising, city hopping at the moratorium, scripted timing/coordinates)
+  if (results.trajectoryRisk !== undefined && results.trajectoryRisk > 0) {
+    scores.trajectory = -Math.round((conf.weights.trajectory * Math.min(results.trajectoryRisk, 100)) / 100);
+  }
+  
+  // Penalty: Sensor replay (0 to -30)
+  // Why: A GNSS or cell capture copied from an earlier proof scores as
+  // genuine on its own; the copied component earns nothing and costs extra
+  if (results.sensorReplay?.gnss) {
+    scores.gnssRaw = 0;
+  }
+  if (results.sensorReplay?.cell) {
+    scores.cellTower = 0;
+  }
+  if (results.sensorReplay?.gnss || results.sensorReplay?.cell) {
+    scores.sensorReplay = -conf.weights.sensorReplay;
+  }
+  
+  // Score: Registered validator plugins (0 to maxWeight each, negative: penalty)
+  // Why: Signals added without fixed fields; a plugin that was skipped,
+  // timed out or failed earns nothing (results of unregistered plugins are ignored)
+  let pluginTotal = 0;
+  for (const plugin of listValidatorPlugins()) {
+    const outcome = results.plugins?.[plugin.name];
+    const score = outcome?.status === 'ok' ? Math.min(Math.max(outcome.score, 0), 1) : 0;
+    scores.plugins[plugin.name] = score > 0 ? Math.round(plugin.maxWeight * score) : 0;
+    pluginTotal += scores.plugins[plugin.name];
+  }
+  
   // Calculate total score
   scores.total = 
     scores.signature +
@@ -254,7 +330,10 @@ export function computeConfidence(
     scores.gnssRaw +
     scores.cellTower +
     scores.wifi +
-    scores.witness;
+    scores.witness +
+    scores.trajectory +
+    scores.sensorReplay +
+    pluginTotal;
   
   return scores;
 }
@@ -298,11 +377,13 @@ export function shouldAccept(
  * 
  * @param scores - Confidence scores from computeConfidence()
  * @param config - Optional configuration (uses defaults if not provided)
+ * @param results - Validation results the scores came from (explains replay matches)
  * @returns Array of failure reasons
  */
 export function getRejectionReasons(
   scores: ConfidenceScores,
-  config?: ConfidenceConfig
+  config?: ConfidenceConfig,
+  results?: ValidationResults
 ): string[] {
   // Use env var config if not explicitly provided
   const conf = config || getConfidenceConfig();
@@ -314,8 +395,13 @@ export function getRejectionReasons(
   }
   
   // Check GPS accuracy
-  if (scores.gpsAccuracy === 0) {
+  if (scores.gpsAccuracy === 0 && results?.gpsAccuracyOk !== true) {
     reasons.push('GPS accuracy too low - move outdoors for better signal');
+  } else if (results?.triangleOverlap !== undefined && scores.gpsAccuracy < conf.weights.gpsAccuracy) {
+    reasons.push(
+      `Only ${Math.round(results.triangleOverlap * 100)}% of the GPS accuracy circle is inside the triangle - ` +
+      'move away from the edge or wait for a better fix'
+    );
   }
   
   // Check speed gate
@@ -333,13 +419,24 @@ export function getRejectionReasons(
     reasons.push('Device attestation failed - emulator or rooted device detected');
   }
   
+  const replay = results?.sensorReplay;
+  const describeReplay = (sensor: string, match: { matches: number; otherAccounts: number }) =>
+    `${sensor} replayed - matches ${match.matches} earlier proof${match.matches === 1 ? '' : 's'}` +
+    (match.otherAccounts > 0 ? ` (${match.otherAccounts} other account${match.otherAccounts === 1 ? '' : 's'})` : ' of this account');
+  
   // Check GNSS raw data
-  if (scores.gnssRaw === 0 && conf.weights.gnssRaw > 0) {
+  if (replay?.gnss) {
+    reasons.push(describeReplay('GNSS satellite snapshot', replay.gnss));
+  } else if (results?.gnssSkyOk === false) {
+    reasons.push('GNSS sky geometry mismatch - reported satellites are not where they are at this place and time');
+  } else if (scores.gnssRaw === 0 && conf.weights.gnssRaw > 0) {
     reasons.push('GNSS data quality low or unavailable - satellite signal inconsistent');
   }
   
   // Check cell tower
-  if (scores.cellTower === 0 && conf.weights.cellTower > 0) {
+  if (replay?.cell) {
+    reasons.push(describeReplay('Cell signal snapshot', replay.cell));
+  } else if (scores.cellTower === 0 && conf.weights.cellTower > 0) {
     reasons.push('Cell tower location mismatch - GPS location inconsistent with network');
   }
   
@@ -348,6 +445,29 @@ export function getRejectionReasons(
     reasons.push('Wi-Fi fingerprint mismatch - location inconsistent with visible networks');
   }
   
+  // Check trajectory
+  if (scores.trajectory < 0) {
+    reasons.push(`Proof history looks automated - ${-scores.trajectory} point trajectory penalty`);
+  }
+  
+  // Check sensor replay (details above when results were passed)
+  if (scores.sensorReplay < 0) {
+    reasons.push(`Sensor data reused from earlier proofs - ${-scores.sensorReplay} point replay penalty`);
+  }
+  
+  // Check validator plugins (points missing, or penalty applied)
+  for (const plugin of listValidatorPlugins()) {
+    const points = scores.plugins?.[plugin.name] ?? 0;
+    const missing = plugin.maxWeight < 0 ? points < 0 : points < plugin.maxWeight;
+    if (missing) {
+      const outcome = results?.plugins?.[plugin.name];
+      reasons.push(
+        `${plugin.name}: ${outcome?.reason ?? (plugin.maxWeight < 0 ? 'penalty applied' : 'check failed')}` +
+        (plugin.maxWeight < 0 ? ` (${-points} point penalty)` : ` (${points}/${plugin.maxWeight} points)`)
+      );
+    }
+  }
+  
   // Add overall confidence message
   reasons.push(
     `Overall confidence: ${scores.total}/${conf.acceptanceThreshold} ` +
@@ -357,6 +477,63 @@ export function getRejectionReasons(
   return reasons;
 }
 
+/**
+ * Suggest what the user can do to raise each missing component score.
+ *
+ * Companion to getRejectionReasons() for /proof/preflight: reasons say
+ * what failed, hints say what to change before submitting. Components
+ * already at full weight get no hint.
+ *
+ * @param scores - Confidence scores from computeConfidence()
+ * @param config - Optional configuration (uses defaults if not provided)
+ * @returns Hints keyed by component, ordered by points recoverable
+ */
+export function getRemediationHints(
+  scores: ConfidenceScores,
+  config?: ConfidenceConfig
+): Array<{ component: string; missingPoints: number; hint: string }> {
+  // Use env var config if not explicitly provided
+  const conf = config || getConfidenceConfig();
+
+  const hintText: Record<keyof ConfidenceConfig['weights'], string> = {
+    signature: 'Sign the exact payload you submit with the wallet key of payload.account',
+    gpsAccuracy: 'Wait for a tighter GPS fix (outdoors, away from tall buildings) and move towards the triangle centre',
+    speedGate: 'Your last proof is too far away for the time elapsed; submit from a reachable distance',
+    moratorium: 'Wait at least 10 seconds after your previous proof',
+    attestation: 'Include a hardware attestation bound to the challenge nonce (genuine, unrooted device)',
+    gnssRaw: 'Include raw GNSS measurements with a clear sky view (Android 7+, 4+ satellites, 2+ constellations)',
+    cellTower: 'Include the serving cell tower (mobile data on, SIM inserted)',
+    wifi: 'Include a Wi-Fi scan (location services and Wi-Fi scanning enabled)',
+    witness: 'Ask nearby miners to co-sign your proof as witnesses',
+    trajectory: 'Recent proofs look scripted (identical timing, accuracy or coordinates); mine as you move naturally',
+    sensorReplay: 'Submit live GNSS and cell readings; snapshots from earlier proofs are detected',
+  };
+
+  const builtIn = (Object.keys(hintText) as Array<keyof ConfidenceConfig['weights']>)
+    .map((component) => ({
+      component,
+      // Penalties: points lost, not points missing from the weight
+      missingPoints: component === 'trajectory' || component === 'sensorReplay'
+        ? -scores[component]
+        : Math.max(conf.weights[component] - scores[component], 0),
+      hint: hintText[component],
+    }));
+  
+  // Plugins are reported as "plugin:<name>"
+  const plugins = listValidatorPlugins().map((plugin) => {
+    const points = scores.plugins?.[plugin.name] ?? 0;
+    return {
+      component: `plugin:${plugin.name}`,
+      missingPoints: plugin.maxWeight < 0 ? -points : Math.max(plugin.maxWeight - points, 0),
+      hint: plugin.hint ?? `Provide ${plugin.requiredFields.join(', ') || 'the data'} for the ${plugin.name} check`,
+    };
+  });
+  
+  return [...builtIn, ...plugins]
+    .filter((h) => h.missingPoints > 0)
+    .sort((a, b) => b.missingPoints - a.missingPoints);
+}
+
 /**
  * Get confidence level label for display in UI.
  * 
@@ -408,6 +585,9 @@ export function calculateConfidenceStats(scores: ConfidenceScores[]): {
     cellTower: number;
     wifi: number;
     witness: number;
+    trajectory: number;
+    sensorReplay: number;
+    plugins: Record<string, number>;
   };
   acceptanceRate: number;
 } {
@@ -425,6 +605,9 @@ export function calculateConfidenceStats(scores: ConfidenceScores[]): {
         cellTower: 0,
         wifi: 0,
         witness: 0,
+        trajectory: 0,
+        sensorReplay: 0,
+        plugins: {},
       },
       acceptanceRate: 0,
     };
@@ -442,6 +625,8 @@ export function calculateConfidenceStats(scores: ConfidenceScores[]): {
       cellTower: acc.cellTower + score.cellTower,
       wifi: acc.wifi + score.wifi,
       witness: acc.witness + score.witness,
+      trajectory: acc.trajectory + score.trajectory,
+      sensorReplay: acc.sensorReplay + score.sensorReplay,
     }),
     {
       total: 0,
@@ -454,9 +639,19 @@ export function calculateConfidenceStats(scores: ConfidenceScores[]): {
       cellTower: 0,
       wifi: 0,
       witness: 0,
+      trajectory: 0,
+      sensorReplay: 0,
     }
   );
   
+  // Plugins can come and go: average each over all scores (missing = 0)
+  const pluginSums: Record<string, number> = {};
+  for (const score of scores) {
+    for (const [name, points] of Object.entries(score.plugins ?? {})) {
+      pluginSums[name] = (pluginSums[name] ?? 0) + points;
+    }
+  }
+  
   const count = scores.length;
   const accepted = scores.filter(s => shouldAccept(s)).length;
   
@@ -473,6 +668,9 @@ export function calculateConfidenceStats(scores: ConfidenceScores[]): {
       cellTower: sum.cellTower / count,
       wifi: sum.wifi / count,
       witness: sum.witness / count,
+      trajectory: sum.trajectory / count,
+      sensorReplay: sum.sensorReplay / count,
+      plugins: Object.fromEntries(Object.entries(pluginSums).map(([name, total]) => [name, total / count])),
     },
     acceptanceRate: accepted / count,
   };
@@ -0,0 +1,307 @@
+/**
+ * Proof Evidence & Re-scoring
+ *
+ * Full validation evidence stored with every accepted proof
+ * (TriangleEvent.payload.evidence) and a re-scoring pass that replays it
+ * under another confidence policy.
+ *
+ * Why evidence:
+ * - Attestation verdicts, GNSS/cell/Wi-Fi/witness results and component
+ *   scores used to be logged and discarded; nothing was left to audit
+ * - Click events are sealed into blocks, so the evidence is covered by
+ *   eventsRoot like the rest of the payload
+ *
+ * Why re-scoring:
+ * - After tuning weights or policy rules, list the past rewards the new
+ *   policy would have denied before rolling it out
+ * - Replays the stored ValidationResults: deterministic, no network, no
+ *   attestation or cell lookups repeated
+ *
+ * Scope:
+ * - Only scoring is replayed; hard checks (signature, challenge, lifecycle,
+ *   speed gate, moratorium) are not re-run
+ * - Rejected proofs are not stored, so every flip is an accepted proof
+ *   (a paid reward) that would now be rejected
+ * - Events written before evidence existed are counted as missingEvidence
+ */
+
+import { TriangleEvent, type ITriangleEvent } from '../state/schemas.js';
+import type { TriangleResolution } from '../state/materialize.js';
+import { formatStepAmount, parseStepAmount } from '../state/amounts.js';
+import { decodeTriangleId } from '../mesh/addressing.js';
+import type { ProofPayload, ProofPayloadV2 } from './signature.js';
+import type { AttestationResult } from './attestation.js';
+import type { GnssResult } from './gnss.js';
+import type { SkyCheckResult } from './gnss-almanac.js';
+import type { CellTowerResult } from './cell-tower.js';
+import type { WifiResult } from './wifi.js';
+import type { WitnessResult } from './witness.js';
+import type { TrajectoryResult } from './trajectory.js';
+import type { SensorReplayResult } from './sensor-replay.js';
+import {
+  computeConfidence,
+  shouldAccept,
+  getRejectionReasons,
+  type ConfidenceConfig,
+  type ConfidenceScores,
+  type ValidationResults,
+} from './confidence.js';
+import {
+  applyPolicyDocument,
+  ENV_POLICY_VERSION,
+  type AppliedPolicy,
+  type ConfidencePolicyDocument,
+} from './confidence-policy.js';
+
+/**
+ * Evidence format version (bump when fields change meaning).
+ */
+export const PROOF_EVIDENCE_VERSION = 1;
+
+/**
+ * Everything the validator knew when it accepted a proof.
+ */
+export interface ProofEvidence {
+  version: number;
+  payload: ProofPayload | ProofPayloadV2;  // Signed payload as submitted
+  validation: ValidationResults;  // Input to computeConfidence (replayed by re-scoring)
+  scores: ConfidenceScores;
+  policy: { version: string; rules: string[]; config: ConfidenceConfig };
+  resolution?: TriangleResolution;
+  attestation?: AttestationResult;
+  gnss?: GnssResult;
+  gnssSky?: SkyCheckResult;
+  cell?: CellTowerResult;
+  wifi?: WifiResult;
+  witness?: WitnessResult;
+  trajectory?: TrajectoryResult;
+  sensorReplay?: SensorReplayResult;
+  evaluatedAt: string;  // ISO 8601 UTC
+}
+
+/**
+ * Assemble the evidence record for an accepted proof.
+ *
+ * Optional results are omitted when the check did not run.
+ *
+ * @returns Evidence for TriangleEvent.payload.evidence
+ */
+export function buildProofEvidence(input: {
+  payload: ProofPayload | ProofPayloadV2;
+  validation: ValidationResults;
+  scores: ConfidenceScores;
+  policy: AppliedPolicy;
+  resolution?: TriangleResolution;
+  attestation?: AttestationResult;
+  gnss?: GnssResult;
+  gnssSky?: SkyCheckResult;
+  cell?: CellTowerResult;
+  wifi?: WifiResult;
+  witness?: WitnessResult;
+  trajectory?: TrajectoryResult;
+  sensorReplay?: SensorReplayResult;
+}): ProofEvidence {
+  const evidence: ProofEvidence = {
+    version: PROOF_EVIDENCE_VERSION,
+    payload: input.payload,
+    validation: { ...input.validation },
+    scores: input.scores,
+    policy: { version: input.policy.version, rules: input.policy.rules, config: input.policy.config },
+    evaluatedAt: new Date().toISOString(),
+  };
+
+  // Mixed payloads store undefined as null; leave absent checks out entirely
+  const optional = [
+    'resolution',
+    'attestation',
+    'gnss',
+    'gnssSky',
+    'cell',
+    'wifi',
+    'witness',
+    'trajectory',
+    'sensorReplay',
+  ] as const;
+  const present: Partial<ProofEvidence> = Object.fromEntries(
+    optional.filter((key) => input[key] !== undefined).map((key) => [key, input[key]])
+  );
+  Object.assign(evidence, present);
+
+  return evidence;
+}
+
+/**
+ * Outcome of replaying one proof.
+ */
+export interface RescoredProof {
+  eventId: string;
+  triangleId: string;
+  account: string;
+  timestamp: string;
+  reward: string;
+  before: { confidence: number; acceptanceThreshold: number; policyVersion: string };
+  after: {
+    confidence: number;
+    acceptanceThreshold: number;
+    policyVersion: string;
+    rules: string[];
+    accepted: boolean;
+    reasons: string[];
+  };
+}
+
+/**
+ * Summary of a re-scoring run.
+ */
+export interface RescoreReport {
+  policyVersion: string;  // Candidate policy ("env" = env config only)
+  scanned: number;  // Click events read
+  rescored: number;  // Events with evidence
+  missingEvidence: number;
+  raised: number;  // Confidence went up
+  lowered: number;  // Confidence went down
+  flipped: RescoredProof[];  // Accepted then, rejected now
+  rewardAtRisk: string;  // Sum of flipped rewards (decimal STEP)
+  byAccount: Record<string, { count: number; reward: string }>;
+  startedAt: string;
+  finishedAt: string;
+}
+
+/**
+ * Re-scoring options.
+ */
+export interface RescoreOptions {
+  document: ConfidencePolicyDocument | null;  // Candidate policy (null: env config only)
+  since?: Date;
+  until?: Date;
+  account?: string;
+  limit?: number;
+}
+
+/**
+ * Replay one click event under a policy document.
+ *
+ * @param event - Lean click TriangleEvent
+ * @param document - Candidate policy document (null: env config only)
+ * @returns Rescored proof, or null if the event carries no evidence
+ */
+export function rescoreEvent(
+  event: ITriangleEvent,
+  document: ConfidencePolicyDocument | null
+): RescoredProof | null {
+  const evidence: ProofEvidence | undefined = event.payload?.evidence;
+  if (!evidence || !evidence.validation) {
+    return null;
+  }
+
+  const applied = applyPolicyDocument(document, {
+    lat: event.payload.lat!,
+    lon: event.payload.lon!,
+    triangle: decodeTriangleId(event.triangleId),
+  });
+  const scores = computeConfidence(evidence.validation, applied.config);
+  const accepted = shouldAccept(scores, applied.config);
+
+  return {
+    eventId: event._id,
+    triangleId: event.triangleId,
+    account: event.account ?? event.payload.minerAddress ?? '',
+    timestamp: new Date(event.timestamp).toISOString(),
+    reward: event.payload.reward ?? '0',
+    before: {
+      confidence: evidence.scores.total,
+      acceptanceThreshold: evidence.policy.config.acceptanceThreshold,
+      policyVersion: evidence.policy.version,
+    },
+    after: {
+      confidence: scores.total,
+      acceptanceThreshold: applied.config.acceptanceThreshold,
+      policyVersion: applied.version,
+      rules: applied.rules,
+      accepted,
+      reasons: accepted ? [] : getRejectionReasons(scores, applied.config, evidence.validation),
+    },
+  };
+}
+
+/**
+ * Re-score historical click events under a candidate policy.
+ *
+ * Read-only: balances, events and the active policy are untouched.
+ * Events are streamed oldest first.
+ *
+ * @param options - Candidate policy and event filter
+ * @returns Report listing the rewards that would flip
+ */
+export async function rescoreProofEvents(options: RescoreOptions): Promise<RescoreReport> {
+  const startedAt = new Date().toISOString();
+
+  const filter: Record<string, any> = { eventType: 'click' };
+  if (options.account) {
+    filter.account = options.account.toLowerCase();
+  }
+  if (options.since || options.until) {
+    filter.timestamp = {
+      ...(options.since && { $gte: options.since }),
+      ...(options.until && { $lt: options.until }),
+    };
+  }
+
+  let query = TriangleEvent.find(filter).sort({ timestamp: 1, _id: 1 });
+  if (options.limit) {
+    query = query.limit(options.limit);
+  }
+
+  const report: RescoreReport = {
+    policyVersion: options.document?.version ?? ENV_POLICY_VERSION,
+    scanned: 0,
+    rescored: 0,
+    missingEvidence: 0,
+    raised: 0,
+    lowered: 0,
+    flipped: [],
+    rewardAtRisk: '0',
+    byAccount: {},
+    startedAt,
+    finishedAt: startedAt,
+  };
+
+  let atRisk = 0n;
+  const accountUnits = new Map<string, { count: number; units: bigint }>();
+
+  for await (const event of query.lean<ITriangleEvent>().cursor()) {
+    report.scanned++;
+
+    const result = rescoreEvent(event, options.document);
+    if (!result) {
+      report.missingEvidence++;
+      continue;
+    }
+
+    report.rescored++;
+    if (result.after.confidence > result.before.confidence) {
+      report.raised++;
+    } else if (result.after.confidence < result.before.confidence) {
+      report.lowered++;
+    }
+
+    if (!result.after.accepted) {
+      report.flipped.push(result);
+
+      const units = parseStepAmount(result.reward);
+      atRisk += units;
+      const entry = accountUnits.get(result.account) ?? { count: 0, units: 0n };
+      entry.count++;
+      entry.units += units;
+      accountUnits.set(result.account, entry);
+    }
+  }
+
+  report.rewardAtRisk = formatStepAmount(atRisk);
+  for (const [account, { count, units }] of accountUnits) {
+    report.byAccount[account] = { count, reward: formatStepAmount(units) };
+  }
+  report.finishedAt = new Date().toISOString();
+
+  return report;
+}
@@ -8,8 +8,19 @@
  * - Geodesic error at this scale is < 0.1% (negligible vs 50m GPS accuracy threshold)
  * - Much faster than spherical geometry for point-in-polygon checks
  * 
+ * Why overlap scoring:
+ * - A point-in-triangle test ignores the accuracy radius: a fix 3m inside an
+ *   edge with 40m accuracy counted the same as one dead centre
+ * - accuracyDiscOverlap() scores the fraction of the accuracy disc inside
+ *   the spherical triangle (gnomonic projection keeps the edges straight)
+ * - At deep levels a 50m disc is larger than the whole triangle, so the
+ *   accuracy limit shrinks with the triangle (maxAccuracyForLevel)
+ * - At levels 20-21 even a floor-sized disc is wider than the triangle, so
+ *   the overlap is scored against the best one a fix there can reach
+ *   (triangleAccuracyOverlap)
+ * 
  * Anti-Spoof Strategy (Phase 2 - MVP):
- * - GPS accuracy gate: Reject proofs with accuracy > 50m
+ * - GPS accuracy gate: Reject proofs with accuracy > 50m (less at deep levels)
  * - Speed gate: Reject if user moved too fast between proofs (> 15 m/s ~= 54 km/h)
  * - Moratorium: Minimum time between proofs from same account (10 seconds)
  * 
@@ -20,18 +31,32 @@
  * 
  * Configuration via environment:
  * - GPS_MAX_ACCURACY_M: Maximum allowed GPS accuracy in meters (default: 50)
+ * - GPS_ACCURACY_SIDE_RATIO: Level limit as a fraction of the triangle side (default: 0.25)
+ * - GPS_ACCURACY_FLOOR_M: Lowest level limit in meters (default: 5)
  * - PROOF_SPEED_LIMIT_MPS: Maximum speed between proofs in m/s (default: 15)
  * - PROOF_MORATORIUM_MS: Minimum time between proofs in milliseconds (default: 10000)
  */
 
 import { booleanPointInPolygon, point, polygon } from '@turf/turf';
 import type { Position, Polygon as GeoJsonPolygon } from 'geojson';
+import { estimateSideLength } from '../mesh/addressing.js';
+import { sphericalToCartesian, cartesianToSpherical, dot, type Vector3 } from '../mesh/icosahedron.js';
 
 // Configuration with defaults
 // Why env-based: Allows quick policy adjustments without code changes
 const GPS_MAX_ACCURACY_M = parseInt(process.env.GPS_MAX_ACCURACY_M || '50', 10);
 const PROOF_SPEED_LIMIT_MPS = parseFloat(process.env.PROOF_SPEED_LIMIT_MPS || '15');
 const PROOF_MORATORIUM_MS = parseInt(process.env.PROOF_MORATORIUM_MS || '10000', 10);
+const GPS_ACCURACY_SIDE_RATIO = parseFloat(process.env.GPS_ACCURACY_SIDE_RATIO || '0.25');
+const GPS_ACCURACY_FLOOR_M = parseFloat(process.env.GPS_ACCURACY_FLOOR_M || '5');
+
+const EARTH_RADIUS_M = 6371e3;
+
+/**
+ * Vertices of the polygon approximating the accuracy disc.
+ * Area error vs the true circle: ~0.16%.
+ */
+const DISC_SEGMENTS = 64;
 
 /**
  * Check if GPS coordinates are within triangle boundary.
@@ -45,6 +70,9 @@ const PROOF_MORATORIUM_MS = parseInt(process.env.PROOF_MORATORIUM_MS || '10000',
  * 
  * GeoJSON coordinate order: [lon, lat] (not [lat, lon]!)
  * 
+ * Binary: proofs are scored with accuracyDiscOverlap(), which accounts
+ * for the accuracy radius.
+ * 
  * @param lat - WGS84 latitude (-90 to 90)
  * @param lon - WGS84 longitude (-180 to 180)
  * @param trianglePolygon - GeoJSON Polygon with [lon, lat] coordinates
@@ -63,6 +91,197 @@ export function isPointInTriangle(
   return booleanPointInPolygon(pt, trianglePolygon);
 }
 
+/**
+ * Fraction of the GPS accuracy disc that lies inside a triangle.
+ * 
+ * Method:
+ * 1. Gnomonic projection centred on the fix: great-circle edges of the
+ *    spherical triangle map to straight lines, so the triangle stays a triangle
+ * 2. Approximate the disc (radius = accuracy) as a 64-gon on the tangent plane
+ * 3. Clip the disc against the three edges (Sutherland-Hodgman) and compare areas
+ * 
+ * Reading the result:
+ * - 1: the whole disc is inside (fix well inside the triangle)
+ * - ~0.5: fix on an edge, equally likely to be in the neighbour
+ * - Small: fix near a vertex, or the disc is much larger than the triangle
+ * 
+ * @param lat - WGS84 latitude (-90 to 90)
+ * @param lon - WGS84 longitude (-180 to 180)
+ * @param accuracyMeters - GPS accuracy radius in meters
+ * @param trianglePolygon - GeoJSON Polygon with [lon, lat] coordinates
+ * @returns Overlap fraction (0-1)
+ */
+export function accuracyDiscOverlap(
+  lat: number,
+  lon: number,
+  accuracyMeters: number,
+  trianglePolygon: GeoJsonPolygon
+): number {
+  // Tangent plane at the fix: local east and north unit vectors
+  const latRad = (lat * Math.PI) / 180;
+  const lonRad = (lon * Math.PI) / 180;
+  const centre = sphericalToCartesian(lat, lon);
+  const east: Vector3 = { x: -Math.sin(lonRad), y: Math.cos(lonRad), z: 0 };
+  const north: Vector3 = {
+    x: -Math.sin(latRad) * Math.cos(lonRad),
+    y: -Math.sin(latRad) * Math.sin(lonRad),
+    z: Math.cos(latRad),
+  };
+  
+  let corners: Array<[number, number]> = [];
+  for (const [vLon, vLat] of trianglePolygon.coordinates[0].slice(0, 3)) {
+    const v = sphericalToCartesian(vLat, vLon);
+    const d = dot(v, centre);
+    if (d <= 0) {
+      // Vertex on the far hemisphere: cannot be projected (not a mesh triangle near the fix)
+      return isPointInTriangle(lat, lon, trianglePolygon) ? 1 : 0;
+    }
+    corners.push([(EARTH_RADIUS_M * dot(v, east)) / d, (EARTH_RADIUS_M * dot(v, north)) / d]);
+  }
+  
+  // Clipping keeps the left side of each edge: orient counter-clockwise
+  if (polygonArea(corners) < 0) {
+    corners = corners.reverse();
+  }
+  
+  // Degenerate disc: plain containment of the fix (origin of the plane)
+  if (accuracyMeters <= 0) {
+    return corners.every((a, i) => edgeSide(a, corners[(i + 1) % 3], [0, 0]) >= 0) ? 1 : 0;
+  }
+  
+  // Geodesic radius on the sphere is slightly larger on the gnomonic plane
+  const radius = EARTH_RADIUS_M * Math.tan(accuracyMeters / EARTH_RADIUS_M);
+  const disc: Array<[number, number]> = [];
+  for (let i = 0; i < DISC_SEGMENTS; i++) {
+    const angle = (2 * Math.PI * i) / DISC_SEGMENTS;
+    disc.push([radius * Math.cos(angle), radius * Math.sin(angle)]);
+  }
+  
+  let clipped = disc;
+  for (let i = 0; i < 3 && clipped.length > 0; i++) {
+    clipped = clipByEdge(clipped, corners[i], corners[(i + 1) % 3]);
+  }
+  
+  const overlap = clipped.length < 3 ? 0 : polygonArea(clipped) / polygonArea(disc);
+  return Math.min(Math.max(overlap, 0), 1);
+}
+
+/**
+ * Accuracy disc overlap relative to the best the triangle allows.
+ * 
+ * At levels 20-21 the inradius (~0.29 × side) is smaller than
+ * GPS_ACCURACY_FLOOR_M, so even a perfect fix at the centre has part of its
+ * disc outside (5m at a level-21 centre: ~0.28). The raw overlap is divided
+ * by the overlap of a disc of min(accuracy, floor) at the triangle centre,
+ * which is 1 wherever a centred disc fits (levels 1-19).
+ * 
+ * @param lat - WGS84 latitude (-90 to 90)
+ * @param lon - WGS84 longitude (-180 to 180)
+ * @param accuracyMeters - GPS accuracy radius in meters
+ * @param trianglePolygon - GeoJSON Polygon with [lon, lat] coordinates
+ * @returns Scaled overlap (0-1): 1 for the best fix the triangle allows
+ */
+export function triangleAccuracyOverlap(
+  lat: number,
+  lon: number,
+  accuracyMeters: number,
+  trianglePolygon: GeoJsonPolygon
+): number {
+  const overlap = accuracyDiscOverlap(lat, lon, accuracyMeters, trianglePolygon);
+  
+  const [a, b, c] = trianglePolygon.coordinates[0].slice(0, 3).map(([vLon, vLat]) => sphericalToCartesian(vLat, vLon));
+  const sum: Vector3 = { x: a.x + b.x + c.x, y: a.y + b.y + c.y, z: a.z + b.z + c.z };
+  const norm = Math.sqrt(dot(sum, sum));
+  if (norm === 0) {
+    return overlap;
+  }
+  
+  const centre = cartesianToSpherical({ x: sum.x / norm, y: sum.y / norm, z: sum.z / norm });
+  const best = accuracyDiscOverlap(
+    centre.lat,
+    centre.lon,
+    Math.min(accuracyMeters, GPS_ACCURACY_FLOOR_M),
+    trianglePolygon
+  );
+  
+  return best > 0 ? Math.min(overlap / best, 1) : overlap;
+}
+
+/**
+ * Signed area of a planar polygon (positive when counter-clockwise).
+ */
+function polygonArea(points: Array<[number, number]>): number {
+  let twice = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    twice += x1 * y2 - x2 * y1;
+  }
+  return twice / 2;
+}
+
+/**
+ * Which side of the line a→b a point is on (positive: left).
+ */
+function edgeSide(a: [number, number], b: [number, number], p: [number, number]): number {
+  return (b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0]);
+}
+
+/**
+ * Keep the part of a polygon left of the line a→b (one Sutherland-Hodgman pass).
+ */
+function clipByEdge(
+  points: Array<[number, number]>,
+  a: [number, number],
+  b: [number, number]
+): Array<[number, number]> {
+  const result: Array<[number, number]> = [];
+  
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    const q = points[(i + 1) % points.length];
+    const sp = edgeSide(a, b, p);
+    const sq = edgeSide(a, b, q);
+    
+    if (sp >= 0) {
+      result.push(p);
+    }
+    if ((sp >= 0) !== (sq >= 0)) {
+      // Edge p→q crosses the line: add the intersection
+      const t = sp / (sp - sq);
+      result.push([p[0] + t * (q[0] - p[0]), p[1] + t * (q[1] - p[1])]);
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Maximum GPS accuracy accepted for proofs at a mesh level.
+ * 
+ * Scales with the triangle side (estimateSideLength), capped at
+ * GPS_MAX_ACCURACY_M and floored at GPS_ACCURACY_FLOOR_M (what a good
+ * phone fix can reach).
+ * 
+ * Defaults (ratio 0.25, floor 5m):
+ * - Level 16 and above: 50m
+ * - Level 17 (~122m side): 30.5m
+ * - Level 18: 15.3m
+ * - Level 19: 7.6m
+ * - Level 20-21: 5m
+ * 
+ * Why 0.25: a centred disc still fits inside the triangle (inradius ~0.29 × side).
+ * The 5m floor does not fit at levels 20-21 (inradius ~4.4m and ~2.2m);
+ * triangleAccuracyOverlap scores those against the best centred disc.
+ * 
+ * @param level - Subdivision level (1-21)
+ * @returns Maximum accuracy radius in meters
+ */
+export function maxAccuracyForLevel(level: number): number {
+  const scaled = Math.max(estimateSideLength(level) * GPS_ACCURACY_SIDE_RATIO, GPS_ACCURACY_FLOOR_M);
+  return Math.min(GPS_MAX_ACCURACY_M, Math.round(scaled * 10) / 10);
+}
+
 /**
  * Calculate distance between two GPS coordinates using Haversine formula.
  * 
@@ -329,5 +548,7 @@ export function getConfig() {
     GPS_MAX_ACCURACY_M,
     PROOF_SPEED_LIMIT_MPS,
     PROOF_MORATORIUM_MS,
+    GPS_ACCURACY_SIDE_RATIO,
+    GPS_ACCURACY_FLOOR_M,
   };
 }
@@ -0,0 +1,539 @@
+/**
+ * GNSS Sky Geometry Check (Almanac)
+ *
+ * Predicts where GPS and Galileo satellites are in the sky at the claimed
+ * position and time, and compares that with the svid / azimuth / elevation
+ * the phone reported.
+ *
+ * Why:
+ * - analyzeSatelliteElevation and detectSimulatorSignatures only look at
+ *   statistics of the reported satellites; a recording from a real receiver
+ *   passes them anywhere, at any time
+ * - Satellites move ~30° across the sky per hour and the visible set changes
+ *   with location, so a snapshot replayed at another place or time names
+ *   satellites that are below the horizon or in the wrong direction
+ * - Almanacs are small, valid for weeks and read from disk: no network
+ *   access in the proof pipeline
+ *
+ * Almanac files (GNSS_ALMANAC_DIR, every file is loaded):
+ * - GPS: YUMA text (*.alm, *.yuma, *.txt), e.g. from NAVCEN or CelesTrak
+ * - Galileo: GSC almanac XML (*.xml)
+ * - Keep several days of files; the entry closest to the proof time is used
+ *
+ * Check:
+ * - Reported satellites without a usable almanac entry (other constellation,
+ *   unknown svid, almanac older than GNSS_ALMANAC_MAX_AGE_DAYS, az/el not
+ *   reported) are skipped
+ * - Predicted below the horizon, or more than GNSS_SKY_TOLERANCE_DEG away
+ *   from the reported direction, is a mismatch
+ * - Fails when fewer than GNSS_SKY_MIN_CONSISTENT of the compared
+ *   satellites match; needs GNSS_SKY_MIN_SATELLITES compared satellites to
+ *   decide at all
+ * - A failed check voids the GNSS score (computeConfidence)
+ *
+ * Configuration via environment:
+ * - GNSS_ALMANAC_DIR: Directory with almanac files (check disabled when unset)
+ * - GNSS_ALMANAC_MAX_AGE_DAYS: Max |proof time - almanac time| (default: 14)
+ * - GNSS_ALMANAC_RELOAD_MS: How long loaded almanacs are cached (default: 3600000)
+ * - GNSS_SKY_TOLERANCE_DEG: Max angle between reported and predicted direction (default: 10)
+ * - GNSS_SKY_MIN_SATELLITES: Compared satellites needed to decide (default: 4)
+ * - GNSS_SKY_MIN_CONSISTENT: Fraction of compared satellites that must match (default: 0.75)
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import type { GnssSatellite } from './signature.js';
+
+const GNSS_ALMANAC_DIR = process.env.GNSS_ALMANAC_DIR || '';
+const GNSS_ALMANAC_RELOAD_MS = parseInt(process.env.GNSS_ALMANAC_RELOAD_MS || '3600000', 10);
+
+/**
+ * Sky geometry check configuration
+ */
+export interface SkyCheckConfig {
+  maxAlmanacAgeDays: number;   // Max |proof time - almanac time| (default: 14)
+  toleranceDeg: number;        // Max angular separation (default: 10°)
+  horizonMarginDeg: number;    // Predicted elevation still accepted below 0° (default: 5°)
+  minSatellites: number;       // Compared satellites needed (default: 4)
+  minConsistent: number;       // Fraction that must match (default: 0.75)
+}
+
+/**
+ * Default sky geometry check configuration
+ *
+ * Almanac positions are good to a few km for weeks (well under 0.1° in the
+ * sky); the tolerance covers clock skew and phones reporting rounded angles.
+ */
+export const DEFAULT_SKY_CHECK_CONFIG: SkyCheckConfig = {
+  maxAlmanacAgeDays: parseFloat(process.env.GNSS_ALMANAC_MAX_AGE_DAYS || '14'),
+  toleranceDeg: parseFloat(process.env.GNSS_SKY_TOLERANCE_DEG || '10'),
+  horizonMarginDeg: 5,
+  minSatellites: parseInt(process.env.GNSS_SKY_MIN_SATELLITES || '4', 10),
+  minConsistent: parseFloat(process.env.GNSS_SKY_MIN_CONSISTENT || '0.75'),
+};
+
+/**
+ * Constellations with almanac support.
+ */
+export type AlmanacConstellation = 'GPS' | 'GALILEO';
+
+/**
+ * Keplerian almanac of one satellite (angles in radians).
+ */
+export interface AlmanacEntry {
+  constellation: AlmanacConstellation;
+  svid: number;
+  healthy: boolean;
+  weekMod: number;  // Week number as broadcast (truncated)
+  weekModulus: number;  // 1024 (YUMA) or 4 (Galileo wna)
+  referenceTime?: number;  // ms, resolves the truncated week (file issue date)
+  toa: number;  // Time of applicability (seconds of week)
+  e: number;
+  sqrtA: number;  // m^1/2
+  i0: number;
+  omega0: number;  // Right ascension at week
+  omegaDot: number;  // rad/s
+  w: number;  // Argument of perigee
+  m0: number;  // Mean anomaly at toa
+}
+
+/**
+ * Predicted direction of a satellite.
+ */
+export interface SkyPosition {
+  az: number;  // Degrees 0-360 (clockwise from north)
+  el: number;  // Degrees -90-90
+}
+
+/**
+ * Reported satellite that disagrees with the almanac.
+ */
+export interface SkyMismatch {
+  constellation: AlmanacConstellation;
+  svid: number;
+  reason: 'BELOW_HORIZON' | 'POSITION_MISMATCH';
+  reported: SkyPosition;
+  predicted: SkyPosition;
+  separationDeg: number;
+}
+
+/**
+ * Sky geometry check result.
+ */
+export interface SkyCheckResult {
+  checked: boolean;  // Enough satellites compared to decide
+  passed: boolean;  // True when not checked
+  compared: number;  // Reported satellites with a usable almanac entry
+  consistent: number;
+  skipped: number;  // No almanac entry, too old, or az/el missing
+  mismatches: SkyMismatch[];
+  issues: string[];
+  verifiedAt: string;
+}
+
+/**
+ * Loaded almanac files.
+ */
+interface AlmanacCache {
+  entries: AlmanacEntry[];
+  files: string[];
+  errors: string[];
+  loadedAt: number;
+}
+
+let cache: AlmanacCache | null = null;
+
+// Physical constants (IS-GPS-200, Galileo OS SIS ICD)
+const GPS_MU = 3.986005e14;  // m³/s²
+const GALILEO_MU = 3.986004418e14;
+const EARTH_ROTATION = 7.2921151467e-5;  // rad/s
+const GALILEO_SQRT_A_REF = 5440.588203494;  // m^1/2
+const GALILEO_I_REF = (56 * Math.PI) / 180;
+const SECONDS_PER_WEEK = 604800;
+const GPS_EPOCH_MS = Date.UTC(1980, 0, 6);
+const GPS_LEAP_SECONDS = 18;  // GPS - UTC since 2017-01-01
+const WGS84_A = 6378137;
+const WGS84_E2 = 6.69437999014e-3;
+
+/**
+ * GPS time in seconds since the GPS epoch.
+ */
+function gpsSeconds(ms: number): number {
+  return (ms - GPS_EPOCH_MS) / 1000 + GPS_LEAP_SECONDS;
+}
+
+/**
+ * Full GPS week of an almanac entry, closest to the given time.
+ */
+function resolveWeek(entry: AlmanacEntry, aroundMs: number): number {
+  const aroundWeek = Math.floor(gpsSeconds(entry.referenceTime ?? aroundMs) / SECONDS_PER_WEEK);
+  const cycles = Math.round((aroundWeek - entry.weekMod) / entry.weekModulus);
+  return entry.weekMod + cycles * entry.weekModulus;
+}
+
+/**
+ * Seconds from the entry's time of applicability to the given time.
+ */
+function secondsFromToa(entry: AlmanacEntry, ms: number): number {
+  return gpsSeconds(ms) - (resolveWeek(entry, ms) * SECONDS_PER_WEEK + entry.toa);
+}
+
+/**
+ * Parse a YUMA almanac (GPS).
+ *
+ * @param text - File contents
+ * @returns Almanac entries
+ */
+export function parseYumaAlmanac(text: string): AlmanacEntry[] {
+  const entries: AlmanacEntry[] = [];
+
+  for (const block of text.split(/\*{4,}[^\n]*\n/)) {
+    const fields = new Map<string, number>();
+    for (const line of block.split('\n')) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        fields.set(line.slice(0, colon).trim().toLowerCase(), parseFloat(line.slice(colon + 1)));
+      }
+    }
+
+    const field = (prefix: string) => {
+      for (const [key, value] of fields) {
+        if (key.startsWith(prefix)) {
+          return value;
+        }
+      }
+      return NaN;
+    };
+
+    const entry: AlmanacEntry = {
+      constellation: 'GPS',
+      svid: field('id'),
+      healthy: field('health') === 0,
+      weekMod: field('week'),
+      weekModulus: 1024,
+      toa: field('time of applicability'),
+      e: field('eccentricity'),
+      sqrtA: field('sqrt(a)'),
+      i0: field('orbital inclination'),
+      omega0: field('right ascen at week'),
+      omegaDot: field('rate of right ascen'),
+      w: field('argument of perigee'),
+      m0: field('mean anom'),
+    };
+
+    if (Object.values(entry).every((value) => typeof value !== 'number' || Number.isFinite(value))) {
+      entries.push(entry);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Parse a Galileo GSC almanac (XML).
+ *
+ * Angles are in semicircles, sqrt(A) and inclination are offsets from the
+ * nominal orbit, and wna is the week number modulo 4.
+ *
+ * @param text - File contents
+ * @returns Almanac entries
+ */
+export function parseGalileoAlmanac(text: string): AlmanacEntry[] {
+  const tag = (xml: string, name: string): number => {
+    const match = new RegExp(`<${name}>\\s*([^<]+?)\\s*</${name}>`).exec(xml);
+    return match ? parseFloat(match[1]) : NaN;
+  };
+
+  const issueDate = /<issueDate>\s*([^<]+?)\s*<\/issueDate>/.exec(text);
+  const referenceTime = issueDate ? Date.parse(issueDate[1]) : NaN;
+
+  // Reference t0a / wna may be given once for the whole file
+  const header = text.split('<svAlmanac>')[0];
+  const entries: AlmanacEntry[] = [];
+
+  for (const [, block] of text.matchAll(/<svAlmanac>([\s\S]*?)<\/svAlmanac>/g)) {
+    const status = tag(block, 'statusE1B');
+    const toa = tag(block, 't0a');
+    const wna = tag(block, 'wna');
+
+    const entry: AlmanacEntry = {
+      constellation: 'GALILEO',
+      svid: tag(block, 'SVID'),
+      healthy: Number.isNaN(status) || status === 0,
+      weekMod: Number.isNaN(wna) ? tag(header, 'wna') : wna,
+      weekModulus: 4,
+      toa: Number.isNaN(toa) ? tag(header, 't0a') : toa,
+      e: tag(block, 'ecc'),
+      sqrtA: GALILEO_SQRT_A_REF + tag(block, 'aSqRoot'),
+      i0: GALILEO_I_REF + tag(block, 'deltai') * Math.PI,
+      omega0: tag(block, 'omega0') * Math.PI,
+      omegaDot: tag(block, 'omegaDot') * Math.PI,
+      w: tag(block, 'w') * Math.PI,
+      m0: tag(block, 'm0') * Math.PI,
+    };
+
+    if (Object.values(entry).every((value) => typeof value !== 'number' || Number.isFinite(value))) {
+      entries.push(Number.isFinite(referenceTime) ? { ...entry, referenceTime } : entry);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Satellite position in ECEF (m) from its almanac.
+ */
+function satelliteEcef(entry: AlmanacEntry, ms: number): [number, number, number] {
+  const mu = entry.constellation === 'GALILEO' ? GALILEO_MU : GPS_MU;
+  const a = entry.sqrtA * entry.sqrtA;
+  const tk = secondsFromToa(entry, ms);
+
+  // Kepler's equation
+  const m = entry.m0 + Math.sqrt(mu / (a * a * a)) * tk;
+  let eAnomaly = m;
+  for (let k = 0; k < 10; k++) {
+    eAnomaly = m + entry.e * Math.sin(eAnomaly);
+  }
+
+  const v = Math.atan2(Math.sqrt(1 - entry.e * entry.e) * Math.sin(eAnomaly), Math.cos(eAnomaly) - entry.e);
+  const phi = v + entry.w;
+  const r = a * (1 - entry.e * Math.cos(eAnomaly));
+  const omega = entry.omega0 + (entry.omegaDot - EARTH_ROTATION) * tk - EARTH_ROTATION * entry.toa;
+
+  const x = r * Math.cos(phi);
+  const y = r * Math.sin(phi);
+  return [
+    x * Math.cos(omega) - y * Math.cos(entry.i0) * Math.sin(omega),
+    x * Math.sin(omega) + y * Math.cos(entry.i0) * Math.cos(omega),
+    y * Math.sin(entry.i0),
+  ];
+}
+
+/**
+ * Predict a satellite's azimuth and elevation for an observer.
+ *
+ * @param entry - Almanac entry
+ * @param lat - Observer latitude (degrees)
+ * @param lon - Observer longitude (degrees)
+ * @param timestamp - Observation time (ISO 8601)
+ * @returns Azimuth and elevation in degrees
+ */
+export function predictSkyPosition(entry: AlmanacEntry, lat: number, lon: number, timestamp: string): SkyPosition {
+  const phi = (lat * Math.PI) / 180;
+  const lambda = (lon * Math.PI) / 180;
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * Math.sin(phi) ** 2);
+  const observer = [
+    n * Math.cos(phi) * Math.cos(lambda),
+    n * Math.cos(phi) * Math.sin(lambda),
+    n * (1 - WGS84_E2) * Math.sin(phi),
+  ];
+
+  const sat = satelliteEcef(entry, new Date(timestamp).getTime());
+  const [dx, dy, dz] = [sat[0] - observer[0], sat[1] - observer[1], sat[2] - observer[2]];
+
+  const east = -Math.sin(lambda) * dx + Math.cos(lambda) * dy;
+  const north = -Math.sin(phi) * Math.cos(lambda) * dx - Math.sin(phi) * Math.sin(lambda) * dy + Math.cos(phi) * dz;
+  const up = Math.cos(phi) * Math.cos(lambda) * dx + Math.cos(phi) * Math.sin(lambda) * dy + Math.sin(phi) * dz;
+
+  const az = (Math.atan2(east, north) * 180) / Math.PI;
+  return {
+    az: (az + 360) % 360,
+    el: (Math.atan2(up, Math.sqrt(east * east + north * north)) * 180) / Math.PI,
+  };
+}
+
+/**
+ * Angle between two sky directions (degrees).
+ */
+function separationDeg(a: SkyPosition, b: SkyPosition): number {
+  const rad = Math.PI / 180;
+  const cos =
+    Math.sin(a.el * rad) * Math.sin(b.el * rad) +
+    Math.cos(a.el * rad) * Math.cos(b.el * rad) * Math.cos((a.az - b.az) * rad);
+  return Math.acos(Math.min(Math.max(cos, -1), 1)) / rad;
+}
+
+/**
+ * Load every almanac file in a directory.
+ *
+ * Unreadable files are reported in errors and skipped.
+ *
+ * @param dir - Almanac directory
+ * @returns Entries, loaded file names and errors
+ */
+export function loadAlmanacs(dir: string): { entries: AlmanacEntry[]; files: string[]; errors: string[] } {
+  const entries: AlmanacEntry[] = [];
+  const files: string[] = [];
+  const errors: string[] = [];
+
+  for (const name of readdirSync(dir).sort()) {
+    const ext = extname(name).toLowerCase();
+    if (!['.xml', '.alm', '.yuma', '.txt'].includes(ext)) {
+      continue;
+    }
+
+    try {
+      const text = readFileSync(join(dir, name), 'utf8');
+      const parsed = ext === '.xml' ? parseGalileoAlmanac(text) : parseYumaAlmanac(text);
+      if (parsed.length === 0) {
+        throw new Error('no almanac entries found');
+      }
+      entries.push(...parsed);
+      files.push(name);
+    } catch (error) {
+      errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { entries, files, errors };
+}
+
+/**
+ * Almanacs from GNSS_ALMANAC_DIR (cached for GNSS_ALMANAC_RELOAD_MS).
+ *
+ * @returns Entries, or an empty list when no directory is configured
+ */
+function getAlmanacs(): AlmanacEntry[] {
+  if (!GNSS_ALMANAC_DIR) {
+    return [];
+  }
+
+  if (!cache || Date.now() - cache.loadedAt > GNSS_ALMANAC_RELOAD_MS) {
+    try {
+      cache = { ...loadAlmanacs(GNSS_ALMANAC_DIR), loadedAt: Date.now() };
+      for (const error of cache.errors) {
+        console.warn(`[${new Date().toISOString()}] [almanac] Skipped ${error}`);
+      }
+    } catch (error) {
+      // Keep serving the previous almanacs (none on first load)
+      const message = error instanceof Error ? error.message : String(error);
+      cache = { entries: cache?.entries ?? [], files: cache?.files ?? [], errors: [message], loadedAt: Date.now() };
+      console.warn(`[${new Date().toISOString()}] [almanac] Loading ${GNSS_ALMANAC_DIR} failed: ${message}`);
+    }
+  }
+
+  return cache.entries;
+}
+
+/**
+ * Compare reported satellites with the sky predicted from almanacs.
+ *
+ * @param satellites - Reported satellites (GnssData.satellites)
+ * @param lat - Claimed latitude
+ * @param lon - Claimed longitude
+ * @param timestamp - Claimed time (ISO 8601)
+ * @param entries - Almanac entries (defaults to GNSS_ALMANAC_DIR)
+ * @param config - Check configuration
+ * @returns Sky check result (checked=false when too few satellites could be compared)
+ */
+export function checkSkyGeometry(
+  satellites: GnssSatellite[],
+  lat: number,
+  lon: number,
+  timestamp: string,
+  entries: AlmanacEntry[] = getAlmanacs(),
+  config: SkyCheckConfig = DEFAULT_SKY_CHECK_CONFIG
+): SkyCheckResult {
+  const result: SkyCheckResult = {
+    checked: false,
+    passed: true,
+    compared: 0,
+    consistent: 0,
+    skipped: 0,
+    mismatches: [],
+    issues: [],
+    verifiedAt: new Date().toISOString(),
+  };
+
+  const at = new Date(timestamp).getTime();
+  const maxAgeSeconds = config.maxAlmanacAgeDays * 86400;
+
+  for (const sat of satellites) {
+    const constellation = sat.constellation.toUpperCase();
+    const candidates = entries.filter(
+      (entry) => entry.constellation === constellation && entry.svid === sat.svid && entry.healthy
+    );
+    const entry = candidates
+      .map((candidate) => ({ candidate, age: Math.abs(secondsFromToa(candidate, at)) }))
+      .filter(({ age }) => age <= maxAgeSeconds)
+      .sort((a, b) => a.age - b.age)[0]?.candidate;
+
+    // Phones report 0/0 when they have no ephemeris for the satellite
+    if (!entry || (sat.az === 0 && sat.el === 0)) {
+      result.skipped++;
+      continue;
+    }
+
+    const predicted = predictSkyPosition(entry, lat, lon, timestamp);
+    const reported = { az: sat.az, el: sat.el };
+    const separation = separationDeg(reported, predicted);
+    result.compared++;
+
+    const round = (p: SkyPosition) => ({ az: Math.round(p.az * 10) / 10, el: Math.round(p.el * 10) / 10 });
+    if (predicted.el < -config.horizonMarginDeg) {
+      result.mismatches.push({
+        constellation: entry.constellation,
+        svid: sat.svid,
+        reason: 'BELOW_HORIZON',
+        reported,
+        predicted: round(predicted),
+        separationDeg: Math.round(separation * 10) / 10,
+      });
+    } else if (separation > config.toleranceDeg) {
+      result.mismatches.push({
+        constellation: entry.constellation,
+        svid: sat.svid,
+        reason: 'POSITION_MISMATCH',
+        reported,
+        predicted: round(predicted),
+        separationDeg: Math.round(separation * 10) / 10,
+      });
+    } else {
+      result.consistent++;
+    }
+  }
+
+  if (result.compared < config.minSatellites) {
+    result.issues.push(
+      `Sky geometry not checked: ${result.compared} satellites with almanac data (minimum ${config.minSatellites})`
+    );
+    return result;
+  }
+
+  result.checked = true;
+  result.passed = result.consistent / result.compared >= config.minConsistent;
+
+  const belowHorizon = result.mismatches.filter((m) => m.reason === 'BELOW_HORIZON').length;
+  if (belowHorizon > 0) {
+    result.issues.push(`${belowHorizon} reported satellites are below the horizon at this place and time`);
+  }
+  if (result.mismatches.length > belowHorizon) {
+    result.issues.push(
+      `${result.mismatches.length - belowHorizon} reported satellites are more than ${config.toleranceDeg}° ` +
+        'from their predicted position'
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Get almanac status and check configuration.
+ *
+ * @returns Directory, loaded files, entry counts and configuration
+ */
+export function gnssAlmanacStatus() {
+  const entries = getAlmanacs();
+  return {
+    enabled: GNSS_ALMANAC_DIR !== '',
+    dir: GNSS_ALMANAC_DIR || null,
+    files: cache?.files ?? [],
+    entries: {
+      gps: entries.filter((entry) => entry.constellation === 'GPS').length,
+      galileo: entries.filter((entry) => entry.constellation === 'GALILEO').length,
+    },
+    loadedAt: cache ? new Date(cache.loadedAt).toISOString() : null,
+    errors: cache?.errors ?? [],
+    config: { ...DEFAULT_SKY_CHECK_CONFIG },
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * Play Integrity Token Verification
+ *
+ * Local decryption and verification of Google Play Integrity tokens.
+ *
+ * Token format (as returned to the app by IntegrityManager):
+ * - JWE compact: header.encryptedKey.iv.ciphertext.tag
+ *   alg A256KW (AES key wrap with the Play Console decryption key),
+ *   enc A256GCM
+ * - Plaintext is a JWS compact token: header.payload.signature
+ *   alg ES256 (P-256, signed with Google's key; verified with the Play
+ *   Console verification key)
+ * - A bare JWS (3 parts) is also accepted
+ *
+ * Checks:
+ * - JWE decrypts (authenticated) with the configured decryption key
+ * - JWS signature verifies with the configured verification key
+ * - requestDetails.requestPackageName matches the app
+ * - requestDetails.nonce is bound to the proof nonce
+ * - requestDetails.timestampMillis is fresh (not too old, not in the future)
+ *
+ * Nonce binding:
+ * The app passes the proof nonce (or base64url(SHA-256(proof nonce)))
+ * as the Play Integrity request nonce, so a token only counts for the
+ * proof it was requested for.
+ *
+ * Configuration via environment:
+ * - PLAY_INTEGRITY_DECRYPTION_KEY (base64 AES-256 key from Play Console)
+ * - PLAY_INTEGRITY_VERIFICATION_KEY (base64 DER or PEM EC public key from Play Console)
+ * - PLAY_INTEGRITY_MAX_AGE_MS (default: 300000)
+ * - PLAY_INTEGRITY_MAX_FUTURE_SKEW_MS (default: 60000)
+ *
+ * Test vectors: scripts/vectors/play-integrity.json (npm run vectors:play-integrity)
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPublicKey,
+  randomBytes,
+  sign as cryptoSign,
+  verify as cryptoVerify,
+  type KeyObject,
+} from 'crypto';
+
+/**
+ * RFC 3394 default initial value for AES key wrap.
+ */
+const KEY_WRAP_IV = Buffer.from('A6A6A6A6A6A6A6A6', 'hex');
+
+/**
+ * Keys used to open a token.
+ */
+export interface PlayIntegrityKeys {
+  decryptionKey?: Buffer;       // 32-byte AES key (required for JWE tokens)
+  verificationKey?: KeyObject;  // EC P-256 public key (always required)
+}
+
+/**
+ * Options for verifyPlayIntegrityToken().
+ */
+export interface PlayIntegrityOptions {
+  expectedPackageName: string;
+  expectedNonce?: string;       // Proof nonce; skip binding check if omitted
+  keys?: PlayIntegrityKeys;     // Default: from environment
+  now?: number;                 // Default: Date.now()
+  maxAgeMs?: number;
+  maxFutureSkewMs?: number;
+}
+
+/**
+ * Reason a token was rejected.
+ */
+export type PlayIntegrityErrorCode =
+  | 'KEYS_NOT_CONFIGURED'
+  | 'MALFORMED'
+  | 'UNSUPPORTED_ALGORITHM'
+  | 'DECRYPTION_FAILED'
+  | 'BAD_SIGNATURE'
+  | 'PACKAGE_MISMATCH'
+  | 'NONCE_MISMATCH'
+  | 'STALE'
+  | 'FROM_FUTURE';
+
+/**
+ * Token rejected by verifyPlayIntegrityToken().
+ */
+export class PlayIntegrityError extends Error {
+  constructor(
+    public code: PlayIntegrityErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PlayIntegrityError';
+  }
+}
+
+/**
+ * Parse an EC public key from base64 DER (SPKI) or PEM.
+ *
+ * @param value - Key as provided by Play Console
+ * @returns Public key object
+ */
+export function parseVerificationKey(value: string): KeyObject {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('-----BEGIN')) {
+    return createPublicKey(trimmed);
+  }
+  return createPublicKey({ key: Buffer.from(trimmed, 'base64'), format: 'der', type: 'spki' });
+}
+
+/**
+ * Load keys from environment (read on each call so tests/ops can rotate).
+ *
+ * @returns Configured keys (fields undefined when not set)
+ */
+export function loadPlayIntegrityKeys(): PlayIntegrityKeys {
+  const decryption = process.env.PLAY_INTEGRITY_DECRYPTION_KEY;
+  const verification = process.env.PLAY_INTEGRITY_VERIFICATION_KEY;
+
+  return {
+    decryptionKey: decryption ? Buffer.from(decryption, 'base64') : undefined,
+    verificationKey: verification ? parseVerificationKey(verification) : undefined,
+  };
+}
+
+/**
+ * Parse a base64url JSON segment.
+ */
+function decodeJsonSegment(segment: string, what: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+  } catch {
+    throw new PlayIntegrityError('MALFORMED', `Invalid ${what} encoding`);
+  }
+}
+
+/**
+ * Decrypt a compact JWE (A256KW + A256GCM).
+ *
+ * @param token - header.encryptedKey.iv.ciphertext.tag
+ * @param decryptionKey - 32-byte key-encryption key
+ * @returns Plaintext (the inner JWS)
+ */
+export function decryptJwe(token: string, decryptionKey: Buffer): string {
+  const [protectedHeader, encryptedKey, iv, ciphertext, tag] = token.split('.');
+  const header = decodeJsonSegment(protectedHeader, 'JWE header');
+
+  if (header.alg !== 'A256KW' || header.enc !== 'A256GCM') {
+    throw new PlayIntegrityError(
+      'UNSUPPORTED_ALGORITHM',
+      `Unsupported JWE algorithm: ${header.alg}/${header.enc}`
+    );
+  }
+
+  if (decryptionKey.length !== 32) {
+    throw new PlayIntegrityError('KEYS_NOT_CONFIGURED', 'Decryption key must be 32 bytes (AES-256)');
+  }
+
+  try {
+    const unwrap = createDecipheriv('id-aes256-wrap', decryptionKey, KEY_WRAP_IV);
+    const cek = Buffer.concat([unwrap.update(Buffer.from(encryptedKey, 'base64url')), unwrap.final()]);
+
+    const decipher = createDecipheriv('aes-256-gcm', cek, Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(protectedHeader, 'ascii'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final(),
+    ]).toString('utf-8');
+  } catch {
+    throw new PlayIntegrityError('DECRYPTION_FAILED', 'Token decryption failed (wrong key or tampered token)');
+  }
+}
+
+/**
+ * Verify a compact JWS (ES256) and return its payload.
+ *
+ * @param token - header.payload.signature
+ * @param verificationKey - EC P-256 public key
+ * @returns Decoded payload
+ */
+export function verifyJws(token: string, verificationKey: KeyObject): any {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new PlayIntegrityError('MALFORMED', 'Inner token is not a JWS');
+  }
+
+  const [protectedHeader, payload, signature] = parts;
+  const header = decodeJsonSegment(protectedHeader, 'JWS header');
+
+  if (header.alg !== 'ES256') {
+    throw new PlayIntegrityError('UNSUPPORTED_ALGORITHM', `Unsupported JWS algorithm: ${header.alg}`);
+  }
+
+  const valid = cryptoVerify(
+    'sha256',
+    Buffer.from(`${protectedHeader}.${payload}`, 'ascii'),
+    { key: verificationKey, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url')
+  );
+
+  if (!valid) {
+    throw new PlayIntegrityError('BAD_SIGNATURE', 'Token signature verification failed');
+  }
+
+  return decodeJsonSegment(payload, 'JWS payload');
+}
+
+/**
+ * Check whether a request nonce is bound to a proof nonce.
+ *
+ * Accepts the proof nonce itself or base64url(SHA-256(proof nonce)),
+ * with or without padding.
+ *
+ * @param requestNonce - requestDetails.nonce from the token
+ * @param proofNonce - Nonce of the submitted proof
+ * @returns True if bound
+ */
+export function isNonceBound(requestNonce: string, proofNonce: string): boolean {
+  if (typeof requestNonce !== 'string' || requestNonce.length === 0) {
+    return false;
+  }
+
+  const normalized = requestNonce.replace(/=+$/, '');
+  const hashed = createHash('sha256').update(proofNonce, 'utf8').digest('base64url');
+
+  return normalized === proofNonce || normalized === hashed;
+}
+
+/**
+ * Decrypt and verify a Play Integrity token
+ *
+ * @param token - Integrity token from the app (JWE or JWS)
+ * @param options - Expected package/nonce, keys and freshness limits
+ * @returns Verified token payload (requestDetails, appIntegrity, deviceIntegrity, ...)
+ * @throws PlayIntegrityError when the token must not be trusted
+ */
+export function verifyPlayIntegrityToken(token: string, options: PlayIntegrityOptions): any {
+  const keys = options.keys ?? loadPlayIntegrityKeys();
+  const now = options.now ?? Date.now();
+  const maxAgeMs = options.maxAgeMs ?? parseInt(process.env.PLAY_INTEGRITY_MAX_AGE_MS || '300000', 10);
+  const maxFutureSkewMs =
+    options.maxFutureSkewMs ?? parseInt(process.env.PLAY_INTEGRITY_MAX_FUTURE_SKEW_MS || '60000', 10);
+
+  if (!keys.verificationKey) {
+    throw new PlayIntegrityError(
+      'KEYS_NOT_CONFIGURED',
+      'PLAY_INTEGRITY_VERIFICATION_KEY is not configured'
+    );
+  }
+
+  const segments = token.trim().split('.');
+  let jws: string;
+
+  if (segments.length === 5) {
+    if (!keys.decryptionKey) {
+      throw new PlayIntegrityError(
+        'KEYS_NOT_CONFIGURED',
+        'PLAY_INTEGRITY_DECRYPTION_KEY is not configured'
+      );
+    }
+    jws = decryptJwe(token.trim(), keys.decryptionKey);
+  } else if (segments.length === 3) {
+    jws = token.trim();
+  } else {
+    throw new PlayIntegrityError('MALFORMED', 'Token is neither a JWE nor a JWS');
+  }
+
+  const payload = verifyJws(jws, keys.verificationKey);
+  const details = payload.requestDetails;
+
+  if (!details) {
+    throw new PlayIntegrityError('MALFORMED', 'Missing requestDetails');
+  }
+
+  if (details.requestPackageName !== options.expectedPackageName) {
+    throw new PlayIntegrityError(
+      'PACKAGE_MISMATCH',
+      `Package name mismatch: expected ${options.expectedPackageName}, got ${details.requestPackageName}`
+    );
+  }
+
+  if (options.expectedNonce !== undefined && !isNonceBound(details.nonce, options.expectedNonce)) {
+    throw new PlayIntegrityError('NONCE_MISMATCH', 'Token nonce is not bound to this proof');
+  }
+
+  const issuedAt = Number(details.timestampMillis);
+  if (!Number.isFinite(issuedAt)) {
+    throw new PlayIntegrityError('MALFORMED', 'Missing requestDetails.timestampMillis');
+  }
+  if (now - issuedAt > maxAgeMs) {
+    throw new PlayIntegrityError(
+      'STALE',
+      `Token is ${Math.round((now - issuedAt) / 1000)}s old (max ${maxAgeMs / 1000}s)`
+    );
+  }
+  if (issuedAt - now > maxFutureSkewMs) {
+    throw new PlayIntegrityError('FROM_FUTURE', 'Token timestamp is in the future');
+  }
+
+  return payload;
+}
+
+/**
+ * Build a Play Integrity-style token (JWS, optionally wrapped in JWE).
+ *
+ * Mirrors Google's format so test vectors can be generated locally with
+ * our own keys. Never used on the verification path.
+ *
+ * @param payload - Token payload
+ * @param signingKey - EC P-256 private key
+ * @param decryptionKey - 32-byte AES key; omit for a bare JWS
+ * @returns Compact token
+ */
+export function encodePlayIntegrityToken(
+  payload: object,
+  signingKey: KeyObject,
+  decryptionKey?: Buffer
+): string {
+  const jwsHeader = Buffer.from(JSON.stringify({ alg: 'ES256' })).toString('base64url');
+  const jwsPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = cryptoSign(
+    'sha256',
+    Buffer.from(`${jwsHeader}.${jwsPayload}`, 'ascii'),
+    { key: signingKey, dsaEncoding: 'ieee-p1363' }
+  ).toString('base64url');
+  const jws = `${jwsHeader}.${jwsPayload}.${signature}`;
+
+  if (!decryptionKey) {
+    return jws;
+  }
+
+  const jweHeader = Buffer.from(JSON.stringify({ alg: 'A256KW', enc: 'A256GCM' })).toString('base64url');
+  const cek = randomBytes(32);
+  const iv = randomBytes(12);
+
+  const wrap = createCipheriv('id-aes256-wrap', decryptionKey, KEY_WRAP_IV);
+  const encryptedKey = Buffer.concat([wrap.update(cek), wrap.final()]);
+
+  const cipher = createCipheriv('aes-256-gcm', cek, iv);
+  cipher.setAAD(Buffer.from(jweHeader, 'ascii'));
+  const ciphertext = Buffer.concat([cipher.update(jws, 'utf-8'), cipher.final()]);
+
+  return [
+    jweHeader,
+    encryptedKey.toString('base64url'),
+    iv.toString('base64url'),
+    ciphertext.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+  ].join('.');
+}
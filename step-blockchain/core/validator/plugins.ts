@@ -0,0 +1,291 @@
+/**
+ * Validator Plugins
+ *
+ * Pluggable confidence signals for the proof pipeline.
+ *
+ * Why:
+ * - Every signal (attestation, GNSS, cell, ...) had to be hand-wired into
+ *   /proof/submit and into fixed ValidationResults / ConfidenceScores fields
+ * - A plugin declares its name, maximum weight and required payload fields;
+ *   evaluateProof() runs every registered plugin and computeConfidence()
+ *   scores whatever is registered, so new signals need no edit to api/proof.ts
+ *
+ * Isolation:
+ * - Plugins run concurrently, each under its own timeout
+ * - A throw, a timeout or an invalid result costs that plugin its points
+ *   only; the rest of the proof is evaluated as usual
+ * - Plugins whose required payload fields are missing are skipped (0 points)
+ *
+ * Scoring:
+ * - evaluate() returns a score from 0 to 1; the plugin earns
+ *   round(score × maxWeight) points in scores.plugins[name]
+ * - A negative maxWeight makes the plugin a penalty (score 1 = full penalty)
+ * - Outcomes are stored in ValidationResults.plugins, so evidence
+ *   re-scoring replays them without calling the plugin again
+ *
+ * Configuration via environment:
+ * - VALIDATOR_PLUGINS: Comma-separated module paths loaded at startup;
+ *   the default export is a plugin or an array of plugins (default: none)
+ * - VALIDATOR_PLUGIN_TIMEOUT_MS: Timeout for plugins that set none (default: 2000)
+ */
+
+import { resolve } from 'path';
+import type { ProofPayload, ProofPayloadV2 } from './signature.js';
+
+/**
+ * What a plugin gets to look at.
+ */
+export interface ValidatorPluginContext {
+  payload: ProofPayload | ProofPayloadV2;  // Signed payload as submitted
+  account: string;  // Lowercase 0x address
+  lat: number;
+  lon: number;
+  accuracy: number;  // GPS accuracy in meters
+  timestamp: string;  // Proof timestamp (ISO 8601)
+  triangleId?: string;  // Resolved triangle (missing when resolution failed in a dry run)
+  level?: number;
+  dryRun: boolean;  // Preflight: the plugin must not write anything
+}
+
+/**
+ * What evaluate() returns.
+ */
+export interface ValidatorPluginResult {
+  score: number;  // 0-1 share of maxWeight
+  reason?: string;  // Shown in rejection reasons when points are missing
+  details?: Record<string, unknown>;  // Stored in evidence, shown by preflight
+}
+
+/**
+ * A confidence signal.
+ */
+export interface ValidatorPlugin {
+  name: string;  // Key in scores.plugins and ValidationResults.plugins
+  maxWeight: number;  // Points at score 1 (negative: penalty)
+  requiredFields: string[];  // Payload paths in dot notation, e.g. "gnss.satellites"
+  timeoutMs?: number;  // Default: VALIDATOR_PLUGIN_TIMEOUT_MS
+  hint?: string;  // Remediation hint for /proof/preflight
+  evaluate(context: ValidatorPluginContext): Promise<ValidatorPluginResult>;
+}
+
+/**
+ * Stored result of running one plugin on a proof.
+ */
+export interface ValidatorPluginOutcome {
+  status: 'ok' | 'skipped' | 'timeout' | 'error';
+  score: number;  // 0-1 (0 unless ok)
+  reason?: string;
+  details?: Record<string, unknown>;
+  durationMs: number;
+}
+
+/**
+ * Error thrown for invalid plugin registrations.
+ */
+export class ValidatorPluginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidatorPluginError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.VALIDATOR_PLUGIN_TIMEOUT_MS || '2000', 10);
+
+const NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]{0,63}$/;
+
+// Module-level registry (insertion order = scoring and reporting order)
+const registry = new Map<string, ValidatorPlugin>();
+let loadErrors: Array<{ module: string; error: string }> = [];
+
+/**
+ * Register a plugin.
+ *
+ * @param plugin - Plugin to add
+ * @throws ValidatorPluginError if the declaration is invalid or the name is taken
+ */
+export function registerValidatorPlugin(plugin: ValidatorPlugin): void {
+  if (typeof plugin !== 'object' || plugin === null) {
+    throw new ValidatorPluginError('Plugin must be an object');
+  }
+  if (typeof plugin.name !== 'string' || !NAME_PATTERN.test(plugin.name)) {
+    throw new ValidatorPluginError(`Invalid plugin name: ${String(plugin.name)}`);
+  }
+  if (registry.has(plugin.name)) {
+    throw new ValidatorPluginError(`Plugin ${plugin.name} is already registered`);
+  }
+  if (typeof plugin.maxWeight !== 'number' || !Number.isFinite(plugin.maxWeight)) {
+    throw new ValidatorPluginError(`Plugin ${plugin.name}: maxWeight must be a finite number`);
+  }
+  if (!Array.isArray(plugin.requiredFields) || plugin.requiredFields.some((f) => typeof f !== 'string' || !f)) {
+    throw new ValidatorPluginError(`Plugin ${plugin.name}: requiredFields must be an array of payload paths`);
+  }
+  if (plugin.timeoutMs !== undefined && (!Number.isInteger(plugin.timeoutMs) || plugin.timeoutMs <= 0)) {
+    throw new ValidatorPluginError(`Plugin ${plugin.name}: timeoutMs must be a positive integer`);
+  }
+  if (typeof plugin.evaluate !== 'function') {
+    throw new ValidatorPluginError(`Plugin ${plugin.name}: evaluate must be a function`);
+  }
+
+  registry.set(plugin.name, plugin);
+}
+
+/**
+ * Remove a plugin.
+ *
+ * @param name - Plugin name
+ * @returns True if a plugin was removed
+ */
+export function unregisterValidatorPlugin(name: string): boolean {
+  return registry.delete(name);
+}
+
+/**
+ * Registered plugins in registration order.
+ */
+export function listValidatorPlugins(): ValidatorPlugin[] {
+  return [...registry.values()];
+}
+
+/**
+ * Read a dot-notation path from the payload.
+ */
+function readField(payload: unknown, field: string): unknown {
+  let value: any = payload;
+  for (const key of field.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+/**
+ * Run one plugin with its timeout; never throws.
+ */
+async function runPlugin(plugin: ValidatorPlugin, context: ValidatorPluginContext): Promise<ValidatorPluginOutcome> {
+  const started = Date.now();
+
+  const missing = plugin.requiredFields.filter((field) => {
+    const value = readField(context.payload, field);
+    return value === undefined || value === null;
+  });
+  if (missing.length > 0) {
+    return { status: 'skipped', score: 0, reason: `missing payload field ${missing.join(', ')}`, durationMs: 0 };
+  }
+
+  const timeoutMs = plugin.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const result = await Promise.race([
+      // Wrapped so a synchronous throw is caught like a rejection
+      Promise.resolve().then(() => plugin.evaluate(context)),
+      new Promise<'timeout'>((done) => {
+        timer = setTimeout(() => done('timeout'), timeoutMs);
+      }),
+    ]);
+
+    if (result === 'timeout') {
+      console.warn(`[${new Date().toISOString()}] [validator-plugin] ${plugin.name} timed out after ${timeoutMs}ms`);
+      return { status: 'timeout', score: 0, reason: `no result within ${timeoutMs}ms`, durationMs: Date.now() - started };
+    }
+
+    if (!result || typeof result.score !== 'number' || !(result.score >= 0 && result.score <= 1)) {
+      throw new Error(`score must be a number from 0 to 1 (got ${String(result?.score)})`);
+    }
+
+    // Mixed payloads store undefined as null; leave absent fields out
+    return {
+      status: 'ok',
+      score: result.score,
+      ...(typeof result.reason === 'string' && { reason: result.reason }),
+      ...(result.details !== undefined && { details: result.details }),
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[${new Date().toISOString()}] [validator-plugin] ${plugin.name} failed: ${message}`);
+    return { status: 'error', score: 0, reason: message, durationMs: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run every registered plugin on a proof.
+ *
+ * Plugins run concurrently; each one's failure is contained in its outcome.
+ *
+ * @param context - Proof being evaluated
+ * @returns Outcomes keyed by plugin name (empty when none are registered)
+ */
+export async function runValidatorPlugins(
+  context: ValidatorPluginContext
+): Promise<Record<string, ValidatorPluginOutcome>> {
+  const plugins = listValidatorPlugins();
+  const outcomes = await Promise.all(plugins.map((plugin) => runPlugin(plugin, context)));
+
+  const byName: Record<string, ValidatorPluginOutcome> = {};
+  plugins.forEach((plugin, i) => {
+    byName[plugin.name] = outcomes[i];
+  });
+  return byName;
+}
+
+/**
+ * Load and register the plugin modules named in VALIDATOR_PLUGINS.
+ *
+ * Relative paths resolve against the working directory. A module that
+ * fails to load or register is logged and skipped; the others still load.
+ *
+ * @param modules - Module paths (default from env)
+ * @returns Names of the plugins registered
+ */
+export async function loadValidatorPlugins(
+  modules: string[] = (process.env.VALIDATOR_PLUGINS ?? '').split(',').map((m) => m.trim()).filter(Boolean)
+): Promise<string[]> {
+  const registered: string[] = [];
+  loadErrors = [];
+
+  for (const spec of modules) {
+    const resolved = spec.startsWith('.') ? resolve(process.cwd(), spec) : spec;
+
+    try {
+      const mod = await import(resolved);
+      const exported = mod.default ?? mod;
+      const plugins: ValidatorPlugin[] = Array.isArray(exported) ? exported : [exported];
+
+      for (const plugin of plugins) {
+        registerValidatorPlugin(plugin);
+        registered.push(plugin.name);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      loadErrors.push({ module: spec, error: message });
+      console.error(`[${new Date().toISOString()}] [validator-plugin] Failed to load ${spec}: ${message}`);
+    }
+  }
+
+  if (registered.length > 0) {
+    console.log(`[${new Date().toISOString()}] [validator-plugin] Registered: ${registered.join(', ')}`);
+  }
+
+  return registered;
+}
+
+/**
+ * Registered plugins and load errors (for GET /proof/config).
+ */
+export function validatorPluginStatus() {
+  return {
+    defaultTimeoutMs: DEFAULT_TIMEOUT_MS,
+    plugins: listValidatorPlugins().map((plugin) => ({
+      name: plugin.name,
+      maxWeight: plugin.maxWeight,
+      requiredFields: plugin.requiredFields,
+      timeoutMs: plugin.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    })),
+    loadErrors,
+  };
+}
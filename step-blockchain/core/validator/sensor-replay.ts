@@ -0,0 +1,398 @@
+/**
+ * Sensor Replay Detection
+ *
+ * Detects GNSS and cell snapshots copied from one proof into others.
+ *
+ * Why:
+ * - Nonces stop replaying a whole proof, not its sensor data: one real
+ *   satellite capture (GnssData.satellites) or cell capture (CellTowerData)
+ *   can be pasted into any number of freshly signed proofs
+ * - verifyGnssRaw and verifyCellTower score each submission on its own, so a
+ *   genuine capture earns full points every time it is reused
+ *
+ * Fingerprints:
+ * - GNSS: per satellite (constellation:svid) the C/N0, azimuth and elevation
+ * - Cell: RSRP of the serving cell and of each neighbor cell
+ * - Real readings drift between two captures (C/N0 by a few dB-Hz, RSRP by a
+ *   few dBm, satellites move ~0.5°/min); a near-identical vector is a copy
+ *
+ * Matching:
+ * - Accepted proofs store their fingerprints (sensor_fingerprints, TTL)
+ * - A new snapshot is compared with snapshots proved within
+ *   SENSOR_REPLAY_WINDOW_MS (GNSS) or SENSOR_REPLAY_CELL_WINDOW_MS (cell),
+ *   from any account; the same account reusing its own capture elsewhere is
+ *   a replay too
+ * - The same account's own snapshots within SENSOR_REPLAY_SAME_ACCOUNT_RADIUS_M
+ *   of the new proof are skipped: a miner standing still legitimately sees
+ *   the same cells at the same strength
+ * - Near-duplicate: at least SENSOR_REPLAY_MIN_SIMILARITY of the union of
+ *   readings agree within tolerance, with enough readings to be distinctive
+ * - Cell snapshots are only fingerprinted with several neighbors and varied
+ *   RSRP values; a handful of identical integers is no fingerprint
+ * - A replayed snapshot earns no GNSS / cell points and costs the
+ *   "sensorReplay" penalty (computeConfidence)
+ *
+ * Configuration via environment:
+ * - SENSOR_REPLAY_WINDOW_MS: GNSS time window compared (default: 86400000 = 24h)
+ * - SENSOR_REPLAY_CELL_WINDOW_MS: Cell time window compared (default: 3600000 = 1h)
+ * - SENSOR_REPLAY_SAME_ACCOUNT_RADIUS_M: Own snapshots this close are not
+ *   replays (default: 100, 0 = always count them)
+ * - SENSOR_REPLAY_MIN_SIMILARITY: Fraction of matching readings (default: 0.9)
+ * - SENSOR_REPLAY_CN0_TOLERANCE: Max C/N0 difference in dB-Hz (default: 0.5)
+ * - SENSOR_REPLAY_ANGLE_TOLERANCE: Max azimuth/elevation difference in degrees (default: 1)
+ * - SENSOR_REPLAY_RSRP_TOLERANCE: Max RSRP difference in dBm (default: 0)
+ */
+
+import type { ClientSession } from 'mongoose';
+import { SensorFingerprint, type ISensorReading } from '../state/schemas.js';
+import type { CellTowerData, GnssData } from './signature.js';
+import { haversineDistanceMeters } from './geometry.js';
+
+/**
+ * Sensor replay configuration
+ */
+export interface SensorReplayConfig {
+  windowMs: number;           // GNSS time window compared (default: 24h)
+  cellWindowMs: number;       // Cell time window compared (default: 1h)
+  sameAccountRadiusM: number; // Own snapshots this close are skipped (default: 100 m)
+  minSimilarity: number;      // Fraction of matching readings (default: 0.9)
+  cn0Tolerance: number;       // Max C/N0 difference (default: 0.5 dB-Hz)
+  angleTolerance: number;     // Max az/el difference (default: 1°)
+  rsrpTolerance: number;      // Max RSRP difference (default: 0 dBm)
+  minSatellites: number;      // Matching satellites needed (default: 4)
+  minCellReadings: number;    // Cell readings needed, serving + neighbors (default: 5)
+  minDistinctRsrp: number;    // Distinct RSRP values needed in a cell snapshot (default: 3)
+  maxCandidates: number;      // Stored snapshots compared per proof (default: 200)
+  maxReportedMatches: number; // Matches kept in the result (default: 5)
+}
+
+/**
+ * Default sensor replay configuration
+ *
+ * RSRP is an integer that a stationary phone can report unchanged for
+ * minutes, so cell snapshots need more readings, spread over several
+ * values, and are compared over a shorter window than GNSS snapshots.
+ */
+export const DEFAULT_SENSOR_REPLAY_CONFIG: SensorReplayConfig = {
+  windowMs: parseInt(process.env.SENSOR_REPLAY_WINDOW_MS || '86400000', 10),
+  cellWindowMs: parseInt(process.env.SENSOR_REPLAY_CELL_WINDOW_MS || '3600000', 10),
+  sameAccountRadiusM: parseFloat(process.env.SENSOR_REPLAY_SAME_ACCOUNT_RADIUS_M || '100'),
+  minSimilarity: parseFloat(process.env.SENSOR_REPLAY_MIN_SIMILARITY || '0.9'),
+  cn0Tolerance: parseFloat(process.env.SENSOR_REPLAY_CN0_TOLERANCE || '0.5'),
+  angleTolerance: parseFloat(process.env.SENSOR_REPLAY_ANGLE_TOLERANCE || '1'),
+  rsrpTolerance: parseFloat(process.env.SENSOR_REPLAY_RSRP_TOLERANCE || '0'),
+  minSatellites: 4,
+  minCellReadings: 5,
+  minDistinctRsrp: 3,
+  maxCandidates: 200,
+  maxReportedMatches: 5,
+};
+
+/**
+ * Sensor snapshot kind.
+ */
+export type SensorKind = 'gnss' | 'cell';
+
+/**
+ * Earlier proof whose snapshot the new one duplicates.
+ */
+export interface ReplayMatch {
+  eventId: string;
+  account: string;
+  provedAt: string;  // ISO 8601
+  similarity: number;  // 0-1
+}
+
+/**
+ * Replay outcome for one snapshot kind.
+ */
+export interface SensorReplayKindResult {
+  replayed: boolean;
+  matches: ReplayMatch[];  // Strongest first (at most maxReportedMatches)
+  matchCount: number;  // All near-duplicates in the window
+  otherAccounts: number;  // Distinct accounts other than the prover among them
+}
+
+/**
+ * Where and by whom a snapshot was proved.
+ */
+export interface SensorProofContext {
+  account: string;  // Lowercase 0x address
+  lat: number;
+  lon: number;
+  provedAt: string;  // ISO 8601
+}
+
+/**
+ * Sensor replay result.
+ */
+export interface SensorReplayResult {
+  gnss?: SensorReplayKindResult;  // Set when the proof had a GNSS fingerprint
+  cell?: SensorReplayKindResult;  // Set when the proof had a cell fingerprint
+  verifiedAt: string;
+}
+
+/**
+ * Fingerprint of one snapshot.
+ */
+interface Fingerprint {
+  kind: SensorKind;
+  tokens: string[];
+  readings: ISensorReading[];
+}
+
+/**
+ * Angle difference on a circle (359° and 1° are 2° apart).
+ */
+function angleDelta(a: number, b: number): number {
+  const delta = Math.abs(a - b) % 360;
+  return delta > 180 ? 360 - delta : delta;
+}
+
+/**
+ * GNSS fingerprint: one reading per satellite.
+ *
+ * Tokens combine satellite, rounded C/N0 and 5° sky cell, so candidates
+ * share at least one near-identical satellite.
+ */
+function gnssFingerprint(gnss: GnssData, config: SensorReplayConfig): Fingerprint | null {
+  const readings = new Map<string, ISensorReading>();
+  for (const sat of gnss.satellites ?? []) {
+    const id = `${sat.constellation}:${sat.svid}`;
+    readings.set(id, { id, cn0: sat.cn0, az: sat.az, el: sat.el });
+  }
+
+  if (readings.size < config.minSatellites) {
+    return null;
+  }
+
+  return {
+    kind: 'gnss',
+    tokens: [...readings.values()].map(
+      (r) => `${r.id}:${Math.round(r.cn0!)}:${Math.round(r.az! / 5)}:${Math.round(r.el! / 5)}`
+    ),
+    readings: [...readings.values()],
+  };
+}
+
+/**
+ * Cell fingerprint: serving cell and neighbors with their RSRP.
+ *
+ * The token is the serving cell; only snapshots on the same cell compare.
+ * Snapshots with too few readings or too little RSRP spread are not
+ * fingerprinted.
+ */
+function cellFingerprint(cell: CellTowerData, config: SensorReplayConfig): Fingerprint | null {
+  const readings: ISensorReading[] = [];
+  if (cell.rsrp !== undefined) {
+    readings.push({ id: 'serving', rsrp: cell.rsrp });
+  }
+  for (const neighbor of cell.neighbors ?? []) {
+    readings.push({ id: String(neighbor.cellId), rsrp: neighbor.rsrp });
+  }
+
+  if (readings.length < config.minCellReadings) {
+    return null;
+  }
+
+  if (new Set(readings.map((r) => r.rsrp)).size < config.minDistinctRsrp) {
+    return null;
+  }
+
+  return {
+    kind: 'cell',
+    tokens: [`${cell.mcc}-${cell.mnc}-${cell.cellId}`],
+    readings,
+  };
+}
+
+/**
+ * Similarity of two snapshots of the same kind.
+ *
+ * Share of the union of readings (satellites / cells) present in both and
+ * equal within tolerance.
+ *
+ * @returns Similarity 0-1 and the number of matching readings
+ */
+export function readingSimilarity(
+  a: ISensorReading[],
+  b: ISensorReading[],
+  config: SensorReplayConfig = DEFAULT_SENSOR_REPLAY_CONFIG
+): { similarity: number; matched: number } {
+  const other = new Map(b.map((r) => [r.id, r]));
+  const ids = new Set([...a.map((r) => r.id), ...other.keys()]);
+
+  let matched = 0;
+  for (const reading of a) {
+    const counterpart = other.get(reading.id);
+    if (!counterpart) {
+      continue;
+    }
+
+    const close =
+      reading.rsrp !== undefined
+        ? counterpart.rsrp !== undefined && Math.abs(reading.rsrp - counterpart.rsrp) <= config.rsrpTolerance
+        : counterpart.cn0 !== undefined &&
+          Math.abs(reading.cn0! - counterpart.cn0) <= config.cn0Tolerance &&
+          angleDelta(reading.az!, counterpart.az!) <= config.angleTolerance &&
+          Math.abs(reading.el! - counterpart.el!) <= config.angleTolerance;
+
+    if (close) {
+      matched++;
+    }
+  }
+
+  return { similarity: ids.size > 0 ? matched / ids.size : 0, matched };
+}
+
+/**
+ * Time window compared for a snapshot kind.
+ */
+function windowFor(kind: SensorKind, config: SensorReplayConfig): number {
+  return kind === 'cell' ? config.cellWindowMs : config.windowMs;
+}
+
+/**
+ * Build the fingerprints of a proof's sensor payload.
+ */
+function fingerprintsOf(
+  sensors: { gnss?: GnssData; cell?: CellTowerData },
+  config: SensorReplayConfig
+): Fingerprint[] {
+  const fingerprints: Fingerprint[] = [];
+  const gnss = sensors.gnss && gnssFingerprint(sensors.gnss, config);
+  if (gnss) {
+    fingerprints.push(gnss);
+  }
+  const cell = sensors.cell && cellFingerprint(sensors.cell, config);
+  if (cell) {
+    fingerprints.push(cell);
+  }
+  return fingerprints;
+}
+
+/**
+ * Whether a stored snapshot is the prover's own, taken where they are now.
+ */
+function isOwnSnapshotHere(
+  candidate: { account: string; lat?: number; lon?: number },
+  proof: SensorProofContext,
+  config: SensorReplayConfig
+): boolean {
+  if (config.sameAccountRadiusM <= 0 || candidate.account !== proof.account) {
+    return false;
+  }
+  if (candidate.lat === undefined || candidate.lon === undefined) {
+    return false;
+  }
+  return haversineDistanceMeters(proof.lat, proof.lon, candidate.lat, candidate.lon) <= config.sameAccountRadiusM;
+}
+
+/**
+ * Compare a proof's GNSS / cell snapshots with recently accepted ones.
+ *
+ * @param sensors - GNSS and cell data of the proof (v2 payload)
+ * @param proof - Proving account, location and proof timestamp
+ * @param config - Replay configuration
+ * @returns Result per fingerprinted kind (none if the snapshots are too sparse)
+ */
+export async function checkSensorReplay(
+  sensors: { gnss?: GnssData; cell?: CellTowerData },
+  proof: SensorProofContext,
+  config: SensorReplayConfig = DEFAULT_SENSOR_REPLAY_CONFIG
+): Promise<SensorReplayResult> {
+  const result: SensorReplayResult = { verifiedAt: new Date().toISOString() };
+  const time = new Date(proof.provedAt).getTime();
+
+  for (const fingerprint of fingerprintsOf(sensors, config)) {
+    const windowMs = windowFor(fingerprint.kind, config);
+    const candidates = await SensorFingerprint.find({
+      kind: fingerprint.kind,
+      tokens: { $in: fingerprint.tokens },
+      provedAt: { $gte: new Date(time - windowMs), $lte: new Date(time + windowMs) },
+    })
+      .sort({ provedAt: -1 })
+      .limit(config.maxCandidates)
+      .lean();
+
+    const minMatched = fingerprint.kind === 'gnss' ? config.minSatellites : config.minCellReadings;
+    const matches: ReplayMatch[] = [];
+    for (const candidate of candidates) {
+      if (isOwnSnapshotHere(candidate, proof, config)) {
+        continue;
+      }
+      const { similarity, matched } = readingSimilarity(fingerprint.readings, candidate.readings, config);
+      if (similarity >= config.minSimilarity && matched >= minMatched) {
+        matches.push({
+          eventId: candidate.eventId,
+          account: candidate.account,
+          provedAt: new Date(candidate.provedAt).toISOString(),
+          similarity: Math.round(similarity * 1000) / 1000,
+        });
+      }
+    }
+
+    matches.sort((a, b) => b.similarity - a.similarity);
+    result[fingerprint.kind] = {
+      replayed: matches.length > 0,
+      matches: matches.slice(0, config.maxReportedMatches),
+      matchCount: matches.length,
+      otherAccounts: new Set(matches.map((m) => m.account).filter((a) => a !== proof.account)).size,
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Store the fingerprints of an accepted proof.
+ *
+ * Call inside the proof transaction so a rolled-back proof leaves nothing.
+ *
+ * @param sensors - GNSS and cell data of the proof (v2 payload)
+ * @param eventId - Click event ID
+ * @param proof - Proving account, location and proof timestamp
+ * @param session - Proof transaction session
+ * @param config - Replay configuration
+ */
+export async function recordSensorFingerprints(
+  sensors: { gnss?: GnssData; cell?: CellTowerData },
+  eventId: string,
+  proof: SensorProofContext,
+  session: ClientSession,
+  config: SensorReplayConfig = DEFAULT_SENSOR_REPLAY_CONFIG
+): Promise<void> {
+  const fingerprints = fingerprintsOf(sensors, config);
+  if (fingerprints.length === 0) {
+    return;
+  }
+
+  // Offline batch proofs are old on arrival; keep them a full window from now
+  const provedAtDate = new Date(proof.provedAt);
+  const keepFrom = Math.max(provedAtDate.getTime(), Date.now());
+
+  await SensorFingerprint.create(
+    fingerprints.map(({ kind, tokens, readings }) => ({
+      _id: `${eventId}:${kind}`,
+      eventId,
+      account: proof.account,
+      kind,
+      tokens,
+      readings,
+      lat: proof.lat,
+      lon: proof.lon,
+      provedAt: provedAtDate,
+      expiresAt: new Date(keepFrom + windowFor(kind, config)),
+    })),
+    { session, ordered: true }
+  );
+}
+
+/**
+ * Get current configuration values.
+ *
+ * @returns Sensor replay configuration
+ */
+export function getSensorReplayConfig(): SensorReplayConfig {
+  return { ...DEFAULT_SENSOR_REPLAY_CONFIG };
+}
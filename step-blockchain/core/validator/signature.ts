@@ -26,7 +26,9 @@ import { keccak_256 } from '@noble/hashes/sha3';
  * Proof Payload Interface (v1)
  * 
  * This is the canonical data structure for location proofs.
- * All fields are required and order matters for signature verification.
+ * All fields except triangleId are required and order matters for signature verification.
+ * Without triangleId (location-only mode) the server picks the triangle and
+ * the message carries an empty triangle field.
  * 
  * Version: STEP-PROOF-v1
  * Future versions can add fields but must increment version string.
@@ -34,7 +36,7 @@ import { keccak_256 } from '@noble/hashes/sha3';
 export interface ProofPayload {
   version: 'STEP-PROOF-v1';
   account: string;        // 0x-prefixed Ethereum address (42 chars)
-  triangleId: string;     // STEP-TRI-v1:... mesh addressing ID
+  triangleId?: string;    // STEP-TRI-v1:... mesh addressing ID (omit for location-only mode)
   lat: number;            // WGS84 decimal latitude (-90 to 90)
   lon: number;            // WGS84 decimal longitude (-180 to 180)
   accuracy: number;       // GPS accuracy in meters (must be ≤50)
@@ -120,7 +122,7 @@ export interface DeviceMetadata {
 export interface ProofPayloadV2 {
   version: 'STEP-PROOF-v2';
   account: string;        // 0x-prefixed Ethereum address (42 chars)
-  triangleId: string;     // STEP-TRI-v1:... mesh addressing ID
+  triangleId?: string;    // STEP-TRI-v1:... mesh addressing ID (omit for location-only mode)
   
   // Location data (restructured for clarity)
   location: {
@@ -168,6 +170,8 @@ export function isProofPayloadV2(payload: ProofPayload | ProofPayloadV2): payloa
  * Message format (strict order, no whitespace):
  * STEP-PROOF-v1|account:{account}|triangle:{triangleId}|lat:{lat}|lon:{lon}|acc:{accuracy}|ts:{timestamp}|nonce:{nonce}
  * 
+ * Location-only mode: triangleId omitted → "triangle:" (empty value)
+ * 
  * Why this format:
  * - Deterministic: Same payload always produces same message
  * - Unambiguous: Pipe separators prevent field confusion
@@ -190,7 +194,7 @@ export function buildSignableMessage(payload: ProofPayload): string {
   const message = [
     payload.version,
     `account:${payload.account.toLowerCase()}`, // Normalize to lowercase for consistency
-    `triangle:${payload.triangleId}`,
+    `triangle:${payload.triangleId ?? ''}`,
     `lat:${payload.lat}`,
     `lon:${payload.lon}`,
     `acc:${payload.accuracy}`,
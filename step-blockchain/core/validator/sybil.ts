@@ -0,0 +1,599 @@
+/**
+ * Sybil & Farm Detection
+ *
+ * Links accounts that are operated from the same device or the same place
+ * and throttles their rewards.
+ *
+ * Why:
+ * - Every per-proof check (speed gate, trajectory, witnesses) looks at one
+ *   account; a farm of phones (or one phone with many wallets) passes all of
+ *   them and multiplies the rewards of a single location
+ * - Witness ring detection only sees accounts that attest each other
+ *
+ * Signals (read from the stored validation evidence, see evidence.ts):
+ * - attestation_key: the same App Attest key asserted for several accounts
+ *   (one physical device); strong enough to link on its own
+ * - wifi: the same Wi-Fi fingerprint (3 strongest BSSIDs) within the
+ *   co-location window
+ * - colocation: proofs in the same ~100m grid cell within the window
+ * - cell: the same serving cell (mcc-mnc-cellId) within the window
+ * - device: identical model / OS / app version; common phones share these,
+ *   so it only adds to pairs already linked by another signal
+ *
+ * Scoring:
+ * - Each signal adds weight × shared occurrences (at most 3 per signal) to
+ *   the pair; pairs reaching SYBIL_LINK_THRESHOLD are linked
+ * - Crowds (more than SYBIL_MAX_BUCKET_ACCOUNTS accounts in one place and
+ *   window: stadiums, stations) are not evidence and are skipped
+ * - Linked accounts are grouped transitively into clusters
+ *
+ * Clusters (SybilCluster collection):
+ * - New clusters are "suspected"; overlapping clusters are merged
+ * - Admins confirm or dismiss them (api/admin.ts); a dismissed cluster is
+ *   not re-raised unless a new account joins it
+ * - Rewards of accounts in a suspected / confirmed cluster are multiplied by
+ *   SYBIL_THROTTLE_SUSPECTED / SYBIL_THROTTLE_CONFIRMED (proof still counts)
+ *
+ * Configuration via environment:
+ * - SYBIL_DETECTION_ENABLED: Start periodic detection with the API server (default: true)
+ * - SYBIL_DETECTION_INTERVAL_MS: Time between detection runs (default: 3600000 = 1h)
+ * - SYBIL_WINDOW_MS: Proof history scanned per run (default: 604800000 = 7d)
+ * - SYBIL_COLOCATION_METERS: Grid cell size for co-location (default: 100)
+ * - SYBIL_COLOCATION_WINDOW_MS: Max time between co-located proofs (default: 60000)
+ * - SYBIL_LINK_THRESHOLD: Pair score needed to link two accounts (default: 5)
+ * - SYBIL_MAX_BUCKET_ACCOUNTS: Accounts in one place/window treated as a crowd (default: 20)
+ * - SYBIL_THROTTLE_SUSPECTED: Reward multiplier for suspected clusters (default: 0.5)
+ * - SYBIL_THROTTLE_CONFIRMED: Reward multiplier for confirmed clusters (default: 0)
+ */
+
+import { SybilCluster, TriangleEvent, type ISybilCluster, type SybilSignal } from '../state/schemas.js';
+
+const SYBIL_DETECTION_ENABLED = process.env.SYBIL_DETECTION_ENABLED !== 'false';
+const SYBIL_DETECTION_INTERVAL_MS = parseInt(process.env.SYBIL_DETECTION_INTERVAL_MS || '3600000', 10);
+
+/**
+ * Sybil detection configuration
+ */
+export interface SybilConfig {
+  windowMs: number;             // Proof history scanned per run (default: 7d)
+  colocationMeters: number;     // Grid cell size (default: 100m)
+  colocationWindowMs: number;   // Max time between co-located proofs (default: 60s)
+  linkThreshold: number;        // Pair score needed to link (default: 5)
+  maxBucketAccounts: number;    // Crowd size ignored as evidence (default: 20)
+  throttleSuspected: number;    // Reward multiplier, suspected cluster (default: 0.5)
+  throttleConfirmed: number;    // Reward multiplier, confirmed cluster (default: 0)
+}
+
+/**
+ * Default sybil detection configuration
+ */
+export const DEFAULT_SYBIL_CONFIG: SybilConfig = {
+  windowMs: parseInt(process.env.SYBIL_WINDOW_MS || '604800000', 10),
+  colocationMeters: parseFloat(process.env.SYBIL_COLOCATION_METERS || '100'),
+  colocationWindowMs: parseInt(process.env.SYBIL_COLOCATION_WINDOW_MS || '60000', 10),
+  linkThreshold: parseFloat(process.env.SYBIL_LINK_THRESHOLD || '5'),
+  maxBucketAccounts: parseInt(process.env.SYBIL_MAX_BUCKET_ACCOUNTS || '20', 10),
+  throttleSuspected: parseFloat(process.env.SYBIL_THROTTLE_SUSPECTED || '0.5'),
+  throttleConfirmed: parseFloat(process.env.SYBIL_THROTTLE_CONFIRMED || '0'),
+};
+
+/**
+ * Score per shared occurrence of each signal.
+ */
+const SIGNAL_WEIGHTS: Record<SybilSignal, number> = {
+  attestation_key: 5,
+  wifi: 2,
+  colocation: 1,
+  cell: 1,
+  device: 1,
+};
+
+/**
+ * Occurrences counted per signal and pair (a household proving together
+ * every day must not outscore a shared device).
+ */
+const MAX_OCCURRENCES = 3;
+
+/**
+ * Access points in a Wi-Fi fingerprint.
+ */
+const WIFI_FINGERPRINT_SIZE = 3;
+
+/**
+ * Meters per degree of latitude.
+ */
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Identifiers of one proof relevant to sybil detection.
+ */
+export interface SybilProof {
+  account: string;
+  timestamp: number;  // ms since epoch
+  lat: number;
+  lon: number;
+  device?: string;  // model|os|appVersion
+  attestationKey?: string;  // App Attest keyId
+  cell?: string;  // mcc-mnc-cellId
+  wifi?: string;  // Sorted BSSIDs of the strongest access points
+}
+
+/**
+ * Two accounts linked by shared evidence.
+ */
+export interface SybilLink {
+  accounts: [string, string];  // Sorted
+  score: number;
+  signals: Partial<Record<SybilSignal, number>>;  // Shared occurrences per signal
+}
+
+/**
+ * Group of linked accounts.
+ */
+export interface SybilClusterCandidate {
+  accounts: string[];  // Sorted
+  links: SybilLink[];
+  score: number;  // Strongest link
+}
+
+/**
+ * Outcome of a detection run.
+ */
+export interface SybilDetectionReport {
+  scanned: number;  // Click events read
+  linkedPairs: number;
+  clusters: number;  // Clusters found in this run
+  created: number;
+  updated: number;  // Merged into existing clusters
+  skipped: number;  // Already dismissed by an admin
+  startedAt: string;
+  finishedAt: string;
+}
+
+/**
+ * Reward throttle for an account in a sybil cluster.
+ */
+export interface RewardThrottle {
+  clusterId: string;
+  status: 'suspected' | 'confirmed';
+  multiplier: number;  // Applied to the level reward (0 = no reward)
+}
+
+let timer: NodeJS.Timeout | null = null;
+let detecting = false;
+let lastRunAt: string | null = null;
+let lastRunError: string | null = null;
+let lastReport: SybilDetectionReport | null = null;
+
+/**
+ * Extract the sybil identifiers of a click event.
+ *
+ * @param event - Lean click TriangleEvent (evidence optional)
+ * @returns Proof identifiers, or null without account or position
+ */
+export function toSybilProof(event: any): SybilProof | null {
+  const { account, timestamp, payload } = event;
+  if (!account || typeof payload?.lat !== 'number' || typeof payload?.lon !== 'number') {
+    return null;
+  }
+
+  const proof: SybilProof = {
+    account,
+    timestamp: new Date(timestamp).getTime(),
+    lat: payload.lat,
+    lon: payload.lon,
+  };
+
+  const evidence = payload.evidence;
+  const signed = evidence?.payload;
+  if (signed?.device?.model) {
+    proof.device = `${signed.device.model}|${signed.device.os}|${signed.device.appVersion}`;
+  }
+  if (evidence?.attestation?.keyId) {
+    proof.attestationKey = evidence.attestation.keyId;
+  }
+  if (signed?.cell?.cellId !== undefined) {
+    proof.cell = `${signed.cell.mcc}-${signed.cell.mnc}-${signed.cell.cellId}`;
+  }
+  if (Array.isArray(signed?.wifi) && signed.wifi.length >= WIFI_FINGERPRINT_SIZE) {
+    proof.wifi = [...signed.wifi]
+      .sort((a: any, b: any) => b.rssi - a.rssi)
+      .slice(0, WIFI_FINGERPRINT_SIZE)
+      .map((ap: any) => String(ap.bssid).toLowerCase())
+      .sort()
+      .join(',');
+  }
+
+  return proof;
+}
+
+/**
+ * Grid cell of a position (cells are ~colocationMeters wide).
+ *
+ * Proofs on either side of a cell border are not matched; repeated
+ * co-location still is.
+ */
+function gridCell(lat: number, lon: number, meters: number): string {
+  const latStep = meters / METERS_PER_DEGREE;
+  const row = Math.floor(lat / latStep);
+  const lonStep = meters / (METERS_PER_DEGREE * Math.max(Math.cos(((row + 0.5) * latStep * Math.PI) / 180), 0.01));
+  return `${row}:${Math.floor(lon / lonStep)}`;
+}
+
+/**
+ * Find clusters of linked accounts in a set of proofs.
+ *
+ * Pure: no database access (see detectSybilClusters).
+ *
+ * @param proofs - Proof identifiers (any order)
+ * @param config - Detection configuration
+ * @returns Clusters of two or more accounts, strongest first
+ */
+export function findSybilClusters(
+  proofs: SybilProof[],
+  config: SybilConfig = DEFAULT_SYBIL_CONFIG
+): SybilClusterCandidate[] {
+  const shared = new Map<string, Map<SybilSignal, Set<string>>>();
+
+  const share = (a: string, b: string, signal: SybilSignal, occurrence: string) => {
+    const pair = a < b ? `${a}|${b}` : `${b}|${a}`;
+    const signals = shared.get(pair) ?? new Map<SybilSignal, Set<string>>();
+    const occurrences = signals.get(signal) ?? new Set<string>();
+    occurrences.add(occurrence);
+    signals.set(signal, occurrences);
+    shared.set(pair, signals);
+  };
+
+  const groupBy = (key: (proof: SybilProof) => string | undefined) => {
+    const groups = new Map<string, SybilProof[]>();
+    for (const proof of proofs) {
+      const value = key(proof);
+      if (value !== undefined) {
+        const group = groups.get(value);
+        if (group) {
+          group.push(proof);
+        } else {
+          groups.set(value, [proof]);
+        }
+      }
+    }
+    return groups;
+  };
+
+  // One device key used by several accounts: link each to the first one
+  // (star keeps farms of hundreds of wallets linear; they cluster anyway)
+  for (const [keyId, group] of groupBy((p) => p.attestationKey)) {
+    const accounts = [...new Set(group.map((p) => p.account))];
+    for (const account of accounts.slice(1)) {
+      share(accounts[0], account, 'attestation_key', keyId);
+    }
+  }
+
+  // Same place (grid cell, Wi-Fi fingerprint, serving cell) at the same time
+  const coPresence: Array<[SybilSignal, (proof: SybilProof) => string | undefined]> = [
+    ['wifi', (p) => p.wifi],
+    ['colocation', (p) => gridCell(p.lat, p.lon, config.colocationMeters)],
+    ['cell', (p) => p.cell],
+  ];
+
+  for (const [signal, key] of coPresence) {
+    for (const [place, group] of groupBy(key)) {
+      group.sort((a, b) => a.timestamp - b.timestamp);
+
+      for (let i = 0; i < group.length; i++) {
+        let end = i + 1;
+        while (end < group.length && group[end].timestamp - group[i].timestamp <= config.colocationWindowMs) {
+          end++;
+        }
+
+        const window = group.slice(i, end);
+        const accounts = new Set(window.map((p) => p.account));
+        if (accounts.size < 2 || accounts.size > config.maxBucketAccounts) {
+          continue;
+        }
+
+        const occurrence = `${place}@${Math.floor(group[i].timestamp / config.colocationWindowMs)}`;
+        for (const other of window.slice(1)) {
+          if (other.account !== group[i].account) {
+            share(group[i].account, other.account, signal, occurrence);
+          }
+        }
+      }
+    }
+  }
+
+  // Identical device metadata only corroborates pairs found above
+  const devices = new Map<string, Set<string>>();
+  for (const proof of proofs) {
+    if (proof.device) {
+      devices.set(proof.account, (devices.get(proof.account) ?? new Set()).add(proof.device));
+    }
+  }
+  for (const pair of shared.keys()) {
+    const [a, b] = pair.split('|');
+    for (const device of devices.get(a) ?? []) {
+      if (devices.get(b)?.has(device)) {
+        share(a, b, 'device', device);
+      }
+    }
+  }
+
+  // Score pairs and keep the links
+  const links: SybilLink[] = [];
+  for (const [pair, signals] of shared) {
+    const link: SybilLink = { accounts: pair.split('|') as [string, string], score: 0, signals: {} };
+    for (const [signal, occurrences] of signals) {
+      const count = Math.min(occurrences.size, MAX_OCCURRENCES);
+      link.signals[signal] = count;
+      link.score += SIGNAL_WEIGHTS[signal] * count;
+    }
+    if (link.score >= config.linkThreshold) {
+      links.push(link);
+    }
+  }
+
+  // Union-find: linked accounts form one cluster
+  const parent = new Map<string, string>();
+  const find = (account: string): string => {
+    const root = parent.get(account) ?? account;
+    if (root === account) {
+      return account;
+    }
+    const top = find(root);
+    parent.set(account, top);
+    return top;
+  };
+  for (const { accounts: [a, b] } of links) {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) {
+      parent.set(rootB, rootA);
+    }
+  }
+
+  const clusters = new Map<string, SybilClusterCandidate>();
+  for (const link of links) {
+    const root = find(link.accounts[0]);
+    const cluster = clusters.get(root) ?? { accounts: [], links: [], score: 0 };
+    cluster.links.push(link);
+    cluster.score = Math.max(cluster.score, link.score);
+    clusters.set(root, cluster);
+  }
+  for (const cluster of clusters.values()) {
+    cluster.accounts = [...new Set(cluster.links.flatMap((link) => link.accounts))].sort();
+  }
+
+  return [...clusters.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Store a detected cluster.
+ *
+ * Merges it into the oldest overlapping suspected / confirmed cluster
+ * (absorbing any other overlapping ones); skips it if a dismissed cluster
+ * already covers all of its accounts.
+ *
+ * @param candidate - Cluster found by findSybilClusters
+ * @param at - Detection time
+ * @returns What happened to the candidate
+ */
+async function persistCluster(candidate: SybilClusterCandidate, at: Date): Promise<'created' | 'updated' | 'skipped'> {
+  const overlapping = await SybilCluster.find({ accounts: { $in: candidate.accounts } }).sort({ firstDetectedAt: 1 });
+  const active = overlapping.filter((cluster) => cluster.status !== 'dismissed');
+
+  if (active.length === 0) {
+    const dismissed = overlapping.some((cluster) =>
+      candidate.accounts.every((account) => cluster.accounts.includes(account))
+    );
+    if (dismissed) {
+      return 'skipped';
+    }
+
+    await SybilCluster.create({
+      _id: `sybil-${at.getTime()}-${Math.random().toString(36).substring(7)}`,
+      accounts: candidate.accounts,
+      links: candidate.links,
+      score: candidate.score,
+      status: 'suspected',
+      firstDetectedAt: at,
+      lastDetectedAt: at,
+    });
+    return 'created';
+  }
+
+  const [target, ...absorbed] = active;
+  const links = new Map<string, ISybilCluster['links'][number]>();
+  for (const link of [...active.flatMap((cluster) => cluster.links), ...candidate.links]) {
+    links.set(link.accounts.join('|'), link);  // Latest evidence per pair wins
+  }
+
+  target.accounts = [...new Set([...active.flatMap((cluster) => cluster.accounts), ...candidate.accounts])].sort();
+  target.links = [...links.values()];
+  target.score = Math.max(...target.links.map((link) => link.score));
+  target.status = active.some((cluster) => cluster.status === 'confirmed') ? 'confirmed' : target.status;
+  target.lastDetectedAt = at;
+  target.markModified('links');
+  await target.save();
+
+  if (absorbed.length > 0) {
+    await SybilCluster.deleteMany({ _id: { $in: absorbed.map((cluster) => cluster._id) } });
+  }
+  return 'updated';
+}
+
+/**
+ * Scan recent proofs and store the clusters found.
+ *
+ * @param at - Detection time (end of the scanned window)
+ * @param config - Detection configuration
+ * @returns Detection report
+ */
+export async function detectSybilClusters(
+  at: Date = new Date(),
+  config: SybilConfig = DEFAULT_SYBIL_CONFIG
+): Promise<SybilDetectionReport> {
+  const startedAt = new Date().toISOString();
+
+  const proofs: SybilProof[] = [];
+  let scanned = 0;
+
+  const query = TriangleEvent.find({
+    eventType: 'click',
+    timestamp: { $gte: new Date(at.getTime() - config.windowMs), $lte: at },
+  }).select({
+    account: 1,
+    timestamp: 1,
+    'payload.lat': 1,
+    'payload.lon': 1,
+    'payload.evidence.payload.device': 1,
+    'payload.evidence.payload.cell': 1,
+    'payload.evidence.payload.wifi': 1,
+    'payload.evidence.attestation.keyId': 1,
+  });
+
+  for await (const event of query.lean().cursor()) {
+    scanned++;
+    const proof = toSybilProof(event);
+    if (proof) {
+      proofs.push(proof);
+    }
+  }
+
+  const clusters = findSybilClusters(proofs, config);
+
+  const report: SybilDetectionReport = {
+    scanned,
+    linkedPairs: clusters.reduce((sum, cluster) => sum + cluster.links.length, 0),
+    clusters: clusters.length,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    startedAt,
+    finishedAt: startedAt,
+  };
+
+  for (const cluster of clusters) {
+    report[await persistCluster(cluster, at)]++;
+  }
+
+  report.finishedAt = new Date().toISOString();
+  return report;
+}
+
+/**
+ * Run one detection unless a run is already in progress.
+ *
+ * Used by the scheduler and POST /admin/sybil/detect.
+ *
+ * @returns Detection report, or null if a run is in progress
+ */
+export async function runSybilDetection(): Promise<SybilDetectionReport | null> {
+  if (detecting) {
+    return null;
+  }
+
+  detecting = true;
+  try {
+    lastReport = await detectSybilClusters();
+    lastRunAt = lastReport.finishedAt;
+    lastRunError = null;
+
+    if (lastReport.created > 0 || lastReport.updated > 0) {
+      console.log(
+        `[${lastRunAt}] [sybil] ${lastReport.clusters} clusters: ${lastReport.created} new, ` +
+          `${lastReport.updated} updated, ${lastReport.skipped} dismissed`
+      );
+    }
+    return lastReport;
+  } catch (error) {
+    lastRunError = error instanceof Error ? error.message : String(error);
+    console.error(`[${new Date().toISOString()}] [sybil] Detection failed:`, lastRunError);
+    throw error;
+  } finally {
+    detecting = false;
+  }
+}
+
+/**
+ * Reward throttle for an account.
+ *
+ * @param account - Account address (lowercase)
+ * @param config - Detection configuration (throttle multipliers)
+ * @returns Strictest throttle of the account's clusters, or null if none applies
+ */
+export async function getRewardThrottle(
+  account: string,
+  config: SybilConfig = DEFAULT_SYBIL_CONFIG
+): Promise<RewardThrottle | null> {
+  const clusters = await SybilCluster.find({ accounts: account, status: { $in: ['suspected', 'confirmed'] } })
+    .select({ status: 1 })
+    .lean();
+
+  let throttle: RewardThrottle | null = null;
+  for (const cluster of clusters) {
+    const status = cluster.status as RewardThrottle['status'];
+    const multiplier = status === 'confirmed' ? config.throttleConfirmed : config.throttleSuspected;
+    if (multiplier < 1 && (!throttle || multiplier < throttle.multiplier)) {
+      throttle = { clusterId: cluster._id, status, multiplier: Math.max(multiplier, 0) };
+    }
+  }
+
+  return throttle;
+}
+
+/**
+ * Start periodic sybil detection.
+ *
+ * Safe to call more than once; only one timer runs.
+ * Skips a tick if the previous run is still in progress.
+ */
+export function startSybilDetection(): void {
+  if (!SYBIL_DETECTION_ENABLED || timer) {
+    return;
+  }
+
+  console.log(`[${new Date().toISOString()}] [sybil] Detecting account clusters every ${SYBIL_DETECTION_INTERVAL_MS}ms`);
+
+  timer = setInterval(() => {
+    runSybilDetection().catch(() => {
+      // Logged and kept in lastRunError
+    });
+  }, SYBIL_DETECTION_INTERVAL_MS);
+}
+
+/**
+ * Stop periodic sybil detection (graceful shutdown).
+ */
+export function stopSybilDetection(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+/**
+ * Get sybil detection configuration and scheduler status.
+ *
+ * @returns Scheduler state and configuration
+ */
+export function sybilDetectionStatus() {
+  return {
+    enabled: SYBIL_DETECTION_ENABLED,
+    running: timer !== null,
+    detecting,
+    intervalMs: SYBIL_DETECTION_INTERVAL_MS,
+    config: getSybilConfig(),
+    lastRunAt,
+    lastRunError,
+    lastReport,
+  };
+}
+
+/**
+ * Get current configuration values.
+ *
+ * @returns Sybil detection configuration
+ */
+export function getSybilConfig(): SybilConfig {
+  return { ...DEFAULT_SYBIL_CONFIG };
+}
@@ -0,0 +1,390 @@
+/**
+ * Trajectory Anomaly Detection
+ *
+ * Looks at an account's proof history as a whole instead of one leg at a
+ * time (validateSpeedGate only compares a proof with its neighbours).
+ *
+ * Why trajectories:
+ * - A spoofer moving at exactly 14 m/s between far-apart triangles passes
+ *   every single speed gate check
+ * - Jumping between two cities at the moratorium interval is only visible
+ *   as a pattern
+ * - Scripted proofs are too regular: identical intervals, a constant
+ *   accuracy value, coordinates replayed bit for bit
+ *
+ * Detectors (each adds its weight to the risk score, capped at 100):
+ * - NEAR_SPEED_LIMIT: most long legs just under PROOF_SPEED_LIMIT_MPS
+ * - CONSTANT_SPEED: long legs at (almost) the same speed
+ * - OSCILLATION: A → far away → back to A within the hour, repeatedly
+ * - STRAIGHT_PATH: consecutive proofs on a perfectly straight line over km
+ * - REGULAR_TIMING: intervals with (almost) no variation, or paced at the moratorium
+ * - CONSTANT_ACCURACY: the same accuracy value on most proofs
+ * - REPEATED_COORDINATES: identical lat/lon on many proofs (real fixes jitter)
+ *
+ * Use:
+ * - Online: assessAccountTrajectory() runs in the proof pipeline; the risk
+ *   score becomes ValidationResults.trajectoryRisk, a confidence penalty
+ *   (computeConfidence, weight "trajectory")
+ * - Offline: analyzeAccountTrajectories() ranks accounts over a time range
+ *   (npm run analyze:trajectories)
+ *
+ * Configuration via environment:
+ * - TRAJECTORY_HISTORY_SIZE: Previous proofs analyzed online (default: 50)
+ * - TRAJECTORY_MIN_PROOFS: History needed before any detector runs (default: 5)
+ * - TRAJECTORY_NEAR_LIMIT_RATIO: Fraction of the speed limit counted as "near" (default: 0.8)
+ */
+
+import { TriangleEvent } from '../state/schemas.js';
+import { haversineDistanceMeters, getConfig as getGeometryConfig } from './geometry.js';
+
+/**
+ * One proof in an account's history.
+ */
+export interface TrajectoryPoint {
+  lat: number;
+  lon: number;
+  accuracy?: number;
+  timestamp: string;  // ISO 8601
+}
+
+/**
+ * Anomaly found in a trajectory.
+ */
+export type TrajectoryFlagCode =
+  | 'NEAR_SPEED_LIMIT'
+  | 'CONSTANT_SPEED'
+  | 'OSCILLATION'
+  | 'STRAIGHT_PATH'
+  | 'REGULAR_TIMING'
+  | 'CONSTANT_ACCURACY'
+  | 'REPEATED_COORDINATES';
+
+export interface TrajectoryFlag {
+  code: TrajectoryFlagCode;
+  weight: number;  // Risk points added
+  message: string;
+}
+
+/**
+ * Trajectory analysis result.
+ */
+export interface TrajectoryResult {
+  riskScore: number;  // 0-100 (0 = nothing suspicious or too little history)
+  flags: TrajectoryFlag[];
+  proofCount: number;  // Points analyzed (including the proof being checked)
+  from?: string;  // First analyzed timestamp
+  to?: string;  // Last analyzed timestamp
+  verifiedAt: string;  // ISO 8601 timestamp
+}
+
+/**
+ * Trajectory analysis configuration.
+ */
+export interface TrajectoryConfig {
+  historySize: number;  // Previous proofs loaded for the online check
+  minProofs: number;  // Points needed before detectors run
+  nearLimitRatio: number;  // Speed ≥ ratio × limit counts as near the limit
+  longLegM: number;  // Legs at least this long are "travel" legs (default: 1km)
+  minLongLegs: number;  // Travel legs needed for speed detectors
+  speedCvMax: number;  // Coefficient of variation below this = constant speed
+  oscillationMinM: number;  // Excursion distance for an oscillation
+  oscillationReturnM: number;  // Back within this radius = returned
+  oscillationWindowMs: number;  // Round trip at most this long (commutes take hours)
+  minOscillations: number;
+  straightPathMinM: number;  // Window length for a straight-path check
+  straightPathToleranceM: number;  // Max cross-track deviation of a "straight" window
+  intervalCvMax: number;  // Coefficient of variation below this = regular timing
+  moratoriumPaceRatio: number;  // Share of intervals within 10% of the moratorium
+  constantAccuracyRatio: number;  // Share of proofs with the most common accuracy value
+  repeatedCoordinateRatio: number;  // Share of proofs sharing exact coordinates with another
+  weights: Record<TrajectoryFlagCode, number>;
+}
+
+/**
+ * Default trajectory configuration.
+ */
+export const DEFAULT_TRAJECTORY_CONFIG: TrajectoryConfig = {
+  historySize: parseInt(process.env.TRAJECTORY_HISTORY_SIZE || '50', 10),
+  minProofs: parseInt(process.env.TRAJECTORY_MIN_PROOFS || '5', 10),
+  nearLimitRatio: parseFloat(process.env.TRAJECTORY_NEAR_LIMIT_RATIO || '0.8'),
+  longLegM: 1000,
+  minLongLegs: 3,
+  speedCvMax: 0.05,
+  oscillationMinM: 5000,
+  oscillationReturnM: 500,
+  oscillationWindowMs: 3600000,
+  minOscillations: 2,
+  straightPathMinM: 2000,
+  straightPathToleranceM: 3,
+  intervalCvMax: 0.02,
+  moratoriumPaceRatio: 0.8,
+  constantAccuracyRatio: 0.8,
+  repeatedCoordinateRatio: 0.3,
+  weights: {
+    NEAR_SPEED_LIMIT: 20,
+    CONSTANT_SPEED: 25,
+    OSCILLATION: 30,
+    STRAIGHT_PATH: 20,
+    REGULAR_TIMING: 20,
+    CONSTANT_ACCURACY: 20,
+    REPEATED_COORDINATES: 25,
+  },
+};
+
+/**
+ * Coefficient of variation (stddev / mean), 0 for an empty or zero-mean set.
+ */
+function coefficientOfVariation(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean === 0) {
+    return 0;
+  }
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+/**
+ * Max distance (m) of the inner points from the line first → last, or
+ * Infinity if they do not progress along it (local equirectangular plane).
+ */
+function crossTrackDeviation(points: TrajectoryPoint[]): number {
+  const origin = points[0];
+  const cosLat = Math.cos((origin.lat * Math.PI) / 180);
+  const project = (p: TrajectoryPoint) => ({
+    x: (p.lon - origin.lon) * 111320 * cosLat,
+    y: (p.lat - origin.lat) * 110540,
+  });
+
+  const end = project(points[points.length - 1]);
+  const length = Math.hypot(end.x, end.y);
+  if (length === 0) {
+    return Infinity;
+  }
+
+  let maxDeviation = 0;
+  let lastAlong = 0;
+  for (const point of points.slice(1, -1)) {
+    const { x, y } = project(point);
+    const along = (x * end.x + y * end.y) / length;
+    if (along <= lastAlong || along >= length) {
+      return Infinity;
+    }
+    lastAlong = along;
+    maxDeviation = Math.max(maxDeviation, Math.abs(x * end.y - y * end.x) / length);
+  }
+  return maxDeviation;
+}
+
+/**
+ * Analyze a trajectory.
+ *
+ * @param points - Proofs of one account (any order)
+ * @param config - Optional configuration (uses defaults if not provided)
+ * @returns Risk score and flags
+ */
+export function analyzeTrajectory(
+  points: TrajectoryPoint[],
+  config: TrajectoryConfig = DEFAULT_TRAJECTORY_CONFIG
+): TrajectoryResult {
+  const sorted = [...points].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const result: TrajectoryResult = {
+    riskScore: 0,
+    flags: [],
+    proofCount: sorted.length,
+    from: sorted[0]?.timestamp,
+    to: sorted[sorted.length - 1]?.timestamp,
+    verifiedAt: new Date().toISOString(),
+  };
+
+  if (sorted.length < config.minProofs) {
+    return result;
+  }
+
+  const flag = (code: TrajectoryFlagCode, message: string) => {
+    result.flags.push({ code, weight: config.weights[code], message });
+  };
+
+  const { PROOF_SPEED_LIMIT_MPS, PROOF_MORATORIUM_MS } = getGeometryConfig();
+
+  const legs = sorted.slice(1).map((to, i) => {
+    const from = sorted[i];
+    const distance = haversineDistanceMeters(from.lat, from.lon, to.lat, to.lon);
+    const intervalMs = Date.parse(to.timestamp) - Date.parse(from.timestamp);
+    return { distance, intervalMs, speed: intervalMs > 0 ? distance / (intervalMs / 1000) : Infinity };
+  });
+
+  // Speed: travel legs cruising just under the limit, or all at one speed
+  const longLegs = legs.filter((leg) => leg.distance >= config.longLegM && isFinite(leg.speed));
+  if (longLegs.length >= config.minLongLegs) {
+    const nearLimit = longLegs.filter(
+      (leg) => leg.speed >= config.nearLimitRatio * PROOF_SPEED_LIMIT_MPS && leg.speed <= PROOF_SPEED_LIMIT_MPS
+    );
+    if (nearLimit.length >= config.minLongLegs && nearLimit.length / longLegs.length >= 0.5) {
+      flag(
+        'NEAR_SPEED_LIMIT',
+        `${nearLimit.length}/${longLegs.length} travel legs at ${Math.round(config.nearLimitRatio * 100)}-100% of the ${PROOF_SPEED_LIMIT_MPS} m/s limit`
+      );
+    }
+
+    const speedCv = coefficientOfVariation(longLegs.map((leg) => leg.speed));
+    if (speedCv < config.speedCvMax) {
+      flag('CONSTANT_SPEED', `${longLegs.length} travel legs at near-identical speed (variation ${(speedCv * 100).toFixed(1)}%)`);
+    }
+  }
+
+  // Shape: out-and-back excursions between distant places
+  let oscillations = 0;
+  for (let i = 0; i + 2 < sorted.length; i++) {
+    const [a, b, c] = [sorted[i], sorted[i + 1], sorted[i + 2]];
+    if (
+      Date.parse(c.timestamp) - Date.parse(a.timestamp) <= config.oscillationWindowMs &&
+      haversineDistanceMeters(a.lat, a.lon, b.lat, b.lon) >= config.oscillationMinM &&
+      haversineDistanceMeters(a.lat, a.lon, c.lat, c.lon) <= config.oscillationReturnM
+    ) {
+      oscillations++;
+    }
+  }
+  if (oscillations >= config.minOscillations) {
+    flag('OSCILLATION', `${oscillations} out-and-back jumps of ${config.oscillationMinM / 1000}+ km within an hour`);
+  }
+
+  // Shape: four consecutive proofs on a ruler-straight line
+  for (let i = 0; i + 3 < sorted.length; i++) {
+    const window = sorted.slice(i, i + 4);
+    const span = haversineDistanceMeters(window[0].lat, window[0].lon, window[3].lat, window[3].lon);
+    if (span >= config.straightPathMinM && crossTrackDeviation(window) <= config.straightPathToleranceM) {
+      flag('STRAIGHT_PATH', `Proofs on a straight line within ${config.straightPathToleranceM}m over ${(span / 1000).toFixed(1)} km`);
+      break;
+    }
+  }
+
+  // Timing: metronome intervals, or paced exactly at the moratorium
+  const intervals = legs.map((leg) => leg.intervalMs).filter((ms) => ms > 0);
+  if (intervals.length >= config.minProofs - 1) {
+    const intervalCv = coefficientOfVariation(intervals);
+    const paced = intervals.filter((ms) => Math.abs(ms - PROOF_MORATORIUM_MS) <= PROOF_MORATORIUM_MS * 0.1).length;
+    if (intervalCv < config.intervalCvMax) {
+      flag('REGULAR_TIMING', `${intervals.length} intervals with ${(intervalCv * 100).toFixed(1)}% variation`);
+    } else if (paced / intervals.length >= config.moratoriumPaceRatio) {
+      flag('REGULAR_TIMING', `${paced}/${intervals.length} intervals within 10% of the ${PROOF_MORATORIUM_MS}ms moratorium`);
+    }
+  }
+
+  // Device: accuracy never changes
+  const accuracies = sorted.map((p) => p.accuracy).filter((a): a is number => typeof a === 'number');
+  if (accuracies.length >= config.minProofs) {
+    const counts = new Map<number, number>();
+    for (const accuracy of accuracies) {
+      counts.set(accuracy, (counts.get(accuracy) ?? 0) + 1);
+    }
+    const [value, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (count / accuracies.length >= config.constantAccuracyRatio) {
+      flag('CONSTANT_ACCURACY', `Accuracy ${value}m on ${count}/${accuracies.length} proofs`);
+    }
+  }
+
+  // Device: bit-identical coordinates
+  const coordinates = new Map<string, number>();
+  for (const point of sorted) {
+    const key = `${point.lat},${point.lon}`;
+    coordinates.set(key, (coordinates.get(key) ?? 0) + 1);
+  }
+  const repeated = [...coordinates.values()].filter((n) => n > 1).reduce((sum, n) => sum + n, 0);
+  if (repeated / sorted.length >= config.repeatedCoordinateRatio) {
+    flag('REPEATED_COORDINATES', `${repeated}/${sorted.length} proofs share exact coordinates`);
+  }
+
+  result.riskScore = Math.min(100, result.flags.reduce((sum, f) => sum + f.weight, 0));
+  return result;
+}
+
+/**
+ * Load an account's click history as trajectory points.
+ */
+async function loadTrajectory(
+  filter: Record<string, any>,
+  sort: 1 | -1,
+  limit?: number
+): Promise<TrajectoryPoint[]> {
+  let query = TriangleEvent.find(filter, { timestamp: 1, 'payload.lat': 1, 'payload.lon': 1, 'payload.accuracy': 1 })
+    .sort({ timestamp: sort });
+  if (limit) {
+    query = query.limit(limit);
+  }
+
+  const events = await query.lean();
+  return events.map((event) => ({
+    lat: event.payload.lat ?? 0,
+    lon: event.payload.lon ?? 0,
+    accuracy: event.payload.accuracy,
+    timestamp: event.timestamp.toISOString(),
+  }));
+}
+
+/**
+ * Online check: a new proof against the account's recent history.
+ *
+ * @param account - Account address
+ * @param here - The proof being evaluated
+ * @param config - Optional configuration (uses defaults if not provided)
+ * @returns Trajectory result including the new proof
+ */
+export async function assessAccountTrajectory(
+  account: string,
+  here: TrajectoryPoint,
+  config: TrajectoryConfig = DEFAULT_TRAJECTORY_CONFIG
+): Promise<TrajectoryResult> {
+  const history = await loadTrajectory(
+    { account, eventType: 'click', timestamp: { $lte: new Date(here.timestamp) } },
+    -1,
+    config.historySize
+  );
+
+  return analyzeTrajectory([...history, here], config);
+}
+
+/**
+ * Offline analysis: rank accounts by trajectory risk.
+ *
+ * @param options - Time range, single account, minimum risk to report
+ * @param config - Optional configuration (uses defaults if not provided)
+ * @returns Per-account results, riskiest first
+ */
+export async function analyzeAccountTrajectories(
+  options: { since?: Date; until?: Date; account?: string; minRisk?: number } = {},
+  config: TrajectoryConfig = DEFAULT_TRAJECTORY_CONFIG
+): Promise<Array<{ account: string } & TrajectoryResult>> {
+  const filter: Record<string, any> = { eventType: 'click' };
+  if (options.since || options.until) {
+    filter.timestamp = {
+      ...(options.since && { $gte: options.since }),
+      ...(options.until && { $lt: options.until }),
+    };
+  }
+
+  const accounts: string[] = options.account
+    ? [options.account.toLowerCase()]
+    : await TriangleEvent.distinct('account', filter);
+
+  const results: Array<{ account: string } & TrajectoryResult> = [];
+  for (const account of accounts) {
+    const result = analyzeTrajectory(await loadTrajectory({ ...filter, account }, 1), config);
+    if (result.riskScore >= (options.minRisk ?? 0)) {
+      results.push({ account, ...result });
+    }
+  }
+
+  return results.sort((a, b) => b.riskScore - a.riskScore);
+}
+
+/**
+ * Get current configuration values.
+ *
+ * @returns Trajectory configuration
+ */
+export function getTrajectoryConfig(): TrajectoryConfig {
+  return { ...DEFAULT_TRAJECTORY_CONFIG };
+}
@@ -0,0 +1,195 @@
+/**
+ * Transfer Validation Module
+ *
+ * Verifies signed STEP transfers between accounts.
+ *
+ * Why EIP-191 (same as location proofs):
+ * - Wallets that sign proofs can sign transfers with no extra tooling
+ * - Prefix prevents a transfer signature from being a valid Ethereum tx
+ * - Distinct version string prevents proof/transfer signature confusion
+ *
+ * Replay Protection:
+ * - Nonce: Strictly increasing per sender (Account.nonce)
+ * - Timestamp: Signed transfers expire after TRANSFER_MAX_AGE_MS
+ * - Unique (from, nonce) index on the transfer ledger
+ *
+ * Configuration via environment:
+ * - TRANSFER_MAX_AGE_MS: Maximum age of a signed transfer (default: 300000 = 5 minutes)
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { hashMessageEip191, recoverAddressFromSig } from './signature.js';
+import { parseStepAmount } from '../state/amounts.js';
+
+// Configuration with defaults
+const TRANSFER_MAX_AGE_MS = parseInt(process.env.TRANSFER_MAX_AGE_MS || '300000', 10);
+
+/**
+ * Transfer Payload Interface (v1)
+ *
+ * Version: STEP-TRANSFER-v1
+ */
+export interface TransferPayload {
+  version: 'STEP-TRANSFER-v1';
+  from: string;           // Sender address (0x-prefixed, 42 chars)
+  to: string;             // Recipient address (0x-prefixed, 42 chars)
+  amount: string;         // Decimal STEP amount (e.g. "1.5", max 6 decimals)
+  nonce: number;          // Must be greater than sender's Account.nonce
+  timestamp: string;      // ISO 8601 UTC with milliseconds
+}
+
+/**
+ * Result of transfer payload validation.
+ */
+export interface TransferValidationResult {
+  ok: boolean;
+  amountUnits?: bigint;   // Parsed amount in micro-STEP
+  error?: string;
+}
+
+/**
+ * Build canonical signable message from transfer payload.
+ *
+ * Message format (strict order, no whitespace):
+ * STEP-TRANSFER-v1|from:{from}|to:{to}|amount:{amount}|nonce:{nonce}|ts:{timestamp}
+ *
+ * Addresses are lowercased so checksummed and plain forms sign identically.
+ *
+ * @param payload - Transfer payload
+ * @returns Canonical message string
+ */
+export function buildTransferMessage(payload: TransferPayload): string {
+  if (payload.version !== 'STEP-TRANSFER-v1') {
+    throw new Error(`Unsupported transfer version: ${payload.version}`);
+  }
+
+  return [
+    payload.version,
+    `from:${payload.from.toLowerCase()}`,
+    `to:${payload.to.toLowerCase()}`,
+    `amount:${payload.amount}`,
+    `nonce:${payload.nonce}`,
+    `ts:${payload.timestamp}`,
+  ].join('|');
+}
+
+/**
+ * Compute deterministic transfer ID.
+ *
+ * ID = keccak256(EIP-191 hash of canonical message), 0x-prefixed.
+ * Same signed transfer always maps to the same ledger entry.
+ *
+ * @param payload - Transfer payload
+ * @returns 0x-prefixed 32-byte hex ID
+ */
+export function computeTransferId(payload: TransferPayload): string {
+  const messageHash = hashMessageEip191(buildTransferMessage(payload));
+  return '0x' + Buffer.from(keccak_256(messageHash)).toString('hex');
+}
+
+/**
+ * Validate transfer payload fields (no signature, no DB).
+ *
+ * Checks:
+ * - Version, addresses, nonce type
+ * - Sender and recipient differ
+ * - Amount is a positive STEP amount with ≤ 6 decimals
+ * - Timestamp is within TRANSFER_MAX_AGE_MS of now (both directions)
+ *
+ * @param payload - Candidate transfer payload
+ * @param now - Current time in ms (injectable for testing)
+ * @returns Validation result with parsed amount
+ */
+export function validateTransferPayload(
+  payload: TransferPayload,
+  now: number = Date.now()
+): TransferValidationResult {
+  if (!payload || payload.version !== 'STEP-TRANSFER-v1') {
+    return { ok: false, error: `Unsupported transfer version: ${payload?.version}` };
+  }
+
+  const addressPattern = /^0x[a-fA-F0-9]{40}$/;
+  if (!addressPattern.test(payload.from) || !addressPattern.test(payload.to)) {
+    return { ok: false, error: 'from and to must be 42-char hex addresses starting with 0x' };
+  }
+
+  if (payload.from.toLowerCase() === payload.to.toLowerCase()) {
+    return { ok: false, error: 'Cannot transfer to the same account' };
+  }
+
+  if (!Number.isSafeInteger(payload.nonce) || payload.nonce < 1) {
+    return { ok: false, error: 'nonce must be a positive integer' };
+  }
+
+  let amountUnits: bigint;
+  try {
+    amountUnits = parseStepAmount(String(payload.amount));
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (amountUnits <= 0n) {
+    return { ok: false, error: 'amount must be greater than zero' };
+  }
+
+  const signedAt = new Date(payload.timestamp).getTime();
+  if (isNaN(signedAt)) {
+    return { ok: false, error: 'timestamp must be ISO 8601' };
+  }
+
+  if (Math.abs(now - signedAt) > TRANSFER_MAX_AGE_MS) {
+    return {
+      ok: false,
+      error: `Transfer timestamp outside ${(TRANSFER_MAX_AGE_MS / 1000).toFixed(0)}s window`,
+    };
+  }
+
+  return { ok: true, amountUnits };
+}
+
+/**
+ * Verify transfer signature was produced by payload.from.
+ *
+ * @param payload - Transfer payload
+ * @param signatureHex - 65-byte signature as hex string
+ * @returns Verification result with recovered address or error
+ */
+export async function verifyTransferSignature(
+  payload: TransferPayload,
+  signatureHex: string
+): Promise<{
+  ok: boolean;
+  recoveredAddress?: string;
+  error?: string;
+}> {
+  try {
+    const messageHash = hashMessageEip191(buildTransferMessage(payload));
+    const recoveredAddress = await recoverAddressFromSig(messageHash, signatureHex);
+
+    if (recoveredAddress.toLowerCase() !== payload.from.toLowerCase()) {
+      return {
+        ok: false,
+        recoveredAddress,
+        error: `Address mismatch: expected ${payload.from}, recovered ${recoveredAddress}`,
+      };
+    }
+
+    return { ok: true, recoveredAddress };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Get current configuration values.
+ *
+ * @returns Current env-based configuration
+ */
+export function getTransferConfig() {
+  return {
+    TRANSFER_MAX_AGE_MS,
+  };
+}
@@ -0,0 +1,534 @@
+/**
+ * Wi-Fi Access Point Verification Module
+ *
+ * Verifies GPS location against the positions of visible Wi-Fi access points.
+ *
+ * Why Wi-Fi Verification:
+ * - Access points are fixed and short-range (~50-150m indoors/outdoors)
+ * - Works indoors where GNSS is weak (complements cell tower check)
+ * - A spoofed GPS position rarely matches the real surrounding AP set
+ *
+ * Registry:
+ * - Local MongoDB collection wifi_registry (BSSID → lat/lon/accuracy)
+ * - Seeded from CSV (importWifiRegistryCsv, scripts/import-wifi-registry.ts)
+ * - Learns from high-confidence accepted proofs (learnWifiAccessPoints)
+ * - No external lookups: works offline
+ *
+ * Attack Detection:
+ * - Known AP registered 2km away from the claimed position → spoofed
+ * - Strong signal (≥ -60 dBm) from a distant AP → spoofed
+ * - Duplicate BSSIDs, impossible RSSI, identical RSSI across APs → fabricated scan
+ *
+ * Configuration via environment:
+ * - WIFI_AP_RANGE_M (default: 150)
+ * - WIFI_MIN_SCORE (default: 6)
+ * - WIFI_LEARN_MIN_CONFIDENCE (default: 85)
+ * - WIFI_LEARN_MAX_ACCURACY_M (default: 25)
+ *
+ * Security Impact: 10 points out of 100
+ *
+ * Phase: 2.5 Week 3
+ */
+
+import type { WifiAccessPoint } from './signature.js';
+import { WifiRegistryEntry, type IWifiRegistryEntry } from '../state/schemas.js';
+import { haversineDistanceMeters } from './geometry.js';
+
+/**
+ * Wi-Fi verification result
+ * Contains score (0-10) and detailed analysis
+ */
+export interface WifiResult {
+  score: number;              // 0-10 points
+  passed: boolean;            // true if score >= minScore
+  implausible: boolean;       // AP set contradicts claimed position or looks fabricated
+  reportedCount: number;      // Valid APs in the scan
+  knownCount: number;         // APs found in registry
+  consistentCount: number;    // Known APs within range of GPS position
+  estimatedLocation?: {
+    lat: number;
+    lon: number;
+  };
+  distance?: number;          // Distance between GPS and AP-estimated position (m)
+  issues: string[];
+  verifiedAt: string;         // ISO 8601 timestamp
+}
+
+/**
+ * Wi-Fi verification configuration
+ */
+export interface WifiConfig {
+  apRangeM: number;             // Max plausible AP-device distance (default: 150m)
+  excellentDistanceM: number;   // Estimated position this close = excellent (default: 50m)
+  strongRssiDbm: number;        // Signal this strong implies AP is very close (default: -60)
+  minRssiDbm: number;           // Weakest plausible RSSI (default: -100)
+  maxRssiDbm: number;           // Strongest plausible RSSI (default: -10)
+  maxAps: number;               // APs considered per scan (default: 50)
+  minScore: number;             // Minimum score to pass (default: 6)
+  learnMinConfidence: number;   // Proof confidence required to learn (default: 85)
+  learnMaxAccuracyM: number;    // GPS accuracy required to learn (default: 25m)
+  learnMaxWeight: number;       // Cap on observations weight, lets APs drift (default: 100)
+}
+
+/**
+ * Default Wi-Fi verification configuration
+ */
+export const DEFAULT_WIFI_CONFIG: WifiConfig = {
+  apRangeM: parseFloat(process.env.WIFI_AP_RANGE_M || '150'),
+  excellentDistanceM: 50,
+  strongRssiDbm: -60,
+  minRssiDbm: -100,
+  maxRssiDbm: -10,
+  maxAps: 50,
+  minScore: parseInt(process.env.WIFI_MIN_SCORE || '6', 10),
+  learnMinConfidence: parseInt(process.env.WIFI_LEARN_MIN_CONFIDENCE || '85', 10),
+  learnMaxAccuracyM: parseFloat(process.env.WIFI_LEARN_MAX_ACCURACY_M || '25'),
+  learnMaxWeight: 100,
+};
+
+/**
+ * Normalize a BSSID to lowercase colon-separated form.
+ *
+ * Accepts "AA:BB:CC:DD:EE:FF", "aa-bb-cc-dd-ee-ff" and "aabbccddeeff".
+ *
+ * @param bssid - Raw BSSID
+ * @returns Normalized BSSID, or null if malformed
+ */
+export function normalizeBssid(bssid: string): string | null {
+  const hex = String(bssid || '').toLowerCase().replace(/[:\-.]/g, '');
+  if (!/^[0-9a-f]{12}$/.test(hex)) {
+    return null;
+  }
+  if (hex === '000000000000' || hex === 'ffffffffffff') {
+    return null;
+  }
+  return hex.match(/.{2}/g)!.join(':');
+}
+
+/**
+ * Check for a locally administered (randomized/hotspot) BSSID.
+ *
+ * Phone hotspots and MAC-randomized APs move with their owner,
+ * so they say nothing about location and are never learned.
+ *
+ * @param bssid - Normalized BSSID
+ * @returns True if the locally administered bit is set
+ */
+export function isLocallyAdministered(bssid: string): boolean {
+  return (parseInt(bssid.slice(0, 2), 16) & 0x02) !== 0;
+}
+
+/**
+ * Validate and normalize a scan; collect fabrication indicators.
+ */
+function sanitizeScan(
+  aps: WifiAccessPoint[],
+  config: WifiConfig,
+  issues: string[]
+): { valid: Array<{ bssid: string; rssi: number; ssid?: string }>; fabricated: boolean } {
+  const valid: Array<{ bssid: string; rssi: number; ssid?: string }> = [];
+  const seen = new Set<string>();
+  let fabricated = false;
+  let malformed = 0;
+
+  for (const ap of aps.slice(0, config.maxAps)) {
+    const bssid = normalizeBssid(ap?.bssid);
+    if (!bssid || typeof ap.rssi !== 'number' || isNaN(ap.rssi)) {
+      malformed++;
+      continue;
+    }
+    if (seen.has(bssid)) {
+      issues.push(`Duplicate BSSID in scan: ${bssid}`);
+      fabricated = true;
+      continue;
+    }
+    if (ap.rssi < config.minRssiDbm || ap.rssi > config.maxRssiDbm) {
+      issues.push(`Implausible RSSI ${ap.rssi} dBm for ${bssid}`);
+      fabricated = true;
+      continue;
+    }
+    seen.add(bssid);
+    valid.push({ bssid, rssi: ap.rssi, ssid: ap.ssid });
+  }
+
+  if (malformed > 0) {
+    issues.push(`${malformed} malformed access point(s) ignored`);
+  }
+
+  // Real scans never report the exact same RSSI for every AP
+  if (valid.length >= 3 && valid.every((ap) => ap.rssi === valid[0].rssi)) {
+    issues.push('All access points report identical RSSI - scan looks fabricated');
+    fabricated = true;
+  }
+
+  return { valid, fabricated };
+}
+
+/**
+ * Verify Wi-Fi scan against the BSSID registry
+ *
+ * Workflow:
+ * 1. Normalize BSSIDs, reject fabricated scans
+ * 2. Look up known APs in the registry
+ * 3. Flag known APs out of range of the GPS position
+ * 4. Estimate position as RSSI-weighted centroid of consistent APs
+ * 5. Score by GPS ↔ estimate distance, bonus for corroborating APs
+ *
+ * @param aps - Wi-Fi scan from mobile device
+ * @param gpsLat - GPS latitude
+ * @param gpsLon - GPS longitude
+ * @param config - Optional configuration (uses defaults if not provided)
+ * @returns WifiResult with score 0-10
+ */
+export async function verifyWifi(
+  aps: WifiAccessPoint[] | undefined,
+  gpsLat: number,
+  gpsLon: number,
+  config: WifiConfig = DEFAULT_WIFI_CONFIG
+): Promise<WifiResult> {
+  const result: WifiResult = {
+    score: 0,
+    passed: false,
+    implausible: false,
+    reportedCount: 0,
+    knownCount: 0,
+    consistentCount: 0,
+    issues: [],
+    verifiedAt: new Date().toISOString(),
+  };
+
+  if (!aps || aps.length === 0) {
+    result.issues.push('Wi-Fi data not available');
+    return result;
+  }
+
+  const { valid, fabricated } = sanitizeScan(aps, config, result.issues);
+  result.reportedCount = valid.length;
+
+  if (fabricated) {
+    result.implausible = true;
+    return result;
+  }
+
+  if (valid.length === 0) {
+    result.issues.push('No valid access points in scan');
+    return result;
+  }
+
+  const entries = await WifiRegistryEntry.find({
+    _id: { $in: valid.map((ap) => ap.bssid) },
+  }).lean<IWifiRegistryEntry[]>();
+  const registry = new Map(entries.map((entry) => [entry._id, entry]));
+
+  const consistent: Array<{ lat: number; lon: number; weight: number }> = [];
+  const far: string[] = [];
+
+  for (const ap of valid) {
+    const entry = registry.get(ap.bssid);
+    if (!entry) {
+      continue;
+    }
+    result.knownCount++;
+
+    const distance = haversineDistanceMeters(gpsLat, gpsLon, entry.lat, entry.lon);
+    const allowed = config.apRangeM + entry.accuracy;
+
+    if (distance > allowed || (ap.rssi >= config.strongRssiDbm && distance > config.apRangeM)) {
+      far.push(ap.bssid);
+      result.issues.push(
+        `Access point ${ap.bssid} (${ap.rssi} dBm) is registered ${distance.toFixed(0)}m ` +
+        `from GPS position (max ${allowed.toFixed(0)}m)`
+      );
+      continue;
+    }
+
+    // Stronger signal = closer AP = more weight
+    consistent.push({ lat: entry.lat, lon: entry.lon, weight: Math.max(1, ap.rssi + 100) });
+  }
+
+  result.consistentCount = consistent.length;
+
+  if (result.knownCount === 0) {
+    result.issues.push('None of the reported access points are in the registry');
+    return result;
+  }
+
+  if (far.length * 2 > result.knownCount) {
+    result.implausible = true;
+    result.issues.push(
+      `${far.length}/${result.knownCount} known access points contradict GPS position - likely GPS spoofing`
+    );
+    return result;
+  }
+
+  const totalWeight = consistent.reduce((sum, c) => sum + c.weight, 0);
+  result.estimatedLocation = {
+    lat: consistent.reduce((sum, c) => sum + c.lat * c.weight, 0) / totalWeight,
+    lon: consistent.reduce((sum, c) => sum + c.lon * c.weight, 0) / totalWeight,
+  };
+  result.distance = haversineDistanceMeters(
+    gpsLat,
+    gpsLon,
+    result.estimatedLocation.lat,
+    result.estimatedLocation.lon
+  );
+
+  if (result.distance <= config.excellentDistanceM) {
+    result.score += 7;
+  } else if (result.distance <= config.apRangeM) {
+    result.score += 5;
+  } else {
+    result.score += 3;
+  }
+
+  // Bonus: corroborating APs (harder to fake consistently)
+  result.score += Math.min(consistent.length - 1, 3);
+
+  // Penalty: minority of contradicting APs (moved AP or stale registry)
+  result.score -= far.length * 2;
+
+  result.score = Math.max(0, Math.min(result.score, 10));
+  result.passed = result.score >= config.minScore;
+
+  return result;
+}
+
+/**
+ * Learn AP positions from an accepted proof
+ *
+ * Only high-confidence proofs with precise GPS teach the registry, and
+ * never from a scan that contradicted known APs (registry poisoning).
+ * Learned entries keep a running mean position capped at learnMaxWeight
+ * observations; imported entries are survey data and only get lastSeenAt.
+ *
+ * @param aps - Wi-Fi scan from the accepted proof
+ * @param gpsLat - Proof latitude
+ * @param gpsLon - Proof longitude
+ * @param gpsAccuracy - Proof GPS accuracy in meters
+ * @param confidence - Proof confidence score
+ * @param wifiResult - Result of verifyWifi for this scan
+ * @param config - Optional configuration (uses defaults if not provided)
+ * @returns Number of registry entries created or updated
+ */
+export async function learnWifiAccessPoints(
+  aps: WifiAccessPoint[],
+  gpsLat: number,
+  gpsLon: number,
+  gpsAccuracy: number,
+  confidence: number,
+  wifiResult: WifiResult,
+  config: WifiConfig = DEFAULT_WIFI_CONFIG
+): Promise<number> {
+  if (
+    confidence < config.learnMinConfidence ||
+    gpsAccuracy > config.learnMaxAccuracyM ||
+    wifiResult.implausible
+  ) {
+    return 0;
+  }
+
+  const { valid } = sanitizeScan(aps, config, []);
+  const candidates = valid.filter((ap) => !isLocallyAdministered(ap.bssid));
+  if (candidates.length === 0) {
+    return 0;
+  }
+
+  const now = new Date();
+  const entries = await WifiRegistryEntry.find({
+    _id: { $in: candidates.map((ap) => ap.bssid) },
+  }).lean<IWifiRegistryEntry[]>();
+  const registry = new Map(entries.map((entry) => [entry._id, entry]));
+
+  const ops: any[] = [];
+
+  for (const ap of candidates) {
+    const entry = registry.get(ap.bssid);
+
+    if (!entry) {
+      ops.push({
+        updateOne: {
+          filter: { _id: ap.bssid },
+          update: {
+            $setOnInsert: {
+              ssid: ap.ssid || null,
+              lat: gpsLat,
+              lon: gpsLon,
+              accuracy: config.apRangeM,
+              observations: 1,
+              source: 'learned',
+              lastSeenAt: now,
+            },
+          },
+          upsert: true,
+        },
+      });
+      continue;
+    }
+
+    const distance = haversineDistanceMeters(gpsLat, gpsLon, entry.lat, entry.lon);
+
+    if (entry.source === 'import' || distance > config.apRangeM + entry.accuracy) {
+      // Survey data is authoritative; far sightings are left for review
+      ops.push({
+        updateOne: { filter: { _id: ap.bssid }, update: { $set: { lastSeenAt: now } } },
+      });
+      continue;
+    }
+
+    const n = Math.min(entry.observations, config.learnMaxWeight);
+    ops.push({
+      updateOne: {
+        filter: { _id: ap.bssid },
+        update: {
+          $set: {
+            lat: (entry.lat * n + gpsLat) / (n + 1),
+            lon: (entry.lon * n + gpsLon) / (n + 1),
+            accuracy: (entry.accuracy * n + Math.max(gpsAccuracy, distance)) / (n + 1),
+            lastSeenAt: now,
+            ...(ap.ssid ? { ssid: ap.ssid } : {}),
+          },
+          $inc: { observations: 1 },
+        },
+      },
+    });
+  }
+
+  await WifiRegistryEntry.bulkWrite(ops, { ordered: false });
+  return ops.length;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields ("" = literal quote).
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+
+  return fields.map((f) => f.trim());
+}
+
+/**
+ * Import AP positions from CSV into the registry
+ *
+ * Format (header row required, column order free):
+ *   bssid,lat,lon[,accuracy][,ssid][,samples]
+ *
+ * - accuracy: position uncertainty in meters (default: apRangeM)
+ * - samples: observations behind the position (default: 1)
+ *
+ * Imported rows overwrite existing entries and are marked source=import.
+ *
+ * @param csv - CSV file contents
+ * @param config - Optional configuration (uses defaults if not provided)
+ * @returns Counts of imported and skipped rows with per-row errors
+ */
+export async function importWifiRegistryCsv(
+  csv: string,
+  config: WifiConfig = DEFAULT_WIFI_CONFIG
+): Promise<{ imported: number; skipped: number; errors: string[] }> {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return { imported: 0, skipped: 0, errors: ['Empty CSV'] };
+  }
+
+  const header = parseCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const col = (name: string) => header.indexOf(name);
+
+  if (col('bssid') < 0 || col('lat') < 0 || col('lon') < 0) {
+    return { imported: 0, skipped: lines.length - 1, errors: ['Header must include bssid, lat, lon'] };
+  }
+
+  const errors: string[] = [];
+  const now = new Date();
+  let ops: any[] = [];
+  let imported = 0;
+
+  for (let i = 1; i < lines.length; i++) {
+    const row = parseCsvLine(lines[i]);
+    const bssid = normalizeBssid(row[col('bssid')]);
+    const lat = parseFloat(row[col('lat')]);
+    const lon = parseFloat(row[col('lon')]);
+    const accuracy = col('accuracy') >= 0 && row[col('accuracy')]
+      ? parseFloat(row[col('accuracy')])
+      : config.apRangeM;
+    const samples = col('samples') >= 0 && row[col('samples')]
+      ? parseInt(row[col('samples')], 10)
+      : 1;
+
+    if (
+      !bssid ||
+      isNaN(lat) || lat < -90 || lat > 90 ||
+      isNaN(lon) || lon < -180 || lon > 180 ||
+      isNaN(accuracy) || accuracy < 0 ||
+      isNaN(samples) || samples < 0
+    ) {
+      if (errors.length < 100) {
+        errors.push(`Line ${i + 1}: invalid row`);
+      }
+      continue;
+    }
+
+    ops.push({
+      updateOne: {
+        filter: { _id: bssid },
+        update: {
+          $set: {
+            ssid: col('ssid') >= 0 && row[col('ssid')] ? row[col('ssid')] : null,
+            lat,
+            lon,
+            accuracy,
+            observations: samples,
+            source: 'import',
+            lastSeenAt: now,
+          },
+        },
+        upsert: true,
+      },
+    });
+
+    if (ops.length >= 1000) {
+      await WifiRegistryEntry.bulkWrite(ops, { ordered: false });
+      imported += ops.length;
+      ops = [];
+    }
+  }
+
+  if (ops.length > 0) {
+    await WifiRegistryEntry.bulkWrite(ops, { ordered: false });
+    imported += ops.length;
+  }
+
+  return { imported, skipped: lines.length - 1 - imported, errors };
+}
+
+/**
+ * Get current configuration values.
+ *
+ * @returns Wi-Fi configuration
+ */
+export function getWifiConfig(): WifiConfig {
+  return { ...DEFAULT_WIFI_CONFIG };
+}
@@ -0,0 +1,419 @@
+/**
+ * Witness Co-Attestation Verification Module
+ *
+ * Nearby accounts vouch for another account's location proof.
+ *
+ * Why Witnesses:
+ * - A spoofer must now also control (or fool) independent nearby devices
+ * - Each witness signs with its own wallet key, bound to one specific proof
+ * - Decentralized trust layer on top of device-level checks (Phase 3)
+ *
+ * Attestation (signed by the witness, EIP-191):
+ * STEP-WITNESS-v1|witness:{witness}|prover:{prover}|proof:{proofNonce}|triangle:{triangleId}|lat:{lat}|lon:{lon}|acc:{accuracy}|ts:{timestamp}
+ *
+ * - proof: the prover's proof nonce, so an attestation is valid for exactly one proof
+ * - triangle/lat/lon: the witness's own position
+ *
+ * Checks per attestation:
+ * - Signature recovers to the witness address
+ * - Witness ≠ prover; attestation references this proof (prover + nonce)
+ * - Witness is in the same triangle or an edge/vertex-adjacent one (same level)
+ * - Witness-prover distance ≤ maxDistanceM
+ * - |witness ts - proof ts| ≤ maxTimeDeltaMs and witness ts not older than maxAgeMs
+ * - Witness has at least minWitnessProofs accepted proofs (no fresh throwaway keys)
+ * - No witnessing ring: prover must not (transitively, within ringMaxDepth hops
+ *   and ringWindowMs) have witnessed for this witness
+ *
+ * Scoring (0-10):
+ * - score = weight × validWitnesses / minWitnesses (capped at weight)
+ * - passed when validWitnesses ≥ minWitnesses
+ *
+ * Configuration via environment:
+ * - WITNESS_MAX_DISTANCE_M (default: 200)
+ * - WITNESS_MAX_TIME_DELTA_MS (default: 120000)
+ * - WITNESS_MAX_AGE_MS (default: 300000)
+ * - WITNESS_MIN_COUNT (default: 2)
+ * - WITNESS_RING_WINDOW_MS (default: 86400000)
+ * - WITNESS_RING_MAX_DEPTH (default: 3)
+ *
+ * Phase: 3
+ */
+
+import type { ClientSession } from 'mongoose';
+import { TriangleEvent, WitnessAttestation } from '../state/schemas.js';
+import { hashMessageEip191, recoverAddressFromSig } from './signature.js';
+import { haversineDistanceMeters } from './geometry.js';
+import { decodeTriangleId } from '../mesh/addressing.js';
+import { triangleIdToVertices } from '../mesh/polygon.js';
+
+/**
+ * Witness attestation payload (signed by the witness).
+ */
+export interface WitnessAttestationPayload {
+  version: 'STEP-WITNESS-v1';
+  witness: string;        // Witness address (signer)
+  prover: string;         // Address of the account whose proof is witnessed
+  proofNonce: string;     // Nonce of the witnessed proof
+  triangleId: string;     // Witness's own triangle
+  lat: number;            // Witness latitude
+  lon: number;            // Witness longitude
+  accuracy: number;       // Witness GPS accuracy in meters
+  timestamp: string;      // ISO 8601 UTC with milliseconds
+}
+
+/**
+ * Attestation as submitted alongside a proof.
+ */
+export interface WitnessSubmission {
+  attestation: WitnessAttestationPayload;
+  signature: string;
+}
+
+/**
+ * Proof fields witnesses are checked against.
+ */
+export interface WitnessedProof {
+  account: string;
+  nonce: string;
+  triangleId: string;
+  lat: number;
+  lon: number;
+  timestamp: string;
+}
+
+/**
+ * Witness verification result
+ * Contains score (0-10) and per-witness outcome
+ */
+export interface WitnessResult {
+  score: number;              // 0-10 points
+  passed: boolean;            // true if valid witnesses >= minWitnesses
+  accepted: WitnessSubmission[];
+  rejected: Array<{ witness: string; reason: string }>;
+  issues: string[];
+  verifiedAt: string;         // ISO 8601 timestamp
+}
+
+/**
+ * Witness verification configuration
+ */
+export interface WitnessConfig {
+  maxDistanceM: number;       // Max witness-prover distance (default: 200m)
+  maxTimeDeltaMs: number;     // Max |witness ts - proof ts| (default: 2 min)
+  maxAgeMs: number;           // Max witness ts age at submission (default: 5 min)
+  minWitnesses: number;       // Valid witnesses for full score (default: 2)
+  maxWitnesses: number;       // Attestations considered per proof (default: 5)
+  minWitnessProofs: number;   // Accepted proofs a witness must have (default: 1)
+  ringWindowMs: number;       // Look-back for ring detection (default: 24h)
+  ringMaxDepth: number;       // Max hops in ring detection (default: 3)
+  weight: number;             // Score for a fully witnessed proof (default: 10)
+}
+
+/**
+ * Default witness verification configuration
+ *
+ * 200m covers the same or adjacent triangle at high levels and typical
+ * GPS error of two devices standing close together.
+ */
+export const DEFAULT_WITNESS_CONFIG: WitnessConfig = {
+  maxDistanceM: parseFloat(process.env.WITNESS_MAX_DISTANCE_M || '200'),
+  maxTimeDeltaMs: parseInt(process.env.WITNESS_MAX_TIME_DELTA_MS || '120000', 10),
+  maxAgeMs: parseInt(process.env.WITNESS_MAX_AGE_MS || '300000', 10),
+  minWitnesses: parseInt(process.env.WITNESS_MIN_COUNT || '2', 10),
+  maxWitnesses: 5,
+  minWitnessProofs: 1,
+  ringWindowMs: parseInt(process.env.WITNESS_RING_WINDOW_MS || '86400000', 10),
+  ringMaxDepth: parseInt(process.env.WITNESS_RING_MAX_DEPTH || '3', 10),
+  weight: 10,
+};
+
+/**
+ * Vertex comparison tolerance in degrees (~1cm).
+ * Shared vertices computed via different subdivision paths differ by float error.
+ */
+const VERTEX_EPSILON_DEG = 1e-7;
+
+/**
+ * Build canonical signable message for a witness attestation.
+ *
+ * @param attestation - Witness attestation payload
+ * @returns Canonical message string
+ */
+export function buildWitnessMessage(attestation: WitnessAttestationPayload): string {
+  if (attestation.version !== 'STEP-WITNESS-v1') {
+    throw new Error(`Unsupported witness version: ${attestation.version}`);
+  }
+
+  return [
+    attestation.version,
+    `witness:${attestation.witness.toLowerCase()}`,
+    `prover:${attestation.prover.toLowerCase()}`,
+    `proof:${attestation.proofNonce}`,
+    `triangle:${attestation.triangleId}`,
+    `lat:${attestation.lat}`,
+    `lon:${attestation.lon}`,
+    `acc:${attestation.accuracy}`,
+    `ts:${attestation.timestamp}`,
+  ].join('|');
+}
+
+/**
+ * Check whether two triangles are the same or share an edge/vertex.
+ *
+ * @param a - Encoded triangle ID
+ * @param b - Encoded triangle ID
+ * @returns True if same triangle or adjacent at the same level
+ */
+export function isSameOrAdjacentTriangle(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  const idA = decodeTriangleId(a);
+  const idB = decodeTriangleId(b);
+
+  if (idA.level !== idB.level) {
+    return false;
+  }
+
+  const verticesA = triangleIdToVertices(idA).map((p) => p.coordinates);
+  const verticesB = triangleIdToVertices(idB).map((p) => p.coordinates);
+
+  return verticesA.some(([lonA, latA]) =>
+    verticesB.some(([lonB, latB]) =>
+      Math.abs(latA - latB) < VERTEX_EPSILON_DEG && Math.abs(lonA - lonB) < VERTEX_EPSILON_DEG
+    )
+  );
+}
+
+/**
+ * Detect a witnessing ring.
+ *
+ * A new edge witness→prover closes a ring if prover already vouched
+ * (directly or through up to maxDepth-1 intermediaries) for witness.
+ *
+ * @param witness - Witness address (lowercase)
+ * @param prover - Prover address (lowercase)
+ * @param config - Witness configuration
+ * @returns True if a ring would be formed
+ */
+async function formsWitnessRing(
+  witness: string,
+  prover: string,
+  config: WitnessConfig
+): Promise<boolean> {
+  const since = new Date(Date.now() - config.ringWindowMs);
+  const visited = new Set<string>([prover]);
+  let frontier = [prover];
+
+  for (let depth = 0; depth < config.ringMaxDepth && frontier.length > 0; depth++) {
+    const edges = await WitnessAttestation.find({
+      witness: { $in: frontier },
+      createdAt: { $gte: since },
+    })
+      .select('prover')
+      .lean();
+
+    const next: string[] = [];
+    for (const edge of edges) {
+      if (edge.prover === witness) {
+        return true;
+      }
+      if (!visited.has(edge.prover)) {
+        visited.add(edge.prover);
+        next.push(edge.prover);
+      }
+    }
+    frontier = next;
+  }
+
+  return false;
+}
+
+/**
+ * Verify one attestation (everything except ring detection).
+ *
+ * @returns Rejection reason, or null if valid
+ */
+async function checkAttestation(
+  submission: WitnessSubmission,
+  proof: WitnessedProof,
+  config: WitnessConfig,
+  now: number
+): Promise<string | null> {
+  const a = submission.attestation;
+
+  if (!a || a.version !== 'STEP-WITNESS-v1') {
+    return `Unsupported witness version: ${a?.version}`;
+  }
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(a.witness || '')) {
+    return 'Invalid witness address';
+  }
+
+  if (a.witness.toLowerCase() === proof.account.toLowerCase()) {
+    return 'Self-witnessing is not allowed';
+  }
+
+  if (a.prover?.toLowerCase() !== proof.account.toLowerCase() || a.proofNonce !== proof.nonce) {
+    return 'Attestation does not reference this proof';
+  }
+
+  try {
+    const recovered = await recoverAddressFromSig(
+      hashMessageEip191(buildWitnessMessage(a)),
+      submission.signature
+    );
+    if (recovered !== a.witness.toLowerCase()) {
+      return 'Witness signature does not match witness address';
+    }
+  } catch (error) {
+    return `Invalid witness signature: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  const witnessedAt = new Date(a.timestamp).getTime();
+  const provedAt = new Date(proof.timestamp).getTime();
+  if (isNaN(witnessedAt)) {
+    return 'Invalid witness timestamp';
+  }
+  if (Math.abs(witnessedAt - provedAt) > config.maxTimeDeltaMs) {
+    return `Witness time differs from proof by more than ${config.maxTimeDeltaMs / 1000}s`;
+  }
+  if (now - witnessedAt > config.maxAgeMs) {
+    return 'Witness attestation expired';
+  }
+
+  const distance = haversineDistanceMeters(a.lat, a.lon, proof.lat, proof.lon);
+  if (distance > config.maxDistanceM) {
+    return `Witness is ${distance.toFixed(0)}m away (max ${config.maxDistanceM}m)`;
+  }
+
+  try {
+    if (!isSameOrAdjacentTriangle(a.triangleId, proof.triangleId)) {
+      return 'Witness triangle is not the same as or adjacent to the proof triangle';
+    }
+  } catch (error) {
+    return `Invalid witness triangle: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  const witnessProofs = await TriangleEvent.countDocuments({
+    account: { $in: [a.witness, a.witness.toLowerCase()] },
+    eventType: 'click',
+  });
+  if (witnessProofs < config.minWitnessProofs) {
+    return 'Witness has no accepted proofs';
+  }
+
+  return null;
+}
+
+/**
+ * Verify witness attestations for a proof.
+ *
+ * @param submissions - Attestations submitted with the proof
+ * @param proof - The witnessed proof
+ * @param config - Optional configuration (uses defaults if not provided)
+ * @returns WitnessResult with score, accepted and rejected witnesses
+ */
+export async function verifyWitnesses(
+  submissions: WitnessSubmission[],
+  proof: WitnessedProof,
+  config: WitnessConfig = DEFAULT_WITNESS_CONFIG
+): Promise<WitnessResult> {
+  const now = Date.now();
+  const accepted: WitnessSubmission[] = [];
+  const rejected: Array<{ witness: string; reason: string }> = [];
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  if (submissions.length > config.maxWitnesses) {
+    issues.push(`Only the first ${config.maxWitnesses} of ${submissions.length} witnesses were considered`);
+  }
+
+  for (const submission of submissions.slice(0, config.maxWitnesses)) {
+    const witness = String(submission?.attestation?.witness || '').toLowerCase();
+
+    if (seen.has(witness)) {
+      rejected.push({ witness, reason: 'Duplicate witness' });
+      continue;
+    }
+    seen.add(witness);
+
+    const reason = await checkAttestation(submission, proof, config, now);
+    if (reason) {
+      rejected.push({ witness, reason });
+      continue;
+    }
+
+    if (await formsWitnessRing(witness, proof.account.toLowerCase(), config)) {
+      rejected.push({ witness, reason: 'Witnessing ring detected (prover vouched for this witness)' });
+      continue;
+    }
+
+    accepted.push(submission);
+  }
+
+  if (rejected.length > 0) {
+    issues.push(`${rejected.length} witness attestation(s) rejected`);
+  }
+
+  const score = Math.min(
+    config.weight,
+    Math.round((config.weight * accepted.length) / Math.max(1, config.minWitnesses))
+  );
+
+  return {
+    score,
+    passed: accepted.length >= config.minWitnesses,
+    accepted,
+    rejected,
+    issues,
+    verifiedAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Persist accepted attestations (call inside the proof transaction).
+ *
+ * Stored edges feed ring detection for later proofs. The unique
+ * (witness, prover, proofNonce) index rejects attestation reuse.
+ *
+ * @param accepted - Attestations accepted by verifyWitnesses
+ * @param proof - The witnessed proof
+ * @param session - Mongo session of the proof transaction
+ */
+export async function recordWitnessAttestations(
+  accepted: WitnessSubmission[],
+  proof: WitnessedProof,
+  session?: ClientSession
+): Promise<void> {
+  if (accepted.length === 0) {
+    return;
+  }
+
+  await WitnessAttestation.create(
+    accepted.map(({ attestation: a, signature }) => ({
+      _id: '0x' + Buffer.from(hashMessageEip191(buildWitnessMessage(a))).toString('hex'),
+      witness: a.witness.toLowerCase(),
+      prover: proof.account.toLowerCase(),
+      proofNonce: proof.nonce,
+      triangleId: a.triangleId,
+      proofTriangleId: proof.triangleId,
+      lat: a.lat,
+      lon: a.lon,
+      accuracy: a.accuracy,
+      timestamp: new Date(a.timestamp),
+      signature,
+    })),
+    { session, ordered: true }
+  );
+}
+
+/**
+ * Get current configuration values.
+ *
+ * @returns Witness configuration
+ */
+export function getWitnessConfig(): WitnessConfig {
+  return { ...DEFAULT_WITNESS_CONFIG };
+}
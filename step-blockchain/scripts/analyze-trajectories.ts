@@ -0,0 +1,96 @@
+/**
+ * Analyze Trajectories
+ *
+ * Purpose: Offline trajectory anomaly scan over accounts' proof histories
+ * (core/validator/trajectory.ts). Ranks accounts by risk score; read-only.
+ *
+ * Usage:
+ *   npm run analyze:trajectories
+ *   npm run analyze:trajectories -- --since 2025-10-01 --min-risk 40 --out risk.json
+ *   npm run analyze:trajectories -- --account 0xabc...
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { writeFileSync } from 'fs';
+import { connectToDb, closeDb } from '../core/db';
+import { analyzeAccountTrajectories } from '../core/validator/trajectory';
+
+const USAGE =
+  'Usage: npm run analyze:trajectories -- [--since <ISO date>] [--until <ISO date>] ' +
+  '[--account <address>] [--min-risk <0-100>] [--out <report.json>]';
+
+type Options = Parameters<typeof analyzeAccountTrajectories>[0];
+
+async function analyzeTrajectories(options: Options, out?: string) {
+  try {
+    console.log('[analyze-trajectories] Connecting to MongoDB...');
+    await connectToDb();
+
+    const results = await analyzeAccountTrajectories(options);
+
+    console.log(`[analyze-trajectories] ${results.length} accounts with risk ≥ ${options?.minRisk ?? 0}`);
+    for (const result of results.slice(0, 50)) {
+      const codes = result.flags.map((f) => f.code).join(', ') || 'none';
+      console.log(
+        `[analyze-trajectories] ${result.riskScore >= 50 ? '⚠️ ' : '  '} ${result.account} ` +
+          `risk ${result.riskScore} (${result.proofCount} proofs): ${codes}`
+      );
+    }
+    if (results.length > 50) {
+      console.log(`[analyze-trajectories]   ... ${results.length - 50} more (use --out for the full list)`);
+    }
+
+    if (out) {
+      writeFileSync(out, JSON.stringify(results, null, 2));
+      console.log(`[analyze-trajectories] Report written to ${out}`);
+    }
+  } catch (error) {
+    console.error('[analyze-trajectories] ❌ Error:', error);
+    throw error;
+  } finally {
+    await closeDb();
+    console.log('[analyze-trajectories] Done');
+  }
+}
+
+/**
+ * Read the value following a flag.
+ */
+function flag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Run if called directly
+if (require.main === module) {
+  const args = process.argv.slice(2);
+
+  const since = flag(args, '--since');
+  const until = flag(args, '--until');
+  const minRisk = flag(args, '--min-risk');
+
+  const options: Options = {
+    since: since ? new Date(since) : undefined,
+    until: until ? new Date(until) : undefined,
+    account: flag(args, '--account'),
+    minRisk: minRisk ? parseInt(minRisk, 10) : 1,
+  };
+
+  if (
+    (options.since && isNaN(options.since.getTime())) ||
+    (options.until && isNaN(options.until.getTime())) ||
+    isNaN(options.minRisk!)
+  ) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  analyzeTrajectories(options, flag(args, '--out'))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
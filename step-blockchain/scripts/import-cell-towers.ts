@@ -0,0 +1,71 @@
+/**
+ * Import Cell Towers
+ *
+ * Purpose: Load an OpenCellID CSV dump into the cell_towers collection so
+ * the cell tower validator can resolve locations without network access.
+ *
+ * Dumps: https://opencellid.org/downloads.php (cell_towers.csv.gz or per-MCC files)
+ * Gzipped files (.gz) are decompressed on the fly.
+ *
+ * Usage:
+ *   npm run import:cells -- path/to/cell_towers.csv.gz
+ *   npm run import:cells -- path/to/cell_towers.csv.gz --mcc 216,231
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { createReadStream } from 'fs';
+import { createGunzip } from 'zlib';
+import { createInterface } from 'readline';
+import { connectToDb, closeDb } from '../core/db';
+import { importCellTowersCsv } from '../core/validator/cell-registry';
+
+async function importCellTowers(file: string, mccFilter: number[]) {
+  console.log(`[import-cell-towers] Reading ${file}...`);
+  if (mccFilter.length > 0) {
+    console.log(`[import-cell-towers] MCC filter: ${mccFilter.join(', ')}`);
+  }
+
+  try {
+    console.log('[import-cell-towers] Connecting to MongoDB...');
+    await connectToDb();
+
+    const stream = file.endsWith('.gz')
+      ? createReadStream(file).pipe(createGunzip())
+      : createReadStream(file);
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+
+    const result = await importCellTowersCsv(lines, mccFilter);
+
+    console.log(`[import-cell-towers] ✅ Imported ${result.imported} cells (${result.skipped} skipped)`);
+  } catch (error) {
+    console.error('[import-cell-towers] ❌ Error:', error);
+    throw error;
+  } finally {
+    await closeDb();
+    console.log('[import-cell-towers] Done');
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const file = args.find((arg) => !arg.startsWith('--') && args[args.indexOf(arg) - 1] !== '--mcc');
+  const mccIndex = args.indexOf('--mcc');
+  const mccFilter = mccIndex >= 0 && args[mccIndex + 1]
+    ? args[mccIndex + 1].split(',').map((m) => parseInt(m, 10)).filter((m) => !isNaN(m))
+    : [];
+
+  if (!file) {
+    console.error('Usage: npm run import:cells -- <cell_towers.csv[.gz]> [--mcc 216,231]');
+    process.exit(1);
+  }
+
+  importCellTowers(file, mccFilter)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,59 @@
+/**
+ * Import Wi-Fi Registry
+ *
+ * Purpose: Load known access point positions (BSSID → lat/lon) from CSV
+ * into the wifi_registry collection used by the Wi-Fi validator.
+ *
+ * CSV format (header row required):
+ *   bssid,lat,lon[,accuracy][,ssid][,samples]
+ *
+ * Usage:
+ *   npm run import:wifi -- path/to/access-points.csv
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { readFileSync } from 'fs';
+import { connectToDb, closeDb } from '../core/db';
+import { importWifiRegistryCsv } from '../core/validator/wifi';
+
+async function importWifiRegistry(file: string) {
+  console.log(`[import-wifi-registry] Reading ${file}...`);
+  const csv = readFileSync(file, 'utf8');
+
+  try {
+    console.log('[import-wifi-registry] Connecting to MongoDB...');
+    await connectToDb();
+
+    const result = await importWifiRegistryCsv(csv);
+
+    console.log(`[import-wifi-registry] ✅ Imported ${result.imported} access points (${result.skipped} skipped)`);
+    for (const error of result.errors) {
+      console.warn(`[import-wifi-registry] ⚠️  ${error}`);
+    }
+  } catch (error) {
+    console.error('[import-wifi-registry] ❌ Error:', error);
+    throw error;
+  } finally {
+    await closeDb();
+    console.log('[import-wifi-registry] Done');
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  const file = process.argv[2];
+
+  if (!file) {
+    console.error('Usage: npm run import:wifi -- <file.csv>');
+    process.exit(1);
+  }
+
+  importWifiRegistry(file)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,192 @@
+/**
+ * Play Integrity Test Vectors
+ *
+ * Purpose: Generate and check test vectors for core/validator/play-integrity.ts.
+ * Vectors are produced with our own throwaway keys (NOT Play Console keys)
+ * in Google's token format: JWE (A256KW/A256GCM) wrapping a JWS (ES256).
+ *
+ * Usage:
+ *   npm run vectors:play-integrity            # verify scripts/vectors/play-integrity.json
+ *   npx tsx scripts/play-integrity-vectors.ts generate   # regenerate (new keys)
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import {
+  encodePlayIntegrityToken,
+  parseVerificationKey,
+  verifyPlayIntegrityToken,
+  PlayIntegrityError,
+} from '../core/validator/play-integrity';
+
+const VECTORS_FILE = join(__dirname, 'vectors', 'play-integrity.json');
+const PACKAGE_NAME = 'com.stepblockchain.app';
+const NOW = 1760000000000; // Fixed verification time for all vectors
+const PROOF_NONCE = '550e8400-e29b-41d4-a716-446655440000';
+
+interface Vector {
+  name: string;
+  token: string;
+  proofNonce: string;
+  now: number;
+  expect: 'ok' | string; // 'ok' or PlayIntegrityErrorCode
+}
+
+/**
+ * Token payload in Play Integrity format.
+ */
+function integrityPayload(overrides: { nonce?: string; timestampMillis?: number; packageName?: string } = {}) {
+  return {
+    requestDetails: {
+      requestPackageName: overrides.packageName ?? PACKAGE_NAME,
+      nonce: overrides.nonce ?? PROOF_NONCE,
+      timestampMillis: String(overrides.timestampMillis ?? NOW - 5000),
+    },
+    appIntegrity: {
+      appRecognitionVerdict: 'PLAY_RECOGNIZED',
+      packageName: PACKAGE_NAME,
+      certificateSha256Digest: ['6a6a1474b5cbbb2b1aa57e0bc3'],
+      versionCode: '42',
+    },
+    deviceIntegrity: {
+      deviceRecognitionVerdict: ['MEETS_DEVICE_INTEGRITY'],
+    },
+    accountDetails: {
+      appLicensingVerdict: 'LICENSED',
+    },
+  };
+}
+
+/**
+ * Flip one character of a token segment.
+ */
+function tamper(token: string, segment: number): string {
+  const parts = token.split('.');
+  const s = parts[segment];
+  const i = Math.floor(s.length / 2);
+  parts[segment] = s.slice(0, i) + (s[i] === 'A' ? 'B' : 'A') + s.slice(i + 1);
+  return parts.join('.');
+}
+
+function generate() {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const { privateKey: otherPrivateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const decryptionKey = randomBytes(32);
+  const otherDecryptionKey = randomBytes(32);
+
+  const hashedNonce = createHash('sha256').update(PROOF_NONCE, 'utf8').digest('base64url');
+  const valid = encodePlayIntegrityToken(integrityPayload(), privateKey, decryptionKey);
+  const validJws = encodePlayIntegrityToken(integrityPayload(), privateKey);
+  const unsigned =
+    Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url') + '.' +
+    Buffer.from(JSON.stringify(integrityPayload())).toString('base64url') + '.';
+  const forged =
+    Buffer.from(JSON.stringify({ alg: 'ES256' })).toString('base64url') + '.' +
+    Buffer.from(JSON.stringify(integrityPayload())).toString('base64url') + '.' +
+    randomBytes(64).toString('base64url');
+
+  const vector = (name: string, token: string, expect: string, proofNonce = PROOF_NONCE): Vector => ({
+    name,
+    token,
+    proofNonce,
+    now: NOW,
+    expect,
+  });
+
+  const vectors: Vector[] = [
+    vector('valid JWE, raw proof nonce', valid, 'ok'),
+    vector(
+      'valid JWE, hashed proof nonce',
+      encodePlayIntegrityToken(integrityPayload({ nonce: hashedNonce }), privateKey, decryptionKey),
+      'ok'
+    ),
+    vector('valid bare JWS', validJws, 'ok'),
+    vector('signed with another key', encodePlayIntegrityToken(integrityPayload(), otherPrivateKey, decryptionKey), 'BAD_SIGNATURE'),
+    vector('encrypted with another key', encodePlayIntegrityToken(integrityPayload(), privateKey, otherDecryptionKey), 'DECRYPTION_FAILED'),
+    vector('tampered ciphertext', tamper(valid, 3), 'DECRYPTION_FAILED'),
+    vector('tampered JWS payload', tamper(validJws, 1), 'BAD_SIGNATURE'),
+    vector('hand-crafted token with random signature', forged, 'BAD_SIGNATURE'),
+    vector('unsigned token (alg none)', unsigned, 'UNSUPPORTED_ALGORITHM'),
+    vector('token for another proof', valid, 'NONCE_MISMATCH', '6ba7b810-9dad-11d1-80b4-00c04fd430c8'),
+    vector(
+      'stale token (10 minutes old)',
+      encodePlayIntegrityToken(integrityPayload({ timestampMillis: NOW - 600000 }), privateKey, decryptionKey),
+      'STALE'
+    ),
+    vector(
+      'token from the future (5 minutes ahead)',
+      encodePlayIntegrityToken(integrityPayload({ timestampMillis: NOW + 300000 }), privateKey, decryptionKey),
+      'FROM_FUTURE'
+    ),
+    vector(
+      'token for another package',
+      encodePlayIntegrityToken(integrityPayload({ packageName: 'com.attacker.app' }), privateKey, decryptionKey),
+      'PACKAGE_MISMATCH'
+    ),
+    vector('not a token', 'MOCK_ATTESTATION_android_550e8400', 'MALFORMED'),
+  ];
+
+  mkdirSync(join(__dirname, 'vectors'), { recursive: true });
+  writeFileSync(
+    VECTORS_FILE,
+    JSON.stringify(
+      {
+        description: 'Play Integrity token vectors generated with throwaway local keys (not Play Console keys)',
+        packageName: PACKAGE_NAME,
+        keys: {
+          decryptionKey: decryptionKey.toString('base64'),
+          verificationKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+        },
+        vectors,
+      },
+      null,
+      2
+    ) + '\n'
+  );
+
+  console.log(`[play-integrity-vectors] ✅ Wrote ${vectors.length} vectors to ${VECTORS_FILE}`);
+}
+
+function verify(): boolean {
+  const file = JSON.parse(readFileSync(VECTORS_FILE, 'utf8'));
+  const keys = {
+    decryptionKey: Buffer.from(file.keys.decryptionKey, 'base64'),
+    verificationKey: parseVerificationKey(file.keys.verificationKey),
+  };
+
+  let failures = 0;
+
+  for (const v of file.vectors as Vector[]) {
+    let outcome = 'ok';
+    try {
+      verifyPlayIntegrityToken(v.token, {
+        expectedPackageName: file.packageName,
+        expectedNonce: v.proofNonce,
+        keys,
+        now: v.now,
+        maxAgeMs: 300000,
+        maxFutureSkewMs: 60000,
+      });
+    } catch (error) {
+      outcome = error instanceof PlayIntegrityError ? error.code : `THROWN: ${error}`;
+    }
+
+    const pass = outcome === v.expect;
+    if (!pass) {
+      failures++;
+    }
+    console.log(`[play-integrity-vectors] ${pass ? '✅' : '❌'} ${v.name}: ${outcome} (expected ${v.expect})`);
+  }
+
+  console.log(`[play-integrity-vectors] ${file.vectors.length - failures}/${file.vectors.length} vectors passed`);
+  return failures === 0;
+}
+
+// Run if called directly
+if (require.main === module) {
+  if (process.argv[2] === 'generate') {
+    generate();
+  }
+  process.exit(verify() ? 0 : 1);
+}
@@ -0,0 +1,293 @@
+/**
+ * Proof Concurrency Suite
+ *
+ * Purpose: Show that concurrent proofs cannot bypass the checks that
+ * evaluateProof runs before the transaction:
+ * - Per-account serialization (core/validator/account-lock.ts): concurrent
+ *   proofs of one account from different cities must not all be accepted
+ * - Triangle lifecycle re-check inside the transaction: concurrent clicks
+ *   of different accounts on one triangle must not all pass its cooldown,
+ *   overwrite each other's click count or subdivide it twice
+ *
+ * Each scenario loads its triangles and pre-checks its proofs outside the
+ * transaction (as evaluateProof does), then commits them concurrently
+ * through the real commitProof() of api/proof.ts.
+ *
+ * Needs MongoDB with transactions (replica set). Creates throwaway
+ * accounts and triangles (random deep mesh paths; the run stops if one
+ * already exists) and removes them afterwards; point MONGODB_URI at a test
+ * database anyway.
+ *
+ * Usage:
+ *   npm run check:proof-concurrency
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { randomBytes, randomInt, randomUUID } from 'crypto';
+import { connectToDb, closeDb } from '../core/db';
+import { Account, Triangle, TriangleEvent, type ITriangle } from '../core/state/schemas';
+import { buildTriangle } from '../core/state/materialize';
+import { decodeTriangleId, type TriangleId } from '../core/mesh/addressing';
+import { checkMineable } from '../core/state/triangle-lifecycle';
+import { computeConfidence, type ValidationResults } from '../core/validator/confidence';
+import { resolveConfidencePolicy } from '../core/validator/confidence-policy';
+import {
+  checkAccountMovement,
+  ProofConflictError,
+  type MovementPoint,
+  type ProofConflictCode,
+} from '../core/validator/account-lock';
+import { commitProof } from '../api/proof';
+
+const BUDAPEST = { lat: 47.4979, lon: 19.0402 };
+const VIENNA = { lat: 48.2082, lon: 16.3738 };
+const BASE_TIME = Date.parse('2025-10-03T12:00:00.000Z');
+
+type Outcome = 'accepted' | ProofConflictCode | 'PRECHECK_REJECTED';
+
+interface Scenario {
+  name: string;
+  triangles: Array<{ level: number; clicks: number }>;  // Created fresh for the scenario
+  proofs: Array<{ account: number; triangle: number; point: MovementPoint }>;  // Indexes into scenario accounts / triangles
+  expectAccepted: number;
+}
+
+const accounts: string[] = [];
+const triangleIds: string[] = [];
+
+function newAccount(): string {
+  const account = `0x${randomBytes(20).toString('hex')}`;
+  accounts.push(account);
+  return account;
+}
+
+/**
+ * Create a mineable triangle on a random deep mesh path.
+ */
+async function newTriangle(level: number, clicks: number): Promise<string> {
+  const id: TriangleId = {
+    face: randomInt(20),
+    level,
+    path: Array.from({ length: level - 1 }, () => randomInt(4)),
+  };
+
+  // Moratorium and cooldown of the last click long over
+  const triangle = buildTriangle(id, new Date(0));
+  if (await Triangle.exists({ _id: triangle._id })) {
+    throw new Error(`Test triangle ${triangle._id} already exists; use a test database`);
+  }
+  triangle.state = clicks > 0 ? 'partially_mined' : 'active';
+  triangle.clicks = clicks;
+  triangle.lastClickAt = clicks > 0 ? new Date(0) : null;
+  await triangle.save();
+
+  triangleIds.push(triangle._id);
+  return triangle._id;
+}
+
+function at(place: { lat: number; lon: number }, offsetMs: number): MovementPoint {
+  return { ...place, timestamp: new Date(BASE_TIME + offsetMs).toISOString() };
+}
+
+/**
+ * Commit one proof through commitProof, from a triangle loaded before any
+ * proof of the scenario committed (as evaluateProof would have).
+ */
+async function commitTestProof(account: string, point: MovementPoint, triangle: ITriangle): Promise<Outcome> {
+  const nonce = randomUUID();
+  const validationResults: ValidationResults = {
+    signatureValid: true,
+    gpsAccuracyOk: true,
+    speedGateOk: true,
+    moratoriumOk: true,
+    attestationValid: false,
+    gnssRawOk: false,
+    cellTowerOk: false,
+    wifiOk: false,
+    witnessValid: false,
+  };
+  const policy = resolveConfidencePolicy({ ...point, triangle: decodeTriangleId(triangle._id) });
+  const confidenceResult = computeConfidence(validationResults, policy.config);
+
+  try {
+    await commitProof(
+      {
+        payload: {
+          version: 'STEP-PROOF-v1',
+          account,
+          triangleId: triangle._id,
+          lat: point.lat,
+          lon: point.lon,
+          accuracy: 5,
+          timestamp: point.timestamp,
+          nonce,
+        },
+        signature: '0x',
+        account,
+        nonce,
+        lat: point.lat,
+        lon: point.lon,
+        accuracy: 5,
+        proofTimestamp: point.timestamp,
+        challengeBound: false,
+        offline: false,
+        triangleId: triangle._id,
+        triangle,
+        validationResults,
+        confidenceResult,
+        confidenceScore: confidenceResult.total,
+        policy,
+      },
+      new Date().toISOString()
+    );
+    return 'accepted';
+  } catch (error) {
+    if (error instanceof ProofConflictError) {
+      return error.code;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Pre-check all proofs, then commit the survivors concurrently.
+ */
+async function runScenario(scenario: Scenario): Promise<boolean> {
+  const scenarioAccounts: string[] = [];
+  const accountFor = (i: number) => (scenarioAccounts[i] ??= newAccount());
+
+  const scenarioTriangles: string[] = [];
+  for (const { level, clicks } of scenario.triangles) {
+    scenarioTriangles.push(await newTriangle(level, clicks));
+  }
+
+  // Separate documents per proof, all read before the first commit
+  const loaded = await Promise.all(
+    scenario.proofs.map(({ triangle }) => Triangle.findById(scenarioTriangles[triangle]).orFail())
+  );
+
+  const prechecks = await Promise.all(
+    scenario.proofs.map(({ account, point }) => checkAccountMovement(accountFor(account), point))
+  );
+
+  const outcomes = await Promise.all(
+    scenario.proofs.map(({ account, point }, i): Promise<Outcome> =>
+      prechecks[i].speedError || prechecks[i].moratoriumError || !checkMineable(loaded[i]).ok
+        ? Promise.resolve('PRECHECK_REJECTED')
+        : commitTestProof(accountFor(account), point, loaded[i])
+    )
+  );
+
+  const accepted = outcomes.filter((outcome) => outcome === 'accepted').length;
+  let pass = accepted === scenario.expectAccepted;
+
+  // Every accepted click is counted exactly once, and a triangle subdivides at most once
+  for (const [t, { clicks }] of scenario.triangles.entries()) {
+    const expected = clicks + scenario.proofs.filter((p, i) => p.triangle === t && outcomes[i] === 'accepted').length;
+    const stored = await Triangle.findById(scenarioTriangles[t]).orFail().lean();
+    const subdivisions = await TriangleEvent.countDocuments({ triangleId: stored._id, eventType: 'subdivide' });
+
+    if (stored.clicks !== expected || subdivisions > 1) {
+      console.log(
+        `[proof-concurrency]    triangle ${t}: ${stored.clicks} clicks (expected ${expected}), ${subdivisions} subdivisions`
+      );
+      pass = false;
+    }
+  }
+
+  console.log(
+    `[proof-concurrency] ${pass ? '✅' : '❌'} ${scenario.name}: ${accepted} accepted ` +
+      `(expected ${scenario.expectAccepted}) [${outcomes.join(', ')}]`
+  );
+  return pass;
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: 'teleport: Budapest and Vienna 1s apart',
+    triangles: [{ level: 21, clicks: 0 }, { level: 21, clicks: 0 }],
+    proofs: [
+      { account: 0, triangle: 0, point: at(BUDAPEST, 0) },
+      { account: 0, triangle: 1, point: at(VIENNA, 1000) },
+    ],
+    expectAccepted: 1,
+  },
+  {
+    name: 'teleport burst: 5 cities-apart proofs',
+    triangles: [0, 1, 2, 3, 4].map(() => ({ level: 21, clicks: 0 })),
+    proofs: [0, 1, 2, 3, 4].map((i) => ({ account: 0, triangle: i, point: at(i % 2 ? VIENNA : BUDAPEST, i * 1000) })),
+    expectAccepted: 1,
+  },
+  {
+    name: 'moratorium: same place 1s apart',
+    triangles: [{ level: 21, clicks: 0 }, { level: 21, clicks: 0 }],
+    proofs: [
+      { account: 0, triangle: 0, point: at(BUDAPEST, 0) },
+      { account: 0, triangle: 1, point: at(BUDAPEST, 1000) },
+    ],
+    expectAccepted: 1,
+  },
+  {
+    name: 'different accounts on different triangles are not serialized',
+    triangles: [0, 1, 2].map(() => ({ level: 21, clicks: 0 })),
+    proofs: [
+      { account: 0, triangle: 0, point: at(BUDAPEST, 0) },
+      { account: 1, triangle: 1, point: at(VIENNA, 0) },
+      { account: 2, triangle: 2, point: at(BUDAPEST, 0) },
+    ],
+    expectAccepted: 3,
+  },
+  {
+    name: 'different accounts, same triangle: one click per cooldown',
+    triangles: [{ level: 21, clicks: 20 }],  // Click 21 locks click 22 for ~2.9h
+    proofs: [0, 1, 2].map((account) => ({ account, triangle: 0, point: at(BUDAPEST, 0) })),
+    expectAccepted: 1,
+  },
+  {
+    name: 'different accounts, same triangle: subdivides once',
+    triangles: [{ level: 10, clicks: 10 }],  // Click 11 subdivides
+    proofs: [0, 1, 2].map((account) => ({ account, triangle: 0, point: at(BUDAPEST, 0) })),
+    expectAccepted: 1,
+  },
+  {
+    name: 'legitimate movement: Budapest then Vienna 5h later',
+    triangles: [{ level: 21, clicks: 0 }, { level: 21, clicks: 0 }],
+    proofs: [
+      { account: 0, triangle: 0, point: at(BUDAPEST, 0) },
+      { account: 0, triangle: 1, point: at(VIENNA, 5 * 3600000) },
+    ],
+    expectAccepted: 2,
+  },
+];
+
+async function proofConcurrency(): Promise<boolean> {
+  try {
+    console.log('[proof-concurrency] Connecting to MongoDB...');
+    await connectToDb();
+
+    let allPassed = true;
+    for (const scenario of SCENARIOS) {
+      allPassed = (await runScenario(scenario)) && allPassed;
+    }
+
+    console.log(`[proof-concurrency] ${allPassed ? '✅ All scenarios passed' : '❌ Some scenarios failed'}`);
+    return allPassed;
+  } finally {
+    await TriangleEvent.deleteMany({ $or: [{ account: { $in: accounts } }, { triangleId: { $in: triangleIds } }] });
+    await Triangle.deleteMany({ $or: [{ _id: { $in: triangleIds } }, { parentId: { $in: triangleIds } }] });
+    await Account.deleteMany({ _id: { $in: accounts } });
+    await closeDb();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  proofConcurrency()
+    .then((passed) => process.exit(passed ? 0 : 1))
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,122 @@
+/**
+ * Re-score Proofs
+ *
+ * Purpose: Replay the validation evidence of past proofs under a candidate
+ * confidence policy and report which rewards would flip (accepted then,
+ * rejected now). Read-only; nothing in the database changes.
+ *
+ * The candidate is the --policy document, else CONFIDENCE_POLICY_FILE, else
+ * the env confidence config alone (CONFIDENCE_* weights/threshold apply as
+ * the base in every case).
+ *
+ * Validator plugins named in VALIDATOR_PLUGINS are loaded first, so stored
+ * plugin outcomes are scored as the API scores them.
+ *
+ * Usage:
+ *   npm run rescore -- --policy policy.next.json
+ *   npm run rescore -- --policy policy.next.json --since 2025-10-01 --until 2025-11-01
+ *   npm run rescore -- --account 0xabc... --limit 1000 --out report.json
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { writeFileSync } from 'fs';
+import { connectToDb, closeDb } from '../core/db';
+import { loadPolicyDocument } from '../core/validator/confidence-policy';
+import { loadValidatorPlugins } from '../core/validator/plugins';
+import { rescoreProofEvents, type RescoreOptions } from '../core/validator/evidence';
+
+const USAGE =
+  'Usage: npm run rescore -- [--policy <file.json>] [--since <ISO date>] [--until <ISO date>] ' +
+  '[--account <address>] [--limit <n>] [--out <report.json>]';
+
+async function rescoreProofs(options: RescoreOptions, out?: string) {
+  console.log(`[rescore-proofs] Candidate policy: ${options.document?.version ?? 'env'}`);
+
+  try {
+    console.log('[rescore-proofs] Connecting to MongoDB...');
+    await connectToDb();
+
+    // Stored plugin outcomes only count for plugins registered here (same VALIDATOR_PLUGINS as the API)
+    await loadValidatorPlugins();
+
+    const report = await rescoreProofEvents(options);
+
+    console.log(
+      `[rescore-proofs] Scanned ${report.scanned} proofs: ${report.rescored} re-scored, ` +
+        `${report.missingEvidence} without evidence, ${report.raised} raised, ${report.lowered} lowered`
+    );
+
+    if (report.flipped.length === 0) {
+      console.log('[rescore-proofs] ✅ No rewards would flip');
+    } else {
+      console.warn(
+        `[rescore-proofs] ⚠️  ${report.flipped.length} rewards would flip (${report.rewardAtRisk} STEP at risk)`
+      );
+      for (const proof of report.flipped.slice(0, 20)) {
+        console.warn(
+          `[rescore-proofs]   ${proof.timestamp} ${proof.eventId} ${proof.account} ${proof.reward} STEP: ` +
+            `${proof.before.confidence}/${proof.before.acceptanceThreshold} (${proof.before.policyVersion}) → ` +
+            `${proof.after.confidence}/${proof.after.acceptanceThreshold} (${proof.after.rules.join(', ') || 'no rules'})`
+        );
+      }
+      if (report.flipped.length > 20) {
+        console.warn(`[rescore-proofs]   ... ${report.flipped.length - 20} more (use --out for the full list)`);
+      }
+    }
+
+    if (out) {
+      writeFileSync(out, JSON.stringify(report, null, 2));
+      console.log(`[rescore-proofs] Report written to ${out}`);
+    }
+  } catch (error) {
+    console.error('[rescore-proofs] ❌ Error:', error);
+    throw error;
+  } finally {
+    await closeDb();
+    console.log('[rescore-proofs] Done');
+  }
+}
+
+/**
+ * Read the value following a flag.
+ */
+function flag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Run if called directly
+if (require.main === module) {
+  const args = process.argv.slice(2);
+
+  const policyFile = flag(args, '--policy') ?? process.env.CONFIDENCE_POLICY_FILE;
+  const since = flag(args, '--since');
+  const until = flag(args, '--until');
+  const limit = flag(args, '--limit');
+
+  const options: RescoreOptions = {
+    document: policyFile ? loadPolicyDocument(policyFile) : null,
+    since: since ? new Date(since) : undefined,
+    until: until ? new Date(until) : undefined,
+    account: flag(args, '--account'),
+    limit: limit ? parseInt(limit, 10) : undefined,
+  };
+
+  if (
+    (options.since && isNaN(options.since.getTime())) ||
+    (options.until && isNaN(options.until.getTime())) ||
+    (options.limit !== undefined && !(options.limit > 0))
+  ) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  rescoreProofs(options, flag(args, '--out'))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
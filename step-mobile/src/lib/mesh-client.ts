@@ -8,8 +8,15 @@
  */
 
 import { ApiResponse, Triangle, TriangleAtResponse } from '../types';
-import { ProofPayloadV2, ProofSubmissionResponseV2 } from '../types/proof-v2';
+import {
+  ProofPayloadV2,
+  ProofSubmissionResponseV2,
+  ProofChallengeResponse,
+  ProofPreflightResponse,
+  ProofBatchResponse,
+} from '../types/proof-v2';
 import CryptoJS from 'crypto-js';
+import { signMessage } from './wallet';
 import { triangleIdToPolygon, findTriangleContainingPoint, type TriangleId } from './icosahedron';
 
 // Configuration
@@ -263,6 +270,131 @@ export function buildSignableMessage(payload: ProofPayload): string {
   return message;
 }
 
+/**
+ * Request a proof challenge (server nonce) for the next proof.
+ * 
+ * The returned nonce must be used both as payload.nonce and as the
+ * attestation nonce (generateAttestationToken). It is single use and
+ * expires after ttlMs (default 2 minutes), so request it right before
+ * collecting proof data.
+ * 
+ * Offline challenges (offline = true) last hours instead of minutes and are
+ * only accepted in POST /proof/batch; ProofCollector keeps a few in stock
+ * for proofs made without coverage.
+ * 
+ * The request is signed with the wallet key (EIP-191), so only this
+ * wallet can use up its challenge limits.
+ * 
+ * Why no retries:
+ * - Each call issues a new challenge; the validator caps open challenges per account
+ * 
+ * @param account - Wallet address (0x-prefixed), must be the stored wallet
+ * @param offline - Request a long-lived challenge for an offline proof
+ * @returns Issued challenge
+ * @throws Error if the validator refuses or is unreachable
+ */
+export async function requestProofChallenge(account: string, offline = false): Promise<ProofChallengeResponse> {
+  const url = `${PRODUCTION_API_URL}/proof/challenge`;
+  
+  // Must match buildChallengeRequestMessage() on the validator
+  const timestamp = new Date().toISOString();
+  const message = `STEP-CHALLENGE-v1|account:${account.toLowerCase()}|offline:${offline}|ts:${timestamp}`;
+  const signature = await signMessage(message);
+  
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ account, offline, timestamp, signature }),
+  });
+  
+  const data = await response.json();
+  
+  if (!response.ok || !data.ok) {
+    console.error('[MeshClient] Proof challenge refused:', data.code, data.message);
+    throw new Error(data.message || `Proof challenge failed: ${response.status}`);
+  }
+  
+  console.log(`[MeshClient] Proof challenge issued, expires ${data.expiresAt}`);
+  return data as ProofChallengeResponse;
+}
+
+/**
+ * Dry-run a signed proof against the validator (POST /proof/preflight).
+ * 
+ * Runs every check /proof/submit runs and returns the real confidence
+ * breakdown with remediation hints. Nothing is written and the challenge
+ * stays unused, so the same payload and signature can be submitted after.
+ * 
+ * @param payload - Signed ProofPayloadV2
+ * @param signature - 65-byte hex signature (0x-prefixed)
+ * @returns Preflight result
+ * @throws Error if the request is malformed or the validator is unreachable
+ */
+export async function preflightProofV2(
+  payload: ProofPayloadV2,
+  signature: string
+): Promise<ProofPreflightResponse> {
+  const url = `${PRODUCTION_API_URL}/proof/preflight`;
+  
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      payload,
+      signature,
+    }),
+  });
+  
+  const data = await response.json();
+  
+  if (!response.ok || !data.ok) {
+    console.error('[MeshClient] Proof preflight failed:', data.code, data.message);
+    throw new Error(data.message || `Proof preflight failed: ${response.status}`);
+  }
+  
+  console.log(`[MeshClient] Preflight: ${data.wouldAccept ? 'would accept' : `would reject (${data.rejection?.code})`}, confidence ${data.confidence}/100`);
+  return data as ProofPreflightResponse;
+}
+
+/**
+ * Submit proofs collected offline (POST /proof/batch).
+ * 
+ * The validator evaluates the proofs oldest first and returns one result
+ * per item, in request order. Use ProofCollector.flushProofQueue() rather
+ * than calling this directly; it keeps the durable queue in sync.
+ * 
+ * @param proofs - Signed proofs (max 50 per request)
+ * @returns Per-item results
+ * @throws Error if the validator is unreachable or refuses the batch
+ */
+export async function submitProofBatch(
+  proofs: Array<{ payload: ProofPayloadV2; signature: string }>
+): Promise<ProofBatchResponse> {
+  const url = `${PRODUCTION_API_URL}/proof/batch`;
+  
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ proofs }),
+  });
+  
+  const data = await response.json();
+  
+  if (!response.ok || !data.ok) {
+    console.error('[MeshClient] Proof batch refused:', data.code, data.message);
+    throw new Error(data.message || `Proof batch failed: ${response.status}`);
+  }
+  
+  console.log(`[MeshClient] Proof batch: ${data.accepted} accepted, ${data.rejected} rejected`);
+  return data as ProofBatchResponse;
+}
+
 /**
  * Submit a location proof to the validator API (Phase 2.5 - ProofPayloadV2).
  * 
@@ -10,6 +10,9 @@
  * 3. GNSS Raw Data - Satellite measurements (Android only)
  * 4. Hardware Attestation - Play Integrity (Android) / DeviceCheck (iOS)
  * 
+ * Offline: proofs signed without coverage are queued durably and flushed
+ * through POST /proof/batch (see Offline Proof Queue below).
+ * 
  * Security Impact:
  * - Phase 2 (GPS only): 85/100 confidence score
  * - Phase 2.5 (multi-signal): 95-100/100 confidence score (Android), 85-90/100 (iOS)
@@ -24,12 +27,14 @@
 import { Platform } from 'react-native';
 import * as Device from 'expo-device';
 import * as Cellular from 'expo-cellular'; // Phase 2.5: Installed
-import * as Crypto from 'expo-crypto';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as MeshClient from './mesh-client';
 import {
   ProofPayloadV2,
   DeviceMetadata,
   CellTowerData,
   GnssData,
+  ProofBatchItemResult,
 } from '../types/proof-v2';
 
 /**
@@ -214,7 +219,7 @@ export async function collectGnssRawData(): Promise<GnssData | undefined> {
  * - iOS: Apple DeviceCheck / App Attest (base64 token)
  * 
  * How It Works:
- * - App generates nonce (random challenge)
+ * - App requests challenge from validator (POST /proof/challenge)
  * - Platform API signs nonce with device-specific key
  * - Backend verifies signature with Google/Apple API
  * - Backend confirms device is genuine and app is unmodified
@@ -230,7 +235,7 @@ export async function collectGnssRawData(): Promise<GnssData | undefined> {
  * - Google Play Console project needed (Android)
  * - Apple Developer account needed (iOS)
  * 
- * @param nonce - Random challenge for attestation (UUID v4)
+ * @param nonce - Server challenge from POST /proof/challenge
  * @returns Attestation token string or mock token for development
  */
 export async function generateAttestationToken(nonce: string): Promise<string> {
@@ -366,7 +371,7 @@ async function generateDeviceCheckToken(nonce: string): Promise<string> {
  * @param walletAddress - User's Ethereum-style address (0x...)
  * @param triangleId - STEP-TRI-v1 triangle identifier
  * @param location - GPS coordinates with accuracy
- * @param nonce - UUID v4 for replay protection
+ * @param nonce - Server challenge from POST /proof/challenge, or takeOfflineChallenge() without coverage
  * @returns Complete ProofPayloadV2 ready for signing
  */
 export async function buildProofPayloadV2(
@@ -430,7 +435,11 @@ export async function buildProofPayloadV2(
  * Get expected confidence score for current platform
  * 
  * What: Estimates confidence score based on available data sources
- * Why: Helps users understand expected security level
+ * Why: Helps users understand expected security level before collecting data
+ * 
+ * Rough guess only (assumes every check passes). For the score the
+ * validator would actually give a signed proof, use
+ * MeshClient.preflightProofV2().
  * 
  * Scoring Breakdown:
  * - Signature: 20 points
@@ -490,3 +499,204 @@ export function getPhase25Capabilities() {
     expectedScore: Platform.OS === 'android' ? '70-85' : '65-80', // Lower without full attestation
   };
 }
+
+/**
+ * Offline Proof Queue
+ * 
+ * What: Signed proofs collected without coverage, persisted in AsyncStorage
+ * Why: /proof/submit needs a live connection (and a server challenge);
+ *      queued proofs survive app restarts and are flushed through
+ *      POST /proof/batch once the validator is reachable
+ * 
+ * Rules (mirroring the validator, see step-blockchain core/validator/batch.ts):
+ * - Offline proofs carry an offline challenge fetched while online
+ *   (refillOfflineChallenges / takeOfflineChallenge); the validator
+ *   refuses client-generated nonces
+ * - Proofs older than 12h are dropped, the validator would reject them
+ * - Rejected proofs are dropped unless the validator marks them retryable
+ */
+
+const PROOF_QUEUE_KEY = 'step_proof_queue_v1';
+const PROOF_QUEUE_MAX_AGE_MS = 12 * 60 * 60 * 1000; // PROOF_BATCH_MAX_AGE_MS
+const PROOF_BATCH_SIZE = 50; // PROOF_BATCH_MAX_ITEMS
+const OFFLINE_CHALLENGE_KEY = 'step_offline_challenges_v1';
+const OFFLINE_CHALLENGE_STOCK = 10; // Below PROOF_OFFLINE_CHALLENGE_MAX_OUTSTANDING (20)
+
+/**
+ * An offline challenge kept for a proof made without coverage.
+ */
+interface StoredChallenge {
+  nonce: string;
+  account: string; // Lowercase
+  expiresAt: string; // ISO 8601
+}
+
+/**
+ * A signed proof waiting for coverage.
+ */
+export interface QueuedProof {
+  payload: ProofPayloadV2;
+  signature: string;
+  queuedAt: string; // ISO 8601
+}
+
+// Only one flush at a time (app start and successful mining may overlap)
+let flushing = false;
+
+/**
+ * Read stored offline challenges that are still valid for an account
+ */
+async function getOfflineChallenges(account: string): Promise<StoredChallenge[]> {
+  try {
+    const json = await AsyncStorage.getItem(OFFLINE_CHALLENGE_KEY);
+    const stored = json ? (JSON.parse(json) as StoredChallenge[]) : [];
+    const now = Date.now();
+    return stored.filter((c) => c.account === account.toLowerCase() && Date.parse(c.expiresAt) > now);
+  } catch (error) {
+    console.error('[ProofCollector] Failed to read offline challenges:', error);
+    return [];
+  }
+}
+
+/**
+ * Top up the stock of offline challenges (call while online)
+ * 
+ * What: Requests offline challenges until OFFLINE_CHALLENGE_STOCK are stored
+ * Why: Without coverage the app cannot reach POST /proof/challenge, and the
+ *      validator only accepts batch proofs bound to a challenge it issued
+ * 
+ * @param account - Wallet address
+ * @returns Number of stored challenges
+ */
+export async function refillOfflineChallenges(account: string): Promise<number> {
+  const stock = await getOfflineChallenges(account);
+  
+  try {
+    while (stock.length < OFFLINE_CHALLENGE_STOCK) {
+      const challenge = await MeshClient.requestProofChallenge(account, true);
+      stock.push({ nonce: challenge.nonce, account: challenge.account, expiresAt: challenge.expiresAt });
+    }
+  } catch (error) {
+    // Validator limit reached or connection lost: keep what we have
+    console.warn('[ProofCollector] Offline challenge refill stopped:', error);
+  }
+  
+  await AsyncStorage.setItem(OFFLINE_CHALLENGE_KEY, JSON.stringify(stock));
+  return stock.length;
+}
+
+/**
+ * Take an offline challenge for a proof made without coverage
+ * 
+ * What: Removes and returns the stored challenge that expires first
+ * Why: Each challenge is single use; the soonest to expire is the one
+ *      most likely to go to waste
+ * 
+ * @param account - Wallet address
+ * @returns Challenge nonce, or null if none is left
+ */
+export async function takeOfflineChallenge(account: string): Promise<string | null> {
+  const stock = (await getOfflineChallenges(account))
+    .sort((a, b) => Date.parse(a.expiresAt) - Date.parse(b.expiresAt));
+  const next = stock.shift();
+  await AsyncStorage.setItem(OFFLINE_CHALLENGE_KEY, JSON.stringify(stock));
+  return next ? next.nonce : null;
+}
+
+/**
+ * Read the offline proof queue
+ * 
+ * @returns Queued proofs, oldest first
+ */
+export async function getQueuedProofs(): Promise<QueuedProof[]> {
+  try {
+    const json = await AsyncStorage.getItem(PROOF_QUEUE_KEY);
+    return json ? (JSON.parse(json) as QueuedProof[]) : [];
+  } catch (error) {
+    console.error('[ProofCollector] Failed to read proof queue:', error);
+    return [];
+  }
+}
+
+/**
+ * Add a signed proof to the offline queue
+ * 
+ * @param payload - Signed ProofPayloadV2 (nonce from takeOfflineChallenge)
+ * @param signature - 65-byte hex signature (0x-prefixed)
+ * @returns Number of queued proofs
+ */
+export async function enqueueProof(payload: ProofPayloadV2, signature: string): Promise<number> {
+  const queue = await getQueuedProofs();
+  queue.push({ payload, signature, queuedAt: new Date().toISOString() });
+  queue.sort((a, b) => Date.parse(a.payload.timestamp) - Date.parse(b.payload.timestamp));
+  await AsyncStorage.setItem(PROOF_QUEUE_KEY, JSON.stringify(queue));
+  
+  console.log(`[ProofCollector] Proof queued offline (${queue.length} waiting)`);
+  return queue.length;
+}
+
+/**
+ * Submit queued proofs through POST /proof/batch
+ * 
+ * What: Sends the queue in batches (oldest first) and removes every proof
+ *       with a final result; retryable rejections stay queued
+ * Why: Network errors leave the queue untouched, so nothing is lost
+ * 
+ * @returns Accepted/rejected results, or null if nothing was sent
+ * @throws Error if the validator is unreachable (queue unchanged)
+ */
+export async function flushProofQueue(): Promise<{
+  accepted: ProofBatchItemResult[];
+  rejected: ProofBatchItemResult[];
+  remaining: number;
+} | null> {
+  if (flushing) {
+    return null;
+  }
+  
+  flushing = true;
+  try {
+    const cutoff = Date.now() - PROOF_QUEUE_MAX_AGE_MS;
+    const fresh = (await getQueuedProofs()).filter((q) => Date.parse(q.payload.timestamp) >= cutoff);
+    
+    if (fresh.length === 0) {
+      await AsyncStorage.setItem(PROOF_QUEUE_KEY, JSON.stringify([]));
+      return null;
+    }
+    
+    const accepted: ProofBatchItemResult[] = [];
+    const rejected: ProofBatchItemResult[] = [];
+    const done = new Set<string>(); // Nonces with a final result
+    
+    for (let i = 0; i < fresh.length; i += PROOF_BATCH_SIZE) {
+      const chunk = fresh.slice(i, i + PROOF_BATCH_SIZE);
+      const response = await MeshClient.submitProofBatch(
+        chunk.map((q) => ({ payload: q.payload, signature: q.signature }))
+      );
+      
+      for (const result of response.results) {
+        const nonce = chunk[result.index].payload.nonce;
+        if (result.ok) {
+          accepted.push(result);
+          done.add(nonce);
+        } else {
+          rejected.push(result);
+          if (!result.retryable) {
+            done.add(nonce);
+          }
+        }
+      }
+    }
+    
+    // Re-read: proofs may have been queued while the batch was in flight
+    const remaining = (await getQueuedProofs()).filter(
+      (q) => !done.has(q.payload.nonce) && Date.parse(q.payload.timestamp) >= cutoff
+    );
+    await AsyncStorage.setItem(PROOF_QUEUE_KEY, JSON.stringify(remaining));
+    
+    console.log(`[ProofCollector] Proof queue flushed: ${accepted.length} accepted, ${rejected.length} rejected, ${remaining.length} remaining`);
+    return { accepted, rejected, remaining: remaining.length };
+  } finally {
+    flushing = false;
+  }
+}
@@ -24,7 +24,7 @@ import * as MeshClient from '../lib/mesh-client';
 import * as WalletLib from '../lib/wallet';
 import * as ProofCollector from '../lib/proof-collector';
 import { Triangle, Wallet } from '../types';
-import { ProofSubmissionResponseV2 } from '../types/proof-v2';
+import { ProofSubmissionResponseV2, ProofPreflightResponse } from '../types/proof-v2';
 import RawEarthMesh3D from '../components/earth/RawEarthMesh3D';
 
 export default function MapScreen() {
@@ -85,6 +85,9 @@ export default function MapScreen() {
       await updateLocation();
 
       setLoading(false);
+
+      // 4. Submit proofs queued while offline (best effort)
+      flushOfflineProofs();
     } catch (error) {
       console.error('Error initializing app:', error);
       setLoading(false);
@@ -125,15 +128,47 @@ export default function MapScreen() {
     }
   };
 
+  /**
+   * Submit proofs queued while offline and tell the user the outcome.
+   * Failures are silent: the queue stays intact and is retried later.
+   */
+  const flushOfflineProofs = async () => {
+    try {
+      const outcome = await ProofCollector.flushProofQueue();
+      if (!outcome || (outcome.accepted.length === 0 && outcome.rejected.length === 0)) {
+        return;
+      }
+
+      const earned = outcome.accepted.reduce((sum, r) => sum + parseFloat(r.reward || '0'), 0);
+      Alert.alert(
+        '📡 Offline Proofs Submitted',
+        [
+          `Accepted: ${outcome.accepted.length} (+${earned.toFixed(6)} STEP)`,
+          `Rejected: ${outcome.rejected.length}`,
+          ...outcome.rejected.map(r => `  • ${getErrorMessage(r.code || '', r.message || '')}`),
+          outcome.remaining > 0 ? `\nStill queued: ${outcome.remaining}` : '',
+        ].join('\n')
+      );
+
+      if (outcome.accepted.length > 0 && refetchActiveFnRef.current) {
+        refetchActiveFnRef.current();
+      }
+    } catch (error) {
+      console.warn('[MapScreen] Offline proof flush failed, will retry later:', error);
+    }
+  };
+
   /**
    * Mine button handler (Phase 2.5 with ProofPayloadV2):
    * 1. Validate location accuracy
-   * 2. Generate nonce for replay protection
+   * 2. Request server challenge (nonce, also binds the attestation token);
+   *    without coverage, use a stored offline challenge and queue the proof instead
    * 3. Collect all proof data (device, cell, GNSS, attestation)
    * 4. Build ProofPayloadV2 with enhanced anti-spoofing data
    * 5. Sign entire payload with EIP-191
-   * 6. Submit to validator API
-   * 7. Display reward and confidence score breakdown
+   * 6. Preflight: dry run on the validator, stop with hints if it would be rejected
+   * 7. Submit to validator API
+   * 8. Display reward and confidence score breakdown
    */
   const handleMine = async () => {
     if (!currentLocation || !currentTriangle || !wallet) {
@@ -152,9 +187,29 @@ export default function MapScreen() {
     try {
       setMining(true);
 
-      // Generate nonce (UUID v4) for replay protection
-      // Each proof must have unique nonce, even for same location/triangle
-      const nonce = generateUuid();
+      // Request a server challenge: single-use, short-lived nonce bound to this account
+      // Used as payload.nonce and as the attestation nonce (generateAttestationToken)
+      // Offline: stored offline challenge, proof goes to the durable queue (POST /proof/batch later)
+      const online = await MeshClient.healthCheck();
+      const nonce = online
+        ? (await MeshClient.requestProofChallenge(wallet.address)).nonce
+        : await ProofCollector.takeOfflineChallenge(wallet.address);
+      
+      if (!nonce) {
+        Alert.alert(
+          'No Connection',
+          'Offline mining needs challenges fetched while online. Connect once to enable it.'
+        );
+        setMining(false);
+        return;
+      }
+      
+      // Keep offline challenges in stock for the next time coverage drops
+      if (online) {
+        ProofCollector.refillOfflineChallenges(wallet.address).catch((error) =>
+          console.warn('[MapScreen] Offline challenge refill failed:', error)
+        );
+      }
       
       console.log('[MapScreen] Building ProofPayloadV2 with enhanced anti-spoofing data...');
       
@@ -187,6 +242,51 @@ export default function MapScreen() {
       const signature = await WalletLib.signMessage(message);
       console.log('[MapScreen] Signature:', signature.substring(0, 20) + '...');
 
+      if (!online) {
+        const queued = await ProofCollector.enqueueProof(payloadV2, signature);
+        Alert.alert(
+          '📥 Saved Offline',
+          `No connection to the validator. Your proof is saved and will be submitted automatically when you are back online (${queued} waiting, kept up to 12h).`
+        );
+        setMining(false);
+        return;
+      }
+
+      // Preflight: same checks as submit, nothing consumed (challenge stays valid)
+      // A failed preflight request is not fatal; submit reports the same errors
+      let preflight: ProofPreflightResponse | null = null;
+      try {
+        preflight = await MeshClient.preflightProofV2(payloadV2, signature);
+      } catch (error) {
+        console.warn('[MapScreen] Preflight unavailable, submitting directly:', error);
+      }
+      
+      if (preflight && !preflight.wouldAccept) {
+        setMiningResult('failure');
+        setTimeout(() => setMiningResult(null), 300); // Clear after flash duration
+        
+        const code = preflight.rejection?.code || 'LOW_CONFIDENCE';
+        const hints = [
+          ...preflight.hints.checks.map(h => h.hint),
+          ...preflight.hints.components.map(h => `${h.hint} (+${h.missingPoints})`),
+        ];
+        
+        Alert.alert(
+          '⚠️ Proof Would Be Rejected',
+          [
+            getErrorMessage(code, preflight.rejection?.message || ''),
+            '',
+            `Confidence: ${preflight.confidence}/100 (${preflight.confidenceLevel})`,
+            '',
+            'How to improve:',
+            ...(hints.length > 0 ? hints : ['No specific hints available']).map(h => `  • ${h}`),
+          ].join('\n'),
+          [{ text: 'OK' }]
+        );
+        setMining(false);
+        return;
+      }
+
       // Submit proof to validator (Phase 2.5 endpoint with confidence scoring)
       console.log('[MapScreen] Submitting to Phase 2.5 validator...');
       const result = await MeshClient.submitProofV2(payloadV2, signature);
@@ -232,6 +332,9 @@ export default function MapScreen() {
           console.log('[MapScreen] Refetching active triangles after successful mining');
           refetchActiveFnRef.current();
         }
+
+        // Back online: submit anything queued earlier
+        flushOfflineProofs();
       } else {
         // Phase 5: Trigger failure flash feedback
         setMiningResult('failure');
@@ -262,20 +365,6 @@ export default function MapScreen() {
     }
   };
   
-  /**
-   * Generate UUID v4 for nonce.
-   * 
-   * Simple implementation using crypto random values.
-   * Format: xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx
-   */
-  const generateUuid = (): string => {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-      const r = Math.random() * 16 | 0;
-      const v = c === 'x' ? r : (r & 0x3 | 0x8);
-      return v.toString(16);
-    });
-  };
-  
   /**
    * Get user-friendly error message for error codes.
    * 
@@ -293,6 +382,26 @@ export default function MapScreen() {
         return 'Please wait at least 10 seconds between mining attempts.';
       case 'NONCE_REPLAY':
         return 'This proof was already submitted. Please try again.';
+      case 'CHALLENGE_EXPIRED':
+      case 'CHALLENGE_USED':
+      case 'INVALID_CHALLENGE':
+        return 'Proof challenge expired or was already used. Please tap Mine again.';
+      case 'TRIANGLE_PENDING':
+        return 'This triangle is not mineable yet (new triangles open after 7 days).';
+      case 'TRIANGLE_COOLDOWN':
+        return 'This triangle was mined recently. Please wait and try again later.';
+      case 'TRIANGLE_SUBDIVIDED':
+        return 'This triangle has subdivided. Refresh your location to mine a smaller triangle.';
+      case 'TRIANGLE_EXHAUSTED':
+        return 'This triangle is fully mined.';
+      case 'TRIANGLE_NOT_OPEN':
+        return 'This triangle is not open yet. Its larger parent triangle must be mined first.';
+      case 'INVALID_TRIANGLE_ID':
+        return 'Invalid triangle. Refresh your location and try again.';
+      case 'PROOF_TOO_OLD':
+        return 'This offline proof is older than 72 hours and can no longer be submitted.';
+      case 'PROOF_IN_FUTURE':
+        return 'Proof time is ahead of the server. Check your device clock.';
       case 'BAD_SIGNATURE':
         return 'Signature verification failed. Please restart the app and try again.';
       case 'NETWORK_ERROR':
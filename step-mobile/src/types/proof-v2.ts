@@ -160,9 +160,9 @@ export interface ProofPayloadV2 {
   timestamp: string;
   
   /** 
-   * Unique nonce for replay protection (UUID v4)
-   * Format: xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx
-   * Why: Prevents resubmission of same proof (compound unique index with account)
+   * Server-issued challenge from POST /proof/challenge
+   * Format: 64 hex chars
+   * Why: Single use and short-lived; also the nonce the attestation token is bound to
    */
   nonce: string;
 }
@@ -192,6 +192,12 @@ export interface ConfidenceScores {
   wifi: number;
   /** Witness verification (0-10, future) */
   witness: number;
+  /** Trajectory anomaly penalty (-20-0, account proof history) */
+  trajectory?: number;
+  /** Sensor replay penalty (-30-0, GNSS / cell snapshot reused from an earlier proof) */
+  sensorReplay?: number;
+  /** Points per server-side validator plugin, keyed by plugin name */
+  plugins?: Record<string, number>;
   /** Total confidence score (sum of all, max 100) */
   total: number;
 }
@@ -255,9 +261,149 @@ export interface ProofSubmissionResponseV2 {
    */
   reasons?: string[];
   
+  /** Confidence policy version and rule IDs the score was computed with */
+  policy?: { version: string; rules: string[] };
+  
+  /** Reward throttle applied because the account is in a suspected sybil cluster */
+  throttle?: { clusterId: string; status: 'suspected' | 'confirmed'; multiplier: number };
+  
   /** 
    * Processed timestamp (ISO 8601 with milliseconds UTC)
    * Format: YYYY-MM-DDTHH:MM:SS.sssZ
    */
   processedAt?: string;
 }
+
+/**
+ * ProofChallengeResponse - Server Challenge for the Next Proof
+ * 
+ * What: Response from POST /proof/challenge
+ * Why:
+ * - Validator only accepts nonces it issued (no precomputed or held-back proofs)
+ * - Same nonce is passed to generateAttestationToken() so the token is fresh
+ */
+export interface ProofChallengeResponse {
+  /** True if a challenge was issued */
+  ok: boolean;
+  
+  /** Challenge nonce (64 hex chars), use as payload.nonce */
+  nonce: string;
+  
+  /** Account the challenge is bound to (lowercase) */
+  account: string;
+  
+  /** Issue time (ISO 8601 UTC) */
+  issuedAt: string;
+  
+  /** Expiry time (ISO 8601 UTC); submit the proof before this */
+  expiresAt: string;
+  
+  /** Challenge lifetime in milliseconds */
+  ttlMs: number;
+  
+  /** Offline challenge: only accepted in POST /proof/batch */
+  offline?: boolean;
+}
+
+/**
+ * ProofPreflightResponse - Dry Run of a Signed Proof
+ * 
+ * What: Response from POST /proof/preflight (same body as /proof/submit)
+ * Why:
+ * - Runs every validator check and the real confidence scoring without
+ *   consuming the challenge, so the same signed proof can be submitted next
+ * - Replaces the local estimateConfidenceScore() guess with server scores
+ */
+export interface ProofPreflightResponse {
+  /** True if the request could be evaluated (false: malformed request) */
+  ok: boolean;
+  
+  /** True if /proof/submit would accept this proof right now */
+  wouldAccept: boolean;
+  
+  /** Error /proof/submit would return (first failed check), null if accepted */
+  rejection: { status: number; code: string; message: string } | null;
+  
+  /** Outcome of each hard check (signature, challenge, triangle, lifecycle, ...) */
+  checks: Array<{
+    check: string;
+    ok: boolean;
+    code?: string;
+    message?: string;
+    details?: Record<string, unknown>;
+  }>;
+  
+  /** Confidence score (0-100) the validator computed */
+  confidence: number;
+  
+  /** Human-readable confidence level */
+  confidenceLevel: string;
+  
+  /** Individual score breakdown */
+  scores: ConfidenceScores;
+  
+  /** Rejection reasons for missing components (getRejectionReasons) */
+  reasons: string[];
+  
+  /** What to change before submitting */
+  hints: {
+    /** Failed hard checks (retryAt / ancestorId included when relevant) */
+    checks: Array<{ check: string; code: string; hint: string; retryAt?: string; ancestorId?: string }>;
+    /** Missing confidence components, most points first */
+    components: Array<{ component: string; missingPoints: number; hint: string }>;
+  };
+  
+  /** Confidence policy for this location (threshold may differ from the default 70) */
+  policy?: { version: string; rules: string[]; acceptanceThreshold: number; requireAttestation: boolean };
+  
+  /** Triangle the proof would credit */
+  triangleId?: string;
+  
+  /** Error message if ok=false */
+  message?: string;
+}
+
+/**
+ * ProofBatchItemResult - Outcome of One Queued Proof
+ * 
+ * What: Per-item result from POST /proof/batch (request order)
+ * Why: Queue keeps only items worth retrying (retryable=true)
+ */
+export interface ProofBatchItemResult {
+  /** Position in the submitted batch */
+  index: number;
+  
+  /** True if the proof was accepted and rewarded */
+  ok: boolean;
+  
+  /** payload.nonce of the item (matches the queue entry) */
+  nonce?: string;
+  
+  /** Credited triangle, level, clicks, reward and balance (accepted items) */
+  triangleId?: string;
+  level?: number;
+  clicks?: number;
+  reward?: string;
+  balance?: string;
+  confidence?: number;
+  
+  /** Error code and message (rejected items) */
+  code?: string;
+  message?: string;
+  
+  /** True if the same proof may be accepted later (time-locked triangle, server error) */
+  retryable?: boolean;
+}
+
+/**
+ * ProofBatchResponse - Offline Batch Submission Result
+ * 
+ * What: Response from POST /proof/batch
+ * Why: Proofs collected without coverage are flushed in one request
+ */
+export interface ProofBatchResponse {
+  ok: boolean;
+  accepted: number;
+  rejected: number;
+  results: ProofBatchItemResult[];
+}